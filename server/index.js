@@ -4,6 +4,18 @@ import dotenv from 'dotenv';
 import mysql from 'mysql2/promise';
 import authRoutes from './routes/auth.js';
 import userRoutes from './routes/users.js';
+import productRoutes from './routes/products.js';
+import saleRoutes from './routes/sales.js';
+import reportRoutes from './routes/reports.js';
+import storeRoutes from './routes/store.js';
+import customerRoutes from './routes/customers.js';
+import supplierRoutes from './routes/suppliers.js';
+import purchaseOrderRoutes from './routes/purchaseOrders.js';
+import stockCountRoutes from './routes/stockCounts.js';
+import locationRoutes from './routes/locations.js';
+import stockTransferRoutes from './routes/stockTransfers.js';
+import serialRoutes from './routes/serials.js';
+import categoryRoutes from './routes/categories.js';
 
 dotenv.config();
 
@@ -11,7 +23,8 @@ const app = express();
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Product images are sent inline as base64 data URLs
+app.use(express.json({ limit: '5mb' }));
 
 // Database connection
 const pool = mysql.createPool({
@@ -30,6 +43,18 @@ app.locals.db = pool;
 // Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/products', productRoutes);
+app.use('/api/sales', saleRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/store', storeRoutes);
+app.use('/api/customers', customerRoutes);
+app.use('/api/suppliers', supplierRoutes);
+app.use('/api/purchase-orders', purchaseOrderRoutes);
+app.use('/api/stock-counts', stockCountRoutes);
+app.use('/api/locations', locationRoutes);
+app.use('/api/stock-transfers', stockTransferRoutes);
+app.use('/api/serials', serialRoutes);
+app.use('/api/categories', categoryRoutes);
 
 // Error handling middleware
 app.use((err, req, res, next) => {
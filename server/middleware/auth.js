@@ -1,6 +1,8 @@
 import jwt from 'jsonwebtoken';
 
-export const authenticateToken = (req, res, next) => {
+// The token only proves who the user is; their role and whether they are still active are read
+// fresh on each request, so deactivating or demoting a user takes effect straight away
+export const authenticateToken = async (req, res, next) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
@@ -8,11 +10,63 @@ export const authenticateToken = (req, res, next) => {
     return res.status(401).json({ message: 'Access denied' });
   }
 
+  let payload;
   try {
-    const user = jwt.verify(token, process.env.JWT_SECRET);
-    req.user = user;
+    payload = jwt.verify(token, process.env.JWT_SECRET);
+  } catch (error) {
+    // 401 so the client refreshes its session; 403 is kept for permission denials
+    return res.status(401).json({ message: 'Invalid token' });
+  }
+
+  try {
+    const db = req.app.locals.db;
+    const [[user]] = await db.query('SELECT id, email, role, is_active FROM users WHERE id = ?', [payload.id]);
+
+    if (!user || !user.is_active) {
+      return res.status(401).json({ message: 'This account has been deactivated' });
+    }
+
+    req.user = { id: user.id, email: user.email, role: user.role };
     next();
   } catch (error) {
-    res.status(403).json({ message: 'Invalid token' });
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
   }
-};
\ No newline at end of file
+};
+
+// Roles allowed to perform each action
+export const PERMISSIONS = {
+  'products:read': ['admin', 'employee'],
+  'products:write': ['admin', 'employee'],
+  'products:delete': ['admin'],
+  'sales:read': ['admin', 'employee'],
+  'sales:create': ['admin', 'employee'],
+  'sales:return': ['admin', 'employee'],
+  'customers:read': ['admin', 'employee'],
+  'customers:write': ['admin', 'employee'],
+  'customers:delete': ['admin'],
+  'purchases:read': ['admin', 'employee'],
+  'purchases:write': ['admin', 'employee'],
+  'purchases:delete': ['admin'],
+  'suppliers:bills': ['admin'],
+  'stock:count': ['admin', 'employee'],
+  'stock:approve': ['admin'],
+  'stock:transfer': ['admin', 'employee'],
+  'locations:manage': ['admin'],
+  'categories:manage': ['admin'],
+  'reports:read': ['admin', 'employee'],
+  'profile:manage': ['admin', 'employee'],
+  'store:read': ['admin', 'employee'],
+  'store:manage': ['admin'],
+  'users:manage': ['admin']
+};
+
+// Must run after authenticateToken
+export const requireRole = (...roles) => (req, res, next) => {
+  if (!req.user || !roles.includes(req.user.role)) {
+    return res.status(403).json({ message: 'You do not have permission to perform this action' });
+  }
+  next();
+};
+
+export const requirePermission = (permission) => requireRole(...PERMISSIONS[permission]);
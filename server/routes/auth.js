@@ -1,10 +1,79 @@
 import express from 'express';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
+import bcrypt from 'bcryptjs';
 import { OAuth2Client } from 'google-auth-library';
 
 const router = express.Router();
 const client = new OAuth2Client(process.env.GOOGLE_CLIENT_ID);
 
+const REFRESH_TOKEN_TTL_DAYS = 30;
+
+// Sign a short-lived access token for a users row
+const issueToken = (user) => jwt.sign(
+  { id: user.id, email: user.email, role: user.role },
+  process.env.JWT_SECRET,
+  { expiresIn: process.env.ACCESS_TOKEN_TTL || '15m' }
+);
+
+// Only a hash of each refresh token is stored, so a leaked table cannot be replayed
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Store a new refresh token for the user and return its plain value
+const issueRefreshToken = async (db, userId) => {
+  const refreshToken = crypto.randomBytes(48).toString('hex');
+
+  await db.query(
+    `INSERT INTO refresh_tokens (token_hash, user_id, expires_at)
+     VALUES (?, ?, DATE_ADD(NOW(), INTERVAL ? DAY))`,
+    [hashToken(refreshToken), userId, REFRESH_TOKEN_TTL_DAYS]
+  );
+
+  return refreshToken;
+};
+
+// Email/password login route
+router.post('/login', async (req, res) => {
+  try {
+    const { email, password } = req.body;
+
+    if (!email || !password) {
+      return res.status(400).json({ message: 'Email and password are required' });
+    }
+
+    const db = req.app.locals.db;
+    const [users] = await db.query('SELECT * FROM users WHERE email = ?', [email]);
+    const user = users[0];
+
+    // Accounts created through Google sign-in have no password to compare against
+    const valid = user && user.password && await bcrypt.compare(password, user.password);
+    if (!valid) {
+      return res.status(401).json({ message: 'Invalid email or password' });
+    }
+
+    if (!user.is_active) {
+      return res.status(403).json({ message: 'This account has been deactivated' });
+    }
+
+    res.json({
+      token: issueToken(user),
+      refreshToken: await issueRefreshToken(db, user.id),
+      user: {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        phone: user.phone || undefined,
+        role: user.role,
+        locationId: user.location_id || undefined,
+        avatar: user.avatar_url || undefined
+      }
+    });
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({ message: 'Authentication failed' });
+  }
+});
+
 // Google login route
 router.post('/google-login', async (req, res) => {
   try {
@@ -24,28 +93,31 @@ router.post('/google-login', async (req, res) => {
     if (!user) {
       // Create new user
       const result = await db.query(
-        'INSERT INTO users (id, name, email, role) VALUES (UUID(), ?, ?, "user")',
+        'INSERT INTO users (id, name, email, role) VALUES (UUID(), ?, ?, "employee")',
         [name, email]
       );
       [users] = await db.query('SELECT * FROM users WHERE email = ?', [email]);
       user = users[0];
     }
 
+    if (!user.is_active) {
+      return res.status(403).json({ message: 'This account has been deactivated' });
+    }
+
     // Generate JWT token
-    const jwtToken = jwt.sign(
-      { id: user.id, email: user.email, role: user.role },
-      process.env.JWT_SECRET,
-      { expiresIn: '24h' }
-    );
+    const jwtToken = issueToken(user);
 
     res.json({
       token: jwtToken,
+      refreshToken: await issueRefreshToken(db, user.id),
       user: {
         id: user.id,
         name: user.name,
         email: user.email,
+        phone: user.phone || undefined,
         role: user.role,
-        avatar: picture
+        locationId: user.location_id || undefined,
+        avatar: user.avatar_url || picture
       }
     });
   } catch (error) {
@@ -54,4 +126,82 @@ router.post('/google-login', async (req, res) => {
   }
 });
 
+// Exchange a refresh token for a new access token, rotating the refresh token
+router.post('/refresh', async (req, res) => {
+  const { refreshToken } = req.body;
+
+  if (!refreshToken) {
+    return res.status(400).json({ message: 'Refresh token is required' });
+  }
+
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    await connection.beginTransaction();
+
+    // Lock the token row so two concurrent refreshes cannot both rotate it
+    const [tokens] = await connection.query(
+      `SELECT * FROM refresh_tokens
+       WHERE token_hash = ? AND revoked_at IS NULL AND expires_at > NOW()
+       FOR UPDATE`,
+      [hashToken(refreshToken)]
+    );
+    const storedToken = tokens[0];
+
+    if (!storedToken) {
+      await connection.rollback();
+      return res.status(401).json({ message: 'Invalid refresh token' });
+    }
+
+    const [users] = await connection.query('SELECT * FROM users WHERE id = ?', [storedToken.user_id]);
+    const user = users[0];
+
+    if (!user || !user.is_active) {
+      await connection.rollback();
+      return res.status(401).json({ message: 'Invalid refresh token' });
+    }
+
+    await connection.query(
+      'UPDATE refresh_tokens SET revoked_at = NOW() WHERE id = ?',
+      [storedToken.id]
+    );
+    const newRefreshToken = await issueRefreshToken(connection, user.id);
+
+    await connection.commit();
+
+    res.json({
+      token: issueToken(user),
+      refreshToken: newRefreshToken
+    });
+  } catch (error) {
+    await connection?.rollback();
+    console.error('Token refresh error:', error);
+    res.status(500).json({ message: 'Authentication failed' });
+  } finally {
+    connection?.release();
+  }
+});
+
+// Revoke a refresh token
+router.post('/logout', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (refreshToken) {
+      const db = req.app.locals.db;
+      await db.query(
+        'UPDATE refresh_tokens SET revoked_at = NOW() WHERE token_hash = ? AND revoked_at IS NULL',
+        [hashToken(refreshToken)]
+      );
+    }
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,169 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { getStoreSettings } from '../utils/store.js';
+import { fetchCategoryIds, toCategory } from '../utils/categories.js';
+
+const router = express.Router();
+
+// Same rules as CategoryForm.validateForm; the GST rate must be one the store charges
+const validateCategory = (data, taxRates) => {
+  const errors = {};
+
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    errors.name = 'Name is required';
+  } else if (data.name.trim().length > 100) {
+    errors.name = 'Name must be at most 100 characters';
+  }
+
+  if (data.parentId != null && typeof data.parentId !== 'string') {
+    errors.parentId = 'Invalid parent category';
+  }
+
+  if (data.gstRate != null && (typeof data.gstRate !== 'number' || !taxRates.includes(data.gstRate))) {
+    errors.gstRate = 'GST rate must be one of the store tax rates';
+  }
+
+  if (data.threshold != null && (!Number.isInteger(data.threshold) || data.threshold < 0)) {
+    errors.threshold = 'Threshold cannot be negative';
+  }
+
+  return errors;
+};
+
+// List categories by name; the frontend nests them under their parents
+router.get('/', authenticateToken, requirePermission('products:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [rows] = await db.query('SELECT * FROM categories ORDER BY name');
+
+    res.json(rows.map(toCategory));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create or update a category; it can be moved under any category that is not inside it
+const saveCategory = async (req, res, categoryId) => {
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    const { taxRates } = await getStoreSettings(connection);
+    const errors = validateCategory(req.body, taxRates);
+    if (Object.keys(errors).length) {
+      return res.status(400).json({ message: 'Validation failed', errors });
+    }
+
+    const { name, gstRate, threshold } = req.body;
+    const parentId = req.body.parentId || null;
+    let id = categoryId;
+
+    await connection.beginTransaction();
+
+    if (id) {
+      const [[existing]] = await connection.query('SELECT id FROM categories WHERE id = ? FOR UPDATE', [id]);
+      if (!existing) {
+        await connection.rollback();
+        return res.status(404).json({ message: 'Category not found' });
+      }
+    }
+
+    if (parentId) {
+      const [[parent]] = await connection.query('SELECT id FROM categories WHERE id = ?', [parentId]);
+      const inside = id ? await fetchCategoryIds(connection, id) : [];
+      if (!parent || inside.includes(parentId)) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { parentId: parent ? 'A category cannot be moved inside itself' : 'Parent category not found' }
+        });
+      }
+    }
+
+    // The unique key lets top-level categories share a name, so siblings are checked here
+    const [[sibling]] = await connection.query(
+      'SELECT id FROM categories WHERE name = ? AND parent_id <=> ? AND id <> ?',
+      [name.trim(), parentId, id || '']
+    );
+    if (sibling) {
+      await connection.rollback();
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { name: 'A category with this name already exists here' }
+      });
+    }
+
+    if (id) {
+      await connection.query(
+        'UPDATE categories SET name = ?, parent_id = ?, gst_rate = ?, threshold = ? WHERE id = ?',
+        [name.trim(), parentId, gstRate ?? null, threshold ?? null, id]
+      );
+    } else {
+      [[{ id }]] = await connection.query('SELECT UUID() AS id');
+      await connection.query(
+        'INSERT INTO categories (id, name, parent_id, gst_rate, threshold) VALUES (?, ?, ?, ?, ?)',
+        [id, name.trim(), parentId, gstRate ?? null, threshold ?? null]
+      );
+    }
+
+    const [[row]] = await connection.query('SELECT * FROM categories WHERE id = ?', [id]);
+    await connection.commit();
+
+    res.status(categoryId ? 200 : 201).json(toCategory(row));
+  } catch (error) {
+    await connection?.rollback();
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { name: 'A category with this name already exists here' }
+      });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+};
+
+// Create category
+router.post('/', authenticateToken, requirePermission('categories:manage'), (req, res) => saveCategory(req, res, null));
+
+// Update category
+router.put('/:id', authenticateToken, requirePermission('categories:manage'), (req, res) => saveCategory(req, res, req.params.id));
+
+// Delete a category that has no products or subcategories
+router.delete('/:id', authenticateToken, requirePermission('categories:manage'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [[category]] = await db.query(
+      `SELECT (SELECT COUNT(*) FROM categories WHERE parent_id = c.id) AS subcategories,
+              (SELECT COUNT(*) FROM products WHERE category_id = c.id) AS products
+       FROM categories c
+       WHERE c.id = ?`,
+      [req.params.id]
+    );
+    if (!category) {
+      return res.status(404).json({ message: 'Category not found' });
+    }
+    if (category.subcategories > 0) {
+      return res.status(409).json({ message: 'Category has subcategories; move or delete them first' });
+    }
+    if (category.products > 0) {
+      return res.status(409).json({ message: 'Category has products; move them to another category first' });
+    }
+
+    await db.query('DELETE FROM categories WHERE id = ?', [req.params.id]);
+
+    res.json({ message: 'Category deleted successfully' });
+  } catch (error) {
+    if (error.code === 'ER_ROW_IS_REFERENCED_2') {
+      return res.status(409).json({ message: 'Category is still in use and cannot be deleted' });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,252 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { GSTIN_PATTERN, roundMoney } from '../utils/gst.js';
+import { PAYMENT_METHODS } from '../utils/payments.js';
+import { getOutstandingBalance, toCustomer } from '../utils/customers.js';
+
+const router = express.Router();
+
+// Map a customer_payments row to the CustomerPayment shape used by the frontend
+const toCustomerPayment = (row) => ({
+  id: row.id,
+  customerId: row.customer_id,
+  amount: Number(row.amount),
+  method: row.method,
+  reference: row.reference || undefined,
+  notes: row.notes || undefined,
+  date: row.created_at
+});
+
+// Same rules as CustomerForm.validateForm
+const validateCustomer = (data) => {
+  const errors = {};
+
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    errors.name = 'Name is required';
+  }
+
+  if (typeof data.phone !== 'string' || !data.phone.trim()) {
+    errors.phone = 'Phone number is required';
+  } else if (!/^\d{10}$/.test(data.phone)) {
+    errors.phone = 'Phone number must be 10 digits';
+  }
+
+  if (data.email && !/\S+@\S+\.\S+/.test(data.email)) {
+    errors.email = 'Invalid email format';
+  }
+
+  if (data.gstin && !GSTIN_PATTERN.test(data.gstin)) {
+    errors.gstin = 'Invalid GSTIN format';
+  }
+
+  if (typeof data.creditLimit !== 'number' || !(data.creditLimit >= 0)) {
+    errors.creditLimit = 'Credit limit cannot be negative';
+  }
+
+  return errors;
+};
+
+// Same rules as the Record Payment form on the customer page
+const validateCollection = (data) => {
+  const errors = {};
+
+  if (typeof data.amount !== 'number' || !(data.amount > 0)) {
+    errors.amount = 'Amount must be greater than 0';
+  } else if (roundMoney(data.amount) !== data.amount) {
+    errors.amount = 'Amount cannot have more than 2 decimal places';
+  }
+
+  if (!PAYMENT_METHODS.includes(data.method)) {
+    errors.method = 'Payment method is required';
+  }
+
+  if (data.reference && (typeof data.reference !== 'string' || data.reference.length > 100)) {
+    errors.reference = 'Reference must be at most 100 characters';
+  }
+
+  return errors;
+};
+
+// List customers
+router.get('/', authenticateToken, requirePermission('customers:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [rows] = await db.query('SELECT * FROM customers ORDER BY name');
+
+    res.json(rows.map(toCustomer));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Every collection against a credit balance, newest first
+router.get('/payments', authenticateToken, requirePermission('customers:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [rows] = await db.query('SELECT * FROM customer_payments ORDER BY created_at DESC');
+
+    res.json(rows.map(toCustomerPayment));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get a single customer
+router.get('/:id', authenticateToken, requirePermission('customers:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [rows] = await db.query('SELECT * FROM customers WHERE id = ?', [req.params.id]);
+
+    if (!rows.length) {
+      return res.status(404).json({ message: 'Customer not found' });
+    }
+
+    res.json(toCustomer(rows[0]));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create customer
+router.post('/', authenticateToken, requirePermission('customers:write'), async (req, res) => {
+  try {
+    const errors = validateCustomer(req.body);
+    if (Object.keys(errors).length) {
+      return res.status(400).json({ message: 'Validation failed', errors });
+    }
+
+    const { name, phone, email, gstin, address, creditLimit, notes } = req.body;
+    const db = req.app.locals.db;
+    const [[{ id }]] = await db.query('SELECT UUID() AS id');
+
+    await db.query(
+      `INSERT INTO customers (id, name, phone, email, gstin, address, credit_limit, notes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, name.trim(), phone, email || null, gstin || null, address || null, creditLimit, notes || null]
+    );
+
+    const [rows] = await db.query('SELECT * FROM customers WHERE id = ?', [id]);
+    res.status(201).json(toCustomer(rows[0]));
+  } catch (error) {
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { phone: 'A customer with this phone number already exists' }
+      });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Update customer
+router.put('/:id', authenticateToken, requirePermission('customers:write'), async (req, res) => {
+  try {
+    const errors = validateCustomer(req.body);
+    if (Object.keys(errors).length) {
+      return res.status(400).json({ message: 'Validation failed', errors });
+    }
+
+    const { name, phone, email, gstin, address, creditLimit, notes } = req.body;
+    const db = req.app.locals.db;
+
+    const [result] = await db.query(
+      `UPDATE customers
+       SET name = ?, phone = ?, email = ?, gstin = ?, address = ?, credit_limit = ?, notes = ?
+       WHERE id = ?`,
+      [name.trim(), phone, email || null, gstin || null, address || null, creditLimit, notes || null, req.params.id]
+    );
+
+    if (!result.affectedRows) {
+      return res.status(404).json({ message: 'Customer not found' });
+    }
+
+    const [rows] = await db.query('SELECT * FROM customers WHERE id = ?', [req.params.id]);
+    res.json(toCustomer(rows[0]));
+  } catch (error) {
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { phone: 'A customer with this phone number already exists' }
+      });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete customer
+router.delete('/:id', authenticateToken, requirePermission('customers:delete'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [result] = await db.query('DELETE FROM customers WHERE id = ?', [req.params.id]);
+
+    if (!result.affectedRows) {
+      return res.status(404).json({ message: 'Customer not found' });
+    }
+
+    res.json({ message: 'Customer deleted successfully' });
+  } catch (error) {
+    if (error.code === 'ER_ROW_IS_REFERENCED_2') {
+      return res.status(409).json({ message: 'Customer has sales or payments and cannot be deleted' });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Collect money against the customer's credit balance
+router.post('/:id/payments', authenticateToken, requirePermission('customers:write'), async (req, res) => {
+  const errors = validateCollection(req.body);
+  if (Object.keys(errors).length) {
+    return res.status(400).json({ message: 'Validation failed', errors });
+  }
+
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    await connection.beginTransaction();
+
+    // Lock the customer so a credit sale and a collection cannot race on the balance
+    const [[customer]] = await connection.query('SELECT id FROM customers WHERE id = ? FOR UPDATE', [req.params.id]);
+    if (!customer) {
+      await connection.rollback();
+      return res.status(404).json({ message: 'Customer not found' });
+    }
+
+    const balance = await getOutstandingBalance(connection, customer.id);
+    if (req.body.amount > balance) {
+      await connection.rollback();
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { amount: `Only ${balance} is outstanding` }
+      });
+    }
+
+    const { amount, method, reference, notes } = req.body;
+    const [[{ id }]] = await connection.query('SELECT UUID() AS id');
+    await connection.query(
+      `INSERT INTO customer_payments (id, customer_id, amount, method, reference, notes, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, customer.id, amount, method, reference || null, notes || null, req.user.id]
+    );
+
+    const [rows] = await connection.query('SELECT * FROM customer_payments WHERE id = ?', [id]);
+    await connection.commit();
+
+    res.status(201).json(toCustomerPayment(rows[0]));
+  } catch (error) {
+    await connection?.rollback();
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+});
+
+export default router;
@@ -0,0 +1,161 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { toLocation } from '../utils/locations.js';
+
+const router = express.Router();
+
+// Same rules as LocationForm.validateForm
+const validateLocation = (data) => {
+  const errors = {};
+
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    errors.name = 'Name is required';
+  } else if (data.name.trim().length > 100) {
+    errors.name = 'Name must be at most 100 characters';
+  }
+
+  if (data.isDefault !== undefined && typeof data.isDefault !== 'boolean') {
+    errors.isDefault = 'Default must be true or false';
+  }
+
+  return errors;
+};
+
+// List locations, the default first
+router.get('/', authenticateToken, requirePermission('products:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [rows] = await db.query('SELECT * FROM locations ORDER BY is_default DESC, name');
+
+    res.json(rows.map(toLocation));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create or update a location; making it the default takes that over from the old one
+const saveLocation = async (req, res, locationId) => {
+  const errors = validateLocation(req.body);
+  if (Object.keys(errors).length) {
+    return res.status(400).json({ message: 'Validation failed', errors });
+  }
+
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    const { name, address, isDefault } = req.body;
+    let id = locationId;
+
+    await connection.beginTransaction();
+
+    if (id) {
+      const [[existing]] = await connection.query('SELECT is_default FROM locations WHERE id = ? FOR UPDATE', [id]);
+      if (!existing) {
+        await connection.rollback();
+        return res.status(404).json({ message: 'Location not found' });
+      }
+      if (existing.is_default && isDefault === false) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { isDefault: 'Make another location the default instead' }
+        });
+      }
+
+      await connection.query(
+        'UPDATE locations SET name = ?, address = ? WHERE id = ?',
+        [name.trim(), address || null, id]
+      );
+    } else {
+      [[{ id }]] = await connection.query('SELECT UUID() AS id');
+      await connection.query(
+        'INSERT INTO locations (id, name, address) VALUES (?, ?, ?)',
+        [id, name.trim(), address || null]
+      );
+    }
+
+    if (isDefault) {
+      await connection.query('UPDATE locations SET is_default = (id = ?)', [id]);
+    }
+
+    const [rows] = await connection.query('SELECT * FROM locations ORDER BY is_default DESC, name');
+    await connection.commit();
+
+    // Every location comes back since saving one as the default changes the others
+    res.status(locationId ? 200 : 201).json({
+      location: toLocation(rows.find((row) => row.id === id)),
+      locations: rows.map(toLocation)
+    });
+  } catch (error) {
+    await connection?.rollback();
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { name: 'A location with this name already exists' }
+      });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+};
+
+// Create location
+router.post('/', authenticateToken, requirePermission('locations:manage'), (req, res) => saveLocation(req, res, null));
+
+// Update location
+router.put('/:id', authenticateToken, requirePermission('locations:manage'), (req, res) => saveLocation(req, res, req.params.id));
+
+// Delete a location that holds no stock and has no documents
+router.delete('/:id', authenticateToken, requirePermission('locations:manage'), async (req, res) => {
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    await connection.beginTransaction();
+
+    const [[location]] = await connection.query(
+      `SELECT l.is_default, COALESCE(SUM(ps.quantity), 0) AS quantity
+       FROM locations l
+       LEFT JOIN product_stock ps ON ps.location_id = l.id
+       WHERE l.id = ?
+       GROUP BY l.id
+       FOR UPDATE`,
+      [req.params.id]
+    );
+    if (!location) {
+      await connection.rollback();
+      return res.status(404).json({ message: 'Location not found' });
+    }
+    if (location.is_default) {
+      await connection.rollback();
+      return res.status(409).json({ message: 'Make another location the default before deleting this one' });
+    }
+    if (Number(location.quantity) > 0) {
+      await connection.rollback();
+      return res.status(409).json({ message: 'Location still holds stock; transfer it out first' });
+    }
+
+    await connection.query('DELETE FROM product_stock WHERE location_id = ?', [req.params.id]);
+    await connection.query('DELETE FROM locations WHERE id = ?', [req.params.id]);
+    await connection.commit();
+
+    res.json({ message: 'Location deleted successfully' });
+  } catch (error) {
+    await connection?.rollback();
+    if (error.code === 'ER_ROW_IS_REFERENCED_2') {
+      return res.status(409).json({ message: 'Location has sales or stock documents and cannot be deleted' });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+});
+
+export default router;
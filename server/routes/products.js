@@ -0,0 +1,649 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { getStoreSettings } from '../utils/store.js';
+import {
+  ADJUSTMENT_REASONS, fetchProductBatches, fetchProductStock, fetchStockLevels, moveStock, setBatchTracking,
+  toStockMovement, validateBatch
+} from '../utils/stock.js';
+import { resolveLocationId } from '../utils/locations.js';
+import { isValidBarcode } from '../utils/barcodes.js';
+import { adjustSerials, checkSerialsForAdjustment } from '../utils/serials.js';
+
+const router = express.Router();
+
+const MAX_VARIANT_OPTIONS = 3;
+
+// JSON columns come back parsed or as text depending on the driver settings
+const fromJson = (value) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+// Map a products row, its per-location stock and its batches to the Product shape used by the frontend
+const toProduct = (row, stock, batches) => ({
+  id: row.id,
+  name: row.name,
+  sku: row.sku || undefined,
+  barcode: row.barcode || undefined,
+  parentId: row.parent_id || undefined,
+  description: row.description || '',
+  categoryId: row.category_id,
+  hsnCode: row.hsn_code || undefined,
+  gstRate: Number(row.gst_rate),
+  price: Number(row.price),
+  costPrice: Number(row.cost_price),
+  quantity: row.quantity,
+  threshold: row.threshold,
+  stock: stock.get(row.id) || [],
+  tracksBatches: Boolean(row.tracks_batches),
+  batches: batches.get(row.id) || [],
+  tracksSerials: Boolean(row.tracks_serials),
+  warrantyMonths: row.warranty_months,
+  imageUrl: row.image_url || undefined,
+  variantOptions: row.variant_options ? fromJson(row.variant_options) : undefined,
+  attributes: row.attributes ? fromJson(row.attributes) : undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+// A variant's option values in the order of the parent's options, e.g. "Red / L"
+const variantLabel = (options, attributes) => options.map((option) => attributes[option.name]).join(' / ');
+
+// A parent lists the options it comes in and one variant for each combination it is sold in
+const validateVariants = (data) => {
+  const errors = {};
+  const options = data.variantOptions;
+
+  if (!Array.isArray(options) || options.length > MAX_VARIANT_OPTIONS || options.some((option) =>
+    typeof option.name !== 'string' || !option.name.trim() ||
+    !Array.isArray(option.values) || !option.values.length ||
+    option.values.some((value) => typeof value !== 'string' || !value.trim()) ||
+    new Set(option.values).size !== option.values.length
+  ) || new Set(options.map((option) => option.name)).size !== options.length) {
+    errors.variantOptions = `Give up to ${MAX_VARIANT_OPTIONS} options, each with a name and different values`;
+    return errors;
+  }
+
+  const variants = data.variants;
+  if (!Array.isArray(variants) || !variants.length) {
+    errors.variants = 'Add at least one variant';
+  } else if (variants.some((variant) =>
+    typeof variant.attributes !== 'object' || variant.attributes === null ||
+    Object.keys(variant.attributes).length !== options.length ||
+    options.some((option) => !option.values.includes(variant.attributes[option.name]))
+  )) {
+    errors.variants = 'Each variant needs one value of every option';
+  } else if (new Set(variants.map((variant) => variantLabel(options, variant.attributes))).size !== variants.length) {
+    errors.variants = 'Each combination of options can only be listed once';
+  } else if (variants.some((variant) => typeof variant.price !== 'number' || !(variant.price > 0))) {
+    errors.variants = 'Each variant needs a price greater than 0';
+  } else if (variants.some((variant) => typeof variant.costPrice !== 'number' || !(variant.costPrice >= 0))) {
+    errors.variants = 'Variant cost prices cannot be negative';
+  } else if (variants.some((variant) =>
+    !Number.isInteger(variant.quantity) || variant.quantity < 0 ||
+    !Number.isInteger(variant.threshold) || variant.threshold < 0
+  )) {
+    errors.variants = 'Variant stock and thresholds must be whole numbers of 0 or more';
+  } else if (variants.some((variant) => variant.sku && (typeof variant.sku !== 'string' || variant.sku.length > 64))) {
+    errors.variants = 'Variant SKUs must be at most 64 characters';
+  } else if (variants.some((variant) => variant.barcode && !isValidBarcode(variant.barcode))) {
+    errors.variants = 'Variant barcodes must be valid EAN-8, UPC-A, EAN-13 or GTIN-14 codes';
+  } else if (['sku', 'barcode'].some((field) => {
+    const codes = variants.map((variant) => variant[field]?.trim()).filter(Boolean);
+    return new Set(codes).size !== codes.length;
+  })) {
+    errors.variants = 'Each variant needs its own SKU and barcode';
+  }
+
+  return errors;
+};
+
+// Same rules as ProductForm.validateForm; the GST rate must be one the store charges
+const validateProduct = (data, taxRates) => {
+  const errors = {};
+
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    errors.name = 'Product name is required';
+  }
+
+  if (data.sku && (typeof data.sku !== 'string' || data.sku.length > 64)) {
+    errors.sku = 'SKU must be at most 64 characters';
+  }
+
+  if (data.barcode && !isValidBarcode(data.barcode)) {
+    errors.barcode = 'Barcode must be a valid EAN-8, UPC-A, EAN-13 or GTIN-14 code';
+  }
+
+  if (typeof data.categoryId !== 'string' || !data.categoryId) {
+    errors.categoryId = 'Category is required';
+  }
+
+  if (data.hsnCode && !/^\d{4,8}$/.test(data.hsnCode)) {
+    errors.hsnCode = 'HSN code must be 4 to 8 digits';
+  }
+
+  if (typeof data.gstRate !== 'number' || !taxRates.includes(data.gstRate)) {
+    errors.gstRate = 'GST rate must be one of the store tax rates';
+  }
+
+  if (typeof data.price !== 'number' || !(data.price > 0)) {
+    errors.price = 'Price must be greater than 0';
+  }
+
+  if (typeof data.costPrice !== 'number' || !(data.costPrice >= 0)) {
+    errors.costPrice = 'Cost price cannot be negative';
+  }
+
+  if (!Number.isInteger(data.quantity) || data.quantity < 0) {
+    errors.quantity = 'Quantity cannot be negative';
+  }
+
+  if (!Number.isInteger(data.threshold) || data.threshold < 0) {
+    errors.threshold = 'Threshold cannot be negative';
+  }
+
+  // Per-location thresholds; leaving one out falls back to the product threshold
+  if (data.stock !== undefined && (!Array.isArray(data.stock) || data.stock.some((entry) =>
+    typeof entry.locationId !== 'string' ||
+    (entry.threshold != null && (!Number.isInteger(entry.threshold) || entry.threshold < 0))
+  ))) {
+    errors.stock = 'Location thresholds must be whole numbers of 0 or more';
+  }
+
+  if (data.tracksBatches !== undefined && typeof data.tracksBatches !== 'boolean') {
+    errors.tracksBatches = 'Batch tracking must be on or off';
+  }
+
+  if (data.tracksSerials !== undefined && typeof data.tracksSerials !== 'boolean') {
+    errors.tracksSerials = 'Serial number tracking must be on or off';
+  }
+
+  if (data.warrantyMonths !== undefined &&
+    (!Number.isInteger(data.warrantyMonths) || data.warrantyMonths < 0 || data.warrantyMonths > 120)) {
+    errors.warrantyMonths = 'Warranty must be 0 to 120 months';
+  }
+
+  // Lot of the opening stock of a batch-tracked product; left out, it goes in without a lot number
+  if (data.openingBatch !== undefined) {
+    const batchError = validateBatch(data.openingBatch);
+    if (batchError) {
+      errors.openingBatch = batchError;
+    }
+  }
+
+  if (data.variantOptions !== undefined && (!Array.isArray(data.variantOptions) || data.variantOptions.length)) {
+    Object.assign(errors, validateVariants(data));
+  }
+
+  return errors;
+};
+
+// SKUs and barcodes are unique across all products and variants, so a scanned code finds one product.
+// A parent's variants are saved along with it, so a duplicate there is reported on the variants.
+const duplicateCodeErrors = (error, data) => {
+  const label = error.message.includes('uq_products_barcode') ? 'barcode' : 'SKU';
+  return data.variantOptions?.length
+    ? { variants: `A variant ${label} is already used by another product` }
+    : { [label === 'SKU' ? 'sku' : 'barcode']: `This ${label} is already used by another product` };
+};
+
+const fetchProducts = async (db, where = '', params = []) => {
+  const [rows] = await db.query(`SELECT * FROM products ${where} ORDER BY name`, params);
+  const stock = await fetchProductStock(db, rows.map((row) => row.id));
+  const batches = await fetchProductBatches(db, rows.map((row) => row.id));
+  return rows.map((row) => toProduct(row, stock, batches));
+};
+
+// A product together with its variants, as saving it sends them back
+const fetchProductFamily = async (db, id) => {
+  const rows = await fetchProducts(db, 'WHERE id = ? OR parent_id = ?', [id, id]);
+  return {
+    product: rows.find((product) => product.id === id),
+    variants: rows.filter((product) => product.parentId === id)
+  };
+};
+
+// Bring a parent's variants in line with the form: update the ones kept, add new ones with their
+// opening stock and remove the ones left out. Returns field errors, or null once saved.
+const saveVariants = async (connection, parentId, data, locationId, userId) => {
+  const options = data.variantOptions || [];
+  const variants = options.length ? data.variants : [];
+  const [existing] = await connection.query(
+    'SELECT id, quantity FROM products WHERE parent_id = ? FOR UPDATE',
+    [parentId]
+  );
+
+  if (variants.some((variant) => variant.id && !existing.some((row) => row.id === variant.id))) {
+    return { variants: 'One or more variants no longer exist' };
+  }
+
+  const removed = existing.filter((row) => !variants.some((variant) => variant.id === row.id));
+  if (removed.some((row) => row.quantity > 0)) {
+    return { variants: 'Variants with stock cannot be removed; adjust their stock to 0 first' };
+  }
+  for (const row of removed) {
+    await connection.query('DELETE FROM products WHERE id = ?', [row.id]);
+  }
+
+  // Variants are listed and sold under the parent's name with their option values
+  const {
+    name, description, categoryId, hsnCode, gstRate, imageUrl, tracksBatches = false, tracksSerials = false,
+    warrantyMonths = 0
+  } = data;
+  for (const variant of variants) {
+    const values = [
+      `${name.trim()} (${variantLabel(options, variant.attributes)})`, variant.sku?.trim() || null,
+      variant.barcode || null, description || '', categoryId, hsnCode || null, gstRate, variant.price,
+      variant.threshold, tracksBatches, tracksSerials, warrantyMonths, imageUrl || null,
+      JSON.stringify(variant.attributes)
+    ];
+
+    if (variant.id) {
+      await connection.query(
+        `UPDATE products
+         SET name = ?, sku = ?, barcode = ?, description = ?, category_id = ?, hsn_code = ?, gst_rate = ?,
+             price = ?, threshold = ?, tracks_batches = ?, tracks_serials = ?, warranty_months = ?, image_url = ?,
+             attributes = ?
+         WHERE id = ?`,
+        [...values, variant.id]
+      );
+      continue;
+    }
+
+    const [[{ id }]] = await connection.query('SELECT UUID() AS id');
+    await connection.query(
+      `INSERT INTO products (id, parent_id, name, sku, barcode, description, category_id, hsn_code, gst_rate,
+                             price, threshold, tracks_batches, tracks_serials, warranty_months, image_url,
+                             attributes, cost_price, quantity)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0)`,
+      [id, parentId, ...values, variant.costPrice]
+    );
+    if (variant.quantity > 0) {
+      await moveStock(connection, {
+        productId: id, locationId, change: variant.quantity, type: 'opening', unitCost: variant.costPrice
+      }, userId);
+    }
+  }
+
+  return null;
+};
+
+// Same rules as the adjustment form in StockHistory
+const validateAdjustment = (data) => {
+  const errors = {};
+
+  if (!Number.isInteger(data.change) || data.change === 0) {
+    errors.change = 'Enter a whole number of units to add or remove';
+  }
+
+  if (!ADJUSTMENT_REASONS.includes(data.reason)) {
+    errors.reason = 'Reason is required';
+  }
+
+  if (data.notes && (typeof data.notes !== 'string' || data.notes.length > 255)) {
+    errors.notes = 'Notes must be at most 255 characters';
+  }
+
+  if (data.locationId !== undefined && typeof data.locationId !== 'string') {
+    errors.locationId = 'Invalid location';
+  }
+
+  if (data.serials !== undefined && !Array.isArray(data.serials)) {
+    errors.serials = 'Serial numbers must be a list';
+  }
+
+  return errors;
+};
+
+// List products
+router.get('/', authenticateToken, requirePermission('products:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    res.json(await fetchProducts(db));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get a single product
+router.get('/:id', authenticateToken, requirePermission('products:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [product] = await fetchProducts(db, 'WHERE id = ?', [req.params.id]);
+
+    if (!product) {
+      return res.status(404).json({ message: 'Product not found' });
+    }
+
+    res.json(product);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create product; the opening stock is booked as the first ledger entry, at the chosen location
+// or the user's own. A parent product is created with its variants and holds no stock itself.
+router.post('/', authenticateToken, requirePermission('products:write'), async (req, res) => {
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    const { taxRates } = await getStoreSettings(connection);
+    const errors = validateProduct(req.body, taxRates);
+    if (Object.keys(errors).length) {
+      return res.status(400).json({ message: 'Validation failed', errors });
+    }
+
+    const [categories] = await connection.query('SELECT id FROM categories WHERE id = ?', [req.body.categoryId]);
+    if (!categories.length) {
+      return res.status(400).json({ message: 'Validation failed', errors: { categoryId: 'Category not found' } });
+    }
+
+    const locationId = await resolveLocationId(connection, req.body.locationId, req.user.id);
+    if (!locationId) {
+      return res.status(400).json({ message: 'Validation failed', errors: { locationId: 'Location not found' } });
+    }
+
+    const {
+      name, sku, barcode, description, categoryId, hsnCode, gstRate, price, costPrice, quantity, threshold,
+      tracksBatches = false, tracksSerials = false, warrantyMonths = 0, imageUrl, openingBatch, variantOptions = []
+    } = req.body;
+    const isParent = variantOptions.length > 0;
+    const [[{ id }]] = await connection.query('SELECT UUID() AS id');
+
+    await connection.beginTransaction();
+
+    // A parent is never scanned or sold; its variants carry the SKUs and barcodes
+    await connection.query(
+      `INSERT INTO products (id, name, sku, barcode, description, category_id, hsn_code, gst_rate, price, cost_price,
+                             quantity, threshold, tracks_batches, tracks_serials, warranty_months, image_url,
+                             variant_options)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, ?, ?, ?)`,
+      [
+        id, name.trim(), isParent ? null : sku?.trim() || null, isParent ? null : barcode || null,
+        description || '', categoryId, hsnCode || null, gstRate, price, isParent ? 0 : costPrice, threshold,
+        tracksBatches, tracksSerials, warrantyMonths, imageUrl || null,
+        isParent ? JSON.stringify(variantOptions) : null
+      ]
+    );
+    if (isParent) {
+      const variantErrors = await saveVariants(connection, id, req.body, locationId, req.user.id);
+      if (variantErrors) {
+        await connection.rollback();
+        return res.status(400).json({ message: 'Validation failed', errors: variantErrors });
+      }
+    } else if (quantity > 0) {
+      await moveStock(connection, {
+        productId: id, locationId, change: quantity, type: 'opening', unitCost: costPrice, batch: openingBatch
+      }, req.user.id);
+    }
+
+    const family = await fetchProductFamily(connection, id);
+    await connection.commit();
+
+    res.status(201).json(family);
+  } catch (error) {
+    await connection?.rollback();
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({ message: 'Validation failed', errors: duplicateCodeErrors(error, req.body) });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+});
+
+// Update product; a parent's variants are saved along with it, new ones getting their opening stock
+// at the chosen location or the user's own
+router.put('/:id', authenticateToken, requirePermission('products:write'), async (req, res) => {
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    const { taxRates } = await getStoreSettings(connection);
+    const errors = validateProduct(req.body, taxRates);
+    if (Object.keys(errors).length) {
+      return res.status(400).json({ message: 'Validation failed', errors });
+    }
+
+    const [categories] = await connection.query('SELECT id FROM categories WHERE id = ?', [req.body.categoryId]);
+    if (!categories.length) {
+      return res.status(400).json({ message: 'Validation failed', errors: { categoryId: 'Category not found' } });
+    }
+
+    const locationId = await resolveLocationId(connection, req.body.locationId, req.user.id);
+    if (!locationId) {
+      return res.status(400).json({ message: 'Validation failed', errors: { locationId: 'Location not found' } });
+    }
+
+    await connection.beginTransaction();
+
+    const [[existing]] = await connection.query(
+      'SELECT parent_id, quantity, tracks_batches, variant_options FROM products WHERE id = ? FOR UPDATE',
+      [req.params.id]
+    );
+    if (!existing) {
+      await connection.rollback();
+      return res.status(404).json({ message: 'Product not found' });
+    }
+    if (existing.parent_id) {
+      await connection.rollback();
+      return res.status(409).json({ message: 'Variants are edited through their parent product' });
+    }
+
+    const {
+      name, sku, barcode, description, categoryId, hsnCode, gstRate, price, threshold, tracksBatches = false,
+      tracksSerials = false, warrantyMonths = 0, imageUrl, variantOptions = [], stock = []
+    } = req.body;
+    const isParent = variantOptions.length > 0;
+    if (isParent && !existing.variant_options && existing.quantity > 0) {
+      await connection.rollback();
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { variantOptions: 'Products with stock cannot be split into variants' }
+      });
+    }
+
+    // Quantity and cost price are left alone: stock only changes through the ledger, see
+    // POST /:id/adjustments, and the cost price follows from the cost layers
+    await connection.query(
+      `UPDATE products
+       SET name = ?, sku = ?, barcode = ?, description = ?, category_id = ?, hsn_code = ?, gst_rate = ?, price = ?,
+           threshold = ?, tracks_batches = ?, tracks_serials = ?, warranty_months = ?, image_url = ?,
+           variant_options = ?
+       WHERE id = ?`,
+      [
+        name.trim(), isParent ? null : sku?.trim() || null, isParent ? null : barcode || null, description || '',
+        categoryId, hsnCode || null, gstRate, price, threshold, tracksBatches, tracksSerials, warrantyMonths,
+        imageUrl || null, isParent ? JSON.stringify(variantOptions) : null, req.params.id
+      ]
+    );
+
+    // Before the variants are saved, so new ones start their batches with their opening stock
+    if (tracksBatches !== Boolean(existing.tracks_batches)) {
+      const [family] = await connection.query(
+        'SELECT id FROM products WHERE id = ? OR parent_id = ?',
+        [req.params.id, req.params.id]
+      );
+      await setBatchTracking(connection, family.map((row) => row.id), tracksBatches);
+    }
+
+    if (isParent || existing.variant_options) {
+      const variantErrors = await saveVariants(connection, req.params.id, req.body, locationId, req.user.id);
+      if (variantErrors) {
+        await connection.rollback();
+        return res.status(400).json({ message: 'Validation failed', errors: variantErrors });
+      }
+    }
+
+    // A location the product was never stocked at gets an empty row to hold its threshold
+    for (const entry of stock) {
+      await connection.query(
+        `INSERT INTO product_stock (product_id, location_id, threshold) VALUES (?, ?, ?)
+         ON DUPLICATE KEY UPDATE threshold = VALUES(threshold)`,
+        [req.params.id, entry.locationId, entry.threshold ?? null]
+      );
+    }
+
+    const family = await fetchProductFamily(connection, req.params.id);
+    await connection.commit();
+
+    res.json(family);
+  } catch (error) {
+    await connection?.rollback();
+    if (error.code === 'ER_NO_REFERENCED_ROW_2') {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { stock: 'One or more locations no longer exist' }
+      });
+    }
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({ message: 'Validation failed', errors: duplicateCodeErrors(error, req.body) });
+    }
+    if (error.code === 'ER_ROW_IS_REFERENCED_2') {
+      return res.status(409).json({ message: 'A removed variant has sales or purchase history and cannot be removed' });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+});
+
+// Delete a product, and its variants with it, once none of them has stock left; stock only
+// leaves through a sale or adjustment so the ledger accounts for every unit
+router.delete('/:id', authenticateToken, requirePermission('products:delete'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [[product]] = await db.query(
+      `SELECT p.id, (SELECT COUNT(*) FROM products v WHERE (v.id = p.id OR v.parent_id = p.id) AND v.quantity <> 0) AS stocked
+       FROM products p
+       WHERE p.id = ?`,
+      [req.params.id]
+    );
+    if (!product) {
+      return res.status(404).json({ message: 'Product not found' });
+    }
+    if (product.stocked > 0) {
+      return res.status(409).json({ message: 'Product still has stock; adjust it to zero before deleting' });
+    }
+
+    await db.query('DELETE FROM products WHERE id = ?', [req.params.id]);
+
+    res.json({ message: 'Product deleted successfully' });
+  } catch (error) {
+    if (error.code === 'ER_ROW_IS_REFERENCED_2') {
+      return res.status(409).json({ message: 'Product has sales history and cannot be deleted' });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Stock ledger for a product, newest first
+router.get('/:id/movements', authenticateToken, requirePermission('products:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [rows] = await db.query(
+      `SELECT m.*, u.name AS created_by_name
+       FROM stock_movements m
+       LEFT JOIN users u ON u.id = m.created_by
+       WHERE m.product_id = ?
+       ORDER BY m.id DESC`,
+      [req.params.id]
+    );
+
+    res.json(rows.map(toStockMovement));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Manual stock adjustment with a reason code: damage, shrinkage, found stock, ... A serialized
+// product's adjustment names the units: removed ones are written off, added ones go in stock.
+router.post('/:id/adjustments', authenticateToken, requirePermission('products:write'), async (req, res) => {
+  const errors = validateAdjustment(req.body);
+  if (Object.keys(errors).length) {
+    return res.status(400).json({ message: 'Validation failed', errors });
+  }
+
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    const locationId = await resolveLocationId(connection, req.body.locationId, req.user.id);
+    if (!locationId) {
+      return res.status(400).json({ message: 'Validation failed', errors: { locationId: 'Location not found' } });
+    }
+
+    await connection.beginTransaction();
+
+    const [[product]] = await connection.query(
+      `SELECT p.id, p.variant_options, p.tracks_serials, COALESCE(ps.quantity, 0) AS quantity
+       FROM products p
+       LEFT JOIN product_stock ps ON ps.product_id = p.id AND ps.location_id = ?
+       WHERE p.id = ?
+       FOR UPDATE`,
+      [locationId, req.params.id]
+    );
+    if (!product) {
+      await connection.rollback();
+      return res.status(404).json({ message: 'Product not found' });
+    }
+
+    if (product.variant_options) {
+      await connection.rollback();
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { change: 'Stock is kept on the variants of this product' }
+      });
+    }
+
+    const { change, reason, notes, serials = [] } = req.body;
+    if (product.quantity + change < 0) {
+      await connection.rollback();
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { change: `Only ${product.quantity} in stock at this location to remove` }
+      });
+    }
+
+    if (product.tracks_serials) {
+      const serialError = await checkSerialsForAdjustment(
+        connection, product.id, serials, change, locationId, product.quantity
+      );
+      if (serialError) {
+        await connection.rollback();
+        return res.status(400).json({ message: 'Validation failed', errors: { serials: serialError } });
+      }
+      await adjustSerials(connection, product.id, serials, change, locationId);
+    }
+
+    await moveStock(connection, {
+      productId: product.id, locationId, change, type: 'adjustment', reason, notes
+    }, req.user.id);
+
+    const [updated] = await fetchStockLevels(connection, [product.id]);
+    await connection.commit();
+
+    res.status(201).json({ product: updated });
+  } catch (error) {
+    await connection?.rollback();
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { serials: 'Each serial number can only be added once' }
+      });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+});
+
+export default router;
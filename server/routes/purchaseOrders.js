@@ -0,0 +1,525 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { getStoreSettings } from '../utils/store.js';
+import { roundMoney } from '../utils/gst.js';
+import { nextPurchaseOrderNumber } from '../utils/invoice.js';
+import { isDateOnly, toDateOnly } from '../utils/dates.js';
+import { fetchStockLevels, moveStock, validateBatch } from '../utils/stock.js';
+import { resolveLocationId } from '../utils/locations.js';
+import { findExistingSerial, normalizeSerials, receiveSerials, validateSerials } from '../utils/serials.js';
+
+const router = express.Router();
+
+const toPurchaseOrderItem = (row) => ({
+  id: row.id,
+  productId: row.product_id,
+  productName: row.product_name,
+  quantityOrdered: row.quantity_ordered,
+  quantityReceived: row.quantity_received,
+  unitCost: Number(row.unit_cost)
+});
+
+// Map a goods_receipts row and its items to the GoodsReceipt shape used by the frontend
+const toGoodsReceipt = (row, items) => ({
+  id: row.id,
+  locationId: row.location_id || undefined,
+  items: items.filter((item) => item.receipt_id === row.id).map((item) => ({
+    purchaseOrderItemId: item.purchase_order_item_id,
+    productId: item.product_id,
+    quantity: item.quantity,
+    unitCost: Number(item.unit_cost)
+  })),
+  notes: row.notes || undefined,
+  date: row.created_at
+});
+
+// Map purchase_orders rows and their items to the PurchaseOrder shape used by the frontend
+const toPurchaseOrder = (row, items, receipts) => ({
+  id: row.id,
+  poNumber: row.po_number,
+  supplierId: row.supplier_id,
+  status: row.status,
+  expectedDate: toDateOnly(row.expected_date),
+  notes: row.notes || undefined,
+  totalAmount: Number(row.total_amount),
+  items: items.filter((item) => item.purchase_order_id === row.id).map(toPurchaseOrderItem),
+  receipts: receipts.filter((receipt) => receipt.purchaseOrderId === row.id).map(({ purchaseOrderId, ...receipt }) => receipt),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const fetchPurchaseOrders = async (db, where = '', params = []) => {
+  const [rows] = await db.query(`SELECT * FROM purchase_orders ${where} ORDER BY created_at DESC`, params);
+  if (!rows.length) {
+    return [];
+  }
+
+  const orderIds = rows.map((row) => row.id);
+  const [items] = await db.query(
+    'SELECT * FROM purchase_order_items WHERE purchase_order_id IN (?) ORDER BY id',
+    [orderIds]
+  );
+
+  const [receiptRows] = await db.query(
+    'SELECT * FROM goods_receipts WHERE purchase_order_id IN (?) ORDER BY created_at',
+    [orderIds]
+  );
+  let receipts = [];
+  if (receiptRows.length) {
+    const [receiptItems] = await db.query(
+      'SELECT * FROM goods_receipt_items WHERE receipt_id IN (?) ORDER BY id',
+      [receiptRows.map((row) => row.id)]
+    );
+    receipts = receiptRows.map((row) => ({
+      purchaseOrderId: row.purchase_order_id,
+      ...toGoodsReceipt(row, receiptItems)
+    }));
+  }
+
+  return rows.map((row) => toPurchaseOrder(row, items, receipts));
+};
+
+// Same rules as PurchaseOrderForm.validateForm
+const validatePurchaseOrder = (data) => {
+  const errors = {};
+
+  if (typeof data.supplierId !== 'string' || !data.supplierId) {
+    errors.supplierId = 'Supplier is required';
+  }
+
+  if (data.expectedDate && !isDateOnly(data.expectedDate)) {
+    errors.expectedDate = 'Invalid expected date';
+  }
+
+  if (!Array.isArray(data.items) || data.items.length === 0) {
+    errors.items = 'At least one product must be ordered';
+  } else if (data.items.some((item) =>
+    typeof item.productId !== 'string' || !Number.isInteger(item.quantity) || item.quantity < 1
+  )) {
+    errors.items = 'Each line needs a product and a quantity of at least 1';
+  } else if (data.items.some((item) =>
+    typeof item.unitCost !== 'number' || !(item.unitCost >= 0) || roundMoney(item.unitCost) !== item.unitCost
+  )) {
+    errors.items = 'Unit cost cannot be negative or have more than 2 decimal places';
+  } else if (new Set(data.items.map((item) => item.productId)).size !== data.items.length) {
+    errors.items = 'Each product can only appear once on a purchase order';
+  }
+
+  return errors;
+};
+
+// Same checks as GoodsReceiptForm, quantities are checked against the order in the transaction
+const validateReceipt = (data) => {
+  const errors = {};
+
+  if (!Array.isArray(data.items) || data.items.length === 0) {
+    errors.items = 'Enter the quantity received for at least one line';
+  } else if (data.items.some((item) =>
+    !Number.isInteger(item.purchaseOrderItemId) || !Number.isInteger(item.quantity) || item.quantity < 1
+  )) {
+    errors.items = 'Each line needs a quantity of at least 1';
+  } else if (data.items.some((item) =>
+    item.unitCost !== undefined &&
+    (typeof item.unitCost !== 'number' || !(item.unitCost >= 0) || roundMoney(item.unitCost) !== item.unitCost)
+  )) {
+    errors.items = 'Unit cost cannot be negative or have more than 2 decimal places';
+  } else if (new Set(data.items.map((item) => item.purchaseOrderItemId)).size !== data.items.length) {
+    errors.items = 'Each line can only be received once per delivery';
+  } else {
+    const batchError = data.items
+      .map((item) => (item.batch === undefined ? null : validateBatch(item.batch)))
+      .find(Boolean);
+    const serialError = data.items
+      .map((item) => (item.serials === undefined ? null : validateSerials(item.serials, item.quantity)))
+      .find(Boolean);
+    if (batchError || serialError) {
+      errors.items = batchError || serialError;
+    }
+  }
+
+  return errors;
+};
+
+// Checks the supplier and products exist and returns the lines to insert, or an error response body
+const resolveOrderLines = async (connection, data) => {
+  const [[supplier]] = await connection.query('SELECT id FROM suppliers WHERE id = ?', [data.supplierId]);
+  if (!supplier) {
+    return { error: { message: 'Validation failed', errors: { supplierId: 'Supplier not found' } } };
+  }
+
+  const [productRows] = await connection.query(
+    'SELECT id, name, variant_options FROM products WHERE id IN (?)',
+    [data.items.map((item) => item.productId)]
+  );
+  const namesById = new Map(productRows.map((row) => [row.id, row.name]));
+  if (productRows.length !== data.items.length) {
+    return { error: { message: 'Validation failed', errors: { items: 'One or more products no longer exist' } } };
+  }
+  // Parents hold no stock; their variants are ordered instead
+  if (productRows.some((row) => row.variant_options)) {
+    return { error: { message: 'Validation failed', errors: { items: 'Order the variants of a product, not the product itself' } } };
+  }
+
+  const lines = data.items.map((item) => ({
+    productId: item.productId,
+    productName: namesById.get(item.productId),
+    quantity: item.quantity,
+    unitCost: item.unitCost
+  }));
+  const totalAmount = roundMoney(lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0));
+
+  return { lines, totalAmount };
+};
+
+const insertOrderLines = (connection, orderId, lines) => connection.query(
+  'INSERT INTO purchase_order_items (purchase_order_id, product_id, product_name, quantity_ordered, unit_cost) VALUES ?',
+  [lines.map((line) => [orderId, line.productId, line.productName, line.quantity, line.unitCost])]
+);
+
+// List purchase orders
+router.get('/', authenticateToken, requirePermission('purchases:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    res.json(await fetchPurchaseOrders(db));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get a single purchase order
+router.get('/:id', authenticateToken, requirePermission('purchases:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [order] = await fetchPurchaseOrders(db, 'WHERE id = ?', [req.params.id]);
+
+    if (!order) {
+      return res.status(404).json({ message: 'Purchase order not found' });
+    }
+
+    res.json(order);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create a draft purchase order
+router.post('/', authenticateToken, requirePermission('purchases:write'), async (req, res) => {
+  const errors = validatePurchaseOrder(req.body);
+  if (Object.keys(errors).length) {
+    return res.status(400).json({ message: 'Validation failed', errors });
+  }
+
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    await connection.beginTransaction();
+
+    const { lines, totalAmount, error } = await resolveOrderLines(connection, req.body);
+    if (error) {
+      await connection.rollback();
+      return res.status(400).json(error);
+    }
+
+    const store = await getStoreSettings(connection);
+    const [[{ id }]] = await connection.query('SELECT UUID() AS id');
+    const poNumber = await nextPurchaseOrderNumber(connection, store);
+
+    await connection.query(
+      `INSERT INTO purchase_orders (id, po_number, supplier_id, expected_date, notes, total_amount, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, poNumber, req.body.supplierId, req.body.expectedDate || null, req.body.notes || null, totalAmount, req.user.id]
+    );
+    await insertOrderLines(connection, id, lines);
+
+    await connection.commit();
+
+    const [order] = await fetchPurchaseOrders(db, 'WHERE id = ?', [id]);
+    res.status(201).json(order);
+  } catch (error) {
+    await connection?.rollback();
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+});
+
+// Update a purchase order; only drafts can be changed
+router.put('/:id', authenticateToken, requirePermission('purchases:write'), async (req, res) => {
+  const errors = validatePurchaseOrder(req.body);
+  if (Object.keys(errors).length) {
+    return res.status(400).json({ message: 'Validation failed', errors });
+  }
+
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    await connection.beginTransaction();
+
+    const [[order]] = await connection.query(
+      'SELECT id, status FROM purchase_orders WHERE id = ? FOR UPDATE',
+      [req.params.id]
+    );
+    if (!order) {
+      await connection.rollback();
+      return res.status(404).json({ message: 'Purchase order not found' });
+    }
+    if (order.status !== 'draft') {
+      await connection.rollback();
+      return res.status(409).json({ message: 'Only draft purchase orders can be edited' });
+    }
+
+    const { lines, totalAmount, error } = await resolveOrderLines(connection, req.body);
+    if (error) {
+      await connection.rollback();
+      return res.status(400).json(error);
+    }
+
+    await connection.query(
+      'UPDATE purchase_orders SET supplier_id = ?, expected_date = ?, notes = ?, total_amount = ? WHERE id = ?',
+      [req.body.supplierId, req.body.expectedDate || null, req.body.notes || null, totalAmount, order.id]
+    );
+    await connection.query('DELETE FROM purchase_order_items WHERE purchase_order_id = ?', [order.id]);
+    await insertOrderLines(connection, order.id, lines);
+
+    await connection.commit();
+
+    const [updated] = await fetchPurchaseOrders(db, 'WHERE id = ?', [order.id]);
+    res.json(updated);
+  } catch (error) {
+    await connection?.rollback();
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+});
+
+// Mark a draft as sent to the supplier; from here on it can only be received against
+router.post('/:id/send', authenticateToken, requirePermission('purchases:write'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [result] = await db.query(
+      "UPDATE purchase_orders SET status = 'sent' WHERE id = ? AND status = 'draft'",
+      [req.params.id]
+    );
+
+    const [order] = await fetchPurchaseOrders(db, 'WHERE id = ?', [req.params.id]);
+    if (!order) {
+      return res.status(404).json({ message: 'Purchase order not found' });
+    }
+    if (!result.affectedRows) {
+      return res.status(409).json({ message: 'Only draft purchase orders can be sent' });
+    }
+
+    res.json(order);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete a draft purchase order
+router.delete('/:id', authenticateToken, requirePermission('purchases:write'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [result] = await db.query(
+      "DELETE FROM purchase_orders WHERE id = ? AND status = 'draft'",
+      [req.params.id]
+    );
+
+    if (!result.affectedRows) {
+      const [[order]] = await db.query('SELECT id FROM purchase_orders WHERE id = ?', [req.params.id]);
+      return order
+        ? res.status(409).json({ message: 'Only draft purchase orders can be deleted' })
+        : res.status(404).json({ message: 'Purchase order not found' });
+    }
+
+    res.json({ message: 'Purchase order deleted successfully' });
+  } catch (error) {
+    if (error.code === 'ER_ROW_IS_REFERENCED_2') {
+      return res.status(409).json({ message: 'Purchase order has supplier bills and cannot be deleted' });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Receive a delivery: add the goods to stock at the receiving location at the received cost
+// and advance the order status
+router.post('/:id/receipts', authenticateToken, requirePermission('purchases:write'), async (req, res) => {
+  const errors = validateReceipt(req.body);
+  if (Object.keys(errors).length) {
+    return res.status(400).json({ message: 'Validation failed', errors });
+  }
+
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    const locationId = await resolveLocationId(connection, req.body.locationId, req.user.id);
+    if (!locationId) {
+      return res.status(400).json({ message: 'Validation failed', errors: { locationId: 'Location not found' } });
+    }
+
+    await connection.beginTransaction();
+
+    // Lock the order first so two people receiving the same delivery cannot both book it
+    const [[order]] = await connection.query(
+      'SELECT id, po_number, status FROM purchase_orders WHERE id = ? FOR UPDATE',
+      [req.params.id]
+    );
+    if (!order) {
+      await connection.rollback();
+      return res.status(404).json({ message: 'Purchase order not found' });
+    }
+    if (order.status !== 'sent' && order.status !== 'partially_received') {
+      await connection.rollback();
+      return res.status(409).json({
+        message: order.status === 'draft'
+          ? 'Send the purchase order before receiving goods'
+          : 'Purchase order has already been fully received'
+      });
+    }
+
+    const [orderItems] = await connection.query(
+      'SELECT * FROM purchase_order_items WHERE purchase_order_id = ? ORDER BY id',
+      [order.id]
+    );
+    const orderItemsById = new Map(orderItems.map((item) => [item.id, item]));
+
+    const lines = [];
+    for (const item of req.body.items) {
+      const orderItem = orderItemsById.get(item.purchaseOrderItemId);
+      if (!orderItem) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { items: 'One or more lines are not part of this purchase order' }
+        });
+      }
+
+      const outstanding = orderItem.quantity_ordered - orderItem.quantity_received;
+      if (item.quantity > outstanding) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { items: `Only ${outstanding} of ${orderItem.product_name} are still due` }
+        });
+      }
+
+      lines.push({
+        orderItemId: orderItem.id,
+        productId: orderItem.product_id,
+        quantity: item.quantity,
+        unitCost: item.unitCost ?? Number(orderItem.unit_cost),
+        batch: item.batch,
+        serials: item.serials ? normalizeSerials(item.serials) : []
+      });
+    }
+
+    // Same lock order as sales and returns so the two cannot deadlock
+    const productIds = [...new Set(lines.map((line) => line.productId))].sort();
+    const [productRows] = await connection.query(
+      'SELECT id, tracks_batches, tracks_serials FROM products WHERE id IN (?) ORDER BY id FOR UPDATE',
+      [productIds]
+    );
+
+    // Batch-tracked goods are received into the lot printed on them
+    const trackedIds = productRows.filter((row) => row.tracks_batches).map((row) => row.id);
+    if (lines.some((line) => trackedIds.includes(line.productId) && !line.batch)) {
+      await connection.rollback();
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { items: 'Enter the lot number of each batch-tracked product' }
+      });
+    }
+
+    // Serialized goods are received with the serial number of every unit, none of them already on file
+    const serializedIds = productRows.filter((row) => row.tracks_serials).map((row) => row.id);
+    for (const line of lines.filter((line) => serializedIds.includes(line.productId))) {
+      const existing = line.serials.length === line.quantity
+        ? await findExistingSerial(connection, line.productId, line.serials)
+        : undefined;
+      if (line.serials.length !== line.quantity || existing) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: {
+            items: existing
+              ? `Serial number ${existing} is already on file`
+              : 'Enter the serial number of each unit of a serialized product'
+          }
+        });
+      }
+    }
+
+    const [[{ id }]] = await connection.query('SELECT UUID() AS id');
+    await connection.query(
+      'INSERT INTO goods_receipts (id, purchase_order_id, location_id, notes, created_by) VALUES (?, ?, ?, ?, ?)',
+      [id, order.id, locationId, req.body.notes || null, req.user.id]
+    );
+    await connection.query(
+      'INSERT INTO goods_receipt_items (receipt_id, purchase_order_item_id, product_id, quantity, unit_cost) VALUES ?',
+      [lines.map((line) => [id, line.orderItemId, line.productId, line.quantity, line.unitCost])]
+    );
+
+    for (const line of lines) {
+      await connection.query(
+        'UPDATE purchase_order_items SET quantity_received = quantity_received + ? WHERE id = ?',
+        [line.quantity, line.orderItemId]
+      );
+      await moveStock(connection, {
+        productId: line.productId,
+        locationId,
+        change: line.quantity,
+        type: 'purchase',
+        unitCost: line.unitCost,
+        batch: line.batch,
+        referenceId: id,
+        reference: order.po_number
+      }, req.user.id);
+      if (serializedIds.includes(line.productId)) {
+        await receiveSerials(connection, line.productId, line.serials, id, locationId);
+      }
+    }
+
+    const [[{ outstanding }]] = await connection.query(
+      'SELECT COALESCE(SUM(quantity_ordered - quantity_received), 0) AS outstanding FROM purchase_order_items WHERE purchase_order_id = ?',
+      [order.id]
+    );
+    await connection.query(
+      'UPDATE purchase_orders SET status = ? WHERE id = ?',
+      [Number(outstanding) > 0 ? 'partially_received' : 'received', order.id]
+    );
+
+    const products = await fetchStockLevels(connection, productIds);
+
+    await connection.commit();
+
+    const [purchaseOrder] = await fetchPurchaseOrders(db, 'WHERE id = ?', [order.id]);
+    res.status(201).json({ purchaseOrder, products });
+  } catch (error) {
+    await connection?.rollback();
+    // The same serial number given on two lines of one product
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { items: 'Each serial number can only be received once' }
+      });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+});
+
+export default router;
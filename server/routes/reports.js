@@ -0,0 +1,399 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { CREDIT_METHOD } from '../utils/payments.js';
+import { ageReceivables, toCustomer } from '../utils/customers.js';
+import { getStoreSettings } from '../utils/store.js';
+import { roundMoney } from '../utils/gst.js';
+import { toDateOnly } from '../utils/dates.js';
+import { fetchCategoryIds } from '../utils/categories.js';
+
+const router = express.Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Sales summary for a date range, shaped like the Report type; the Reports page shows it as is
+router.get('/summary', authenticateToken, requirePermission('reports:read'), async (req, res) => {
+  try {
+    const { startDate, endDate, categoryId, locationId, groupVariants } = req.query;
+
+    if (!DATE_PATTERN.test(startDate || '') || !DATE_PATTERN.test(endDate || '')) {
+      return res.status(400).json({ message: 'startDate and endDate must be YYYY-MM-DD' });
+    }
+
+    const db = req.app.locals.db;
+
+    // A sale matches a category if any of its items is in it or in one of its subcategories
+    const categoryFilter = (saleColumn) => `AND EXISTS (
+        SELECT 1 FROM sale_items ci JOIN products cp ON cp.id = ci.product_id
+        WHERE ci.sale_id = ${saleColumn} AND cp.category_id IN (?)
+      )`;
+    let where = 's.created_at >= ? AND s.created_at < DATE_ADD(?, INTERVAL 1 DAY)';
+    // Returns count on the day they happen, not on the day of the original sale
+    let returnWhere = 'r.created_at >= ? AND r.created_at < DATE_ADD(?, INTERVAL 1 DAY)';
+    const params = [startDate, endDate];
+    if (categoryId) {
+      const categoryIds = await fetchCategoryIds(db, categoryId);
+      if (!categoryIds.length) {
+        return res.status(400).json({ message: 'Category not found' });
+      }
+      where += ` ${categoryFilter('s.id')}`;
+      returnWhere += ` ${categoryFilter('r.sale_id')}`;
+      params.push(categoryIds);
+    }
+    // Returns are counted at the location of the sale they came back from
+    if (locationId) {
+      where += ' AND s.location_id = ?';
+      returnWhere += ' AND EXISTS (SELECT 1 FROM sales ls WHERE ls.id = r.sale_id AND ls.location_id = ?)';
+      params.push(locationId);
+    }
+
+    const [[totals]] = await db.query(
+      `SELECT COUNT(*) AS totalSales, COALESCE(SUM(s.total_amount), 0) AS totalRevenue
+       FROM sales s WHERE ${where}`,
+      params
+    );
+
+    const [[refunds]] = await db.query(
+      `SELECT COALESCE(SUM(r.total_amount), 0) AS totalRefunds
+       FROM sale_returns r WHERE ${returnWhere}`,
+      params
+    );
+
+    // GST collected is owed to the government, so profit is measured on the taxable value,
+    // against the cost of goods fixed on each line when it was sold or returned
+    const [[profit]] = await db.query(
+      `SELECT COALESCE(SUM(si.taxable_value - si.cost_amount), 0) AS totalProfit
+       FROM sales s
+       JOIN sale_items si ON si.sale_id = s.id
+       WHERE ${where}`,
+      params
+    );
+
+    const [[returnedProfit]] = await db.query(
+      `SELECT COALESCE(SUM(ri.taxable_value - ri.cost_amount), 0) AS totalProfit
+       FROM sale_returns r
+       JOIN sale_return_items ri ON ri.return_id = r.id
+       WHERE ${returnWhere}`,
+      params
+    );
+
+    // Variants can be rolled up under their parent product
+    const rollup = groupVariants === 'true';
+    const productKey = (itemAlias) => (rollup ? `COALESCE(vp.parent_id, ${itemAlias}.product_id)` : `${itemAlias}.product_id`);
+
+    const [soldProducts] = await db.query(
+      `SELECT ${productKey('si')} AS productId,
+              ${rollup ? 'COALESCE(MAX(pp.name), MAX(si.product_name))' : 'MAX(si.product_name)'} AS productName,
+              SUM(si.quantity) AS quantity, SUM(si.total_price) AS revenue
+       FROM sales s
+       JOIN sale_items si ON si.sale_id = s.id
+       LEFT JOIN products vp ON vp.id = si.product_id
+       LEFT JOIN products pp ON pp.id = vp.parent_id
+       WHERE ${where}
+       GROUP BY productId`,
+      params
+    );
+
+    const [returnedProducts] = await db.query(
+      `SELECT ${productKey('ri')} AS productId, SUM(ri.quantity) AS quantity, SUM(ri.total_price) AS revenue
+       FROM sale_returns r
+       JOIN sale_return_items ri ON ri.return_id = r.id
+       LEFT JOIN products vp ON vp.id = ri.product_id
+       WHERE ${returnWhere}
+       GROUP BY productId`,
+      params
+    );
+
+    const [salesByDay] = await db.query(
+      `SELECT DATE_FORMAT(s.created_at, '%Y-%m-%d') AS date, COUNT(*) AS sales, SUM(s.total_amount) AS revenue
+       FROM sales s
+       WHERE ${where}
+       GROUP BY date`,
+      params
+    );
+
+    const [refundsByDay] = await db.query(
+      `SELECT DATE_FORMAT(r.created_at, '%Y-%m-%d') AS date, SUM(r.total_amount) AS refunds
+       FROM sale_returns r
+       WHERE ${returnWhere}
+       GROUP BY date`,
+      params
+    );
+
+    // Money actually taken in per tender; cash is counted net of change given back.
+    // Credit sales bring in nothing until the udhaar is collected.
+    const [collections] = await db.query(
+      `SELECT sp.method, SUM(sp.amount) AS collected
+       FROM sales s
+       JOIN sale_payments sp ON sp.sale_id = s.id
+       WHERE ${where} AND sp.method <> ?
+       GROUP BY sp.method`,
+      [...params, CREDIT_METHOD]
+    );
+
+    // Udhaar collections are not tied to a category or location, so they only count in unfiltered reports
+    const [creditCollections] = categoryId || locationId ? [[]] : await db.query(
+      `SELECT cp.method, SUM(cp.amount) AS collected
+       FROM customer_payments cp
+       WHERE cp.created_at >= ? AND cp.created_at < DATE_ADD(?, INTERVAL 1 DAY)
+       GROUP BY cp.method`,
+      [startDate, endDate]
+    );
+
+    const [refundsByMethod] = await db.query(
+      `SELECT r.refund_method AS method, SUM(r.total_amount) AS refunded
+       FROM sale_returns r
+       WHERE ${returnWhere} AND r.refund_method <> ?
+       GROUP BY r.refund_method`,
+      [...params, CREDIT_METHOD]
+    );
+
+    const tenders = new Map();
+    [...collections, ...creditCollections].forEach((row) => {
+      const tender = tenders.get(row.method) || { method: row.method, collected: 0, refunded: 0 };
+      tender.collected += Number(row.collected);
+      tenders.set(row.method, tender);
+    });
+    refundsByMethod.forEach((row) => {
+      const tender = tenders.get(row.method) || { method: row.method, collected: 0, refunded: 0 };
+      tender.refunded = Number(row.refunded);
+      tenders.set(row.method, tender);
+    });
+
+    // Net returns out of each product and each day
+    const returnedById = new Map(returnedProducts.map((row) => [row.productId, row]));
+    const topProducts = soldProducts
+      .map((row) => ({
+        productId: row.productId,
+        productName: row.productName,
+        quantity: Number(row.quantity) - Number(returnedById.get(row.productId)?.quantity || 0),
+        revenue: Number(row.revenue) - Number(returnedById.get(row.productId)?.revenue || 0)
+      }))
+      .sort((a, b) => b.revenue - a.revenue)
+      .slice(0, 5);
+
+    const days = new Map(salesByDay.map((row) => [row.date, {
+      date: row.date,
+      sales: row.sales,
+      revenue: Number(row.revenue)
+    }]));
+    refundsByDay.forEach((row) => {
+      const day = days.get(row.date) || { date: row.date, sales: 0, revenue: 0 };
+      day.revenue -= Number(row.refunds);
+      days.set(row.date, day);
+    });
+
+    res.json({
+      startDate,
+      endDate,
+      totalSales: totals.totalSales,
+      totalRevenue: Number(totals.totalRevenue) - Number(refunds.totalRefunds),
+      totalRefunds: Number(refunds.totalRefunds),
+      totalProfit: Number(profit.totalProfit) - Number(returnedProfit.totalProfit),
+      topProducts,
+      salesByDay: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+      collectionsByTender: [...tenders.values()].sort((a, b) => b.collected - a.collected)
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Outstanding udhaar per customer as of a date, bucketed by the age of the credit sales, and the
+// totals across all customers
+router.get('/receivables', authenticateToken, requirePermission('reports:read'), async (req, res) => {
+  try {
+    const asOf = req.query.asOf || new Date().toISOString().split('T')[0];
+
+    if (!DATE_PATTERN.test(asOf)) {
+      return res.status(400).json({ message: 'asOf must be YYYY-MM-DD' });
+    }
+
+    const db = req.app.locals.db;
+    const until = 'DATE_ADD(?, INTERVAL 1 DAY)';
+
+    const [charges] = await db.query(
+      `SELECT s.customer_id AS customerId, s.created_at AS date, sp.amount
+       FROM sales s
+       JOIN sale_payments sp ON sp.sale_id = s.id
+       WHERE sp.method = ? AND s.customer_id IS NOT NULL AND s.created_at < ${until}`,
+      [CREDIT_METHOD, asOf]
+    );
+
+    const [credits] = await db.query(
+      `SELECT s.customer_id AS customerId, r.total_amount AS amount
+       FROM sale_returns r
+       JOIN sales s ON s.id = r.sale_id
+       WHERE r.refund_method = ? AND s.customer_id IS NOT NULL AND r.created_at < ${until}
+       UNION ALL
+       SELECT cp.customer_id AS customerId, cp.amount
+       FROM customer_payments cp
+       WHERE cp.created_at < ${until}`,
+      [CREDIT_METHOD, asOf, asOf]
+    );
+
+    const customerIds = [...new Set(charges.map((row) => row.customerId))];
+    const [customerRows] = customerIds.length
+      ? await db.query('SELECT * FROM customers WHERE id IN (?)', [customerIds])
+      : [[]];
+
+    // Aged as of the end of the requested day
+    const asOfEnd = new Date(`${asOf}T23:59:59`);
+    const customers = customerRows
+      .map((row) => ({
+        customer: toCustomer(row),
+        ...ageReceivables(
+          charges.filter((charge) => charge.customerId === row.id).map((charge) => ({ ...charge, amount: Number(charge.amount) })),
+          credits.filter((credit) => credit.customerId === row.id).map((credit) => ({ amount: Number(credit.amount) })),
+          asOfEnd
+        )
+      }))
+      .filter((row) => row.total > 0)
+      .sort((a, b) => b.total - a.total);
+
+    const totals = customers.reduce((sum, row) => ({
+      current: roundMoney(sum.current + row.current),
+      days31to60: roundMoney(sum.days31to60 + row.days31to60),
+      days61to90: roundMoney(sum.days61to90 + row.days61to90),
+      over90: roundMoney(sum.over90 + row.over90),
+      total: roundMoney(sum.total + row.total)
+    }), { current: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 });
+
+    res.json({ asOf, customers, totals });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Stock on hand and its value at cost as of the end of a date, rebuilt from the stock ledger.
+// Transfers dispatched but not yet received by then are still the store's, so they are added back.
+router.get('/valuation', authenticateToken, requirePermission('reports:read'), async (req, res) => {
+  try {
+    const asOf = req.query.asOf || new Date().toISOString().split('T')[0];
+
+    if (!DATE_PATTERN.test(asOf)) {
+      return res.status(400).json({ message: 'asOf must be YYYY-MM-DD' });
+    }
+
+    const db = req.app.locals.db;
+    const store = await getStoreSettings(db);
+
+    const [rows] = await db.query(
+      `SELECT m.product_id, p.name, c.name AS category,
+              SUM(m.quantity_change) AS quantity, SUM(m.cost_change) AS value
+       FROM stock_movements m
+       LEFT JOIN products p ON p.id = m.product_id
+       LEFT JOIN categories c ON c.id = p.category_id
+       WHERE m.created_at < DATE_ADD(?, INTERVAL 1 DAY)
+       GROUP BY m.product_id, p.name, c.name
+       HAVING quantity <> 0 OR value <> 0
+       ORDER BY value DESC`,
+      [asOf]
+    );
+
+    const [inTransit] = await db.query(
+      `SELECT ti.product_id, p.name, c.name AS category, SUM(ti.quantity) AS quantity, SUM(ti.cost_amount) AS value
+       FROM stock_transfer_items ti
+       JOIN stock_transfers t ON t.id = ti.transfer_id
+       LEFT JOIN products p ON p.id = ti.product_id
+       LEFT JOIN categories c ON c.id = p.category_id
+       WHERE t.created_at < DATE_ADD(?, INTERVAL 1 DAY)
+         AND (t.received_at IS NULL OR t.received_at >= DATE_ADD(?, INTERVAL 1 DAY))
+       GROUP BY ti.product_id, p.name, c.name`,
+      [asOf, asOf]
+    );
+    for (const transit of inTransit) {
+      const row = rows.find((r) => r.product_id === transit.product_id);
+      if (row) {
+        row.quantity = Number(row.quantity) + Number(transit.quantity);
+        row.value = Number(row.value) + Number(transit.value);
+      } else {
+        rows.push(transit);
+      }
+    }
+    rows.sort((a, b) => Number(b.value) - Number(a.value));
+
+    const items = rows.map((row) => {
+      const quantity = Number(row.quantity);
+      const value = Number(row.value);
+      return {
+        productId: row.product_id,
+        productName: row.name || 'Deleted product',
+        category: row.category || undefined,
+        quantity,
+        value,
+        unitCost: quantity > 0 ? roundMoney(value / quantity) : 0
+      };
+    });
+
+    res.json({
+      asOf,
+      costingMethod: store.costingMethod,
+      items,
+      totalQuantity: items.reduce((sum, item) => sum + item.quantity, 0),
+      totalValue: roundMoney(items.reduce((sum, item) => sum + item.value, 0))
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Batches that have expired or expire within the next `days` days and the stock in them at cost,
+// the value at risk of being written off. Defaults to the store's expiry alert window.
+router.get('/expiry', authenticateToken, requirePermission('reports:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const store = await getStoreSettings(db);
+    const days = req.query.days === undefined ? store.expiryAlertDays : Number(req.query.days);
+
+    if (!Number.isInteger(days) || days < 0 || days > 365) {
+      return res.status(400).json({ message: 'days must be a whole number from 0 to 365' });
+    }
+
+    const [rows] = await db.query(
+      `SELECT b.id, b.product_id, p.name, c.name AS category, b.location_id, l.name AS location_name, b.lot_number,
+              b.expires_on, DATEDIFF(b.expires_on, CURDATE()) AS days_left, b.quantity, p.cost_price
+       FROM stock_batches b
+       JOIN products p ON p.id = b.product_id
+       JOIN categories c ON c.id = p.category_id
+       JOIN locations l ON l.id = b.location_id
+       WHERE b.quantity > 0 AND b.expires_on < DATE_ADD(CURDATE(), INTERVAL ? DAY)
+       ORDER BY b.expires_on, p.name`,
+      [days + 1]
+    );
+
+    const items = rows.map((row) => {
+      const unitCost = roundMoney(Number(row.cost_price));
+      return {
+        batchId: row.id,
+        productId: row.product_id,
+        productName: row.name,
+        category: row.category,
+        locationId: row.location_id,
+        locationName: row.location_name,
+        lotNumber: row.lot_number || undefined,
+        expiresOn: toDateOnly(row.expires_on),
+        daysLeft: Number(row.days_left),
+        quantity: row.quantity,
+        unitCost,
+        value: roundMoney(row.quantity * unitCost)
+      };
+    });
+
+    res.json({
+      days,
+      items,
+      totalQuantity: items.reduce((sum, item) => sum + item.quantity, 0),
+      totalValue: roundMoney(items.reduce((sum, item) => sum + item.value, 0)),
+      expiredValue: roundMoney(items.filter((item) => item.daysLeft < 0).reduce((sum, item) => sum + item.value, 0))
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
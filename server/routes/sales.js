@@ -0,0 +1,679 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { getStoreSettings } from '../utils/store.js';
+import { GSTIN_PATTERN, calculateLineTax, isInterState, roundMoney, summarizeTax } from '../utils/gst.js';
+import { nextCreditNoteNumber, nextInvoiceNumber } from '../utils/invoice.js';
+import { renderInvoicePdf } from '../utils/invoicePdf.js';
+import {
+  CREDIT_METHOD, PAYMENT_METHODS, calculateChangeDue, summarizePaymentMethod, validatePayments
+} from '../utils/payments.js';
+import { getOutstandingBalance, toCustomer } from '../utils/customers.js';
+import { fetchStockLevels, moveStock } from '../utils/stock.js';
+import { getUserLocationId } from '../utils/locations.js';
+import {
+  checkSerialsForReturn, checkSerialsInStock, fetchSaleSerials, normalizeSerials, returnSerials, sellSerials,
+  validateSerials
+} from '../utils/serials.js';
+
+const router = express.Router();
+
+// sale_items and sale_return_items share their columns and map to SaleItem, with the serial
+// numbers of the units sold or returned on the line
+const toSaleItem = (item, serials) => ({
+  productId: item.product_id,
+  productName: item.product_name,
+  hsnCode: item.hsn_code || undefined,
+  quantity: item.quantity,
+  unitPrice: Number(item.unit_price),
+  totalPrice: Number(item.total_price),
+  gstRate: Number(item.gst_rate),
+  taxableValue: Number(item.taxable_value),
+  cgstAmount: Number(item.cgst_amount),
+  sgstAmount: Number(item.sgst_amount),
+  igstAmount: Number(item.igst_amount),
+  costAmount: Number(item.cost_amount),
+  serials: serials.length ? serials.map((serial) => serial.serialNumber) : undefined
+});
+
+// Map a sale_returns row and its items to the SaleReturn shape used by the frontend
+const toSaleReturn = (row, items, serials) => ({
+  id: row.id,
+  saleId: row.sale_id,
+  creditNoteNumber: row.credit_note_number,
+  products: items.filter((item) => item.return_id === row.id).map((item) => toSaleItem(
+    item,
+    serials.filter((serial) => serial.saleItemId === item.sale_item_id && serial.returnId === row.id)
+  )),
+  totalAmount: Number(row.total_amount),
+  taxableAmount: Number(row.taxable_amount),
+  cgstAmount: Number(row.cgst_amount),
+  sgstAmount: Number(row.sgst_amount),
+  igstAmount: Number(row.igst_amount),
+  refundMethod: row.refund_method,
+  reason: row.reason || undefined,
+  date: row.created_at
+});
+
+const toPayment = (row) => ({
+  method: row.method,
+  amount: Number(row.amount),
+  reference: row.reference || undefined,
+  tendered: row.tendered_amount === null ? undefined : Number(row.tendered_amount)
+});
+
+// Map sales rows and their sale_items rows to the Sale shape used by the frontend
+const toSale = (row, items, payments, returns, serials) => ({
+  id: row.id,
+  invoiceNumber: row.invoice_number,
+  locationId: row.location_id || undefined,
+  products: items.filter((item) => item.sale_id === row.id).map((item) => toSaleItem(
+    item,
+    serials.filter((serial) => serial.saleItemId === item.id)
+  )),
+  payments: payments.filter((payment) => payment.sale_id === row.id).map(toPayment),
+  returns: returns.filter((saleReturn) => saleReturn.saleId === row.id),
+  totalAmount: Number(row.total_amount),
+  taxableAmount: Number(row.taxable_amount),
+  cgstAmount: Number(row.cgst_amount),
+  sgstAmount: Number(row.sgst_amount),
+  igstAmount: Number(row.igst_amount),
+  paymentMethod: row.payment_method,
+  changeDue: Number(row.change_due),
+  customerId: row.customer_id || undefined,
+  customerName: row.customer_name || undefined,
+  customerPhone: row.customer_phone || undefined,
+  customerGstin: row.customer_gstin || undefined,
+  placeOfSupply: row.place_of_supply || undefined,
+  date: row.created_at,
+  notes: row.notes || undefined
+});
+
+const fetchSales = async (db, where = '', params = []) => {
+  const [rows] = await db.query(`SELECT * FROM sales ${where} ORDER BY created_at DESC`, params);
+  if (!rows.length) {
+    return [];
+  }
+
+  const saleIds = rows.map((row) => row.id);
+  const [items] = await db.query('SELECT * FROM sale_items WHERE sale_id IN (?) ORDER BY id', [saleIds]);
+  const [payments] = await db.query('SELECT * FROM sale_payments WHERE sale_id IN (?) ORDER BY id', [saleIds]);
+  const serials = await fetchSaleSerials(db, saleIds);
+
+  const [returnRows] = await db.query(
+    'SELECT * FROM sale_returns WHERE sale_id IN (?) ORDER BY created_at',
+    [saleIds]
+  );
+  let returns = [];
+  if (returnRows.length) {
+    const [returnItems] = await db.query(
+      'SELECT * FROM sale_return_items WHERE return_id IN (?) ORDER BY id',
+      [returnRows.map((row) => row.id)]
+    );
+    returns = returnRows.map((row) => toSaleReturn(row, returnItems, serials));
+  }
+
+  return rows.map((row) => toSale(row, items, payments, returns, serials));
+};
+
+// Same rules as SaleForm.validateForm, plus item sanity checks
+const validateSale = (data) => {
+  const errors = {};
+
+  if (!Array.isArray(data.products) || data.products.length === 0) {
+    errors.products = 'At least one product must be selected';
+  } else if (data.products.some((item) =>
+    typeof item.productId !== 'string' || !Number.isInteger(item.quantity) || item.quantity < 1
+  )) {
+    errors.products = 'Each item needs a product and a quantity of at least 1';
+  } else if (data.products.some((item) => item.serials !== undefined && !Array.isArray(item.serials))) {
+    errors.products = 'Serial numbers must be a list';
+  }
+
+  if (data.customerPhone && !/^\d{10}$/.test(data.customerPhone)) {
+    errors.customerPhone = 'Phone number must be 10 digits';
+  }
+
+  if (data.customerGstin && !GSTIN_PATTERN.test(data.customerGstin)) {
+    errors.customerGstin = 'Invalid GSTIN format';
+  }
+
+  if (data.placeOfSupply && !/^\d{2}$/.test(data.placeOfSupply)) {
+    errors.placeOfSupply = 'Place of supply must be a 2-digit state code';
+  } else if (data.customerGstin && data.placeOfSupply && data.customerGstin.slice(0, 2) !== data.placeOfSupply) {
+    errors.placeOfSupply = 'Place of supply does not match the customer GSTIN';
+  }
+
+  if (data.customerId !== undefined && typeof data.customerId !== 'string') {
+    errors.customerId = 'Invalid customer';
+  }
+
+  const paymentError = validatePayments(data.payments);
+  if (paymentError) {
+    errors.payments = paymentError;
+  } else if (
+    data.payments.some((payment) => payment.method === CREDIT_METHOD) &&
+    !data.customerId && !(data.customerName && data.customerPhone)
+  ) {
+    errors.payments = 'Credit sales need a customer with a name and phone number';
+  }
+
+  return errors;
+};
+
+// Same checks as SaleReturnForm, quantities are checked against the sale in the transaction
+const validateReturn = (data) => {
+  const errors = {};
+
+  if (!Array.isArray(data.products) || data.products.length === 0) {
+    errors.products = 'Select at least one item to return';
+  } else if (data.products.some((item) =>
+    typeof item.productId !== 'string' || !Number.isInteger(item.quantity) || item.quantity < 1
+  )) {
+    errors.products = 'Each item needs a product and a quantity of at least 1';
+  } else if (data.products.some((item) => item.serials !== undefined && !Array.isArray(item.serials))) {
+    errors.products = 'Serial numbers must be a list';
+  }
+
+  if (!PAYMENT_METHODS.includes(data.refundMethod) && data.refundMethod !== CREDIT_METHOD) {
+    errors.refundMethod = 'Refund method is required';
+  }
+
+  return errors;
+};
+
+// List sales
+router.get('/', authenticateToken, requirePermission('sales:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    res.json(await fetchSales(db));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get a single sale
+router.get('/:id', authenticateToken, requirePermission('sales:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [sale] = await fetchSales(db, 'WHERE id = ?', [req.params.id]);
+
+    if (!sale) {
+      return res.status(404).json({ message: 'Sale not found' });
+    }
+
+    res.json(sale);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Printable invoice as a PDF, either an A4 GST invoice or an 80mm thermal receipt
+router.get('/:id/invoice.pdf', authenticateToken, requirePermission('sales:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [sale] = await fetchSales(db, 'WHERE id = ?', [req.params.id]);
+
+    if (!sale) {
+      return res.status(404).json({ message: 'Sale not found' });
+    }
+
+    const store = await getStoreSettings(db);
+    const layout = req.query.layout === 'thermal' ? 'thermal' : 'a4';
+
+    // Headers go out only once rendering has started, so a failure before then still gets a JSON 500
+    const doc = renderInvoicePdf(sale, store, layout);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `inline; filename="${sale.invoiceNumber.replace(/\//g, '-')}.pdf"`
+    );
+    // Part of the PDF may already be sent, so a failure mid-stream can only cut the response short
+    doc.on('error', (error) => {
+      console.error(error);
+      res.destroy(error);
+    });
+    doc.pipe(res);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create sale and decrement stock in a single transaction.
+// Prices and GST come from the products table; client-side amounts are only a preview.
+router.post('/', authenticateToken, requirePermission('sales:create'), async (req, res) => {
+  const errors = validateSale(req.body);
+  if (Object.keys(errors).length) {
+    return res.status(400).json({ message: 'Validation failed', errors });
+  }
+
+  // Merge duplicate lines so each product is checked against its total quantity
+  const requested = new Map();
+  const requestedSerials = new Map();
+  req.body.products.forEach((item) => {
+    requested.set(item.productId, (requested.get(item.productId) || 0) + item.quantity);
+    requestedSerials.set(item.productId, [...(requestedSerials.get(item.productId) || []), ...(item.serials || [])]);
+  });
+  const productIds = [...requested.keys()].sort();
+
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    // Stock is sold from the cashier's location
+    const locationId = await getUserLocationId(connection, req.user.id);
+
+    await connection.beginTransaction();
+
+    // Lock the product rows in a stable order so concurrent sales queue up instead of deadlocking
+    const [productRows] = await connection.query(
+      `SELECT p.id, p.name, p.hsn_code, p.gst_rate, p.price, p.tracks_serials, p.warranty_months,
+              COALESCE(ps.quantity, 0) AS quantity
+       FROM products p
+       LEFT JOIN product_stock ps ON ps.product_id = p.id AND ps.location_id = ?
+       WHERE p.id IN (?)
+       ORDER BY p.id
+       FOR UPDATE`,
+      [locationId, productIds]
+    );
+    const productsById = new Map(productRows.map((row) => [row.id, row]));
+
+    for (const productId of productIds) {
+      const product = productsById.get(productId);
+      if (!product) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { products: 'One or more products no longer exist' },
+          productId
+        });
+      }
+
+      if (product.quantity < requested.get(productId)) {
+        await connection.rollback();
+        return res.status(409).json({
+          message: `Insufficient stock for ${product.name}`,
+          code: 'INSUFFICIENT_STOCK',
+          productId,
+          productName: product.name,
+          requested: requested.get(productId),
+          available: product.quantity
+        });
+      }
+
+      // Serialized goods are sold by serial number, each unit only once
+      if (product.tracks_serials) {
+        const serials = requestedSerials.get(productId);
+        const serialError = validateSerials(serials, requested.get(productId)) ||
+          await checkSerialsInStock(connection, productId, normalizeSerials(serials), locationId, product.quantity);
+        if (serialError) {
+          await connection.rollback();
+          return res.status(400).json({
+            message: 'Validation failed',
+            errors: { products: `${product.name}: ${serialError}` },
+            productId
+          });
+        }
+      }
+    }
+
+    const { payments, customerName, customerPhone, notes } = req.body;
+    const customerGstin = req.body.customerGstin || null;
+    const placeOfSupply = req.body.placeOfSupply || (customerGstin ? customerGstin.slice(0, 2) : null);
+    const store = await getStoreSettings(connection);
+    const interState = isInterState(store.stateCode, placeOfSupply);
+
+    const items = productIds.map((productId) => {
+      const product = productsById.get(productId);
+      const quantity = requested.get(productId);
+      const unitPrice = Number(product.price);
+      const gstRate = Number(product.gst_rate);
+      const totalPrice = roundMoney(unitPrice * quantity);
+
+      return {
+        productId,
+        productName: product.name,
+        hsnCode: product.hsn_code,
+        quantity,
+        unitPrice,
+        totalPrice,
+        gstRate,
+        ...calculateLineTax(totalPrice, gstRate, interState)
+      };
+    });
+    const totalAmount = roundMoney(items.reduce((sum, item) => sum + item.totalPrice, 0));
+    const tax = summarizeTax(items);
+
+    // The client total is only a preview, so the tenders are checked against the server price
+    const paid = roundMoney(payments.reduce((sum, payment) => sum + payment.amount, 0));
+    if (paid !== totalAmount) {
+      await connection.rollback();
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { payments: `Payments add up to ${paid} but the bill total is ${totalAmount}` }
+      });
+    }
+
+    // Link the customer picked in SaleForm, or file a new one under an unknown phone number
+    let customer = null;
+    if (req.body.customerId) {
+      [[customer]] = await connection.query('SELECT * FROM customers WHERE id = ? FOR UPDATE', [req.body.customerId]);
+      if (!customer) {
+        await connection.rollback();
+        return res.status(400).json({ message: 'Validation failed', errors: { customerId: 'Customer not found' } });
+      }
+    } else if (customerPhone) {
+      [[customer]] = await connection.query('SELECT * FROM customers WHERE phone = ? FOR UPDATE', [customerPhone]);
+      if (!customer && customerName) {
+        const [[{ id: customerId }]] = await connection.query('SELECT UUID() AS id');
+        await connection.query(
+          'INSERT INTO customers (id, name, phone, gstin) VALUES (?, ?, ?, ?)',
+          [customerId, customerName.trim(), customerPhone, customerGstin]
+        );
+        [[customer]] = await connection.query('SELECT * FROM customers WHERE id = ?', [customerId]);
+      }
+    }
+
+    const credit = roundMoney(payments
+      .filter((payment) => payment.method === CREDIT_METHOD)
+      .reduce((sum, payment) => sum + payment.amount, 0));
+    if (credit > 0) {
+      if (!customer) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { payments: 'Credit sales need a customer with a name and phone number' }
+        });
+      }
+
+      const creditLimit = Number(customer.credit_limit);
+      const balance = await getOutstandingBalance(connection, customer.id);
+      if (creditLimit > 0 && roundMoney(balance + credit) > creditLimit) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { payments: `Credit limit of ${creditLimit} exceeded, ${balance} is already outstanding` }
+        });
+      }
+    }
+
+    const [[{ id }]] = await connection.query('SELECT UUID() AS id');
+    // Allocated after the stock checks so a rejected sale never holds the sequence lock
+    const invoiceNumber = await nextInvoiceNumber(connection, store);
+
+    await connection.query(
+      `INSERT INTO sales (id, invoice_number, location_id, total_amount, taxable_amount, cgst_amount, sgst_amount,
+                          igst_amount, payment_method, change_due, customer_id, customer_name, customer_phone,
+                          customer_gstin, place_of_supply, notes, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id, invoiceNumber, locationId, totalAmount, tax.taxableAmount, tax.cgstAmount, tax.sgstAmount, tax.igstAmount,
+        summarizePaymentMethod(payments), calculateChangeDue(payments), customer?.id || null,
+        customerName || customer?.name || null, customerPhone || customer?.phone || null,
+        customerGstin, placeOfSupply, notes || null, req.user.id
+      ]
+    );
+
+    await connection.query(
+      'INSERT INTO sale_payments (sale_id, method, amount, reference, tendered_amount) VALUES ?',
+      [payments.map((payment) => [
+        id, payment.method, payment.amount, payment.reference || null, payment.tendered ?? null
+      ])]
+    );
+
+    // Stock goes out first so each line can keep the cost of the units it took
+    for (const item of items) {
+      item.costAmount = -await moveStock(connection, {
+        productId: item.productId,
+        locationId,
+        change: -item.quantity,
+        type: 'sale',
+        referenceId: id,
+        reference: invoiceNumber
+      }, req.user.id);
+    }
+
+    await connection.query(
+      `INSERT INTO sale_items (sale_id, product_id, product_name, hsn_code, quantity, unit_price, total_price,
+                               gst_rate, taxable_value, cgst_amount, sgst_amount, igst_amount, cost_amount)
+       VALUES ?`,
+      [items.map((item) => [
+        id, item.productId, item.productName, item.hsnCode, item.quantity, item.unitPrice, item.totalPrice,
+        item.gstRate, item.taxableValue, item.cgstAmount, item.sgstAmount, item.igstAmount, item.costAmount
+      ])]
+    );
+
+    const [lineRows] = await connection.query('SELECT id, product_id FROM sale_items WHERE sale_id = ?', [id]);
+    for (const line of lineRows) {
+      const product = productsById.get(line.product_id);
+      if (product.tracks_serials) {
+        await sellSerials(
+          connection, line.id, line.product_id, normalizeSerials(requestedSerials.get(line.product_id)),
+          product.warranty_months, locationId
+        );
+      }
+    }
+
+    const products = await fetchStockLevels(connection, productIds);
+
+    await connection.commit();
+
+    const [sale] = await fetchSales(db, 'WHERE id = ?', [id]);
+    res.status(201).json({
+      sale,
+      products,
+      // Lets the client pick up customers created along with the sale
+      customer: customer ? toCustomer(customer) : undefined
+    });
+  } catch (error) {
+    await connection?.rollback();
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+});
+
+// Return items from a sale: restock them, refund the customer and issue a credit note
+router.post('/:id/returns', authenticateToken, requirePermission('sales:return'), async (req, res) => {
+  const errors = validateReturn(req.body);
+  if (Object.keys(errors).length) {
+    return res.status(400).json({ message: 'Validation failed', errors });
+  }
+
+  const requested = new Map();
+  const requestedSerials = new Map();
+  req.body.products.forEach((item) => {
+    requested.set(item.productId, (requested.get(item.productId) || 0) + item.quantity);
+    requestedSerials.set(item.productId, [...(requestedSerials.get(item.productId) || []), ...(item.serials || [])]);
+  });
+  const productIds = [...requested.keys()].sort();
+
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    await connection.beginTransaction();
+
+    // Lock the sale so two returns against it cannot both take the last units
+    const [[sale]] = await connection.query('SELECT id, location_id, customer_id FROM sales WHERE id = ? FOR UPDATE', [req.params.id]);
+    if (!sale) {
+      await connection.rollback();
+      return res.status(404).json({ message: 'Sale not found' });
+    }
+
+    const [saleItems] = await connection.query('SELECT * FROM sale_items WHERE sale_id = ?', [sale.id]);
+    const [returnedRows] = await connection.query(
+      `SELECT ri.sale_item_id,
+              SUM(ri.quantity) AS quantity, SUM(ri.total_price) AS total_price, SUM(ri.taxable_value) AS taxable_value,
+              SUM(ri.cgst_amount) AS cgst_amount, SUM(ri.sgst_amount) AS sgst_amount, SUM(ri.igst_amount) AS igst_amount,
+              SUM(ri.cost_amount) AS cost_amount
+       FROM sale_return_items ri
+       JOIN sale_returns r ON r.id = ri.return_id
+       WHERE r.sale_id = ?
+       GROUP BY ri.sale_item_id`,
+      [sale.id]
+    );
+    const returnedByItem = new Map(returnedRows.map((row) => [row.sale_item_id, row]));
+
+    const items = [];
+    for (const productId of productIds) {
+      const line = saleItems.find((item) => item.product_id === productId);
+      if (!line) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { products: 'One or more items were not part of this sale' }
+        });
+      }
+
+      const returned = returnedByItem.get(line.id);
+      const remaining = line.quantity - Number(returned?.quantity || 0);
+      const quantity = requested.get(productId);
+      if (quantity > remaining) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { products: `Only ${remaining} of ${line.product_name} can be returned` }
+        });
+      }
+
+      // Units sold by serial number come back by serial number
+      const serialError = await checkSerialsForReturn(connection, line.id, requestedSerials.get(productId), quantity);
+      if (serialError) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { products: `${line.product_name}: ${serialError}` }
+        });
+      }
+
+      const unitPrice = Number(line.unit_price);
+      const gstRate = Number(line.gst_rate);
+      let amounts;
+      if (quantity === remaining) {
+        // Returning the rest of the line refunds exactly what is left, so rounding never drifts
+        const left = (column) => roundMoney(Number(line[column]) - Number(returned?.[column] || 0));
+        amounts = {
+          totalPrice: left('total_price'),
+          taxableValue: left('taxable_value'),
+          cgstAmount: left('cgst_amount'),
+          sgstAmount: left('sgst_amount'),
+          igstAmount: left('igst_amount'),
+          costAmount: left('cost_amount')
+        };
+      } else {
+        const totalPrice = roundMoney(unitPrice * quantity);
+        amounts = {
+          totalPrice,
+          ...calculateLineTax(totalPrice, gstRate, Number(line.igst_amount) > 0),
+          // Returned units go back at what they cost when sold
+          costAmount: roundMoney(Number(line.cost_amount) / line.quantity * quantity)
+        };
+      }
+
+      items.push({
+        saleItemId: line.id,
+        productId,
+        productName: line.product_name,
+        hsnCode: line.hsn_code,
+        quantity,
+        unitPrice,
+        gstRate,
+        ...amounts
+      });
+    }
+
+    await connection.query('SELECT id FROM products WHERE id IN (?) ORDER BY id FOR UPDATE', [productIds]);
+
+    const totalAmount = roundMoney(items.reduce((sum, item) => sum + item.totalPrice, 0));
+    const tax = summarizeTax(items);
+    const { refundMethod, reason } = req.body;
+
+    // Refunding to credit writes the amount off the customer's udhaar instead of paying out
+    if (refundMethod === CREDIT_METHOD) {
+      if (!sale.customer_id) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { refundMethod: 'Only sales to a customer can be refunded to credit' }
+        });
+      }
+
+      await connection.query('SELECT id FROM customers WHERE id = ? FOR UPDATE', [sale.customer_id]);
+      const balance = await getOutstandingBalance(connection, sale.customer_id);
+      if (totalAmount > balance) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { refundMethod: `Refund is more than the ${balance} outstanding on credit` }
+        });
+      }
+    }
+    const store = await getStoreSettings(connection);
+    const [[{ id }]] = await connection.query('SELECT UUID() AS id');
+    const creditNoteNumber = await nextCreditNoteNumber(connection, store);
+
+    await connection.query(
+      `INSERT INTO sale_returns (id, sale_id, credit_note_number, total_amount, taxable_amount, cgst_amount,
+                                 sgst_amount, igst_amount, refund_method, reason, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id, sale.id, creditNoteNumber, totalAmount, tax.taxableAmount, tax.cgstAmount,
+        tax.sgstAmount, tax.igstAmount, refundMethod, reason || null, req.user.id
+      ]
+    );
+
+    await connection.query(
+      `INSERT INTO sale_return_items (return_id, sale_item_id, product_id, product_name, hsn_code, quantity,
+                                      unit_price, total_price, gst_rate, taxable_value, cgst_amount, sgst_amount,
+                                      igst_amount, cost_amount)
+       VALUES ?`,
+      [items.map((item) => [
+        id, item.saleItemId, item.productId, item.productName, item.hsnCode, item.quantity,
+        item.unitPrice, item.totalPrice, item.gstRate, item.taxableValue, item.cgstAmount, item.sgstAmount,
+        item.igstAmount, item.costAmount
+      ])]
+    );
+
+    for (const item of items) {
+      const serials = requestedSerials.get(item.productId);
+      if (serials.length) {
+        await returnSerials(connection, item.saleItemId, normalizeSerials(serials), id, sale.location_id);
+      }
+    }
+
+    // Returned units go back on the shelf at the location they were sold from, into the lots they were sold out of
+    for (const item of items) {
+      await moveStock(connection, {
+        productId: item.productId,
+        locationId: sale.location_id,
+        change: item.quantity,
+        type: 'return',
+        unitCost: item.costAmount / item.quantity,
+        batchesFrom: { type: 'sale', referenceId: sale.id },
+        referenceId: id,
+        reference: creditNoteNumber
+      }, req.user.id);
+    }
+
+    const products = await fetchStockLevels(connection, productIds);
+
+    await connection.commit();
+
+    const [updatedSale] = await fetchSales(db, 'WHERE id = ?', [sale.id]);
+    res.status(201).json({ sale: updatedSale, products });
+  } catch (error) {
+    await connection?.rollback();
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+});
+
+export default router;
@@ -0,0 +1,66 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { toDateOnly } from '../utils/dates.js';
+
+const router = express.Router();
+
+// Map a product_serials row and the sales of the unit to the SerialLookup shape used by the frontend
+const toSerialLookup = (row, sales) => ({
+  productId: row.product_id,
+  productName: row.product_name,
+  serialNumber: row.serial_number,
+  status: row.status,
+  receivedAt: row.received_at || undefined,
+  sales: sales.filter((sale) => sale.serial_id === row.id).map((sale) => ({
+    saleId: sale.sale_id,
+    invoiceNumber: sale.invoice_number,
+    customerId: sale.customer_id || undefined,
+    customerName: sale.customer_name || undefined,
+    customerPhone: sale.customer_phone || undefined,
+    date: sale.created_at,
+    warrantyEndsOn: toDateOnly(sale.warranty_ends_on),
+    creditNoteNumber: sale.credit_note_number || undefined,
+    returnedAt: sale.returned_at || undefined
+  }))
+});
+
+// Find a unit by its serial number: the product, whether it is in stock and every sale of it,
+// latest first. The same number can be on file for products of different makes.
+router.get('/:serialNumber', authenticateToken, requirePermission('sales:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [rows] = await db.query(
+      `SELECT ps.*, p.name AS product_name, gr.created_at AS received_at
+       FROM product_serials ps
+       JOIN products p ON p.id = ps.product_id
+       LEFT JOIN goods_receipts gr ON gr.id = ps.receipt_id
+       WHERE ps.serial_number = ?
+       ORDER BY p.name`,
+      [req.params.serialNumber.trim()]
+    );
+    if (!rows.length) {
+      return res.json([]);
+    }
+
+    const [sales] = await db.query(
+      `SELECT sis.serial_id, sis.warranty_ends_on, s.id AS sale_id, s.invoice_number, s.customer_id,
+              COALESCE(c.name, s.customer_name) AS customer_name, COALESCE(c.phone, s.customer_phone) AS customer_phone,
+              s.created_at, r.credit_note_number, r.created_at AS returned_at
+       FROM sale_item_serials sis
+       JOIN sale_items si ON si.id = sis.sale_item_id
+       JOIN sales s ON s.id = si.sale_id
+       LEFT JOIN customers c ON c.id = s.customer_id
+       LEFT JOIN sale_returns r ON r.id = sis.return_id
+       WHERE sis.serial_id IN (?)
+       ORDER BY s.created_at DESC`,
+      [rows.map((row) => row.id)]
+    );
+
+    res.json(rows.map((row) => toSerialLookup(row, sales)));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
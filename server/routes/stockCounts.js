@@ -0,0 +1,412 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { getStoreSettings } from '../utils/store.js';
+import { nextStockCountNumber } from '../utils/invoice.js';
+import { fetchStockLevels, moveStock } from '../utils/stock.js';
+import { resolveLocationId } from '../utils/locations.js';
+import { fetchCategoryIds } from '../utils/categories.js';
+import { adjustSerials, checkSerialsForAdjustment } from '../utils/serials.js';
+
+const router = express.Router();
+
+const toStockCountItem = (row) => ({
+  productId: row.product_id,
+  productName: row.product_name,
+  systemQuantity: row.system_quantity,
+  countedQuantity: row.counted_quantity === null ? undefined : row.counted_quantity,
+  unitCost: Number(row.unit_cost)
+});
+
+// Map stock_counts rows and their items to the StockCount shape used by the frontend
+const toStockCount = (row, items) => ({
+  id: row.id,
+  countNumber: row.count_number,
+  locationId: row.location_id || undefined,
+  category: row.category || undefined,
+  status: row.status,
+  notes: row.notes || undefined,
+  items: items.filter((item) => item.count_id === row.id).map(toStockCountItem),
+  createdBy: row.created_by_name || undefined,
+  submittedAt: row.submitted_at || undefined,
+  approvedBy: row.approved_by_name || undefined,
+  postedAt: row.posted_at || undefined,
+  createdAt: row.created_at
+});
+
+const fetchStockCounts = async (db, where = '', params = []) => {
+  const [rows] = await db.query(
+    `SELECT c.*, creator.name AS created_by_name, approver.name AS approved_by_name
+     FROM stock_counts c
+     LEFT JOIN users creator ON creator.id = c.created_by
+     LEFT JOIN users approver ON approver.id = c.approved_by
+     ${where}
+     ORDER BY c.created_at DESC`,
+    params
+  );
+  if (!rows.length) {
+    return [];
+  }
+
+  const [items] = await db.query(
+    'SELECT * FROM stock_count_items WHERE count_id IN (?) ORDER BY product_name',
+    [rows.map((row) => row.id)]
+  );
+
+  return rows.map((row) => toStockCount(row, items));
+};
+
+// Same checks as StockCountSheet; products are checked against the count in the transaction
+const validateCountedItems = (data) => {
+  const errors = {};
+
+  if (!Array.isArray(data.items) || data.items.length === 0) {
+    errors.items = 'Enter at least one counted quantity';
+  } else if (data.items.some((item) =>
+    typeof item.productId !== 'string' ||
+    (item.countedQuantity !== null && (!Number.isInteger(item.countedQuantity) || item.countedQuantity < 0))
+  )) {
+    errors.items = 'Counted quantities must be whole numbers of 0 or more';
+  }
+
+  return errors;
+};
+
+// Locks a count and checks it is in the expected status; returns the row or sends the error response
+const lockCount = async (connection, id, status, res) => {
+  const [[count]] = await connection.query('SELECT * FROM stock_counts WHERE id = ? FOR UPDATE', [id]);
+  if (!count) {
+    await connection.rollback();
+    res.status(404).json({ message: 'Stock count not found' });
+    return null;
+  }
+  if (count.status !== status) {
+    await connection.rollback();
+    res.status(409).json({ message: `Stock count is ${count.status}` });
+    return null;
+  }
+  return count;
+};
+
+// List stock counts
+router.get('/', authenticateToken, requirePermission('stock:count'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    res.json(await fetchStockCounts(db));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Start a count at one location, of one category and its subcategories or every product when no
+// category is given. The count keeps the category's name as it was when the count started.
+router.post('/', authenticateToken, requirePermission('stock:count'), async (req, res) => {
+  const { categoryId, notes } = req.body;
+  if (categoryId !== undefined && (typeof categoryId !== 'string' || !categoryId)) {
+    return res.status(400).json({ message: 'Validation failed', errors: { categoryId: 'Invalid category' } });
+  }
+
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    const locationId = await resolveLocationId(connection, req.body.locationId, req.user.id);
+    if (!locationId) {
+      return res.status(400).json({ message: 'Validation failed', errors: { locationId: 'Location not found' } });
+    }
+
+    let category = null;
+    if (categoryId) {
+      const [[row]] = await connection.query('SELECT name FROM categories WHERE id = ?', [categoryId]);
+      if (!row) {
+        return res.status(400).json({ message: 'Validation failed', errors: { categoryId: 'Category not found' } });
+      }
+      category = row.name;
+    }
+    const categoryIds = categoryId ? await fetchCategoryIds(connection, categoryId) : [];
+
+    await connection.beginTransaction();
+
+    // Parents of variants hold no stock, so their variants are counted instead
+    const [products] = await connection.query(
+      `SELECT p.id, p.name, COALESCE(ps.quantity, 0) AS quantity, p.cost_price
+       FROM products p
+       LEFT JOIN product_stock ps ON ps.product_id = p.id AND ps.location_id = ?
+       WHERE p.variant_options IS NULL ${categoryId ? 'AND p.category_id IN (?)' : ''}
+       ORDER BY p.name`,
+      categoryId ? [locationId, categoryIds] : [locationId]
+    );
+    if (!products.length) {
+      await connection.rollback();
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { categoryId: 'There are no products to count' }
+      });
+    }
+
+    const store = await getStoreSettings(connection);
+    const [[{ id }]] = await connection.query('SELECT UUID() AS id');
+    const countNumber = await nextStockCountNumber(connection, store);
+
+    await connection.query(
+      'INSERT INTO stock_counts (id, count_number, location_id, category, notes, created_by) VALUES (?, ?, ?, ?, ?, ?)',
+      [id, countNumber, locationId, category, notes || null, req.user.id]
+    );
+    await connection.query(
+      'INSERT INTO stock_count_items (count_id, product_id, product_name, system_quantity, unit_cost) VALUES ?',
+      [products.map((product) => [id, product.id, product.name, product.quantity, product.cost_price])]
+    );
+
+    await connection.commit();
+
+    const [count] = await fetchStockCounts(db, 'WHERE c.id = ?', [id]);
+    res.status(201).json(count);
+  } catch (error) {
+    await connection?.rollback();
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+});
+
+// Save counted quantities. The system quantity is re-read as each line is counted, so the
+// variance is measured against the stock on hand at the count's location at that moment.
+router.put('/:id/items', authenticateToken, requirePermission('stock:count'), async (req, res) => {
+  const errors = validateCountedItems(req.body);
+  if (Object.keys(errors).length) {
+    return res.status(400).json({ message: 'Validation failed', errors });
+  }
+
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    await connection.beginTransaction();
+
+    const count = await lockCount(connection, req.params.id, 'counting', res);
+    if (!count) return;
+
+    for (const item of req.body.items) {
+      const [result] = await connection.query(
+        `UPDATE stock_count_items ci
+         JOIN products p ON p.id = ci.product_id
+         LEFT JOIN product_stock ps ON ps.product_id = p.id AND ps.location_id = ?
+         SET ci.counted_quantity = ?, ci.system_quantity = COALESCE(ps.quantity, 0), ci.unit_cost = p.cost_price
+         WHERE ci.count_id = ? AND ci.product_id = ?`,
+        [count.location_id, item.countedQuantity, count.id, item.productId]
+      );
+      if (!result.affectedRows) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { items: 'One or more products are not part of this count' }
+        });
+      }
+    }
+
+    await connection.commit();
+
+    const [updated] = await fetchStockCounts(db, 'WHERE c.id = ?', [count.id]);
+    res.json(updated);
+  } catch (error) {
+    await connection?.rollback();
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+});
+
+// Hand the count over for admin approval
+router.post('/:id/submit', authenticateToken, requirePermission('stock:count'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [[{ counted }]] = await db.query(
+      'SELECT COUNT(counted_quantity) AS counted FROM stock_count_items WHERE count_id = ?',
+      [req.params.id]
+    );
+    if (!counted) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { items: 'Count at least one product before submitting' }
+      });
+    }
+
+    const [result] = await db.query(
+      `UPDATE stock_counts SET status = 'submitted', submitted_by = ?, submitted_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND status = 'counting'`,
+      [req.user.id, req.params.id]
+    );
+
+    const [count] = await fetchStockCounts(db, 'WHERE c.id = ?', [req.params.id]);
+    if (!count) {
+      return res.status(404).json({ message: 'Stock count not found' });
+    }
+    if (!result.affectedRows) {
+      return res.status(409).json({ message: `Stock count is ${count.status}` });
+    }
+
+    res.json(count);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Send a submitted count back for recounting
+router.post('/:id/reopen', authenticateToken, requirePermission('stock:approve'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [result] = await db.query(
+      `UPDATE stock_counts SET status = 'counting', submitted_by = NULL, submitted_at = NULL
+       WHERE id = ? AND status = 'submitted'`,
+      [req.params.id]
+    );
+
+    const [count] = await fetchStockCounts(db, 'WHERE c.id = ?', [req.params.id]);
+    if (!count) {
+      return res.status(404).json({ message: 'Stock count not found' });
+    }
+    if (!result.affectedRows) {
+      return res.status(409).json({ message: `Stock count is ${count.status}` });
+    }
+
+    res.json(count);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Approve a submitted count and post every variance to the stock ledger. The variance of a serialized
+// product names its units in serials, keyed by product: missing units are written off, found ones
+// go in stock.
+router.post('/:id/approve', authenticateToken, requirePermission('stock:approve'), async (req, res) => {
+  const serials = req.body?.serials || {};
+  if (typeof serials !== 'object' || Array.isArray(serials)) {
+    return res.status(400).json({ message: 'Validation failed', errors: { serials: 'Invalid serial numbers' } });
+  }
+
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    await connection.beginTransaction();
+
+    const count = await lockCount(connection, req.params.id, 'submitted', res);
+    if (!count) return;
+
+    const [items] = await connection.query(
+      `SELECT product_id, product_name, counted_quantity - system_quantity AS variance
+       FROM stock_count_items
+       WHERE count_id = ? AND counted_quantity IS NOT NULL AND counted_quantity <> system_quantity
+       ORDER BY product_id`,
+      [count.id]
+    );
+
+    let products = [];
+    if (items.length) {
+      const productIds = items.map((item) => item.product_id);
+      const [productRows] = await connection.query(
+        `SELECT p.id, p.tracks_serials, COALESCE(ps.quantity, 0) AS quantity
+         FROM products p
+         LEFT JOIN product_stock ps ON ps.product_id = p.id AND ps.location_id = ?
+         WHERE p.id IN (?)
+         ORDER BY p.id
+         FOR UPDATE`,
+        [count.location_id, productIds]
+      );
+      const quantities = new Map(productRows.map((row) => [row.id, row.quantity]));
+
+      // Stock sold since counting can leave less on hand than the shortfall to write off
+      const short = items.find((item) => quantities.get(item.product_id) + Number(item.variance) < 0);
+      if (short) {
+        await connection.rollback();
+        return res.status(409).json({
+          message: `${short.product_name} has sold since it was counted; reopen the count and recount it`
+        });
+      }
+
+      for (const item of items) {
+        const product = productRows.find((row) => row.id === item.product_id);
+        if (product.tracks_serials) {
+          const variance = Number(item.variance);
+          const serialError = await checkSerialsForAdjustment(
+            connection, item.product_id, serials[item.product_id] || [], variance, count.location_id, product.quantity
+          );
+          if (serialError) {
+            await connection.rollback();
+            return res.status(400).json({
+              message: 'Validation failed',
+              errors: { serials: `${item.product_name}: ${serialError}` }
+            });
+          }
+          await adjustSerials(connection, item.product_id, serials[item.product_id], variance, count.location_id);
+        }
+
+        await moveStock(connection, {
+          productId: item.product_id,
+          locationId: count.location_id,
+          change: Number(item.variance),
+          type: 'adjustment',
+          reason: 'count_correction',
+          referenceId: count.id,
+          reference: count.count_number
+        }, req.user.id);
+      }
+
+      products = await fetchStockLevels(connection, productIds);
+    }
+
+    await connection.query(
+      "UPDATE stock_counts SET status = 'posted', approved_by = ?, posted_at = CURRENT_TIMESTAMP WHERE id = ?",
+      [req.user.id, count.id]
+    );
+
+    await connection.commit();
+
+    const [stockCount] = await fetchStockCounts(db, 'WHERE c.id = ?', [count.id]);
+    res.json({ stockCount, products });
+  } catch (error) {
+    await connection?.rollback();
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { serials: 'Each serial number can only be added once' }
+      });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+});
+
+// Discard a count that has not been posted
+router.delete('/:id', authenticateToken, requirePermission('stock:count'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [result] = await db.query(
+      "DELETE FROM stock_counts WHERE id = ? AND status <> 'posted'",
+      [req.params.id]
+    );
+
+    if (!result.affectedRows) {
+      const [[count]] = await db.query('SELECT id FROM stock_counts WHERE id = ?', [req.params.id]);
+      return count
+        ? res.status(409).json({ message: 'Posted stock counts cannot be deleted' })
+        : res.status(404).json({ message: 'Stock count not found' });
+    }
+
+    res.json({ message: 'Stock count deleted successfully' });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,267 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { getStoreSettings } from '../utils/store.js';
+import { nextStockTransferNumber } from '../utils/invoice.js';
+import { fetchStockLevels, moveStock } from '../utils/stock.js';
+import { checkSerialsInStock, deliverSerials, dispatchSerials, normalizeSerials, validateSerials } from '../utils/serials.js';
+
+const router = express.Router();
+
+const toStockTransferItem = (row) => ({
+  productId: row.product_id,
+  productName: row.product_name,
+  quantity: row.quantity,
+  costAmount: Number(row.cost_amount)
+});
+
+// Map stock_transfers rows and their items to the StockTransfer shape used by the frontend
+const toStockTransfer = (row, items) => ({
+  id: row.id,
+  transferNumber: row.transfer_number,
+  fromLocationId: row.from_location_id,
+  toLocationId: row.to_location_id,
+  status: row.status,
+  notes: row.notes || undefined,
+  items: items.filter((item) => item.transfer_id === row.id).map(toStockTransferItem),
+  createdBy: row.created_by_name || undefined,
+  receivedBy: row.received_by_name || undefined,
+  receivedAt: row.received_at || undefined,
+  createdAt: row.created_at
+});
+
+const fetchStockTransfers = async (db, where = '', params = []) => {
+  const [rows] = await db.query(
+    `SELECT t.*, creator.name AS created_by_name, receiver.name AS received_by_name
+     FROM stock_transfers t
+     LEFT JOIN users creator ON creator.id = t.created_by
+     LEFT JOIN users receiver ON receiver.id = t.received_by
+     ${where}
+     ORDER BY t.created_at DESC`,
+    params
+  );
+  if (!rows.length) {
+    return [];
+  }
+
+  const [items] = await db.query(
+    'SELECT * FROM stock_transfer_items WHERE transfer_id IN (?) ORDER BY product_name',
+    [rows.map((row) => row.id)]
+  );
+
+  return rows.map((row) => toStockTransfer(row, items));
+};
+
+// Same rules as StockTransferForm.validateForm; stock is checked in the transaction
+const validateTransfer = (data) => {
+  const errors = {};
+
+  if (typeof data.fromLocationId !== 'string' || !data.fromLocationId) {
+    errors.fromLocationId = 'Choose where the stock is going from';
+  }
+
+  if (typeof data.toLocationId !== 'string' || !data.toLocationId) {
+    errors.toLocationId = 'Choose where the stock is going to';
+  } else if (data.toLocationId === data.fromLocationId) {
+    errors.toLocationId = 'Choose a different location to send to';
+  }
+
+  if (!Array.isArray(data.items) || data.items.length === 0) {
+    errors.items = 'Add at least one product';
+  } else if (data.items.some((item) =>
+    typeof item.productId !== 'string' || !Number.isInteger(item.quantity) || item.quantity <= 0
+  )) {
+    errors.items = 'Each product needs a quantity of at least 1';
+  } else if (new Set(data.items.map((item) => item.productId)).size !== data.items.length) {
+    errors.items = 'Each product can only be listed once';
+  } else if (data.items.some((item) => item.serials !== undefined && !Array.isArray(item.serials))) {
+    errors.items = 'Serial numbers must be a list';
+  }
+
+  return errors;
+};
+
+// List transfers
+router.get('/', authenticateToken, requirePermission('stock:transfer'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    res.json(await fetchStockTransfers(db));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Dispatch stock: it leaves the source location now and stays in transit until received.
+// Serialized products are sent by serial number, each unit in stock at the source location.
+router.post('/', authenticateToken, requirePermission('stock:transfer'), async (req, res) => {
+  const errors = validateTransfer(req.body);
+  if (Object.keys(errors).length) {
+    return res.status(400).json({ message: 'Validation failed', errors });
+  }
+
+  const { fromLocationId, toLocationId, items, notes } = req.body;
+  const productIds = items.map((item) => item.productId).sort();
+
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    const [locations] = await connection.query('SELECT id FROM locations WHERE id IN (?)', [[fromLocationId, toLocationId]]);
+    if (locations.length !== 2) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { toLocationId: 'One or both locations no longer exist' }
+      });
+    }
+
+    await connection.beginTransaction();
+
+    // Same lock order as sales and receipts so they cannot deadlock
+    const [productRows] = await connection.query(
+      `SELECT p.id, p.name, p.tracks_serials, COALESCE(ps.quantity, 0) AS quantity
+       FROM products p
+       LEFT JOIN product_stock ps ON ps.product_id = p.id AND ps.location_id = ?
+       WHERE p.id IN (?)
+       ORDER BY p.id
+       FOR UPDATE`,
+      [fromLocationId, productIds]
+    );
+    const productsById = new Map(productRows.map((row) => [row.id, row]));
+
+    for (const item of items) {
+      const product = productsById.get(item.productId);
+      if (!product) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { items: 'One or more products no longer exist' }
+        });
+      }
+      if (product.quantity < item.quantity) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { items: `Only ${product.quantity} of ${product.name} at the source location` }
+        });
+      }
+      if (product.tracks_serials) {
+        const serials = item.serials || [];
+        const serialError = validateSerials(serials, item.quantity) ||
+          await checkSerialsInStock(connection, item.productId, normalizeSerials(serials), fromLocationId, product.quantity);
+        if (serialError) {
+          await connection.rollback();
+          return res.status(400).json({
+            message: 'Validation failed',
+            errors: { items: `${product.name}: ${serialError}` }
+          });
+        }
+      }
+    }
+
+    const store = await getStoreSettings(connection);
+    const [[{ id }]] = await connection.query('SELECT UUID() AS id');
+    const transferNumber = await nextStockTransferNumber(connection, store);
+
+    await connection.query(
+      `INSERT INTO stock_transfers (id, transfer_number, from_location_id, to_location_id, notes, created_by)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [id, transferNumber, fromLocationId, toLocationId, notes || null, req.user.id]
+    );
+
+    // The units leave at their cost so the destination takes them in at the same value
+    const lines = [];
+    for (const item of items) {
+      const costAmount = -await moveStock(connection, {
+        productId: item.productId,
+        locationId: fromLocationId,
+        change: -item.quantity,
+        type: 'transfer',
+        referenceId: id,
+        reference: transferNumber
+      }, req.user.id);
+      lines.push([id, item.productId, productsById.get(item.productId).name, item.quantity, costAmount]);
+      if (productsById.get(item.productId).tracks_serials) {
+        await dispatchSerials(connection, item.productId, normalizeSerials(item.serials), id);
+      }
+    }
+    await connection.query(
+      'INSERT INTO stock_transfer_items (transfer_id, product_id, product_name, quantity, cost_amount) VALUES ?',
+      [lines]
+    );
+
+    const products = await fetchStockLevels(connection, productIds);
+    await connection.commit();
+
+    const [stockTransfer] = await fetchStockTransfers(db, 'WHERE t.id = ?', [id]);
+    res.status(201).json({ stockTransfer, products });
+  } catch (error) {
+    await connection?.rollback();
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+});
+
+// Receive a transfer in full at the destination
+router.post('/:id/receive', authenticateToken, requirePermission('stock:transfer'), async (req, res) => {
+  const db = req.app.locals.db;
+  let connection;
+
+  try {
+    connection = await db.getConnection();
+    await connection.beginTransaction();
+
+    const [[transfer]] = await connection.query('SELECT * FROM stock_transfers WHERE id = ? FOR UPDATE', [req.params.id]);
+    if (!transfer) {
+      await connection.rollback();
+      return res.status(404).json({ message: 'Stock transfer not found' });
+    }
+    if (transfer.status !== 'in_transit') {
+      await connection.rollback();
+      return res.status(409).json({ message: 'Stock transfer has already been received' });
+    }
+
+    const [items] = await connection.query(
+      'SELECT product_id, quantity, cost_amount FROM stock_transfer_items WHERE transfer_id = ? ORDER BY product_id',
+      [transfer.id]
+    );
+    const productIds = items.map((item) => item.product_id);
+    await connection.query('SELECT id FROM products WHERE id IN (?) ORDER BY id FOR UPDATE', [productIds]);
+
+    for (const item of items) {
+      await moveStock(connection, {
+        productId: item.product_id,
+        locationId: transfer.to_location_id,
+        change: item.quantity,
+        type: 'transfer',
+        unitCost: Number(item.cost_amount) / item.quantity,
+        // Batches arrive as the lots they left the source location in
+        batchesFrom: { type: 'transfer', referenceId: transfer.id },
+        referenceId: transfer.id,
+        reference: transfer.transfer_number
+      }, req.user.id);
+    }
+
+    await deliverSerials(connection, transfer.id, transfer.to_location_id);
+    await connection.query(
+      "UPDATE stock_transfers SET status = 'received', received_by = ?, received_at = CURRENT_TIMESTAMP WHERE id = ?",
+      [req.user.id, transfer.id]
+    );
+
+    const products = await fetchStockLevels(connection, productIds);
+    await connection.commit();
+
+    const [stockTransfer] = await fetchStockTransfers(db, 'WHERE t.id = ?', [transfer.id]);
+    res.json({ stockTransfer, products });
+  } catch (error) {
+    await connection?.rollback();
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    connection?.release();
+  }
+});
+
+export default router;
@@ -0,0 +1,150 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { getStoreSettings } from '../utils/store.js';
+import { GSTIN_PATTERN } from '../utils/gst.js';
+import { COSTING_METHODS } from '../utils/stock.js';
+
+const router = express.Router();
+
+const LOGO_PATTERN = /^data:image\/(png|jpeg|webp|svg\+xml);base64,/;
+
+const isValidLocale = (locale) => {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+};
+
+const validateStore = (data) => {
+  const errors = {};
+
+  if (typeof data.legalName !== 'string' || !data.legalName.trim()) {
+    errors.legalName = 'Legal name is required';
+  }
+
+  if (data.stateCode && !/^\d{2}$/.test(data.stateCode)) {
+    errors.stateCode = 'State code must be 2 digits';
+  }
+
+  if (data.pincode && !/^\d{6}$/.test(data.pincode)) {
+    errors.pincode = 'PIN code must be 6 digits';
+  }
+
+  if (data.phone && !/^\d{10}$/.test(data.phone)) {
+    errors.phone = 'Phone number must be 10 digits';
+  }
+
+  if (data.email && !/\S+@\S+\.\S+/.test(data.email)) {
+    errors.email = 'Invalid email format';
+  }
+
+  if (data.gstin) {
+    if (!GSTIN_PATTERN.test(data.gstin)) {
+      errors.gstin = 'Invalid GSTIN format';
+    } else if (data.stateCode && data.gstin.slice(0, 2) !== data.stateCode) {
+      errors.gstin = 'GSTIN does not match the state code';
+    }
+  }
+
+  if (data.logoUrl && !LOGO_PATTERN.test(data.logoUrl)) {
+    errors.logoUrl = 'Logo must be a PNG, JPEG, WebP or SVG image';
+  }
+
+  if (typeof data.currency !== 'string' || !Intl.supportedValuesOf('currency').includes(data.currency)) {
+    errors.currency = 'Unsupported currency';
+  }
+
+  if (typeof data.locale !== 'string' || !isValidLocale(data.locale)) {
+    errors.locale = 'Invalid locale';
+  }
+
+  if (!Number.isInteger(data.fiscalYearStartMonth) || data.fiscalYearStartMonth < 1 || data.fiscalYearStartMonth > 12) {
+    errors.fiscalYearStartMonth = 'Fiscal year start must be a month from 1 to 12';
+  }
+
+  if (typeof data.invoicePrefix !== 'string' || !/^[A-Za-z0-9-]{1,10}$/.test(data.invoicePrefix)) {
+    errors.invoicePrefix = 'Invoice prefix must be 1 to 10 letters, digits or dashes';
+  }
+
+  if (typeof data.creditNotePrefix !== 'string' || !/^[A-Za-z0-9-]{1,10}$/.test(data.creditNotePrefix)) {
+    errors.creditNotePrefix = 'Credit note prefix must be 1 to 10 letters, digits or dashes';
+  } else if (typeof data.invoicePrefix === 'string' &&
+    data.creditNotePrefix.toUpperCase() === data.invoicePrefix.toUpperCase()) {
+    errors.creditNotePrefix = 'Credit note prefix must differ from the invoice prefix';
+  }
+
+  if (!COSTING_METHODS.includes(data.costingMethod)) {
+    errors.costingMethod = 'Costing method must be FIFO or weighted average';
+  }
+
+  if (!Number.isInteger(data.expiryAlertDays) || data.expiryAlertDays < 0 || data.expiryAlertDays > 365) {
+    errors.expiryAlertDays = 'Expiry alerts must be 0 to 365 days ahead';
+  }
+
+  if (!Array.isArray(data.taxRates) || data.taxRates.length === 0 ||
+    data.taxRates.some((rate) => typeof rate !== 'number' || rate < 0 || rate > 100)) {
+    errors.taxRates = 'Tax rates must be percentages between 0 and 100';
+  } else if (!data.taxRates.includes(data.defaultTaxRate)) {
+    errors.defaultTaxRate = 'Default tax rate must be one of the tax rates';
+  }
+
+  return errors;
+};
+
+// Get the store profile
+router.get('/', authenticateToken, requirePermission('store:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    res.json(await getStoreSettings(db));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Update the store profile
+router.put('/', authenticateToken, requirePermission('store:manage'), async (req, res) => {
+  try {
+    const errors = validateStore(req.body);
+    if (Object.keys(errors).length) {
+      return res.status(400).json({ message: 'Validation failed', errors });
+    }
+
+    const data = req.body;
+    const taxRates = [...new Set(data.taxRates)].sort((a, b) => a - b);
+    const db = req.app.locals.db;
+
+    await db.query(
+      `INSERT INTO store_settings (id, legal_name, trade_name, address_line1, address_line2, city, state, state_code,
+         pincode, phone, email, gstin, logo_url, currency, locale, fiscal_year_start_month, invoice_prefix,
+         credit_note_prefix, costing_method, expiry_alert_days, default_tax_rate, tax_rates)
+       VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE
+         legal_name = VALUES(legal_name), trade_name = VALUES(trade_name),
+         address_line1 = VALUES(address_line1), address_line2 = VALUES(address_line2),
+         city = VALUES(city), state = VALUES(state), state_code = VALUES(state_code), pincode = VALUES(pincode),
+         phone = VALUES(phone), email = VALUES(email), gstin = VALUES(gstin), logo_url = VALUES(logo_url),
+         currency = VALUES(currency), locale = VALUES(locale),
+         fiscal_year_start_month = VALUES(fiscal_year_start_month), invoice_prefix = VALUES(invoice_prefix),
+         credit_note_prefix = VALUES(credit_note_prefix), costing_method = VALUES(costing_method),
+         expiry_alert_days = VALUES(expiry_alert_days),
+         default_tax_rate = VALUES(default_tax_rate), tax_rates = VALUES(tax_rates)`,
+      [
+        data.legalName.trim(), data.tradeName || null, data.addressLine1 || '', data.addressLine2 || null,
+        data.city || '', data.state || '', data.stateCode || '', data.pincode || '',
+        data.phone || null, data.email || null, data.gstin || null, data.logoUrl || null,
+        data.currency, data.locale, data.fiscalYearStartMonth, data.invoicePrefix.toUpperCase(),
+        data.creditNotePrefix.toUpperCase(), data.costingMethod, data.expiryAlertDays, data.defaultTaxRate,
+        JSON.stringify(taxRates)
+      ]
+    );
+
+    res.json(await getStoreSettings(db));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,283 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { GSTIN_PATTERN, roundMoney } from '../utils/gst.js';
+import { isDateOnly, toDateOnly } from '../utils/dates.js';
+
+const router = express.Router();
+
+// Map a suppliers row to the Supplier shape used by the frontend
+const toSupplier = (row) => ({
+  id: row.id,
+  name: row.name,
+  phone: row.phone || undefined,
+  email: row.email || undefined,
+  gstin: row.gstin || undefined,
+  address: row.address || undefined,
+  notes: row.notes || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+// Map a supplier_bills row to the SupplierBill shape used by the frontend
+const toSupplierBill = (row) => ({
+  id: row.id,
+  supplierId: row.supplier_id,
+  purchaseOrderId: row.purchase_order_id || undefined,
+  billNumber: row.bill_number,
+  billDate: toDateOnly(row.bill_date),
+  dueDate: toDateOnly(row.due_date),
+  amount: Number(row.amount),
+  notes: row.notes || undefined,
+  paidAt: row.paid_at || undefined,
+  createdAt: row.created_at
+});
+
+// Same rules as SupplierForm.validateForm
+const validateSupplier = (data) => {
+  const errors = {};
+
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    errors.name = 'Name is required';
+  }
+
+  if (data.phone && !/^\d{10}$/.test(data.phone)) {
+    errors.phone = 'Phone number must be 10 digits';
+  }
+
+  if (data.email && !/\S+@\S+\.\S+/.test(data.email)) {
+    errors.email = 'Invalid email format';
+  }
+
+  if (data.gstin && !GSTIN_PATTERN.test(data.gstin)) {
+    errors.gstin = 'Invalid GSTIN format';
+  }
+
+  return errors;
+};
+
+// Same rules as SupplierBillForm.validateForm
+const validateBill = (data) => {
+  const errors = {};
+
+  if (typeof data.billNumber !== 'string' || !data.billNumber.trim()) {
+    errors.billNumber = 'Bill number is required';
+  } else if (data.billNumber.length > 50) {
+    errors.billNumber = 'Bill number must be at most 50 characters';
+  }
+
+  if (!isDateOnly(data.billDate)) {
+    errors.billDate = 'Bill date is required';
+  }
+
+  if (data.dueDate && !isDateOnly(data.dueDate)) {
+    errors.dueDate = 'Invalid due date';
+  } else if (data.dueDate && isDateOnly(data.billDate) && data.dueDate < data.billDate) {
+    errors.dueDate = 'Due date cannot be before the bill date';
+  }
+
+  if (typeof data.amount !== 'number' || !(data.amount > 0)) {
+    errors.amount = 'Amount must be greater than 0';
+  } else if (roundMoney(data.amount) !== data.amount) {
+    errors.amount = 'Amount cannot have more than 2 decimal places';
+  }
+
+  if (data.purchaseOrderId !== undefined && typeof data.purchaseOrderId !== 'string') {
+    errors.purchaseOrderId = 'Invalid purchase order';
+  }
+
+  return errors;
+};
+
+// List suppliers
+router.get('/', authenticateToken, requirePermission('purchases:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [rows] = await db.query('SELECT * FROM suppliers ORDER BY name');
+
+    res.json(rows.map(toSupplier));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Every bill received from suppliers, newest first
+router.get('/bills', authenticateToken, requirePermission('suppliers:bills'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [rows] = await db.query('SELECT * FROM supplier_bills ORDER BY bill_date DESC, created_at DESC');
+
+    res.json(rows.map(toSupplierBill));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Mark a supplier bill as paid
+router.post('/bills/:billId/pay', authenticateToken, requirePermission('suppliers:bills'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [result] = await db.query(
+      'UPDATE supplier_bills SET paid_at = CURRENT_TIMESTAMP WHERE id = ? AND paid_at IS NULL',
+      [req.params.billId]
+    );
+
+    if (!result.affectedRows) {
+      const [[bill]] = await db.query('SELECT id FROM supplier_bills WHERE id = ?', [req.params.billId]);
+      return bill
+        ? res.status(409).json({ message: 'Bill is already paid' })
+        : res.status(404).json({ message: 'Bill not found' });
+    }
+
+    const [rows] = await db.query('SELECT * FROM supplier_bills WHERE id = ?', [req.params.billId]);
+    res.json(toSupplierBill(rows[0]));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get a single supplier
+router.get('/:id', authenticateToken, requirePermission('purchases:read'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [rows] = await db.query('SELECT * FROM suppliers WHERE id = ?', [req.params.id]);
+
+    if (!rows.length) {
+      return res.status(404).json({ message: 'Supplier not found' });
+    }
+
+    res.json(toSupplier(rows[0]));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create supplier
+router.post('/', authenticateToken, requirePermission('purchases:write'), async (req, res) => {
+  try {
+    const errors = validateSupplier(req.body);
+    if (Object.keys(errors).length) {
+      return res.status(400).json({ message: 'Validation failed', errors });
+    }
+
+    const { name, phone, email, gstin, address, notes } = req.body;
+    const db = req.app.locals.db;
+    const [[{ id }]] = await db.query('SELECT UUID() AS id');
+
+    await db.query(
+      `INSERT INTO suppliers (id, name, phone, email, gstin, address, notes)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, name.trim(), phone || null, email || null, gstin || null, address || null, notes || null]
+    );
+
+    const [rows] = await db.query('SELECT * FROM suppliers WHERE id = ?', [id]);
+    res.status(201).json(toSupplier(rows[0]));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Update supplier
+router.put('/:id', authenticateToken, requirePermission('purchases:write'), async (req, res) => {
+  try {
+    const errors = validateSupplier(req.body);
+    if (Object.keys(errors).length) {
+      return res.status(400).json({ message: 'Validation failed', errors });
+    }
+
+    const { name, phone, email, gstin, address, notes } = req.body;
+    const db = req.app.locals.db;
+
+    const [result] = await db.query(
+      `UPDATE suppliers
+       SET name = ?, phone = ?, email = ?, gstin = ?, address = ?, notes = ?
+       WHERE id = ?`,
+      [name.trim(), phone || null, email || null, gstin || null, address || null, notes || null, req.params.id]
+    );
+
+    if (!result.affectedRows) {
+      return res.status(404).json({ message: 'Supplier not found' });
+    }
+
+    const [rows] = await db.query('SELECT * FROM suppliers WHERE id = ?', [req.params.id]);
+    res.json(toSupplier(rows[0]));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete supplier
+router.delete('/:id', authenticateToken, requirePermission('purchases:delete'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [result] = await db.query('DELETE FROM suppliers WHERE id = ?', [req.params.id]);
+
+    if (!result.affectedRows) {
+      return res.status(404).json({ message: 'Supplier not found' });
+    }
+
+    res.json({ message: 'Supplier deleted successfully' });
+  } catch (error) {
+    if (error.code === 'ER_ROW_IS_REFERENCED_2') {
+      return res.status(409).json({ message: 'Supplier has purchase orders or bills and cannot be deleted' });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Record a bill received from the supplier, optionally against one of their purchase orders
+router.post('/:id/bills', authenticateToken, requirePermission('suppliers:bills'), async (req, res) => {
+  try {
+    const errors = validateBill(req.body);
+    if (Object.keys(errors).length) {
+      return res.status(400).json({ message: 'Validation failed', errors });
+    }
+
+    const db = req.app.locals.db;
+    const [[supplier]] = await db.query('SELECT id FROM suppliers WHERE id = ?', [req.params.id]);
+    if (!supplier) {
+      return res.status(404).json({ message: 'Supplier not found' });
+    }
+
+    const { purchaseOrderId, billNumber, billDate, dueDate, amount, notes } = req.body;
+    if (purchaseOrderId) {
+      const [[order]] = await db.query(
+        'SELECT id FROM purchase_orders WHERE id = ? AND supplier_id = ?',
+        [purchaseOrderId, supplier.id]
+      );
+      if (!order) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: { purchaseOrderId: 'Purchase order does not belong to this supplier' }
+        });
+      }
+    }
+
+    const [[{ id }]] = await db.query('SELECT UUID() AS id');
+    await db.query(
+      `INSERT INTO supplier_bills (id, supplier_id, purchase_order_id, bill_number, bill_date, due_date, amount, notes, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, supplier.id, purchaseOrderId || null, billNumber.trim(), billDate, dueDate || null, amount, notes || null, req.user.id]
+    );
+
+    const [rows] = await db.query('SELECT * FROM supplier_bills WHERE id = ?', [id]);
+    res.status(201).json(toSupplierBill(rows[0]));
+  } catch (error) {
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { billNumber: 'This bill has already been recorded for the supplier' }
+      });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -1,20 +1,104 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
-import { authenticateToken } from '../middleware/auth.js';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
 
 const router = express.Router();
 
+const ROLES = ['admin', 'employee'];
+
+// Map a users row to the User shape used by the frontend, never exposing the password hash
+const toUser = (row) => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  phone: row.phone || undefined,
+  role: row.role,
+  locationId: row.location_id || undefined,
+  avatar: row.avatar_url || undefined,
+  active: Boolean(row.is_active),
+  createdAt: row.created_at
+});
+
+// Same rules as the Users page form
+const validateUser = (data, { isNew }) => {
+  const errors = {};
+
+  if (isNew) {
+    if (typeof data.name !== 'string' || !data.name.trim()) {
+      errors.name = 'Name is required';
+    }
+
+    if (typeof data.email !== 'string' || !data.email.trim()) {
+      errors.email = 'Email is required';
+    } else if (!/\S+@\S+\.\S+/.test(data.email)) {
+      errors.email = 'Invalid email format';
+    }
+
+    if (data.password && String(data.password).length < 8) {
+      errors.password = 'Password must be at least 8 characters';
+    }
+  }
+
+  if (typeof data.phone !== 'string' || !data.phone.trim()) {
+    errors.phone = 'Phone number is required';
+  } else if (!/^\d{10}$/.test(data.phone)) {
+    errors.phone = 'Phone number must be 10 digits';
+  }
+
+  if (!ROLES.includes(data.role)) {
+    errors.role = 'Role must be admin or employee';
+  }
+
+  if (data.locationId && typeof data.locationId !== 'string') {
+    errors.locationId = 'Invalid location';
+  }
+
+  return errors;
+};
+
+// Rules for a user editing their own profile; phone is optional here
+const validateProfile = (data) => {
+  const errors = {};
+
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    errors.name = 'Name is required';
+  }
+
+  if (typeof data.email !== 'string' || !data.email.trim()) {
+    errors.email = 'Email is required';
+  } else if (!/\S+@\S+\.\S+/.test(data.email)) {
+    errors.email = 'Invalid email format';
+  }
+
+  if (data.phone && !/^\d{10}$/.test(data.phone)) {
+    errors.phone = 'Phone number must be 10 digits';
+  }
+
+  return errors;
+};
+
+const AVATAR_PATTERN = /^data:image\/(png|jpeg|webp|gif);base64,/;
+const MAX_AVATAR_BYTES = 1024 * 1024;
+
+const DEFAULT_PREFERENCES = { notifications: true, stockAlerts: true };
+
+// Map a user_preferences row, falling back to defaults for users who never saved any
+const toPreferences = (row) => (row ? {
+  notifications: Boolean(row.notifications),
+  stockAlerts: Boolean(row.stock_alerts)
+} : DEFAULT_PREFERENCES);
+
 // Get user profile
-router.get('/profile', authenticateToken, async (req, res) => {
+router.get('/profile', authenticateToken, requirePermission('profile:manage'), async (req, res) => {
   try {
     const db = req.app.locals.db;
-    const [users] = await db.query('SELECT id, name, email, role FROM users WHERE id = ?', [req.user.id]);
+    const [users] = await db.query('SELECT * FROM users WHERE id = ?', [req.user.id]);
     
     if (!users.length) {
       return res.status(404).json({ message: 'User not found' });
     }
 
-    res.json(users[0]);
+    res.json(toUser(users[0]));
   } catch (error) {
     console.error(error);
     res.status(500).json({ message: 'Server error' });
@@ -22,17 +106,223 @@ router.get('/profile', authenticateToken, async (req, res) => {
 });
 
 // Update user profile
-router.put('/profile', authenticateToken, async (req, res) => {
+router.put('/profile', authenticateToken, requirePermission('profile:manage'), async (req, res) => {
+  try {
+    const errors = validateProfile(req.body);
+    if (Object.keys(errors).length) {
+      return res.status(400).json({ message: 'Validation failed', errors });
+    }
+
+    const { name, email, phone } = req.body;
+    const db = req.app.locals.db;
+
+    await db.query(
+      'UPDATE users SET name = ?, email = ?, phone = ? WHERE id = ?',
+      [name.trim(), email.trim().toLowerCase(), phone || null, req.user.id]
+    );
+
+    const [users] = await db.query('SELECT * FROM users WHERE id = ?', [req.user.id]);
+    res.json(toUser(users[0]));
+  } catch (error) {
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { email: 'A user with this email already exists' }
+      });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Upload or remove the profile avatar, sent as a base64 data URL like product images
+router.put('/profile/avatar', authenticateToken, requirePermission('profile:manage'), async (req, res) => {
+  try {
+    const { avatar } = req.body;
+
+    if (avatar) {
+      if (typeof avatar !== 'string' || !AVATAR_PATTERN.test(avatar)) {
+        return res.status(400).json({ message: 'Avatar must be a PNG, JPEG, WebP or GIF image' });
+      }
+
+      const base64 = avatar.slice(avatar.indexOf(',') + 1);
+      if (Buffer.byteLength(base64, 'base64') > MAX_AVATAR_BYTES) {
+        return res.status(400).json({ message: 'Avatar must be smaller than 1 MB' });
+      }
+    }
+
+    const db = req.app.locals.db;
+    await db.query('UPDATE users SET avatar_url = ? WHERE id = ?', [avatar || null, req.user.id]);
+
+    const [users] = await db.query('SELECT * FROM users WHERE id = ?', [req.user.id]);
+    res.json(toUser(users[0]));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get notification preferences
+router.get('/profile/preferences', authenticateToken, requirePermission('profile:manage'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [rows] = await db.query('SELECT * FROM user_preferences WHERE user_id = ?', [req.user.id]);
+
+    res.json(toPreferences(rows[0]));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Save notification preferences
+router.put('/profile/preferences', authenticateToken, requirePermission('profile:manage'), async (req, res) => {
+  try {
+    const { notifications, stockAlerts } = req.body;
+
+    if (typeof notifications !== 'boolean' || typeof stockAlerts !== 'boolean') {
+      return res.status(400).json({ message: 'notifications and stockAlerts must be true or false' });
+    }
+
+    const db = req.app.locals.db;
+    await db.query(
+      `INSERT INTO user_preferences (user_id, notifications, stock_alerts) VALUES (?, ?, ?)
+       ON DUPLICATE KEY UPDATE notifications = VALUES(notifications), stock_alerts = VALUES(stock_alerts)`,
+      [req.user.id, notifications, stockAlerts]
+    );
+
+    res.json({ notifications, stockAlerts });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// List users
+router.get('/', authenticateToken, requirePermission('users:manage'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [rows] = await db.query('SELECT * FROM users ORDER BY name');
+
+    res.json(rows.map(toUser));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create or invite a user; without a password they sign in with Google using this email
+router.post('/', authenticateToken, requirePermission('users:manage'), async (req, res) => {
+  try {
+    const errors = validateUser(req.body, { isNew: true });
+    if (Object.keys(errors).length) {
+      return res.status(400).json({ message: 'Validation failed', errors });
+    }
+
+    const { name, email, phone, role, locationId, password } = req.body;
+    const db = req.app.locals.db;
+    const [[{ id }]] = await db.query('SELECT UUID() AS id');
+    const passwordHash = password ? await bcrypt.hash(password, 10) : null;
+
+    await db.query(
+      'INSERT INTO users (id, name, email, phone, role, location_id, password) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [id, name.trim(), email.trim().toLowerCase(), phone, role, locationId || null, passwordHash]
+    );
+
+    const [rows] = await db.query('SELECT * FROM users WHERE id = ?', [id]);
+    res.status(201).json(toUser(rows[0]));
+  } catch (error) {
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { email: 'A user with this email already exists' }
+      });
+    }
+    if (error.code === 'ER_NO_REFERENCED_ROW_2') {
+      return res.status(400).json({ message: 'Validation failed', errors: { locationId: 'Location not found' } });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Update a user's role, phone and location
+router.put('/:id', authenticateToken, requirePermission('users:manage'), async (req, res) => {
   try {
-    const { name, email } = req.body;
+    const errors = validateUser(req.body, { isNew: false });
+    if (Object.keys(errors).length) {
+      return res.status(400).json({ message: 'Validation failed', errors });
+    }
+
+    // Stop admins from locking themselves out
+    if (req.params.id === req.user.id && req.body.role !== req.user.role) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: { role: 'You cannot change your own role' }
+      });
+    }
+
+    const { phone, role, locationId } = req.body;
     const db = req.app.locals.db;
+    const [result] = await db.query(
+      'UPDATE users SET phone = ?, role = ?, location_id = ? WHERE id = ?',
+      [phone, role, locationId || null, req.params.id]
+    );
+
+    if (!result.affectedRows) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const [rows] = await db.query('SELECT * FROM users WHERE id = ?', [req.params.id]);
+    res.json(toUser(rows[0]));
+  } catch (error) {
+    if (error.code === 'ER_NO_REFERENCED_ROW_2') {
+      return res.status(400).json({ message: 'Validation failed', errors: { locationId: 'Location not found' } });
+    }
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Deactivate a user and end their sessions
+router.post('/:id/deactivate', authenticateToken, requirePermission('users:manage'), async (req, res) => {
+  try {
+    if (req.params.id === req.user.id) {
+      return res.status(400).json({ message: 'You cannot deactivate your own account' });
+    }
+
+    const db = req.app.locals.db;
+    const [result] = await db.query('UPDATE users SET is_active = FALSE WHERE id = ?', [req.params.id]);
+
+    if (!result.affectedRows) {
+      return res.status(404).json({ message: 'User not found' });
+    }
 
     await db.query(
-      'UPDATE users SET name = ?, email = ? WHERE id = ?',
-      [name, email, req.user.id]
+      'UPDATE refresh_tokens SET revoked_at = NOW() WHERE user_id = ? AND revoked_at IS NULL',
+      [req.params.id]
     );
 
-    res.json({ message: 'Profile updated successfully' });
+    const [rows] = await db.query('SELECT * FROM users WHERE id = ?', [req.params.id]);
+    res.json(toUser(rows[0]));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Reactivate a user
+router.post('/:id/reactivate', authenticateToken, requirePermission('users:manage'), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const [result] = await db.query('UPDATE users SET is_active = TRUE WHERE id = ?', [req.params.id]);
+
+    if (!result.affectedRows) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const [rows] = await db.query('SELECT * FROM users WHERE id = ?', [req.params.id]);
+    res.json(toUser(rows[0]));
   } catch (error) {
     console.error(error);
     res.status(500).json({ message: 'Server error' });
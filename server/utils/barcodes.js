@@ -0,0 +1,13 @@
+// EAN-8, UPC-A, EAN-13 and GTIN-14 codes end in a check digit: the other digits are weighted
+// 3 and 1 alternately from the right, and the check digit brings the sum to a multiple of 10
+export const isValidBarcode = (code) => {
+  if (typeof code !== 'string' || !/^(\d{8}|\d{12,14})$/.test(code)) {
+    return false;
+  }
+
+  const digits = code.split('').map(Number);
+  const checkDigit = digits.pop();
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === checkDigit;
+};
+
@@ -0,0 +1,24 @@
+// Map a categories row to the Category shape used by the frontend
+export const toCategory = (row) => ({
+  id: row.id,
+  name: row.name,
+  parentId: row.parent_id || undefined,
+  gstRate: row.gst_rate === null ? undefined : Number(row.gst_rate),
+  threshold: row.threshold === null ? undefined : row.threshold,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+// A category and every subcategory under it, at any depth; empty if the category doesn't exist
+export const fetchCategoryIds = async (db, categoryId) => {
+  const [rows] = await db.query(
+    `WITH RECURSIVE tree AS (
+       SELECT id FROM categories WHERE id = ?
+       UNION ALL
+       SELECT c.id FROM categories c JOIN tree t ON c.parent_id = t.id
+     )
+     SELECT id FROM tree`,
+    [categoryId]
+  );
+  return rows.map((row) => row.id);
+};
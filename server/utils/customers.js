@@ -0,0 +1,66 @@
+import { roundMoney } from './gst.js';
+import { CREDIT_METHOD } from './payments.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Map a customers row to the Customer shape used by the frontend
+export const toCustomer = (row) => ({
+  id: row.id,
+  name: row.name,
+  phone: row.phone,
+  email: row.email || undefined,
+  gstin: row.gstin || undefined,
+  address: row.address || undefined,
+  creditLimit: Number(row.credit_limit),
+  notes: row.notes || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+// Udhaar still owed: credit tenders on sales, less returns refunded to credit and collections
+export const getOutstandingBalance = async (db, customerId) => {
+  const [[row]] = await db.query(
+    `SELECT
+       (SELECT COALESCE(SUM(sp.amount), 0)
+        FROM sale_payments sp JOIN sales s ON s.id = sp.sale_id
+        WHERE s.customer_id = ? AND sp.method = ?)
+     - (SELECT COALESCE(SUM(r.total_amount), 0)
+        FROM sale_returns r JOIN sales s ON s.id = r.sale_id
+        WHERE s.customer_id = ? AND r.refund_method = ?)
+     - (SELECT COALESCE(SUM(cp.amount), 0)
+        FROM customer_payments cp
+        WHERE cp.customer_id = ?) AS balance`,
+    [customerId, CREDIT_METHOD, customerId, CREDIT_METHOD, customerId]
+  );
+  return roundMoney(Number(row.balance));
+};
+
+// Upper bound in days for each aging bucket, oldest last
+const AGING_BUCKETS = [
+  ['current', 30],
+  ['days31to60', 60],
+  ['days61to90', 90],
+  ['over90', Infinity]
+];
+
+// Collections settle the oldest credit sales first; whatever is still open is bucketed by its age
+export const ageReceivables = (charges, credits, asOf) => {
+  const aging = { current: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 };
+  let available = credits.reduce((sum, credit) => sum + credit.amount, 0);
+
+  [...charges]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach((charge) => {
+      const settled = Math.min(available, charge.amount);
+      available -= settled;
+      const open = roundMoney(charge.amount - settled);
+      if (open <= 0) return;
+
+      const days = Math.floor((asOf.getTime() - new Date(charge.date).getTime()) / DAY_MS);
+      const [bucket] = AGING_BUCKETS.find(([, maxDays]) => days <= maxDays);
+      aging[bucket] = roundMoney(aging[bucket] + open);
+      aging.total = roundMoney(aging.total + open);
+    });
+
+  return aging;
+};
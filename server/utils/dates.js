@@ -0,0 +1,17 @@
+// mysql2 reads DATE columns as local-midnight Date objects; send them as YYYY-MM-DD so
+// the calendar day does not shift when the client parses them in another timezone
+export const toDateOnly = (value) => {
+  if (!value) {
+    return undefined;
+  }
+  if (typeof value === 'string') {
+    return value.slice(0, 10);
+  }
+  return [
+    value.getFullYear(),
+    String(value.getMonth() + 1).padStart(2, '0'),
+    String(value.getDate()).padStart(2, '0')
+  ].join('-');
+};
+
+export const isDateOnly = (value) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
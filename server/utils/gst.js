@@ -0,0 +1,32 @@
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+// A sale is inter-state when the place of supply is a different state from the store
+export const isInterState = (storeStateCode, placeOfSupply) =>
+  Boolean(storeStateCode && placeOfSupply && storeStateCode !== placeOfSupply);
+
+// Selling prices include GST, so the tax is carved out of the line total.
+// Intra-state tax is split evenly into CGST and SGST; inter-state tax is all IGST.
+export const calculateLineTax = (totalPrice, gstRate, interState) => {
+  const taxableValue = roundMoney(totalPrice / (1 + gstRate / 100));
+  const tax = roundMoney(totalPrice - taxableValue);
+
+  if (interState) {
+    return { taxableValue, cgstAmount: 0, sgstAmount: 0, igstAmount: tax };
+  }
+
+  const cgstAmount = roundMoney(tax / 2);
+  return { taxableValue, cgstAmount, sgstAmount: roundMoney(tax - cgstAmount), igstAmount: 0 };
+};
+
+// Sale-level totals are the sum of the already-rounded line amounts
+export const summarizeTax = (items) => items.reduce(
+  (totals, item) => ({
+    taxableAmount: roundMoney(totals.taxableAmount + item.taxableValue),
+    cgstAmount: roundMoney(totals.cgstAmount + item.cgstAmount),
+    sgstAmount: roundMoney(totals.sgstAmount + item.sgstAmount),
+    igstAmount: roundMoney(totals.igstAmount + item.igstAmount)
+  }),
+  { taxableAmount: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0 }
+);
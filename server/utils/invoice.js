@@ -0,0 +1,90 @@
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+// Indian numbering groups by lakh and crore, everything else by thousand
+const INDIAN_SCALES = [[10000000, 'Crore'], [100000, 'Lakh'], [1000, 'Thousand'], [100, 'Hundred']];
+const INTERNATIONAL_SCALES = [[1000000000, 'Billion'], [1000000, 'Million'], [1000, 'Thousand'], [100, 'Hundred']];
+
+const CURRENCY_UNITS = {
+  INR: ['Rupees', 'Paise'],
+  USD: ['Dollars', 'Cents'],
+  EUR: ['Euros', 'Cents'],
+  GBP: ['Pounds', 'Pence']
+};
+
+const integerToWords = (value, scales) => {
+  if (value < 20) {
+    return ONES[value];
+  }
+  if (value < 100) {
+    return [TENS[Math.floor(value / 10)], ONES[value % 10]].filter(Boolean).join(' ');
+  }
+
+  const [size, name] = scales.find(([scaleSize]) => value >= scaleSize);
+  return [
+    integerToWords(Math.floor(value / size), scales),
+    name,
+    integerToWords(value % size, scales)
+  ].filter(Boolean).join(' ');
+};
+
+// e.g. 1250.5 in INR -> "Rupees One Thousand Two Hundred Fifty and Fifty Paise Only"
+export const amountInWords = (amount, currency = 'INR') => {
+  const scales = currency === 'INR' ? INDIAN_SCALES : INTERNATIONAL_SCALES;
+  const [major, minor] = CURRENCY_UNITS[currency] || [currency, 'Cents'];
+  const cents = Math.round(Math.abs(amount) * 100);
+  const whole = Math.floor(cents / 100);
+  const fraction = cents % 100;
+
+  let words = `${major} ${whole ? integerToWords(whole, scales) : 'Zero'}`;
+  if (fraction) {
+    words += ` and ${integerToWords(fraction, scales)} ${minor}`;
+  }
+  return `${words} Only`;
+};
+
+// Fiscal year label for a date, e.g. 2026-27 for an April start, or 2026 for a January start
+export const getFiscalYear = (date, startMonth) => {
+  const startYear = date.getMonth() + 1 < startMonth ? date.getFullYear() - 1 : date.getFullYear();
+  return startMonth === 1
+    ? String(startYear)
+    : `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+// Hands out the next number in a series for the current fiscal year. Must run on
+// the caller's transaction connection: the upsert locks the sequence row until
+// commit, so concurrent documents queue up and a rollback gives the number back.
+const nextDocumentNumber = async (connection, series, prefix, store, date) => {
+  const fiscalYear = getFiscalYear(date, store.fiscalYearStartMonth);
+
+  await connection.query(
+    `INSERT INTO invoice_sequences (series, fiscal_year, last_number) VALUES (?, ?, 1)
+     ON DUPLICATE KEY UPDATE last_number = last_number + 1`,
+    [series, fiscalYear]
+  );
+  const [[{ last_number: number }]] = await connection.query(
+    'SELECT last_number FROM invoice_sequences WHERE series = ? AND fiscal_year = ?',
+    [series, fiscalYear]
+  );
+
+  return `${prefix}/${fiscalYear}/${String(number).padStart(6, '0')}`;
+};
+
+export const nextInvoiceNumber = (connection, store, date = new Date()) =>
+  nextDocumentNumber(connection, 'invoice', store.invoicePrefix, store, date);
+
+export const nextCreditNoteNumber = (connection, store, date = new Date()) =>
+  nextDocumentNumber(connection, 'credit_note', store.creditNotePrefix, store, date);
+
+// Purchase orders, stock counts and transfers are internal documents, so their prefixes are fixed rather than store settings
+export const nextPurchaseOrderNumber = (connection, store, date = new Date()) =>
+  nextDocumentNumber(connection, 'purchase_order', 'PO', store, date);
+
+export const nextStockCountNumber = (connection, store, date = new Date()) =>
+  nextDocumentNumber(connection, 'stock_count', 'SC', store, date);
+
+export const nextStockTransferNumber = (connection, store, date = new Date()) =>
+  nextDocumentNumber(connection, 'stock_transfer', 'ST', store, date);
@@ -0,0 +1,261 @@
+import PDFDocument from 'pdfkit';
+import { amountInWords } from './invoice.js';
+
+// 80mm thermal paper is 226.77pt wide; A4 uses PDFKit's own page size
+const THERMAL_WIDTH = 226.77;
+const LOGO_PATTERN = /^data:image\/(png|jpeg);base64,/;
+
+// The built-in PDF fonts cannot draw every currency symbol, so amounts are
+// printed as plain numbers and the currency code goes in the column headings
+const makeFormatters = (store) => {
+  const number = new Intl.NumberFormat(store.locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const date = new Intl.DateTimeFormat(store.locale, { day: '2-digit', month: 'short', year: 'numeric' });
+  const time = new Intl.DateTimeFormat(store.locale, { hour: '2-digit', minute: '2-digit' });
+
+  return {
+    amount: (value) => number.format(value),
+    date: (value) => date.format(new Date(value)),
+    time: (value) => time.format(new Date(value))
+  };
+};
+
+// Serialized units are listed under the item so the invoice doubles as the warranty card
+const itemDescription = (item) => (
+  item.serials ? `${item.productName}\nS/N: ${item.serials.join(', ')}` : item.productName
+);
+
+const storeAddress = (store) => [
+  store.addressLine1,
+  store.addressLine2,
+  [store.city, store.state, store.pincode].filter(Boolean).join(', ')
+].filter(Boolean);
+
+const logoBuffer = (store) => (
+  store.logoUrl && LOGO_PATTERN.test(store.logoUrl)
+    ? Buffer.from(store.logoUrl.split(',')[1], 'base64')
+    : null
+);
+
+const isInterStateSale = (sale) => sale.igstAmount > 0;
+
+const renderA4 = (doc, sale, store) => {
+  const format = makeFormatters(store);
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+  const width = right - left;
+  const interState = isInterStateSale(sale);
+
+  // Store header
+  const logo = logoBuffer(store);
+  const headerLeft = logo ? left + 70 : left;
+  if (logo) {
+    doc.image(logo, left, doc.y, { fit: [60, 60] });
+  }
+
+  const headerTop = doc.y;
+  doc.font('Helvetica-Bold').fontSize(16).text(store.tradeName || store.legalName, headerLeft, headerTop, { width: 280 });
+  doc.font('Helvetica').fontSize(9);
+  if (store.tradeName && store.tradeName !== store.legalName) {
+    doc.text(store.legalName, { width: 280 });
+  }
+  storeAddress(store).forEach((line) => doc.text(line, { width: 280 }));
+  if (store.gstin) {
+    doc.text(`GSTIN: ${store.gstin}`, { width: 280 });
+  }
+  if (store.phone || store.email) {
+    doc.text([store.phone, store.email].filter(Boolean).join(' | '), { width: 280 });
+  }
+  const headerBottom = Math.max(doc.y, headerTop + (logo ? 60 : 0));
+
+  doc.font('Helvetica-Bold').fontSize(14).text('TAX INVOICE', left, headerTop, { width, align: 'right' });
+  doc.font('Helvetica').fontSize(9);
+  doc.text(`Invoice No: ${sale.invoiceNumber}`, { width, align: 'right' });
+  doc.text(`Date: ${format.date(sale.date)}`, { width, align: 'right' });
+  doc.text(`Place of Supply: ${sale.placeOfSupply || store.stateCode || '-'}`, { width, align: 'right' });
+
+  doc.y = Math.max(doc.y, headerBottom) + 10;
+  doc.moveTo(left, doc.y).lineTo(right, doc.y).stroke();
+  doc.moveDown(0.5);
+
+  // Customer
+  doc.font('Helvetica-Bold').text('Bill To', left);
+  doc.font('Helvetica');
+  doc.text(sale.customerName || 'Walk-in Customer');
+  if (sale.customerPhone) {
+    doc.text(`Phone: ${sale.customerPhone}`);
+  }
+  if (sale.customerGstin) {
+    doc.text(`GSTIN: ${sale.customerGstin}`);
+  }
+  doc.moveDown();
+
+  // Line items
+  const taxColumns = interState
+    ? [{ label: 'IGST', value: (item) => format.amount(item.igstAmount) }]
+    : [
+      { label: 'CGST', value: (item) => format.amount(item.cgstAmount) },
+      { label: 'SGST', value: (item) => format.amount(item.sgstAmount) }
+    ];
+  const columns = [
+    { label: '#', width: 20, value: (item, index) => String(index + 1) },
+    { label: 'Item', width: interState ? 150 : 110, align: 'left', value: itemDescription },
+    { label: 'HSN', width: 45, align: 'left', value: (item) => item.hsnCode || '-' },
+    { label: 'Qty', width: 30, value: (item) => String(item.quantity) },
+    { label: 'Rate', width: 55, value: (item) => format.amount(item.unitPrice) },
+    { label: 'Taxable', width: 60, value: (item) => format.amount(item.taxableValue) },
+    { label: 'GST %', width: 35, value: (item) => String(item.gstRate) },
+    ...taxColumns.map((column) => ({ ...column, width: interState ? 60 : 50 })),
+    { label: `Total (${store.currency})`, width: 0, value: (item) => format.amount(item.totalPrice) }
+  ];
+  // The last column takes whatever width is left
+  columns[columns.length - 1].width = width - columns.reduce((sum, column) => sum + column.width, 0);
+
+  const drawRow = (cells, font) => {
+    const top = doc.y;
+    let x = left;
+    let bottom = top;
+    doc.font(font);
+    columns.forEach((column, index) => {
+      doc.text(cells[index], x + 2, top, { width: column.width - 4, align: column.align || 'right' });
+      bottom = Math.max(bottom, doc.y);
+      x += column.width;
+    });
+    doc.y = bottom + 4;
+  };
+
+  doc.fontSize(8);
+  drawRow(columns.map((column) => column.label), 'Helvetica-Bold');
+  doc.moveTo(left, doc.y - 2).lineTo(right, doc.y - 2).stroke();
+
+  sale.products.forEach((item, index) => {
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 40) {
+      doc.addPage();
+    }
+    drawRow(columns.map((column) => column.value(item, index)), 'Helvetica');
+  });
+  doc.moveTo(left, doc.y).lineTo(right, doc.y).stroke();
+  doc.moveDown();
+
+  // Totals
+  if (doc.y > doc.page.height - doc.page.margins.bottom - 140) {
+    doc.addPage();
+  }
+  const totals = [
+    ['Taxable Value', sale.taxableAmount],
+    ...(interState ? [['IGST', sale.igstAmount]] : [['CGST', sale.cgstAmount], ['SGST', sale.sgstAmount]]),
+    [`Total (${store.currency})`, sale.totalAmount]
+  ];
+  doc.fontSize(9);
+  totals.forEach(([label, value], index) => {
+    const top = doc.y;
+    doc.font(index === totals.length - 1 ? 'Helvetica-Bold' : 'Helvetica');
+    doc.text(label, right - 220, top, { width: 120, align: 'right' });
+    doc.text(format.amount(value), right - 100, top, { width: 100, align: 'right' });
+  });
+  doc.moveDown();
+
+  doc.font('Helvetica-Bold').text('Amount in words: ', left, doc.y, { continued: true });
+  doc.font('Helvetica').text(amountInWords(sale.totalAmount, store.currency), { width });
+  doc.moveDown();
+
+  const payments = sale.payments
+    .map((payment) => `${payment.method} ${format.amount(payment.amount)}${payment.reference ? ` (${payment.reference})` : ''}`)
+    .join(', ');
+  doc.text(`Payment: ${payments}`, left, doc.y, { width });
+  if (sale.notes) {
+    doc.text(`Notes: ${sale.notes}`);
+  }
+  doc.moveDown(2);
+
+  doc.fontSize(8).fillColor('#666666').text('This is a computer generated invoice.', left, doc.y, { width, align: 'center' });
+};
+
+const renderThermal = (doc, sale, store) => {
+  const format = makeFormatters(store);
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const right = left + width;
+  const interState = isInterStateSale(sale);
+
+  const rule = () => {
+    doc.moveDown(0.3);
+    doc.moveTo(left, doc.y).lineTo(right, doc.y).dash(2, { space: 2 }).stroke().undash();
+    doc.moveDown(0.3);
+  };
+  const pair = (label, value, font = 'Helvetica') => {
+    const top = doc.y;
+    doc.font(font).text(label, left, top, { width: width - 70 });
+    const labelBottom = doc.y;
+    doc.text(value, right - 70, top, { width: 70, align: 'right' });
+    doc.y = Math.max(labelBottom, doc.y);
+  };
+
+  // Store header
+  doc.font('Helvetica-Bold').fontSize(11).text(store.tradeName || store.legalName, { align: 'center' });
+  doc.font('Helvetica').fontSize(7);
+  storeAddress(store).forEach((line) => doc.text(line, { align: 'center' }));
+  if (store.gstin) {
+    doc.text(`GSTIN: ${store.gstin}`, { align: 'center' });
+  }
+  if (store.phone) {
+    doc.text(`Ph: ${store.phone}`, { align: 'center' });
+  }
+  rule();
+
+  doc.fontSize(8);
+  pair(`Invoice: ${sale.invoiceNumber}`, format.date(sale.date));
+  pair(sale.customerName || 'Walk-in Customer', format.time(sale.date));
+  if (sale.customerGstin) {
+    doc.text(`GSTIN: ${sale.customerGstin}`);
+  }
+  rule();
+
+  // Line items: name on one line, quantity x rate and total below
+  sale.products.forEach((item) => {
+    doc.font('Helvetica').text(itemDescription(item), left, doc.y, { width });
+    pair(`  ${item.quantity} x ${format.amount(item.unitPrice)} (GST ${item.gstRate}%)`, format.amount(item.totalPrice));
+  });
+  rule();
+
+  pair('Taxable Value', format.amount(sale.taxableAmount));
+  if (interState) {
+    pair('IGST', format.amount(sale.igstAmount));
+  } else {
+    pair('CGST', format.amount(sale.cgstAmount));
+    pair('SGST', format.amount(sale.sgstAmount));
+  }
+  doc.fontSize(10);
+  pair(`TOTAL (${store.currency})`, format.amount(sale.totalAmount), 'Helvetica-Bold');
+  doc.fontSize(7).font('Helvetica').text(amountInWords(sale.totalAmount, store.currency), left, doc.y, { width });
+  rule();
+
+  doc.fontSize(8);
+  sale.payments.forEach((payment) => {
+    pair(payment.reference ? `${payment.method} (${payment.reference})` : payment.method, format.amount(payment.tendered ?? payment.amount));
+  });
+  if (sale.changeDue > 0) {
+    pair('Change', format.amount(sale.changeDue));
+  }
+  doc.moveDown();
+  doc.text('Thank you for shopping with us!', left, doc.y, { width, align: 'center' });
+};
+
+// Build the invoice as a PDF stream; layout is 'a4' or 'thermal'
+export const renderInvoicePdf = (sale, store, layout) => {
+  const doc = layout === 'thermal'
+    // Receipt paper is continuous, so size the page to fit the items
+    ? new PDFDocument({ size: [THERMAL_WIDTH, 330 + sale.products.length * 26 + sale.payments.length * 12], margin: 10 })
+    : new PDFDocument({ size: 'A4', margin: 40 });
+
+  doc.info.Title = `Invoice ${sale.invoiceNumber}`;
+  doc.info.Author = store.legalName;
+
+  if (layout === 'thermal') {
+    renderThermal(doc, sale, store);
+  } else {
+    renderA4(doc, sale, store);
+  }
+
+  doc.end();
+  return doc;
+};
@@ -0,0 +1,31 @@
+// Map a locations row to the Location shape used by the frontend
+export const toLocation = (row) => ({
+  id: row.id,
+  name: row.name,
+  address: row.address || undefined,
+  isDefault: Boolean(row.is_default),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+// Where a user's stock comes from: their own location, or the store's default when they have none
+export const getUserLocationId = async (db, userId) => {
+  const [[row]] = await db.query(
+    `SELECT COALESCE(
+       (SELECT location_id FROM users WHERE id = ?),
+       (SELECT id FROM locations WHERE is_default LIMIT 1)
+     ) AS location_id`,
+    [userId]
+  );
+  return row.location_id;
+};
+
+// The location picked on a form, or the user's own when none was picked; null if it doesn't exist
+export const resolveLocationId = async (db, locationId, userId) => {
+  if (!locationId) {
+    return getUserLocationId(db, userId);
+  }
+
+  const [rows] = await db.query('SELECT id FROM locations WHERE id = ?', [locationId]);
+  return rows.length ? rows[0].id : null;
+};
@@ -0,0 +1,54 @@
+import { roundMoney } from './gst.js';
+
+export const PAYMENT_METHODS = ['Cash', 'UPI', 'Credit Card', 'Debit Card', 'Net Banking', 'Other'];
+
+// Udhaar: the amount goes on the customer's account instead of being collected now
+export const CREDIT_METHOD = 'Credit';
+
+const CARD_METHODS = ['Credit Card', 'Debit Card'];
+
+// Same rules as the payments section of SaleForm; the total is checked once the server has priced the sale
+export const validatePayments = (payments) => {
+  if (!Array.isArray(payments) || payments.length === 0) {
+    return 'At least one payment is required';
+  }
+
+  for (const payment of payments) {
+    if (!PAYMENT_METHODS.includes(payment.method) && payment.method !== CREDIT_METHOD) {
+      return 'Unknown payment method';
+    }
+    if (typeof payment.amount !== 'number' || !(payment.amount > 0)) {
+      return 'Each payment needs an amount greater than 0';
+    }
+    if (roundMoney(payment.amount) !== payment.amount) {
+      return 'Payment amounts cannot have more than 2 decimal places';
+    }
+    if (payment.reference !== undefined && (typeof payment.reference !== 'string' || payment.reference.length > 100)) {
+      return 'Payment reference must be at most 100 characters';
+    }
+    if (CARD_METHODS.includes(payment.method) && payment.reference && !/^\d{4}$/.test(payment.reference)) {
+      return 'Card reference must be the last 4 digits';
+    }
+    if (payment.tendered !== undefined) {
+      if (payment.method !== 'Cash') {
+        return 'Only cash payments can have an amount tendered';
+      }
+      if (typeof payment.tendered !== 'number' || payment.tendered < payment.amount) {
+        return 'Cash tendered cannot be less than the amount paid';
+      }
+    }
+  }
+
+  return null;
+};
+
+// Cash handed over beyond what was applied to the bill
+export const calculateChangeDue = (payments) => roundMoney(
+  payments.reduce((sum, payment) => sum + (payment.tendered !== undefined ? payment.tendered - payment.amount : 0), 0)
+);
+
+// Summary kept on the sales row for lists and exports
+export const summarizePaymentMethod = (payments) => {
+  const methods = [...new Set(payments.map((payment) => payment.method))];
+  return methods.length === 1 ? methods[0] : 'Split';
+};
@@ -0,0 +1,212 @@
+// Serial numbers are compared the way the table's collation does, so they are stored in capitals
+export const normalizeSerials = (serials) => serials.map((serial) => serial.trim().toUpperCase());
+
+// One serial number for each unit of a line, each given once
+export const validateSerials = (serials, quantity) => {
+  if (!Array.isArray(serials) || serials.some((serial) =>
+    typeof serial !== 'string' || !serial.trim() || serial.trim().length > 64
+  )) {
+    return 'Serial numbers must be 1 to 64 characters';
+  }
+  if (new Set(normalizeSerials(serials)).size !== serials.length) {
+    return 'Each serial number can only be entered once';
+  }
+  if (serials.length !== quantity) {
+    return `Enter ${quantity} serial ${quantity === 1 ? 'number' : 'numbers'}, one for each unit`;
+  }
+  return null;
+};
+
+// The first of the serial numbers already on file for the product, if any
+export const findExistingSerial = async (connection, productId, serials) => {
+  const [[row]] = await connection.query(
+    'SELECT serial_number FROM product_serials WHERE product_id = ? AND serial_number IN (?) LIMIT 1',
+    [productId, serials]
+  );
+  return row?.serial_number;
+};
+
+// Units received at a location under their serial numbers; receiptId is null for units added by an adjustment
+export const receiveSerials = async (connection, productId, serials, receiptId, locationId) => {
+  await connection.query(
+    'INSERT INTO product_serials (product_id, serial_number, receipt_id, location_id) VALUES ?',
+    [serials.map((serial) => [productId, serial, receiptId, locationId])]
+  );
+};
+
+// Serial numbers being sold, written off or sent elsewhere must be in stock at the location. One
+// that was never received is taken to be a unit stocked before the product was serialized, as long
+// as that many units at the location have no serial on file. Locks the serials so two tills cannot
+// sell the same unit. Returns an error message or null.
+export const checkSerialsInStock = async (connection, productId, serials, locationId, quantityAtLocation) => {
+  const [rows] = await connection.query(
+    `SELECT serial_number, status, location_id, transfer_id FROM product_serials
+     WHERE product_id = ? AND serial_number IN (?)
+     FOR UPDATE`,
+    [productId, serials]
+  );
+  const gone = rows.find((row) => row.status !== 'in_stock');
+  if (gone) {
+    return `Serial number ${gone.serial_number} has ${gone.status === 'sold' ? 'already been sold' : 'been written off'}`;
+  }
+  const elsewhere = rows.find((row) => row.location_id !== locationId);
+  if (elsewhere) {
+    return `Serial number ${elsewhere.serial_number} is ${elsewhere.transfer_id ? 'on its way to another location' : 'at another location'}`;
+  }
+
+  const unknown = serials.filter((serial) => !rows.some((row) => row.serial_number === serial));
+  if (unknown.length) {
+    const [[{ count }]] = await connection.query(
+      "SELECT COUNT(*) AS count FROM product_serials WHERE product_id = ? AND location_id = ? AND status = 'in_stock'",
+      [productId, locationId]
+    );
+    if (unknown.length > quantityAtLocation - count) {
+      return `Serial number ${unknown[0]} is not in stock here`;
+    }
+  }
+
+  return null;
+};
+
+// Mark the units sold on a sale line from the location, each with its warranty running from today
+export const sellSerials = async (connection, saleItemId, productId, serials, warrantyMonths, locationId) => {
+  await connection.query(
+    `INSERT INTO product_serials (product_id, serial_number, status, location_id) VALUES ?
+     ON DUPLICATE KEY UPDATE status = VALUES(status)`,
+    [serials.map((serial) => [productId, serial, 'sold', locationId])]
+  );
+  await connection.query(
+    `INSERT INTO sale_item_serials (sale_item_id, serial_id, warranty_ends_on)
+     SELECT ?, id, IF(? > 0, DATE_ADD(CURDATE(), INTERVAL ? MONTH), NULL)
+     FROM product_serials
+     WHERE product_id = ? AND serial_number IN (?)`,
+    [saleItemId, warrantyMonths, warrantyMonths, productId, serials]
+  );
+};
+
+// Units added by an adjustment are new to the store or written off earlier and found again.
+// Returns an error message or null.
+const checkSerialsForRestock = async (connection, productId, serials) => {
+  const [rows] = await connection.query(
+    'SELECT serial_number, status FROM product_serials WHERE product_id = ? AND serial_number IN (?) FOR UPDATE',
+    [productId, serials]
+  );
+  const onFile = rows.find((row) => row.status !== 'written_off');
+  if (onFile) {
+    return `Serial number ${onFile.serial_number} is already ${onFile.status === 'sold' ? 'sold' : 'in stock'}`;
+  }
+  return null;
+};
+
+// A stock adjustment or count correction of a serialized product names each unit it adds or removes:
+// removed units must be in stock at the location, added ones not in stock anywhere. Returns an error
+// message or null.
+export const checkSerialsForAdjustment = async (connection, productId, serials, change, locationId, quantityAtLocation) => {
+  const error = validateSerials(serials, Math.abs(change));
+  if (error) {
+    return error;
+  }
+  return change < 0
+    ? checkSerialsInStock(connection, productId, normalizeSerials(serials), locationId, quantityAtLocation)
+    : checkSerialsForRestock(connection, productId, normalizeSerials(serials));
+};
+
+// Removed units are written off so they cannot be sold; added ones go in stock at the location,
+// those written off earlier under their old record
+export const adjustSerials = async (connection, productId, serials, change, locationId) => {
+  const normalized = normalizeSerials(serials);
+  if (change < 0) {
+    await connection.query(
+      `INSERT INTO product_serials (product_id, serial_number, status, location_id) VALUES ?
+       ON DUPLICATE KEY UPDATE status = VALUES(status)`,
+      [normalized.map((serial) => [productId, serial, 'written_off', locationId])]
+    );
+    return;
+  }
+
+  const [rows] = await connection.query(
+    'SELECT serial_number FROM product_serials WHERE product_id = ? AND serial_number IN (?)',
+    [productId, normalized]
+  );
+  const found = rows.map((row) => row.serial_number);
+  if (found.length) {
+    await connection.query(
+      "UPDATE product_serials SET status = 'in_stock', location_id = ? WHERE product_id = ? AND serial_number IN (?)",
+      [locationId, productId, found]
+    );
+  }
+  const fresh = normalized.filter((serial) => !found.includes(serial));
+  if (fresh.length) {
+    await receiveSerials(connection, productId, fresh, null, locationId);
+  }
+};
+
+// Units sent on a transfer are at no location until it is received
+export const dispatchSerials = async (connection, productId, serials, transferId) => {
+  await connection.query(
+    `INSERT INTO product_serials (product_id, serial_number, transfer_id) VALUES ?
+     ON DUPLICATE KEY UPDATE location_id = NULL, transfer_id = VALUES(transfer_id)`,
+    [serials.map((serial) => [productId, serial, transferId])]
+  );
+};
+
+// Units on a transfer arrive at its destination
+export const deliverSerials = async (connection, transferId, locationId) => {
+  await connection.query(
+    'UPDATE product_serials SET location_id = ?, transfer_id = NULL WHERE transfer_id = ?',
+    [locationId, transferId]
+  );
+};
+
+// A line sold by serial number is returned by serial number, only units not yet returned.
+// Lines sold without serials need none. Returns an error message or null.
+export const checkSerialsForReturn = async (connection, saleItemId, serials, quantity) => {
+  const [rows] = await connection.query(
+    `SELECT ps.serial_number, sis.return_id
+     FROM sale_item_serials sis
+     JOIN product_serials ps ON ps.id = sis.serial_id
+     WHERE sis.sale_item_id = ?`,
+    [saleItemId]
+  );
+  if (!rows.length) {
+    return null;
+  }
+
+  const error = validateSerials(serials, quantity);
+  if (error) {
+    return error;
+  }
+  const notReturnable = normalizeSerials(serials).find((serial) =>
+    !rows.some((row) => row.serial_number === serial && !row.return_id)
+  );
+  return notReturnable ? `Serial number ${notReturnable} was not sold on this bill or is already returned` : null;
+};
+
+// Returned units go back in stock at the location and can be sold again
+export const returnSerials = async (connection, saleItemId, serials, returnId, locationId) => {
+  await connection.query(
+    `UPDATE sale_item_serials sis
+     JOIN product_serials ps ON ps.id = sis.serial_id
+     SET sis.return_id = ?, ps.status = 'in_stock', ps.location_id = ?
+     WHERE sis.sale_item_id = ? AND ps.serial_number IN (?)`,
+    [returnId, locationId, saleItemId, serials]
+  );
+};
+
+// Serial numbers on the lines of the given sales, with the return each unit came back on
+export const fetchSaleSerials = async (db, saleIds) => {
+  const [rows] = await db.query(
+    `SELECT sis.sale_item_id, sis.return_id, ps.serial_number
+     FROM sale_item_serials sis
+     JOIN product_serials ps ON ps.id = sis.serial_id
+     JOIN sale_items si ON si.id = sis.sale_item_id
+     WHERE si.sale_id IN (?)
+     ORDER BY ps.serial_number`,
+    [saleIds]
+  );
+  return rows.map((row) => ({
+    saleItemId: row.sale_item_id,
+    returnId: row.return_id,
+    serialNumber: row.serial_number
+  }));
+};
@@ -0,0 +1,330 @@
+import { roundMoney } from './gst.js';
+import { isDateOnly, toDateOnly } from './dates.js';
+
+// Reason codes for manual adjustments, mirrored in src/utils/stock.ts
+export const ADJUSTMENT_REASONS = ['damaged', 'expired', 'lost', 'found', 'count_correction', 'other'];
+
+// Map a stock_movements row to the StockMovement shape used by the frontend
+export const toStockMovement = (row) => ({
+  id: row.id,
+  productId: row.product_id,
+  locationId: row.location_id || undefined,
+  type: row.type,
+  quantityChange: row.quantity_change,
+  quantityAfter: row.quantity_after,
+  costChange: Number(row.cost_change),
+  reason: row.reason || undefined,
+  referenceId: row.reference_id || undefined,
+  reference: row.reference || undefined,
+  notes: row.notes || undefined,
+  createdBy: row.created_by_name || undefined,
+  date: row.created_at
+});
+
+// Costing methods selectable in the store settings, mirrored in src/utils/stock.ts
+export const COSTING_METHODS = ['fifo', 'average'];
+
+const getCostingMethod = async (connection) => {
+  const [rows] = await connection.query('SELECT costing_method FROM store_settings WHERE id = 1');
+  return rows.length ? rows[0].costing_method : 'fifo';
+};
+
+// Takes units out of a product's oldest cost layers first and returns what they cost
+const drawCostLayers = async (connection, productId, quantity, fallbackCost) => {
+  const [layers] = await connection.query(
+    'SELECT id, quantity_remaining, unit_cost FROM cost_layers WHERE product_id = ? AND quantity_remaining > 0 ORDER BY id',
+    [productId]
+  );
+
+  let left = quantity;
+  let cost = 0;
+  for (const layer of layers) {
+    if (!left) break;
+    const taken = Math.min(left, layer.quantity_remaining);
+    await connection.query('UPDATE cost_layers SET quantity_remaining = quantity_remaining - ? WHERE id = ?', [taken, layer.id]);
+    cost += taken * Number(layer.unit_cost);
+    left -= taken;
+  }
+
+  // Layers only run short if stock was changed outside moveStock; the rest goes at the cost price
+  return cost + left * fallbackCost;
+};
+
+// Lot details of incoming units of a batch-tracked product; returns an error message or null
+export const validateBatch = (batch) => {
+  if (typeof batch !== 'object' || batch === null ||
+    typeof batch.lotNumber !== 'string' || !batch.lotNumber.trim() || batch.lotNumber.length > 64) {
+    return 'Lot number is required, at most 64 characters';
+  }
+  if ((batch.manufacturedOn && !isDateOnly(batch.manufacturedOn)) || (batch.expiresOn && !isDateOnly(batch.expiresOn))) {
+    return 'Manufacture and expiry dates must be YYYY-MM-DD';
+  }
+  if (batch.manufacturedOn && batch.expiresOn && batch.manufacturedOn > batch.expiresOn) {
+    return 'Expiry date cannot be before the manufacture date';
+  }
+  return null;
+};
+
+// The lot at a location, created empty the first time units of it arrive; a lot keeps the dates
+// it was first received with
+const findOrCreateBatch = async (connection, productId, locationId, lot) => {
+  const [result] = await connection.query(
+    `INSERT INTO stock_batches (product_id, location_id, lot_number, manufactured_on, expires_on)
+     VALUES (?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE id = LAST_INSERT_ID(id)`,
+    [productId, locationId, lot.lotNumber, lot.manufacturedOn || null, lot.expiresOn || null]
+  );
+  return result.insertId;
+};
+
+// The lots an earlier outgoing movement of the product took its units from, e.g. the sale being
+// returned or the dispatch of a transfer, earliest expiry first. For a sale, units that earlier
+// returns already put back are left out, so each lot gets back no more than it gave.
+const fetchTakenLots = async (connection, productId, { type, referenceId }) => {
+  // Return movements carry the return's id, so they are matched to the sale through sale_returns
+  const returned = type === 'sale' ? "OR (m.type = 'return' AND r.sale_id = ? AND bm.quantity > 0)" : '';
+  const [rows] = await connection.query(
+    `SELECT b.lot_number, b.manufactured_on, b.expires_on, -SUM(bm.quantity) AS quantity
+     FROM batch_movements bm
+     JOIN stock_movements m ON m.id = bm.movement_id
+     JOIN stock_batches b ON b.id = bm.batch_id
+     LEFT JOIN sale_returns r ON m.type = 'return' AND r.id = m.reference_id
+     WHERE m.product_id = ? AND ((m.type = ? AND m.reference_id = ? AND bm.quantity < 0) ${returned})
+     GROUP BY b.id
+     HAVING quantity > 0
+     ORDER BY b.expires_on IS NULL, b.expires_on, b.id`,
+    type === 'sale' ? [productId, type, referenceId, referenceId] : [productId, type, referenceId]
+  );
+  return rows.map((row) => ({
+    lotNumber: row.lot_number,
+    manufacturedOn: toDateOnly(row.manufactured_on),
+    expiresOn: toDateOnly(row.expires_on),
+    quantity: Number(row.quantity)
+  }));
+};
+
+// Splits a ledger entry of a batch-tracked product over its batches at the location. Outgoing
+// units come from the batch that expires first; it throws if the batches cannot cover them all,
+// so the caller's transaction rolls back instead of the batches drifting from the stock. Incoming
+// units go into movement.batch, or back into the lots named by movement.batchesFrom; whatever
+// neither covers goes into the batch without a lot number.
+const moveBatchStock = async (connection, movementId, movement) => {
+  const { productId, locationId, change } = movement;
+  const shares = [];
+
+  if (change < 0) {
+    const [batches] = await connection.query(
+      `SELECT id, quantity FROM stock_batches
+       WHERE product_id = ? AND location_id = ? AND quantity > 0
+       ORDER BY expires_on IS NULL, expires_on, id
+       FOR UPDATE`,
+      [productId, locationId]
+    );
+    let left = -change;
+    for (const batch of batches) {
+      if (!left) break;
+      const taken = Math.min(left, batch.quantity);
+      shares.push({ batchId: batch.id, quantity: -taken });
+      left -= taken;
+    }
+    if (left) {
+      throw new Error(`Batches of product ${productId} at location ${locationId} are ${left} units short of the stock moved out`);
+    }
+  } else {
+    const lots = movement.batch
+      ? [{ ...movement.batch, lotNumber: movement.batch.lotNumber.trim(), quantity: change }]
+      : movement.batchesFrom ? await fetchTakenLots(connection, productId, movement.batchesFrom) : [];
+    let left = change;
+    for (const lot of lots) {
+      if (!left) break;
+      const quantity = Math.min(left, lot.quantity);
+      shares.push({ batchId: await findOrCreateBatch(connection, productId, locationId, lot), quantity });
+      left -= quantity;
+    }
+    if (left) {
+      const batchId = await findOrCreateBatch(connection, productId, locationId, { lotNumber: '' });
+      shares.push({ batchId, quantity: left });
+    }
+  }
+
+  for (const share of shares) {
+    await connection.query('UPDATE stock_batches SET quantity = quantity + ? WHERE id = ?', [share.quantity, share.batchId]);
+  }
+  if (shares.length) {
+    await connection.query(
+      'INSERT INTO batch_movements (movement_id, batch_id, quantity) VALUES ?',
+      [shares.map((share) => [movementId, share.batchId, share.quantity])]
+    );
+  }
+};
+
+// Changes a product's stock at one location and appends the matching ledger entry. Every
+// quantity change goes through here so the ledger always adds up to products.quantity, and
+// its entries for a location to product_stock.quantity. Must run on the caller's transaction
+// connection with the product row already locked.
+//
+// Incoming units open a cost layer at movement.unitCost, or the current cost price when none
+// is given. Outgoing units are costed by the store's costing method. Returns the signed cost
+// of the movement, e.g. the cost of goods sold as a negative amount.
+//
+// For a batch-tracked product the units are also booked in and out of its batches, see
+// moveBatchStock: incoming units take the lot in movement.batch ({ lotNumber, manufacturedOn,
+// expiresOn }) or go back to the lots of movement.batchesFrom ({ type, referenceId }).
+export const moveStock = async (connection, movement, userId) => {
+  const { productId, locationId, change, type, reason, referenceId, reference, notes } = movement;
+
+  const [[product]] = await connection.query(
+    'SELECT quantity, cost_price, tracks_batches FROM products WHERE id = ?',
+    [productId]
+  );
+  const method = await getCostingMethod(connection);
+  const costPrice = Number(product.cost_price);
+
+  let costChange;
+  let unitCost = costPrice;
+  if (change > 0) {
+    unitCost = movement.unitCost ?? costPrice;
+    costChange = roundMoney(change * unitCost);
+  } else {
+    const layerCost = await drawCostLayers(connection, productId, -change, costPrice);
+    costChange = -roundMoney(method === 'fifo' ? layerCost : -change * costPrice);
+  }
+
+  // Weighted average blends incoming units into the cost price; FIFO recalculates it from the layers below
+  const averageCost = method === 'average' && change > 0
+    ? (product.quantity * costPrice + change * unitCost) / (product.quantity + change)
+    : costPrice;
+
+  await connection.query(
+    'UPDATE products SET quantity = quantity + ?, cost_price = ? WHERE id = ?',
+    [change, averageCost, productId]
+  );
+  await connection.query(
+    `INSERT INTO product_stock (product_id, location_id, quantity) VALUES (?, ?, ?)
+     ON DUPLICATE KEY UPDATE quantity = quantity + VALUES(quantity)`,
+    [productId, locationId, change]
+  );
+  const [result] = await connection.query(
+    `INSERT INTO stock_movements (product_id, location_id, type, quantity_change, quantity_after, cost_change, reason, reference_id, reference, notes, created_by)
+     SELECT id, ?, ?, ?, quantity, ?, ?, ?, ?, ?, ? FROM products WHERE id = ?`,
+    [locationId, type, change, costChange, reason || null, referenceId || null, reference || null, notes || null, userId, productId]
+  );
+
+  if (product.tracks_batches) {
+    await moveBatchStock(connection, result.insertId, movement);
+  }
+
+  if (change > 0) {
+    await connection.query(
+      'INSERT INTO cost_layers (product_id, movement_id, quantity_received, quantity_remaining, unit_cost) VALUES (?, ?, ?, ?, ?)',
+      [productId, result.insertId, change, change, unitCost]
+    );
+  }
+
+  if (method === 'fifo') {
+    await connection.query(
+      `UPDATE products p
+       JOIN (
+         SELECT product_id, SUM(quantity_remaining * unit_cost) / SUM(quantity_remaining) AS unit_cost
+         FROM cost_layers
+         WHERE product_id = ? AND quantity_remaining > 0
+         GROUP BY product_id
+       ) l ON l.product_id = p.id
+       SET p.cost_price = l.unit_cost`,
+      [productId]
+    );
+  }
+
+  return costChange;
+};
+
+// Map a product_stock row to the ProductStock shape used by the frontend
+export const toProductStock = (row) => ({
+  locationId: row.location_id,
+  quantity: row.quantity,
+  threshold: row.threshold ?? undefined
+});
+
+// Per-location stock of the given products, keyed by product id
+export const fetchProductStock = async (db, productIds) => {
+  const stock = new Map(productIds.map((id) => [id, []]));
+  if (productIds.length === 0) {
+    return stock;
+  }
+
+  const [rows] = await db.query('SELECT * FROM product_stock WHERE product_id IN (?)', [productIds]);
+  for (const row of rows) {
+    stock.get(row.product_id).push(toProductStock(row));
+  }
+  return stock;
+};
+
+// Map a stock_batches row to the StockBatch shape used by the frontend
+export const toStockBatch = (row) => ({
+  id: row.id,
+  locationId: row.location_id,
+  lotNumber: row.lot_number || undefined,
+  manufacturedOn: toDateOnly(row.manufactured_on),
+  expiresOn: toDateOnly(row.expires_on),
+  quantity: row.quantity
+});
+
+// Batches with stock of the given products, earliest expiry first, keyed by product id
+export const fetchProductBatches = async (db, productIds) => {
+  const batches = new Map(productIds.map((id) => [id, []]));
+  if (productIds.length === 0) {
+    return batches;
+  }
+
+  const [rows] = await db.query(
+    `SELECT * FROM stock_batches
+     WHERE product_id IN (?) AND quantity > 0
+     ORDER BY expires_on IS NULL, expires_on, id`,
+    [productIds]
+  );
+  for (const row of rows) {
+    batches.get(row.product_id).push(toStockBatch(row));
+  }
+  return batches;
+};
+
+// Turning batch tracking off takes the stock out of its lots but keeps the lots and their movements,
+// so returns of earlier sales and transfers still in transit go back into the lots they came from
+// once tracking is on again. Turning it on puts the stock on hand into a batch without a lot number
+// at each location.
+export const setBatchTracking = async (connection, productIds, tracked) => {
+  if (!tracked) {
+    await connection.query('UPDATE stock_batches SET quantity = 0 WHERE product_id IN (?)', [productIds]);
+    return;
+  }
+
+  await connection.query(
+    `INSERT INTO stock_batches (product_id, location_id, lot_number, quantity)
+     SELECT product_id, location_id, '', quantity FROM product_stock
+     WHERE product_id IN (?) AND quantity > 0
+     ON DUPLICATE KEY UPDATE quantity = VALUES(quantity)`,
+    [productIds]
+  );
+};
+
+// Stock levels of the given products after a change, for the frontend to update its copies
+export const fetchStockLevels = async (db, productIds) => {
+  if (productIds.length === 0) {
+    return [];
+  }
+
+  const [rows] = await db.query(
+    'SELECT id, quantity, cost_price, updated_at FROM products WHERE id IN (?)',
+    [productIds]
+  );
+  const stock = await fetchProductStock(db, productIds);
+  const batches = await fetchProductBatches(db, productIds);
+  return rows.map((row) => ({
+    id: row.id,
+    quantity: row.quantity,
+    costPrice: Number(row.cost_price),
+    stock: stock.get(row.id),
+    batches: batches.get(row.id),
+    updatedAt: row.updated_at
+  }));
+};
@@ -0,0 +1,55 @@
+// Used until an admin saves the store profile
+export const DEFAULT_STORE = {
+  legalName: 'My Store',
+  tradeName: undefined,
+  addressLine1: '',
+  addressLine2: undefined,
+  city: '',
+  state: '',
+  stateCode: '',
+  pincode: '',
+  phone: undefined,
+  email: undefined,
+  gstin: undefined,
+  logoUrl: undefined,
+  currency: 'INR',
+  locale: 'en-IN',
+  fiscalYearStartMonth: 4,
+  invoicePrefix: 'INV',
+  creditNotePrefix: 'CN',
+  costingMethod: 'fifo',
+  expiryAlertDays: 30,
+  defaultTaxRate: 18,
+  taxRates: [0, 5, 12, 18, 28]
+};
+
+// Map the store_settings row to the StoreSettings shape used by the frontend
+export const toStore = (row) => ({
+  legalName: row.legal_name,
+  tradeName: row.trade_name || undefined,
+  addressLine1: row.address_line1 || '',
+  addressLine2: row.address_line2 || undefined,
+  city: row.city || '',
+  state: row.state || '',
+  stateCode: row.state_code || '',
+  pincode: row.pincode || '',
+  phone: row.phone || undefined,
+  email: row.email || undefined,
+  gstin: row.gstin || undefined,
+  logoUrl: row.logo_url || undefined,
+  currency: row.currency,
+  locale: row.locale,
+  fiscalYearStartMonth: row.fiscal_year_start_month,
+  invoicePrefix: row.invoice_prefix,
+  creditNotePrefix: row.credit_note_prefix,
+  costingMethod: row.costing_method,
+  expiryAlertDays: row.expiry_alert_days,
+  defaultTaxRate: Number(row.default_tax_rate),
+  taxRates: (typeof row.tax_rates === 'string' ? JSON.parse(row.tax_rates) : row.tax_rates).map(Number)
+});
+
+// Works with a pool or a transaction connection
+export const getStoreSettings = async (db) => {
+  const [rows] = await db.query('SELECT * FROM store_settings WHERE id = 1');
+  return rows.length ? toStore(rows[0]) : DEFAULT_STORE;
+};
@@ -3,22 +3,46 @@ import { Routes, Route } from 'react-router-dom';
 import Layout from './components/layout/Layout';
 import Dashboard from './pages/Dashboard';
 import Inventory from './pages/Inventory';
+import Purchases from './pages/Purchases';
+import StockCounts from './pages/StockCounts';
 import Sales from './pages/Sales';
+import Customers from './pages/Customers';
+import Warranty from './pages/Warranty';
 import Reports from './pages/Reports';
 import Users from './pages/Users';
 import Settings from './pages/Settings';
 import Login from './pages/Login';
+import RequireAuth from './components/auth/RequireAuth';
+import RequireRole from './components/auth/RequireRole';
 
 function App() {
   return (
     <Routes>
       <Route path="/login" element={<Login />} />
-      <Route path="/" element={<Layout />}>
+      <Route
+        path="/"
+        element={
+          <RequireAuth>
+            <Layout />
+          </RequireAuth>
+        }
+      >
         <Route index element={<Dashboard />} />
         <Route path="inventory" element={<Inventory />} />
+        <Route path="purchases" element={<Purchases />} />
+        <Route path="stock-counts" element={<StockCounts />} />
         <Route path="sales" element={<Sales />} />
+        <Route path="customers" element={<Customers />} />
+        <Route path="warranty" element={<Warranty />} />
         <Route path="reports" element={<Reports />} />
-        <Route path="users" element={<Users />} />
+        <Route
+          path="users"
+          element={
+            <RequireRole roles={['admin']}>
+              <Users />
+            </RequireRole>
+          }
+        />
         <Route path="settings" element={<Settings />} />
         <Route path="*" element={<Dashboard />} />
       </Route>
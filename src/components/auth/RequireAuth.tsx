@@ -0,0 +1,34 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAppContext } from '../../context/AppContext';
+
+interface RequireAuthProps {
+  children: React.ReactNode;
+}
+
+// Waits for the stored session to be checked, then sends signed-out users to /login
+const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
+  const { currentUser, isAuthLoading } = useAppContext();
+  const location = useLocation();
+
+  if (isAuthLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center">
+        <svg className="animate-spin h-8 w-8 text-blue-900" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+        </svg>
+        <p className="mt-3 text-sm text-gray-500">Loading your session...</p>
+      </div>
+    );
+  }
+
+  if (!currentUser) {
+    const returnTo = encodeURIComponent(location.pathname + location.search);
+    return <Navigate to={`/login?returnTo=${returnTo}`} replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireAuth;
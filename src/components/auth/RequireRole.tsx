@@ -0,0 +1,22 @@
+import React from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { User } from '../../types';
+import Forbidden from '../../pages/Forbidden';
+
+interface RequireRoleProps {
+  roles: User['role'][];
+  children: React.ReactNode;
+}
+
+// Route guard mirroring the server's requireRole middleware
+const RequireRole: React.FC<RequireRoleProps> = ({ roles, children }) => {
+  const { currentUser } = useAppContext();
+
+  if (!currentUser || !roles.includes(currentUser.role)) {
+    return <Forbidden />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
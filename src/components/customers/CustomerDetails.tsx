@@ -0,0 +1,273 @@
+import React, { useState, useEffect } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { Customer, ReceivablesAging } from '../../types';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+import { getCustomerSummary } from '../../utils/customers';
+import { PAYMENT_METHODS } from '../../utils/payments';
+import { X } from 'lucide-react';
+import Button from '../ui/Button';
+
+interface CustomerDetailsProps {
+  customer: Customer;
+  onClose: () => void;
+}
+
+const CustomerDetails: React.FC<CustomerDetailsProps> = ({ customer, onClose }) => {
+  const { sales, customerPayments, addCustomerPayment, fetchReceivables } = useAppContext();
+
+  // Collection form state
+  const [amount, setAmount] = useState(0);
+  const [method, setMethod] = useState('Cash');
+  const [reference, setReference] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [aging, setAging] = useState<ReceivablesAging>({ current: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 });
+
+  const summary = getCustomerSummary(customer.id, sales, customerPayments);
+  const visits = sales
+    .filter((sale) => sale.customerId === customer.id)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  const collections = customerPayments.filter((payment) => payment.customerId === customer.id);
+
+  // The customer's receivables aging, reloaded after each collection; customers who owe nothing are not listed
+  useEffect(() => {
+    let cancelled = false;
+    fetchReceivables().then((data) => {
+      const row = data?.customers.find((entry) => entry.customer.id === customer.id);
+      if (!cancelled && data) {
+        setAging(row || { current: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [customer.id, sales, customerPayments, fetchReceivables]);
+
+  // Form validation
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!(amount > 0)) {
+      newErrors.amount = 'Amount must be greater than 0';
+    } else if (amount > summary.balance) {
+      newErrors.amount = `Only ${formatCurrency(summary.balance)} is outstanding`;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Handle collection submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const serverErrors = await addCustomerPayment(customer.id, {
+        amount,
+        method,
+        reference: reference || undefined,
+      });
+
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
+      }
+
+      setAmount(0);
+      setReference('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const stats: [string, string][] = [
+    ['Visits', String(summary.visits)],
+    ['Lifetime Value', formatCurrency(summary.lifetimeValue)],
+    ['Last Visit', summary.lastVisit ? formatDate(summary.lastVisit) : '-'],
+    ['Credit Balance', formatCurrency(summary.balance)],
+  ];
+
+  const agingRows: [string, number][] = [
+    ['0-30 days', aging.current],
+    ['31-60 days', aging.days31to60],
+    ['61-90 days', aging.days61to90],
+    ['Over 90 days', aging.over90],
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">{customer.name}</h3>
+            <p className="text-sm text-gray-500">
+              {[customer.phone, customer.email, customer.gstin].filter(Boolean).join(' | ')}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {/* Summary */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+            {stats.map(([label, value]) => (
+              <div key={label} className="bg-gray-50 rounded-md p-3">
+                <p className="text-xs text-gray-500">{label}</p>
+                <p className="text-sm font-medium text-gray-900">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Credit account */}
+          <div className="mb-6">
+            <h4 className="font-medium text-gray-700 mb-2">
+              Credit Account
+              {customer.creditLimit > 0 && (
+                <span className="ml-2 text-xs font-normal text-gray-500">
+                  Limit {formatCurrency(customer.creditLimit)}
+                </span>
+              )}
+            </h4>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4 text-sm">
+              {agingRows.map(([label, value]) => (
+                <div key={label} className="flex justify-between sm:block border border-gray-100 rounded-md px-3 py-2">
+                  <p className="text-xs text-gray-500">{label}</p>
+                  <p className={value > 0 ? 'font-medium text-red-600' : 'text-gray-900'}>
+                    {formatCurrency(value)}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {summary.balance > 0 && (
+              <form onSubmit={handleSubmit} className="flex flex-wrap items-start gap-2">
+                <div>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={amount || ''}
+                    onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                    placeholder="Amount"
+                    className={`block w-32 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right ${
+                      errors.amount ? 'border-red-300' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.amount && (
+                    <p className="mt-1 text-sm text-red-600">{errors.amount}</p>
+                  )}
+                </div>
+                <select
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value)}
+                  className="block w-36 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                >
+                  {PAYMENT_METHODS.map((paymentMethod) => (
+                    <option key={paymentMethod} value={paymentMethod}>
+                      {paymentMethod}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder="Reference (optional)"
+                  className="block flex-1 min-w-0 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+                <Button
+                  variant="primary"
+                  size="sm"
+                  type="submit"
+                  isLoading={isSubmitting}
+                >
+                  Record Payment
+                </Button>
+              </form>
+            )}
+
+            {errors.form && (
+              <p className="mt-1 text-sm text-red-600">{errors.form}</p>
+            )}
+
+            {collections.length > 0 && (
+              <ul className="mt-4 divide-y divide-gray-100 text-sm">
+                {collections.map((payment) => (
+                  <li key={payment.id} className="py-2 flex justify-between">
+                    <span className="text-gray-500">
+                      {formatDate(payment.date)} · {payment.method}
+                      {payment.reference && ` (${payment.reference})`}
+                    </span>
+                    <span className="font-medium text-green-700">{formatCurrency(payment.amount)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Visit history */}
+          <div>
+            <h4 className="font-medium text-gray-700 mb-2">Purchase History</h4>
+
+            {visits.length === 0 ? (
+              <div className="bg-gray-50 p-4 rounded-md text-center text-gray-500">
+                No purchases yet.
+              </div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Invoice
+                    </th>
+                    <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Date
+                    </th>
+                    <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Paid By
+                    </th>
+                    <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Amount
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {visits.map((sale) => (
+                    <tr key={sale.id}>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                        {sale.invoiceNumber}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+                        {formatDate(sale.date)}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+                        {sale.paymentMethod}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-right font-medium">
+                        {formatCurrency(sale.totalAmount)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerDetails;
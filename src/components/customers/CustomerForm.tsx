@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { Customer } from '../../types';
+import { X } from 'lucide-react';
+import Button from '../ui/Button';
+import { getCurrencySymbol } from '../../utils/formatters';
+
+interface CustomerFormProps {
+  customerId?: string;
+  onClose: () => void;
+}
+
+type CustomerFormData = Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>;
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+const CustomerForm: React.FC<CustomerFormProps> = ({ customerId, onClose }) => {
+  const { customers, addCustomer, updateCustomer } = useAppContext();
+  const existingCustomer = customers.find((c) => c.id === customerId);
+
+  // Initial form state, prefilled when editing
+  const [formData, setFormData] = useState<CustomerFormData>(() => ({
+    name: existingCustomer?.name || '',
+    phone: existingCustomer?.phone || '',
+    email: existingCustomer?.email || '',
+    gstin: existingCustomer?.gstin || '',
+    address: existingCustomer?.address || '',
+    creditLimit: existingCustomer?.creditLimit || 0,
+    notes: existingCustomer?.notes || '',
+  }));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Handle form input changes
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+
+    setFormData({
+      ...formData,
+      [name]: type === 'number'
+        ? parseFloat(value) || 0
+        : name === 'gstin' ? value.toUpperCase() : value,
+    });
+
+    // Clear error when field is edited
+    if (errors[name]) {
+      setErrors({
+        ...errors,
+        [name]: '',
+      });
+    }
+  };
+
+  // Form validation
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+
+    if (!formData.phone.trim()) {
+      newErrors.phone = 'Phone number is required';
+    } else if (!/^\d{10}$/.test(formData.phone)) {
+      newErrors.phone = 'Phone number must be 10 digits';
+    }
+
+    if (formData.email && !/\S+@\S+\.\S+/.test(formData.email)) {
+      newErrors.email = 'Invalid email format';
+    }
+
+    if (formData.gstin && !GSTIN_PATTERN.test(formData.gstin)) {
+      newErrors.gstin = 'Invalid GSTIN format';
+    }
+
+    if (formData.creditLimit < 0) {
+      newErrors.creditLimit = 'Credit limit cannot be negative';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const customerData: CustomerFormData = {
+        ...formData,
+        email: formData.email || undefined,
+        gstin: formData.gstin || undefined,
+        address: formData.address || undefined,
+        notes: formData.notes || undefined,
+      };
+      const serverErrors = existingCustomer
+        ? await updateCustomer({ ...existingCustomer, ...customerData })
+        : await addCustomer(customerData);
+
+      // Show errors reported by the server, e.g. a phone number already on file
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
+      }
+
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderInput = (name: keyof CustomerFormData, label: string, placeholder?: string) => (
+    <div>
+      <label htmlFor={name} className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <input
+        type={name === 'creditLimit' ? 'number' : 'text'}
+        id={name}
+        name={name}
+        min={name === 'creditLimit' ? '0' : undefined}
+        step={name === 'creditLimit' ? '0.01' : undefined}
+        value={formData[name] ?? ''}
+        onChange={handleChange}
+        placeholder={placeholder}
+        className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+          errors[name] ? 'border-red-300' : 'border-gray-300'
+        }`}
+      />
+      {errors[name] && (
+        <p className="mt-1 text-sm text-red-600">{errors[name]}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">
+            {existingCustomer ? 'Edit Customer' : 'Add New Customer'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {renderInput('name', 'Name*')}
+            {renderInput('phone', 'Phone Number*', '10-digit number')}
+            {renderInput('email', 'Email', 'Optional')}
+            {renderInput('gstin', 'GSTIN', 'Optional, for B2B invoices')}
+            {renderInput('creditLimit', `Credit Limit (${getCurrencySymbol()})`, '0 for no limit')}
+            {renderInput('notes', 'Notes', 'Optional')}
+
+            {/* Address */}
+            <div className="col-span-1 md:col-span-2">
+              <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-1">
+                Address
+              </label>
+              <textarea
+                id="address"
+                name="address"
+                rows={2}
+                value={formData.address}
+                onChange={handleChange}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+          </div>
+
+          {errors.form && (
+            <p className="mt-4 text-sm text-red-600">{errors.form}</p>
+          )}
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              type="button"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              type="submit"
+              isLoading={isSubmitting}
+            >
+              {existingCustomer ? 'Update Customer' : 'Add Customer'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerForm;
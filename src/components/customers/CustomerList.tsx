@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { ReceivablesAging, ReceivablesReport } from '../../types';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+import { getCustomerSummary } from '../../utils/customers';
+import { Edit, Trash2, Plus, Search, Eye } from 'lucide-react';
+import Button from '../ui/Button';
+import CustomerForm from './CustomerForm';
+import CustomerDetails from './CustomerDetails';
+
+const AGING_LABELS: [keyof ReceivablesAging, string][] = [
+  ['current', '0-30 days'],
+  ['days31to60', '31-60 days'],
+  ['days61to90', '61-90 days'],
+  ['over90', 'Over 90 days'],
+  ['total', 'Total Outstanding'],
+];
+
+const CustomerList: React.FC = () => {
+  const { customers, sales, customerPayments, deleteCustomer, currentUser, fetchReceivables } = useAppContext();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [onlyWithBalance, setOnlyWithBalance] = useState(false);
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<string | null>(null);
+  const [viewingCustomer, setViewingCustomer] = useState<string | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [receivables, setReceivables] = useState<ReceivablesReport | null>(null);
+
+  // Lifetime value, visits and credit balance for every customer
+  const rows = customers.map((customer) => ({
+    customer,
+    ...getCustomerSummary(customer.id, sales, customerPayments),
+  }));
+
+  // Receivables aging across all credit accounts, reloaded as sales and collections come in
+  useEffect(() => {
+    let cancelled = false;
+    fetchReceivables().then((data) => {
+      if (!cancelled) {
+        setReceivables(data);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sales, customerPayments, fetchReceivables]);
+
+  const aging = receivables?.totals || { current: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 };
+
+  // Handle search filter
+  const filteredRows = rows
+    .filter(({ customer, balance }) =>
+      (!onlyWithBalance || balance > 0) &&
+      (customer.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        customer.phone.includes(searchTerm))
+    )
+    .sort((a, b) => (onlyWithBalance ? b.balance - a.balance : a.customer.name.localeCompare(b.customer.name)));
+
+  // Handle actual delete
+  const handleDelete = async (id: string) => {
+    const serverErrors = await deleteCustomer(id);
+    setDeleteConfirmId(null);
+    if (serverErrors.form) {
+      alert(serverErrors.form);
+    }
+  };
+
+  const viewedCustomer = customers.find((customer) => customer.id === viewingCustomer);
+
+  return (
+    <>
+      {/* Receivables aging */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        {AGING_LABELS.map(([key, label]) => (
+          <div key={key} className="bg-white rounded-lg shadow p-4">
+            <p className="text-xs text-gray-500">{label}</p>
+            <p className={`text-lg font-semibold ${key === 'over90' && aging[key] > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              {formatCurrency(aging[key])}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow">
+        {/* Header section */}
+        <div className="px-4 py-4 sm:px-6 border-b border-gray-200 flex flex-wrap items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Customers</h3>
+
+          <div className="mt-2 sm:mt-0 flex flex-wrap items-center gap-2">
+            <label className="flex items-center text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={onlyWithBalance}
+                onChange={(e) => setOnlyWithBalance(e.target.checked)}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              With credit balance
+            </label>
+
+            {/* Search input */}
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search size={16} className="text-gray-400" />
+              </div>
+              <input
+                type="text"
+                className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="Search name or phone..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
+
+            {/* Add customer button */}
+            <Button
+              variant="primary"
+              size="md"
+              icon={<Plus size={16} />}
+              onClick={() => setShowAddModal(true)}
+            >
+              Add Customer
+            </Button>
+          </div>
+        </div>
+
+        {/* Customer table */}
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Customer
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Visits
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Lifetime Value
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Last Visit
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Credit Balance
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredRows.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    No customers found. Try a different search or add a new customer.
+                  </td>
+                </tr>
+              ) : (
+                filteredRows.map(({ customer, visits, lifetimeValue, lastVisit, balance }) => (
+                  <tr key={customer.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{customer.name}</div>
+                      <div className="text-sm text-gray-500">{customer.phone}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                      {visits}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                      {formatCurrency(lifetimeValue)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {lastVisit ? formatDate(lastVisit) : '-'}
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm text-right ${balance > 0 ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                      {formatCurrency(balance)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => setViewingCustomer(customer.id)}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          <Eye size={18} />
+                        </button>
+                        <button
+                          onClick={() => setEditingCustomer(customer.id)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          <Edit size={18} />
+                        </button>
+                        {currentUser?.role === 'admin' && (
+                          <button
+                            onClick={() => setDeleteConfirmId(customer.id)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            <Trash2 size={18} />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Add customer modal */}
+        {showAddModal && (
+          <CustomerForm
+            onClose={() => setShowAddModal(false)}
+          />
+        )}
+
+        {/* Edit customer modal */}
+        {editingCustomer && (
+          <CustomerForm
+            customerId={editingCustomer}
+            onClose={() => setEditingCustomer(null)}
+          />
+        )}
+
+        {/* Customer details modal */}
+        {viewedCustomer && (
+          <CustomerDetails
+            customer={viewedCustomer}
+            onClose={() => setViewingCustomer(null)}
+          />
+        )}
+
+        {/* Delete confirmation modal */}
+        {deleteConfirmId && (
+          <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg max-w-md w-full p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Confirm Delete</h3>
+              <p className="text-gray-500 mb-6">
+                Are you sure you want to delete this customer? Customers with sales or payments cannot be deleted.
+              </p>
+              <div className="flex justify-end space-x-3">
+                <Button
+                  variant="outline"
+                  onClick={() => setDeleteConfirmId(null)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="danger"
+                  onClick={() => handleDelete(deleteConfirmId)}
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default CustomerList;
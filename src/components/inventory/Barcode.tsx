@@ -0,0 +1,39 @@
+import React from 'react';
+import { encodeCode128 } from '../../utils/barcodes';
+
+interface BarcodeProps {
+  value: string;
+  className?: string;
+}
+
+// Quiet zone either side of the bars, in modules
+const QUIET_ZONE = 10;
+
+// Code 128 drawn as SVG, one unit per module, stretched to the size given by className
+const Barcode: React.FC<BarcodeProps> = ({ value, className }) => {
+  const widths = encodeCode128(value);
+  const bars: { x: number; width: number }[] = [];
+  let x = QUIET_ZONE;
+  widths.forEach((width, index) => {
+    // Widths alternate bar, space, bar, ...
+    if (index % 2 === 0) {
+      bars.push({ x, width });
+    }
+    x += width;
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${x + QUIET_ZONE} 50`}
+      preserveAspectRatio="none"
+      shapeRendering="crispEdges"
+      className={className}
+    >
+      {bars.map((bar) => (
+        <rect key={bar.x} x={bar.x} y={0} width={bar.width} height={50} fill="#000" />
+      ))}
+    </svg>
+  );
+};
+
+export default Barcode;
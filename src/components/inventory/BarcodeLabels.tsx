@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Product } from '../../types';
+import { formatCurrency } from '../../utils/formatters';
+import { canEncodeCode128 } from '../../utils/barcodes';
+import { X, Printer } from 'lucide-react';
+import Button from '../ui/Button';
+import Barcode from './Barcode';
+
+// A4 sheets of 3 x 7 labels, or one label per page on a 50 x 25 mm label printer roll
+type LabelLayout = 'sheet' | 'roll';
+
+interface BarcodeLabelsProps {
+  products: Product[];
+  onClose: () => void;
+}
+
+// The code printed on a product's label: its barcode, or its SKU when it has none
+const getLabelCode = (product: Product) => {
+  const code = product.barcode || product.sku;
+  return code && canEncodeCode128(code) ? code : undefined;
+};
+
+const BarcodeLabels: React.FC<BarcodeLabelsProps> = ({ products, onClose }) => {
+  const [layout, setLayout] = useState<LabelLayout>('sheet');
+  // Number of labels to print per product
+  const [copies, setCopies] = useState<Record<string, number>>(() =>
+    Object.fromEntries(products.map((product) => [product.id, getLabelCode(product) ? 1 : 0]))
+  );
+
+  const labels = products.flatMap((product) => Array(copies[product.id] || 0).fill(product) as Product[]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      {/* Page size for window.print(), follows the selected layout */}
+      <style>
+        {`@media print { @page { size: ${layout === 'roll' ? '50mm 25mm' : 'A4'}; margin: 0; } }`}
+      </style>
+
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-lg font-medium text-gray-900">Barcode Labels</h3>
+          <div className="flex items-center space-x-2">
+            <select
+              value={layout}
+              onChange={(e) => setLayout(e.target.value as LabelLayout)}
+              className="block rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="sheet">A4 Sheet (3 x 7)</option>
+              <option value="roll">Label Printer (50 x 25 mm)</option>
+            </select>
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<Printer size={16} />}
+              onClick={() => window.print()}
+              disabled={labels.length === 0}
+            >
+              Print
+            </Button>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {/* Labels per product */}
+        <div className="px-6 py-4 border-b border-gray-200 max-h-48 overflow-y-auto space-y-2">
+          {products.map((product) => (
+            <div key={product.id} className="flex items-center justify-between text-sm">
+              <div>
+                <span className="text-gray-900">{product.name}</span>
+                <span className="ml-2 text-gray-500">
+                  {getLabelCode(product) || 'No barcode or SKU to print'}
+                </span>
+              </div>
+              <input
+                type="number"
+                min="0"
+                value={copies[product.id] || 0}
+                onChange={(e) => setCopies({ ...copies, [product.id]: Math.max(parseInt(e.target.value) || 0, 0) })}
+                disabled={!getLabelCode(product)}
+                className="ml-2 block w-20 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right disabled:bg-gray-100"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="overflow-auto bg-gray-100 p-6 flex justify-center">
+          {labels.length === 0 ? (
+            <p className="text-sm text-gray-500">Choose how many labels to print</p>
+          ) : (
+            <div
+              className={`print-area bg-white shadow ${
+                layout === 'sheet' ? 'w-[210mm] grid grid-cols-3 gap-x-[2.5mm] px-[7mm] py-[15mm]' : ''
+              }`}
+            >
+              {labels.map((product, index) => (
+                <div
+                  key={index}
+                  className={`flex flex-col items-center justify-center overflow-hidden text-gray-900 ${
+                    layout === 'sheet' ? 'h-[38.1mm] px-[3mm]' : 'w-[50mm] h-[25mm] px-[2mm] break-after-page'
+                  }`}
+                >
+                  <p className="w-full truncate text-center text-[9px] font-medium">{product.name}</p>
+                  <Barcode
+                    value={getLabelCode(product) as string}
+                    className={`w-full ${layout === 'sheet' ? 'h-[18mm]' : 'h-[12mm]'}`}
+                  />
+                  <div className="w-full flex justify-between text-[9px]">
+                    <span className="font-mono">{getLabelCode(product)}</span>
+                    <span className="font-semibold">{formatCurrency(product.price)}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BarcodeLabels;
\ No newline at end of file
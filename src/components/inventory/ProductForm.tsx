@@ -1,8 +1,17 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useAppContext } from '../../context/AppContext';
-import { Product } from '../../types';
+import { NewStockBatch, Product, ProductVariantInput } from '../../types';
 import { X, Camera } from 'lucide-react';
 import Button from '../ui/Button';
+import { getCurrencySymbol } from '../../utils/formatters';
+import { roundMoney } from '../../utils/gst';
+import { getUserLocation } from '../../utils/locations';
+import { isValidBarcode } from '../../utils/barcodes';
+import { getCategoryDefaults, getCategoryOptions } from '../../utils/categories';
+import {
+  VariantOptionDraft, buildVariantMatrix, getVariants, isVariantParent, parseVariantOptions
+} from '../../utils/variants';
+import VariantMatrix from './VariantMatrix';
 
 interface ProductFormProps {
   productId?: string;
@@ -10,22 +19,38 @@ interface ProductFormProps {
 }
 
 const ProductForm: React.FC<ProductFormProps> = ({ productId, onClose }) => {
-  const { products, addProduct, updateProduct } = useAppContext();
+  const { products, categories, locations, currentUser, addProduct, updateProduct, store } = useAppContext();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Initial form state
   const initialState: Omit<Product, 'id' | 'createdAt' | 'updatedAt'> = {
     name: '',
+    sku: '',
+    barcode: '',
     description: '',
-    category: '',
+    categoryId: '',
+    hsnCode: '',
+    gstRate: store.defaultTaxRate,
     price: 0,
     costPrice: 0,
     quantity: 0,
     threshold: 0,
+    stock: [],
+    tracksBatches: false,
+    tracksSerials: false,
+    warrantyMonths: 0,
     imageUrl: '',
   };
   
   const [formData, setFormData] = useState(initialState);
+  // A parent product's options and one variant per combination of their values
+  const [hasVariants, setHasVariants] = useState(false);
+  const [optionDrafts, setOptionDrafts] = useState<VariantOptionDraft[]>([]);
+  const [variants, setVariants] = useState<ProductVariantInput[]>([]);
+  // Lot of the opening stock of a new batch-tracked product
+  const [openingBatch, setOpeningBatch] = useState<NewStockBatch>({ lotNumber: '', manufacturedOn: '', expiresOn: '' });
+  // Where the opening stock of a new product or variant is put
+  const [locationId, setLocationId] = useState(() => getUserLocation(locations, currentUser)?.id || '');
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [previewImage, setPreviewImage] = useState<string>('');
@@ -40,6 +65,21 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, onClose }) => {
         if (rest.imageUrl) {
           setPreviewImage(rest.imageUrl);
         }
+        setHasVariants(isVariantParent(product));
+        setOptionDrafts((product.variantOptions || []).map((option) => ({
+          name: option.name,
+          values: option.values.join(', '),
+        })));
+        setVariants(getVariants(products, id).map((variant) => ({
+          id: variant.id,
+          attributes: variant.attributes || {},
+          sku: variant.sku || '',
+          barcode: variant.barcode || '',
+          price: variant.price,
+          costPrice: variant.costPrice,
+          quantity: variant.quantity,
+          threshold: variant.threshold,
+        })));
       }
     }
   }, [productId, products]);
@@ -49,11 +89,20 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, onClose }) => {
     const { name, value, type } = e.target;
     
     // Convert numeric values
-    if (type === 'number') {
+    if (type === 'number' || name === 'gstRate') {
       setFormData({
         ...formData,
         [name]: parseFloat(value) || 0,
       });
+    } else if (name === 'categoryId' && !productId) {
+      // A new product starts with the category's GST rate and threshold, where it has them
+      const defaults = getCategoryDefaults(categories, value);
+      setFormData({
+        ...formData,
+        categoryId: value,
+        gstRate: defaults.gstRate ?? formData.gstRate,
+        threshold: defaults.threshold ?? formData.threshold,
+      });
     } else {
       setFormData({
         ...formData,
@@ -70,6 +119,38 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, onClose }) => {
     }
   };
 
+  const options = parseVariantOptions(optionDrafts);
+  
+  // Opening stock of a new batch-tracked product goes in under a lot once any of its details are entered
+  const hasOpeningBatch = !productId && !hasVariants && !!formData.tracksBatches &&
+    !!(openingBatch.lotNumber || openingBatch.manufacturedOn || openingBatch.expiresOn);
+
+  // Every combination of the option values gets a variant row
+  const handleOptionDraftsChange = (drafts: VariantOptionDraft[]) => {
+    setOptionDrafts(drafts);
+    setVariants(buildVariantMatrix(parseVariantOptions(drafts), variants, {
+      price: formData.price,
+      costPrice: formData.costPrice,
+      threshold: formData.threshold,
+    }));
+  };
+
+  const handleVariantChange = (index: number, changes: Partial<ProductVariantInput>) => {
+    setVariants(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  // Set or clear one location's own threshold; cleared falls back to the product threshold
+  const handleLocationThresholdChange = (id: string, value: string) => {
+    const threshold = value === '' ? undefined : parseInt(value) || 0;
+    const existing = formData.stock.find((stock) => stock.locationId === id);
+    setFormData({
+      ...formData,
+      stock: existing
+        ? formData.stock.map((stock) => (stock.locationId === id ? { ...stock, threshold } : stock))
+        : [...formData.stock, { locationId: id, quantity: 0, threshold }],
+    });
+  };
+
   // Handle image capture
   const handleCapture = () => {
     if (fileInputRef.current) {
@@ -101,8 +182,20 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, onClose }) => {
       newErrors.name = 'Product name is required';
     }
     
-    if (!formData.category.trim()) {
-      newErrors.category = 'Category is required';
+    if (formData.sku && formData.sku.length > 64) {
+      newErrors.sku = 'SKU must be at most 64 characters';
+    }
+    
+    if (formData.barcode && !isValidBarcode(formData.barcode)) {
+      newErrors.barcode = 'Barcode must be a valid EAN-8, UPC-A, EAN-13 or GTIN-14 code';
+    }
+    
+    if (!formData.categoryId) {
+      newErrors.categoryId = 'Category is required';
+    }
+    
+    if (formData.hsnCode && !/^\d{4,8}$/.test(formData.hsnCode)) {
+      newErrors.hsnCode = 'HSN code must be 4 to 8 digits';
     }
     
     if (formData.price <= 0) {
@@ -121,12 +214,48 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, onClose }) => {
       newErrors.threshold = 'Threshold cannot be negative';
     }
     
+    if (formData.stock.some((stock) => stock.threshold !== undefined && stock.threshold < 0)) {
+      newErrors.stock = 'Location thresholds cannot be negative';
+    }
+    
+    const warrantyMonths = formData.warrantyMonths ?? 0;
+    if (!Number.isInteger(warrantyMonths) || warrantyMonths < 0 || warrantyMonths > 120) {
+      newErrors.warrantyMonths = 'Warranty must be 0 to 120 months';
+    }
+    
+    if (hasOpeningBatch) {
+      if (!openingBatch.lotNumber.trim()) {
+        newErrors.openingBatch = 'Lot number is required';
+      } else if (openingBatch.manufacturedOn && openingBatch.expiresOn && openingBatch.manufacturedOn > openingBatch.expiresOn) {
+        newErrors.openingBatch = 'Expiry date cannot be before the manufacture date';
+      }
+    }
+    
+    if (hasVariants) {
+      if (options.length === 0) {
+        newErrors.variantOptions = 'Add an option with at least one value';
+      } else if (new Set(options.map((option) => option.name)).size !== options.length) {
+        newErrors.variantOptions = 'Each option needs a different name';
+      } else if (variants.some((variant) => variant.price <= 0)) {
+        newErrors.variants = 'Each variant needs a price greater than 0';
+      } else if (variants.some((variant) => variant.costPrice < 0 || variant.quantity < 0 || variant.threshold < 0)) {
+        newErrors.variants = 'Variant cost, stock and thresholds cannot be negative';
+      } else if (variants.some((variant) => variant.barcode && !isValidBarcode(variant.barcode))) {
+        newErrors.variants = 'Variant barcodes must be valid EAN-8, UPC-A, EAN-13 or GTIN-14 codes';
+      } else if ((['sku', 'barcode'] as const).some((field) => {
+        const codes = variants.map((variant) => variant[field]?.trim()).filter(Boolean);
+        return new Set(codes).size !== codes.length;
+      })) {
+        newErrors.variants = 'Each variant needs its own SKU and barcode';
+      }
+    }
+    
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
   
   // Handle form submission
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!validateForm()) {
@@ -136,18 +265,51 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, onClose }) => {
     setIsSubmitting(true);
     
     try {
+      // A parent holds no stock of its own; its variants are saved with it
+      const productData = {
+        ...formData,
+        quantity: hasVariants ? 0 : formData.quantity,
+        variantOptions: hasVariants ? options : [],
+      };
+      const variantData = hasVariants
+        ? variants.map((variant) => ({
+          ...variant,
+          sku: variant.sku?.trim() || undefined,
+          barcode: variant.barcode?.trim() || undefined,
+        }))
+        : undefined;
+      
+      let serverErrors: Record<string, string> = {};
       if (productId) {
         // Update existing product
         const existingProduct = products.find((p) => p.id === productId);
         if (existingProduct) {
-          updateProduct({
-            ...existingProduct,
-            ...formData,
-          });
+          serverErrors = await updateProduct(
+            { ...existingProduct, ...productData },
+            locationId || undefined,
+            variantData
+          );
         }
       } else {
         // Add new product
-        addProduct(formData);
+        serverErrors = await addProduct(
+          productData,
+          locationId || undefined,
+          variantData,
+          hasOpeningBatch
+            ? {
+              lotNumber: openingBatch.lotNumber.trim(),
+              manufacturedOn: openingBatch.manufacturedOn || undefined,
+              expiresOn: openingBatch.expiresOn || undefined,
+            }
+            : undefined
+        );
+      }
+      
+      // Show errors reported by the server
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
       }
       
       onClose();
@@ -195,29 +357,32 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, onClose }) => {
             
             {/* Category */}
             <div>
-              <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-1">
+              <label htmlFor="categoryId" className="block text-sm font-medium text-gray-700 mb-1">
                 Category*
               </label>
               <select
-                id="category"
-                name="category"
-                value={formData.category}
+                id="categoryId"
+                name="categoryId"
+                value={formData.categoryId}
                 onChange={handleChange}
                 className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
-                  errors.category ? 'border-red-300' : 'border-gray-300'
+                  errors.categoryId ? 'border-red-300' : 'border-gray-300'
                 }`}
               >
                 <option value="">Select a category</option>
-                <option value="Electronics">Electronics</option>
-                <option value="Furniture">Furniture</option>
-                <option value="Stationery">Stationery</option>
-                <option value="Accessories">Accessories</option>
-                <option value="Storage">Storage</option>
-                <option value="Lighting">Lighting</option>
-                <option value="Other">Other</option>
+                {getCategoryOptions(categories).map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
               </select>
-              {errors.category && (
-                <p className="mt-1 text-sm text-red-600">{errors.category}</p>
+              {errors.categoryId && (
+                <p className="mt-1 text-sm text-red-600">{errors.categoryId}</p>
+              )}
+              {categories.length === 0 && (
+                <p className="mt-1 text-xs text-gray-500">
+                  An admin adds categories under Settings
+                </p>
               )}
             </div>
             
@@ -280,10 +445,60 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, onClose }) => {
               />
             </div>
             
+            {/* SKU; variants have their own */}
+            {!hasVariants && (
+              <div>
+                <label htmlFor="sku" className="block text-sm font-medium text-gray-700 mb-1">
+                  SKU
+                </label>
+                <input
+                  type="text"
+                  id="sku"
+                  name="sku"
+                  value={formData.sku || ''}
+                  onChange={handleChange}
+                  className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                    errors.sku ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                />
+                {errors.sku && (
+                  <p className="mt-1 text-sm text-red-600">{errors.sku}</p>
+                )}
+              </div>
+            )}
+            
+            {/* Barcode printed on the packaging */}
+            {!hasVariants && (
+              <div>
+                <label htmlFor="barcode" className="block text-sm font-medium text-gray-700 mb-1">
+                  Barcode (EAN/UPC)
+                </label>
+                <input
+                  type="text"
+                  id="barcode"
+                  name="barcode"
+                  inputMode="numeric"
+                  value={formData.barcode || ''}
+                  onChange={handleChange}
+                  // Scanners end the code with Enter, which would submit the form
+                  onKeyDown={(e) => e.key === 'Enter' && e.preventDefault()}
+                  className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                    errors.barcode ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                />
+                {errors.barcode && (
+                  <p className="mt-1 text-sm text-red-600">{errors.barcode}</p>
+                )}
+                <p className="mt-1 text-xs text-gray-500">
+                  Scan it into this field, or leave empty to label the product with its SKU
+                </p>
+              </div>
+            )}
+            
             {/* Price */}
             <div>
               <label htmlFor="price" className="block text-sm font-medium text-gray-700 mb-1">
-                Selling Price (₹)*
+                {hasVariants ? 'Default Selling Price' : 'Selling Price'} ({getCurrencySymbol()})*
               </label>
               <input
                 type="number"
@@ -303,52 +518,142 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, onClose }) => {
             </div>
             
             {/* Cost Price */}
+            {!hasVariants && (
+              <div>
+                <label htmlFor="costPrice" className="block text-sm font-medium text-gray-700 mb-1">
+                  {productId ? 'Unit Cost' : 'Opening Cost Price'} ({getCurrencySymbol()})
+                </label>
+                <input
+                  type="number"
+                  id="costPrice"
+                  name="costPrice"
+                  min="0"
+                  step="0.01"
+                  value={productId ? roundMoney(formData.costPrice) : formData.costPrice}
+                  onChange={handleChange}
+                  disabled={!!productId}
+                  className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm disabled:bg-gray-100 ${
+                    errors.costPrice ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                />
+                {errors.costPrice && (
+                  <p className="mt-1 text-sm text-red-600">{errors.costPrice}</p>
+                )}
+                {productId && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Worked out from purchases by the store's costing method
+                  </p>
+                )}
+              </div>
+            )}
+            
+            {/* HSN Code */}
             <div>
-              <label htmlFor="costPrice" className="block text-sm font-medium text-gray-700 mb-1">
-                Cost Price (₹)
+              <label htmlFor="hsnCode" className="block text-sm font-medium text-gray-700 mb-1">
+                HSN Code
               </label>
               <input
-                type="number"
-                id="costPrice"
-                name="costPrice"
-                min="0"
-                step="0.01"
-                value={formData.costPrice}
+                type="text"
+                id="hsnCode"
+                name="hsnCode"
+                value={formData.hsnCode || ''}
                 onChange={handleChange}
                 className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
-                  errors.costPrice ? 'border-red-300' : 'border-gray-300'
+                  errors.hsnCode ? 'border-red-300' : 'border-gray-300'
                 }`}
               />
-              {errors.costPrice && (
-                <p className="mt-1 text-sm text-red-600">{errors.costPrice}</p>
+              {errors.hsnCode && (
+                <p className="mt-1 text-sm text-red-600">{errors.hsnCode}</p>
               )}
             </div>
             
-            {/* Quantity */}
+            {/* GST Rate */}
             <div>
-              <label htmlFor="quantity" className="block text-sm font-medium text-gray-700 mb-1">
-                Quantity in Stock
+              <label htmlFor="gstRate" className="block text-sm font-medium text-gray-700 mb-1">
+                GST Rate (%)
               </label>
-              <input
-                type="number"
-                id="quantity"
-                name="quantity"
-                min="0"
-                value={formData.quantity}
+              <select
+                id="gstRate"
+                name="gstRate"
+                value={formData.gstRate}
                 onChange={handleChange}
                 className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
-                  errors.quantity ? 'border-red-300' : 'border-gray-300'
+                  errors.gstRate ? 'border-red-300' : 'border-gray-300'
                 }`}
-              />
-              {errors.quantity && (
-                <p className="mt-1 text-sm text-red-600">{errors.quantity}</p>
+              >
+                {store.taxRates.map((rate) => (
+                  <option key={rate} value={rate}>
+                    {rate}%
+                  </option>
+                ))}
+              </select>
+              {errors.gstRate && (
+                <p className="mt-1 text-sm text-red-600">{errors.gstRate}</p>
               )}
+              <p className="mt-1 text-xs text-gray-500">
+                Selling price is inclusive of GST
+              </p>
             </div>
             
+            {/* Quantity */}
+            {!hasVariants && (
+              <div>
+                <label htmlFor="quantity" className="block text-sm font-medium text-gray-700 mb-1">
+                  {productId ? 'Quantity in Stock' : 'Opening Stock'}
+                </label>
+                <input
+                  type="number"
+                  id="quantity"
+                  name="quantity"
+                  min="0"
+                  value={formData.quantity}
+                  onChange={handleChange}
+                  disabled={!!productId}
+                  className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm disabled:bg-gray-100 ${
+                    errors.quantity ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                />
+                {errors.quantity && (
+                  <p className="mt-1 text-sm text-red-600">{errors.quantity}</p>
+                )}
+                {productId && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Use Stock History to record an adjustment
+                  </p>
+                )}
+              </div>
+            )}
+            
+            {/* Opening Stock Location */}
+            {(!productId || hasVariants) && locations.length > 1 && (
+              <div>
+                <label htmlFor="locationId" className="block text-sm font-medium text-gray-700 mb-1">
+                  Opening Stock Location
+                </label>
+                <select
+                  id="locationId"
+                  value={locationId}
+                  onChange={(e) => setLocationId(e.target.value)}
+                  className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                    errors.locationId ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                >
+                  {locations.map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name}
+                    </option>
+                  ))}
+                </select>
+                {errors.locationId && (
+                  <p className="mt-1 text-sm text-red-600">{errors.locationId}</p>
+                )}
+              </div>
+            )}
+            
             {/* Low Stock Threshold */}
             <div>
               <label htmlFor="threshold" className="block text-sm font-medium text-gray-700 mb-1">
-                Low Stock Threshold
+                {hasVariants ? 'Default Low Stock Threshold' : 'Low Stock Threshold'}
               </label>
               <input
                 type="number"
@@ -368,8 +673,177 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, onClose }) => {
                 Alert will be triggered when stock falls below this number
               </p>
             </div>
+            
+            {/* Per-location thresholds */}
+            {productId && !hasVariants && locations.length > 1 && (
+              <div className="col-span-1 md:col-span-2">
+                <p className="block text-sm font-medium text-gray-700 mb-1">
+                  Threshold by Location
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {locations.map((location) => {
+                    const stock = formData.stock.find((s) => s.locationId === location.id);
+                    return (
+                      <label key={location.id} className="flex items-center justify-between text-sm text-gray-600">
+                        <span>
+                          {location.name}
+                          <span className="ml-1 text-gray-400">({stock?.quantity ?? 0} in stock)</span>
+                        </span>
+                        <input
+                          type="number"
+                          min="0"
+                          value={stock?.threshold ?? ''}
+                          placeholder={String(formData.threshold)}
+                          onChange={(e) => handleLocationThresholdChange(location.id, e.target.value)}
+                          className="ml-2 block w-24 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right"
+                        />
+                      </label>
+                    );
+                  })}
+                </div>
+                {errors.stock && (
+                  <p className="mt-1 text-sm text-red-600">{errors.stock}</p>
+                )}
+                <p className="mt-1 text-xs text-gray-500">
+                  Leave empty to use the threshold above
+                </p>
+              </div>
+            )}
+            
+            {/* Batch tracking */}
+            <div className="col-span-1 md:col-span-2">
+              <label className="flex items-center text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!formData.tracksBatches}
+                  onChange={(e) => setFormData({ ...formData, tracksBatches: e.target.checked })}
+                  className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Track lot numbers and expiry dates
+              </label>
+              <p className="mt-1 text-xs text-gray-500">
+                {productId && !formData.tracksBatches && products.find((p) => p.id === productId)?.tracksBatches
+                  ? 'Turning batch tracking off stops booking stock by lot; lot history is kept'
+                  : 'Stock is received by lot and sold first expiry, first out'}
+              </p>
+              {!productId && !hasVariants && formData.tracksBatches && (
+                <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div>
+                    <label htmlFor="openingLotNumber" className="block text-sm font-medium text-gray-700 mb-1">
+                      Opening Lot Number
+                    </label>
+                    <input
+                      type="text"
+                      id="openingLotNumber"
+                      value={openingBatch.lotNumber}
+                      onChange={(e) => setOpeningBatch({ ...openingBatch, lotNumber: e.target.value })}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="openingManufacturedOn" className="block text-sm font-medium text-gray-700 mb-1">
+                      Manufactured On
+                    </label>
+                    <input
+                      type="date"
+                      id="openingManufacturedOn"
+                      value={openingBatch.manufacturedOn}
+                      onChange={(e) => setOpeningBatch({ ...openingBatch, manufacturedOn: e.target.value })}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="openingExpiresOn" className="block text-sm font-medium text-gray-700 mb-1">
+                      Expires On
+                    </label>
+                    <input
+                      type="date"
+                      id="openingExpiresOn"
+                      value={openingBatch.expiresOn}
+                      onChange={(e) => setOpeningBatch({ ...openingBatch, expiresOn: e.target.value })}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                  </div>
+                </div>
+              )}
+              {errors.openingBatch && (
+                <p className="mt-1 text-sm text-red-600">{errors.openingBatch}</p>
+              )}
+            </div>
+            
+            {/* Serial numbers and warranty */}
+            <div className="col-span-1 md:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={!!formData.tracksSerials}
+                    onChange={(e) => setFormData({ ...formData, tracksSerials: e.target.checked })}
+                    className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Track serial numbers
+                </label>
+                <p className="mt-1 text-xs text-gray-500">
+                  Each unit is received and sold by its serial number, for warranty claims
+                </p>
+              </div>
+              <div>
+                <label htmlFor="warrantyMonths" className="block text-sm font-medium text-gray-700 mb-1">
+                  Warranty (months)
+                </label>
+                <input
+                  type="number"
+                  id="warrantyMonths"
+                  min="0"
+                  max="120"
+                  value={formData.warrantyMonths ?? 0}
+                  onChange={(e) => setFormData({ ...formData, warrantyMonths: parseInt(e.target.value) || 0 })}
+                  className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                    errors.warrantyMonths ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                />
+                {errors.warrantyMonths && (
+                  <p className="mt-1 text-sm text-red-600">{errors.warrantyMonths}</p>
+                )}
+              </div>
+            </div>
+            
+            {/* Variants */}
+            <div className="col-span-1 md:col-span-2">
+              <label className="flex items-center text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={hasVariants}
+                  onChange={(e) => setHasVariants(e.target.checked)}
+                  disabled={!!productId && !hasVariants && formData.quantity > 0}
+                  className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Comes in variants such as size or colour
+              </label>
+              {!!productId && !hasVariants && formData.quantity > 0 && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Products with stock cannot be split into variants
+                </p>
+              )}
+              {hasVariants && (
+                <div className="mt-3">
+                  <VariantMatrix
+                    optionDrafts={optionDrafts}
+                    options={options}
+                    variants={variants}
+                    errors={errors}
+                    onOptionDraftsChange={handleOptionDraftsChange}
+                    onVariantChange={handleVariantChange}
+                  />
+                </div>
+              )}
+            </div>
           </div>
           
+          {errors.form && (
+            <p className="mt-4 text-sm text-red-600">{errors.form}</p>
+          )}
+          
           <div className="mt-6 flex justify-end space-x-3">
             <Button
               variant="outline"
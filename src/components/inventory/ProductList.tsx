@@ -1,24 +1,89 @@
 import React, { useState } from 'react';
 import { useAppContext } from '../../context/AppContext';
 import { formatCurrency, formatDate } from '../../utils/formatters';
-import { Edit, Trash2, Plus, Search, AlertCircle } from 'lucide-react';
+import { Product } from '../../types';
+import { getLocationQuantity, isLowStock } from '../../utils/locations';
+import { getVariantLabel, getVariants, isVariantParent } from '../../utils/variants';
+import { getNextExpiringBatch } from '../../utils/batches';
+import { fromDateOnly } from '../../utils/purchases';
+import { getCategoryPath } from '../../utils/categories';
+import {
+  Edit, Trash2, Plus, Search, AlertCircle, History, ChevronDown, ChevronRight, Barcode
+} from 'lucide-react';
 import Button from '../ui/Button';
 import ProductForm from './ProductForm';
+import StockHistory from './StockHistory';
+import BarcodeLabels from './BarcodeLabels';
 
 const ProductList: React.FC = () => {
-  const { products, deleteProduct } = useAppContext();
+  const { products, categories, locations, deleteProduct, currentUser } = useAppContext();
   const [searchTerm, setSearchTerm] = useState('');
+  // Empty shows the total across locations
+  const [locationId, setLocationId] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingProduct, setEditingProduct] = useState<string | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<string | null>(null);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+  // Products to print barcode labels for; a parent's labels are its variants'
+  const [labelProducts, setLabelProducts] = useState<Product[] | null>(null);
 
-  // Handle search filter
+  // Searching for a category finds the products in its subcategories too
+  const matchesSearch = (product: Product) =>
+    product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    getCategoryPath(categories, product.categoryId).toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (product.sku || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (product.barcode || '').includes(searchTerm.trim());
+
+  // Handle search filter; variants are listed under their parent, which shows when any of them match
   const filteredProducts = products.filter(
     (product) =>
-      product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      product.category.toLowerCase().includes(searchTerm.toLowerCase())
+      !product.parentId && (matchesSearch(product) || getVariants(products, product.id).some(matchesSearch))
   );
 
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(expandedIds.includes(id) ? expandedIds.filter((e) => e !== id) : [...expandedIds, id]);
+  };
+
+  // A parent's stock is what its variants hold between them
+  const getQuantity = (product: Product, id?: string) =>
+    isVariantParent(product)
+      ? getVariants(products, product.id).reduce((sum, variant) => sum + getLocationQuantity(variant, id), 0)
+      : getLocationQuantity(product, id);
+
+  const isLow = (product: Product) =>
+    isVariantParent(product)
+      ? getVariants(products, product.id).some((variant) => isLowStock(variant, locationId || undefined))
+      : isLowStock(product, locationId || undefined);
+
+  // Earliest expiry among a batch-tracked product's lots, shown under its stock
+  const renderNextExpiry = (product: Product) => {
+    const batch = product.tracksBatches ? getNextExpiringBatch(product, locationId || undefined) : undefined;
+    if (!batch?.expiresOn) return null;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const expiresOn = fromDateOnly(batch.expiresOn);
+    return (
+      <div className={`text-xs ${expiresOn < today ? 'text-red-600' : 'text-gray-500'}`}>
+        Next expiry {formatDate(expiresOn)}
+      </div>
+    );
+  };
+
+  // SKU and barcode under the product name, or the description when it has neither
+  const getCodeLabel = (product: Product) =>
+    [product.sku && `SKU ${product.sku}`, product.barcode].filter(Boolean).join(' · ');
+
+  const getPriceLabel = (product: Product) => {
+    const prices = getVariants(products, product.id).map((variant) => variant.price);
+    if (!isVariantParent(product) || prices.length === 0) {
+      return formatCurrency(product.price);
+    }
+    const min = Math.min(...prices);
+    const max = Math.max(...prices);
+    return min === max ? formatCurrency(min) : `${formatCurrency(min)} - ${formatCurrency(max)}`;
+  };
+
   // Handle edit product
   const handleEdit = (id: string) => {
     setEditingProduct(id);
@@ -30,11 +95,16 @@ const ProductList: React.FC = () => {
   };
 
   // Handle actual delete
-  const handleDelete = (id: string) => {
-    deleteProduct(id);
+  const handleDelete = async (id: string) => {
+    const serverErrors = await deleteProduct(id);
     setDeleteConfirmId(null);
+    if (serverErrors.form) {
+      alert(serverErrors.form);
+    }
   };
 
+  const viewedProduct = products.find((product) => product.id === historyProduct);
+
   return (
     <div className="bg-white rounded-lg shadow">
       {/* Header section */}
@@ -42,6 +112,22 @@ const ProductList: React.FC = () => {
         <h3 className="text-lg font-medium text-gray-900">Products Inventory</h3>
         
         <div className="mt-2 sm:mt-0 flex flex-wrap gap-2">
+          {/* Location filter */}
+          {locations.length > 1 && (
+            <select
+              value={locationId}
+              onChange={(e) => setLocationId(e.target.value)}
+              className="block rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="">All Locations</option>
+              {locations.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.name}
+                </option>
+              ))}
+            </select>
+          )}
+
           {/* Search input */}
           <div className="relative">
             <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -101,82 +187,175 @@ const ProductList: React.FC = () => {
                 </td>
               </tr>
             ) : (
-              filteredProducts.map((product) => (
-                <tr 
-                  key={product.id}
-                  className="hover:bg-gray-50"
-                >
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="flex items-center">
-                      {product.imageUrl ? (
-                        <div className="flex-shrink-0 h-10 w-10">
-                          <img 
-                            className="h-10 w-10 rounded-md object-cover" 
-                            src={product.imageUrl} 
-                            alt={product.name} 
-                          />
+              filteredProducts.flatMap((product) => {
+                const variants = getVariants(products, product.id);
+                const expanded = expandedIds.includes(product.id);
+
+                return [
+                  <tr 
+                    key={product.id}
+                    className="hover:bg-gray-50"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center">
+                        {product.imageUrl ? (
+                          <div className="flex-shrink-0 h-10 w-10">
+                            <img 
+                              className="h-10 w-10 rounded-md object-cover" 
+                              src={product.imageUrl} 
+                              alt={product.name} 
+                            />
+                          </div>
+                        ) : (
+                          <div className="flex-shrink-0 h-10 w-10 bg-gray-200 rounded-md flex items-center justify-center">
+                            <span className="text-gray-500 text-xs">No img</span>
+                          </div>
+                        )}
+                        <div className="ml-4">
+                          <div className="text-sm font-medium text-gray-900">
+                            {product.name}
+                          </div>
+                          {isVariantParent(product) ? (
+                            <button
+                              onClick={() => toggleExpanded(product.id)}
+                              className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                            >
+                              {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                              {variants.length} variants
+                            </button>
+                          ) : (
+                            <div className="text-sm text-gray-500 truncate max-w-xs">
+                              {getCodeLabel(product) || product.description}
+                            </div>
+                          )}
                         </div>
-                      ) : (
-                        <div className="flex-shrink-0 h-10 w-10 bg-gray-200 rounded-md flex items-center justify-center">
-                          <span className="text-gray-500 text-xs">No img</span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                        {getCategoryPath(categories, product.categoryId)}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {getPriceLabel(product)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center">
+                        <span 
+                          className={`inline-flex text-sm ${
+                            isLow(product)
+                              ? 'text-red-600'
+                              : 'text-gray-900'
+                          }`}
+                        >
+                          {getQuantity(product, locationId || undefined)}
+                        </span>
+                        
+                        {isLow(product) && (
+                          <AlertCircle size={16} className="ml-1 text-red-500" />
+                        )}
+                      </div>
+                      {/* Split by location when showing the total */}
+                      {!locationId && locations.length > 1 && (
+                        <div className="text-xs text-gray-500">
+                          {locations
+                            .map((location) => `${location.name} ${getQuantity(product, location.id)}`)
+                            .join(' · ')}
                         </div>
                       )}
-                      <div className="ml-4">
-                        <div className="text-sm font-medium text-gray-900">
-                          {product.name}
+                      {renderNextExpiry(product)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(product.updatedAt)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex justify-end space-x-2">
+                        {!isVariantParent(product) && (
+                          <button
+                            onClick={() => setHistoryProduct(product.id)}
+                            className="text-gray-600 hover:text-gray-900"
+                            title="Stock history"
+                          >
+                            <History size={18} />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setLabelProducts(isVariantParent(product) ? variants : [product])}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="Barcode labels"
+                        >
+                          <Barcode size={18} />
+                        </button>
+                        <button
+                          onClick={() => handleEdit(product.id)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          <Edit size={18} />
+                        </button>
+                        {currentUser?.role === 'admin' && (
+                          <button
+                            onClick={() => handleDeleteConfirm(product.id)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            <Trash2 size={18} />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>,
+                  // Variants are edited and removed through their parent
+                  ...(expanded ? variants : []).map((variant) => (
+                    <tr key={variant.id} className="bg-gray-50 hover:bg-gray-100">
+                      <td className="pl-20 pr-6 py-2 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">
+                          {getVariantLabel(product.variantOptions || [], variant.attributes || {})}
                         </div>
-                        <div className="text-sm text-gray-500 truncate max-w-xs">
-                          {product.description}
+                        {getCodeLabel(variant) && <div className="text-xs text-gray-500">{getCodeLabel(variant)}</div>}
+                      </td>
+                      <td />
+                      <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-900">
+                        {formatCurrency(variant.price)}
+                      </td>
+                      <td className="px-6 py-2 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <span
+                            className={`inline-flex text-sm ${
+                              isLowStock(variant, locationId || undefined) ? 'text-red-600' : 'text-gray-900'
+                            }`}
+                          >
+                            {getLocationQuantity(variant, locationId || undefined)}
+                          </span>
+                          {isLowStock(variant, locationId || undefined) && (
+                            <AlertCircle size={16} className="ml-1 text-red-500" />
+                          )}
                         </div>
-                      </div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
-                      {product.category}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {formatCurrency(product.price)}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="flex items-center">
-                      <span 
-                        className={`inline-flex text-sm ${
-                          product.quantity <= product.threshold
-                            ? 'text-red-600'
-                            : 'text-gray-900'
-                        }`}
-                      >
-                        {product.quantity}
-                      </span>
-                      
-                      {product.quantity <= product.threshold && (
-                        <AlertCircle size={16} className="ml-1 text-red-500" />
-                      )}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {formatDate(product.updatedAt)}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <div className="flex justify-end space-x-2">
-                      <button
-                        onClick={() => handleEdit(product.id)}
-                        className="text-blue-600 hover:text-blue-900"
-                      >
-                        <Edit size={18} />
-                      </button>
-                      <button
-                        onClick={() => handleDeleteConfirm(product.id)}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        <Trash2 size={18} />
-                      </button>
-                    </div>
-                  </td>
-                </tr>
-              ))
+                        {renderNextExpiry(variant)}
+                      </td>
+                      <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                        {formatDate(variant.updatedAt)}
+                      </td>
+                      <td className="px-6 py-2 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex justify-end space-x-2">
+                          <button
+                            onClick={() => setHistoryProduct(variant.id)}
+                            className="text-gray-600 hover:text-gray-900"
+                            title="Stock history"
+                          >
+                            <History size={18} />
+                          </button>
+                          <button
+                            onClick={() => setLabelProducts([variant])}
+                            className="text-gray-600 hover:text-gray-900"
+                            title="Barcode labels"
+                          >
+                            <Barcode size={18} />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )),
+                ];
+              })
             )}
           </tbody>
         </table>
@@ -197,13 +376,29 @@ const ProductList: React.FC = () => {
         />
       )}
       
+      {/* Stock history modal */}
+      {viewedProduct && (
+        <StockHistory
+          product={viewedProduct}
+          onClose={() => setHistoryProduct(null)}
+        />
+      )}
+      
+      {/* Barcode labels modal */}
+      {labelProducts && (
+        <BarcodeLabels
+          products={labelProducts}
+          onClose={() => setLabelProducts(null)}
+        />
+      )}
+      
       {/* Delete confirmation modal */}
       {deleteConfirmId && (
         <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg max-w-md w-full p-6">
             <h3 className="text-lg font-medium text-gray-900 mb-4">Confirm Delete</h3>
             <p className="text-gray-500 mb-6">
-              Are you sure you want to delete this product? This action cannot be undone.
+              Are you sure you want to delete this product? Any variants are deleted with it. Products with stock cannot be deleted. This action cannot be undone.
             </p>
             <div className="flex justify-end space-x-3">
               <Button 
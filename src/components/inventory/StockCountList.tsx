@@ -0,0 +1,331 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+import { STOCK_COUNT_STATUS_LABELS, STOCK_COUNT_STATUS_STYLES, summarizeStockCount } from '../../utils/stock';
+import { getUserLocation } from '../../utils/locations';
+import { getCategoryOptions } from '../../utils/categories';
+import { ClipboardList, Trash2, Plus, X } from 'lucide-react';
+import Button from '../ui/Button';
+import StockCountSheet from './StockCountSheet';
+
+const StockCountList: React.FC = () => {
+  const { products, categories, locations, currentUser, stockCounts, createStockCount, deleteStockCount } = useAppContext();
+  const [onlyOpen, setOnlyOpen] = useState(true);
+  const [openCountId, setOpenCountId] = useState<string | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+  // New count form state
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [locationId, setLocationId] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const filteredCounts = onlyOpen ? stockCounts.filter((count) => count.status !== 'posted') : stockCounts;
+
+  const getLocationName = (id?: string) => locations.find((location) => location.id === id)?.name;
+
+  // Counts start at the user's own location
+  const openAddModal = () => {
+    setLocationId(getUserLocation(locations, currentUser)?.id || '');
+    setShowAddModal(true);
+  };
+
+  const closeAddModal = () => {
+    setShowAddModal(false);
+    setCategoryId('');
+    setNotes('');
+    setErrors({});
+  };
+
+  // Start a count of the chosen category and its subcategories, snapshotting its stock on hand at the location
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const serverErrors = await createStockCount(locationId, categoryId || undefined, notes || undefined);
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
+      }
+      closeAddModal();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Handle actual delete
+  const handleDelete = async (id: string) => {
+    const serverErrors = await deleteStockCount(id);
+    setDeleteConfirmId(null);
+    if (serverErrors.form) {
+      alert(serverErrors.form);
+    }
+  };
+
+  const openCount = stockCounts.find((count) => count.id === openCountId);
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      {/* Header section */}
+      <div className="px-4 py-4 sm:px-6 border-b border-gray-200 flex flex-wrap items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">Stock Counts</h3>
+
+        <div className="mt-2 sm:mt-0 flex flex-wrap items-center gap-2">
+          <label className="flex items-center text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={onlyOpen}
+              onChange={(e) => setOnlyOpen(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Open only
+          </label>
+
+          <Button
+            variant="primary"
+            size="md"
+            icon={<Plus size={16} />}
+            onClick={openAddModal}
+            disabled={products.length === 0}
+          >
+            New Count
+          </Button>
+        </div>
+      </div>
+
+      {/* Stock count table */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Count
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Scope
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Counted
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Variance Value
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {filteredCounts.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                  {onlyOpen ? 'No counts in progress.' : 'No stock counts yet.'}
+                </td>
+              </tr>
+            ) : (
+              filteredCounts.map((count) => {
+                const summary = summarizeStockCount(count.items);
+
+                return (
+                  <tr key={count.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{count.countNumber}</div>
+                      <div className="text-sm text-gray-500">
+                        {formatDate(count.createdAt)}
+                        {count.createdBy && ` · ${count.createdBy}`}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {count.category || 'All products'}
+                      {locations.length > 1 && (
+                        <div className="text-sm text-gray-500">{getLocationName(count.locationId)}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STOCK_COUNT_STATUS_STYLES[count.status]}`}>
+                        {STOCK_COUNT_STATUS_LABELS[count.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                      {summary.counted} / {count.items.length}
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm text-right ${
+                      summary.varianceValue < 0 ? 'text-red-600' : 'text-gray-900'
+                    }`}>
+                      {formatCurrency(summary.varianceValue)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => setOpenCountId(count.id)}
+                          className="text-blue-600 hover:text-blue-900"
+                          title={count.status === 'counting' ? 'Enter counts' : 'Review count'}
+                        >
+                          <ClipboardList size={18} />
+                        </button>
+                        {count.status !== 'posted' && (
+                          <button
+                            onClick={() => setDeleteConfirmId(count.id)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Discard count"
+                          >
+                            <Trash2 size={18} />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* New count modal */}
+      {showAddModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg max-w-md w-full">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="text-lg font-medium text-gray-900">New Stock Count</h3>
+              <button
+                onClick={closeAddModal}
+                className="text-gray-400 hover:text-gray-500"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            <form onSubmit={handleCreate} className="p-6 space-y-4">
+              {locations.length > 1 && (
+                <div>
+                  <label htmlFor="locationId" className="block text-sm font-medium text-gray-700">
+                    Location
+                  </label>
+                  <select
+                    id="locationId"
+                    value={locationId}
+                    onChange={(e) => setLocationId(e.target.value)}
+                    className={`mt-1 block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                      errors.locationId ? 'border-red-300' : 'border-gray-300'
+                    }`}
+                  >
+                    {locations.map((location) => (
+                      <option key={location.id} value={location.id}>
+                        {location.name}
+                      </option>
+                    ))}
+                  </select>
+                  {errors.locationId && (
+                    <p className="mt-1 text-sm text-red-600">{errors.locationId}</p>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="categoryId" className="block text-sm font-medium text-gray-700">
+                  Category
+                </label>
+                <select
+                  id="categoryId"
+                  value={categoryId}
+                  onChange={(e) => setCategoryId(e.target.value)}
+                  className={`mt-1 block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                    errors.categoryId ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                >
+                  <option value="">All products</option>
+                  {getCategoryOptions(categories).map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                {errors.categoryId && (
+                  <p className="mt-1 text-sm text-red-600">{errors.categoryId}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
+                  Notes
+                </label>
+                <input
+                  type="text"
+                  id="notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="e.g. Month-end count, aisle 3"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+              </div>
+
+              {errors.form && (
+                <p className="text-sm text-red-600">{errors.form}</p>
+              )}
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <Button
+                  variant="outline"
+                  type="button"
+                  onClick={closeAddModal}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="primary"
+                  type="submit"
+                  isLoading={isSubmitting}
+                >
+                  Start Count
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Count sheet modal */}
+      {openCount && (
+        <StockCountSheet
+          stockCount={openCount}
+          onClose={() => setOpenCountId(null)}
+        />
+      )}
+
+      {/* Delete confirmation modal */}
+      {deleteConfirmId && (
+        <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Confirm Discard</h3>
+            <p className="text-gray-500 mb-6">
+              Are you sure you want to discard this stock count? Counted quantities will be lost.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <Button
+                variant="outline"
+                onClick={() => setDeleteConfirmId(null)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="danger"
+                onClick={() => handleDelete(deleteConfirmId)}
+              >
+                Discard
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StockCountList;
@@ -0,0 +1,370 @@
+import React, { useState, useRef } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { StockCount } from '../../types';
+import { formatCurrency, formatDateTime } from '../../utils/formatters';
+import {
+  STOCK_COUNT_STATUS_LABELS, STOCK_COUNT_STATUS_STYLES, getCountVariance, summarizeStockCount
+} from '../../utils/stock';
+import { getSerialsError, parseSerials } from '../../utils/serials';
+import { X, ScanLine, CheckCircle, Undo2 } from 'lucide-react';
+import Button from '../ui/Button';
+
+interface StockCountSheetProps {
+  stockCount: StockCount;
+  onClose: () => void;
+}
+
+// Counted quantities as typed, keyed by product; an empty string means not counted
+const toDraft = (stockCount: StockCount) => Object.fromEntries(
+  stockCount.items.map((item) => [item.productId, item.countedQuantity === undefined ? '' : String(item.countedQuantity)])
+);
+
+const StockCountSheet: React.FC<StockCountSheetProps> = ({ stockCount, onClose }) => {
+  const {
+    products, currentUser, locations, saveStockCountItems, submitStockCount, reopenStockCount, approveStockCount
+  } = useAppContext();
+  const [counted, setCounted] = useState<Record<string, string>>(() => toDraft(stockCount));
+  const [scan, setScan] = useState('');
+  const [scanError, setScanError] = useState('');
+  const [lastScanned, setLastScanned] = useState<string | null>(null);
+  // Serial numbers of the units missing or found for each serialized product, as typed or scanned
+  const [serialTexts, setSerialTexts] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
+  const isCounting = stockCount.status === 'counting';
+  const isAdmin = currentUser?.role === 'admin';
+
+  // Lines as they stand with the quantities typed so far
+  const items = stockCount.items.map((item) => ({
+    ...item,
+    countedQuantity: counted[item.productId] === '' ? undefined : parseInt(counted[item.productId]),
+  }));
+  const summary = summarizeStockCount(items);
+
+  // On approval, a serialized product's variance has to name the units it writes off or adds
+  const isApproving = stockCount.status === 'submitted' && isAdmin;
+  const needsSerials = (item: typeof items[number]) =>
+    !!products.find((p) => p.id === item.productId)?.tracksSerials && getCountVariance(item) !== 0;
+  const serialItems = isApproving ? items.filter(needsSerials) : [];
+
+  // Lines whose typed quantity differs from what was last saved
+  const changedItems = items
+    .filter((item, index) => item.countedQuantity !== stockCount.items[index].countedQuantity)
+    .map((item) => ({ productId: item.productId, countedQuantity: item.countedQuantity ?? null }));
+
+  // Each scan of a product counts one more unit of it
+  const handleScan = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = scan.trim().toLowerCase();
+    if (!code) {
+      return;
+    }
+
+    const item = stockCount.items.find((i) => i.productId.toLowerCase() === code) ||
+      stockCount.items.find((i) => i.productName.toLowerCase() === code);
+    if (!item) {
+      setScanError(`"${scan.trim()}" is not part of this count`);
+    } else {
+      setCounted({ ...counted, [item.productId]: String((parseInt(counted[item.productId]) || 0) + 1) });
+      setLastScanned(item.productId);
+      setScanError('');
+    }
+    setScan('');
+    scanInputRef.current?.focus();
+  };
+
+  // Same checks as the server: whole numbers of 0 or more
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (items.some((item) =>
+      item.countedQuantity !== undefined && (!Number.isInteger(item.countedQuantity) || item.countedQuantity < 0)
+    )) {
+      newErrors.items = 'Counted quantities must be whole numbers of 0 or more';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const saveChanges = async () => {
+    if (changedItems.length === 0) {
+      return {};
+    }
+    return saveStockCountItems(stockCount.id, changedItems);
+  };
+
+  // Run one workflow step and close the sheet once it succeeds
+  const runAction = async (action: () => Promise<Record<string, string>>, close = true) => {
+    setIsSubmitting(true);
+
+    try {
+      const serverErrors = await action();
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
+      }
+      setErrors({});
+      if (close) {
+        onClose();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (validateForm()) {
+      runAction(saveChanges, false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (validateForm()) {
+      runAction(async () => {
+        const serverErrors = await saveChanges();
+        return Object.keys(serverErrors).length > 0 ? serverErrors : submitStockCount(stockCount.id);
+      });
+    }
+  };
+
+  const handleApprove = () => {
+    const serialItem = serialItems.find((item) =>
+      getSerialsError(parseSerials(serialTexts[item.productId] || ''), Math.abs(getCountVariance(item)))
+    );
+    if (serialItem) {
+      setErrors({
+        serials: `${serialItem.productName}: ${getSerialsError(
+          parseSerials(serialTexts[serialItem.productId] || ''), Math.abs(getCountVariance(serialItem))
+        )}`,
+      });
+      return;
+    }
+
+    runAction(() => approveStockCount(stockCount.id, Object.fromEntries(
+      serialItems.map((item) => [item.productId, parseSerials(serialTexts[item.productId] || '')])
+    )));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              {stockCount.countNumber}
+              <span className={`ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STOCK_COUNT_STATUS_STYLES[stockCount.status]}`}>
+                {STOCK_COUNT_STATUS_LABELS[stockCount.status]}
+              </span>
+            </h3>
+            <p className="text-sm text-gray-500">
+              {locations.length > 1 && `${locations.find((l) => l.id === stockCount.locationId)?.name || 'Deleted location'} · `}
+              {stockCount.category || 'All products'}
+              {stockCount.notes && ` · ${stockCount.notes}`}
+              {stockCount.postedAt && ` · Posted ${formatDateTime(stockCount.postedAt)}`}
+              {stockCount.approvedBy && ` by ${stockCount.approvedBy}`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {/* Scan or type a product to count it */}
+          {isCounting && (
+            <form onSubmit={handleScan} className="mb-4">
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <ScanLine size={18} className="text-gray-400" />
+                </div>
+                <input
+                  ref={scanInputRef}
+                  type="text"
+                  value={scan}
+                  onChange={(e) => setScan(e.target.value)}
+                  placeholder="Scan a barcode or type a product name, then press Enter to count one unit"
+                  autoFocus
+                  className={`block w-full pl-10 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                    scanError ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                />
+              </div>
+              {scanError && (
+                <p className="mt-1 text-sm text-red-600">{scanError}</p>
+              )}
+            </form>
+          )}
+
+          {/* Count sheet */}
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Product
+                </th>
+                <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  System
+                </th>
+                <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Counted
+                </th>
+                <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Variance
+                </th>
+                <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Cost Impact
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {items.map((item) => {
+                const variance = getCountVariance(item);
+
+                return (
+                  <React.Fragment key={item.productId}>
+                    <tr className={item.productId === lastScanned ? 'bg-blue-50' : ''}>
+                      <td className="px-3 py-2 text-sm text-gray-900">{item.productName}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-right text-gray-500">
+                        {item.systemQuantity}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-right">
+                        {isCounting ? (
+                          <input
+                            type="number"
+                            min="0"
+                            value={counted[item.productId]}
+                            onChange={(e) => setCounted({ ...counted, [item.productId]: e.target.value })}
+                            className="block w-24 ml-auto rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right"
+                          />
+                        ) : (
+                          item.countedQuantity ?? '-'
+                        )}
+                      </td>
+                      <td className={`px-3 py-2 whitespace-nowrap text-sm text-right font-medium ${
+                        variance < 0 ? 'text-red-600' : variance > 0 ? 'text-green-700' : 'text-gray-500'
+                      }`}>
+                        {item.countedQuantity === undefined ? '-' : variance > 0 ? `+${variance}` : variance}
+                      </td>
+                      <td className={`px-3 py-2 whitespace-nowrap text-sm text-right ${
+                        variance < 0 ? 'text-red-600' : 'text-gray-900'
+                      }`}>
+                        {variance === 0 ? '-' : formatCurrency(variance * item.unitCost)}
+                      </td>
+                    </tr>
+                    {serialItems.includes(item) && (
+                      <tr className="!border-t-0">
+                        <td colSpan={5} className="px-3 pb-2">
+                          <textarea
+                            aria-label="Serial numbers"
+                            rows={2}
+                            value={serialTexts[item.productId] || ''}
+                            onChange={(e) => setSerialTexts({ ...serialTexts, [item.productId]: e.target.value })}
+                            placeholder={`Serial number of each ${variance < 0 ? 'missing' : 'found'} unit, one per line`}
+                            className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          />
+                          <p className="mt-1 text-xs text-gray-500">
+                            {parseSerials(serialTexts[item.productId] || '').length} of {Math.abs(variance)} serial numbers
+                            entered; {variance < 0 ? 'missing units are written off' : 'found units go in stock'}
+                          </p>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+            <tfoot className="bg-gray-50">
+              <tr>
+                <td className="px-3 py-2 text-sm font-medium text-gray-900">
+                  {summary.counted} of {items.length} counted
+                </td>
+                <td />
+                <td />
+                <td className="px-3 py-2 text-sm text-right font-medium text-gray-900">
+                  {summary.varianceUnits > 0 ? `+${summary.varianceUnits}` : summary.varianceUnits}
+                </td>
+                <td className={`px-3 py-2 text-sm text-right font-medium ${
+                  summary.varianceValue < 0 ? 'text-red-600' : 'text-gray-900'
+                }`}>
+                  {formatCurrency(summary.varianceValue)}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+
+          {(errors.items || errors.serials || errors.form) && (
+            <p className="mt-3 text-sm text-red-600">{errors.items || errors.serials || errors.form}</p>
+          )}
+
+          {stockCount.status === 'submitted' && !isAdmin && (
+            <p className="mt-3 text-sm text-gray-500">
+              Waiting for an admin to approve the count and post the adjustments.
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-6">
+            <Button
+              variant="outline"
+              type="button"
+              onClick={onClose}
+            >
+              {isCounting ? 'Cancel' : 'Close'}
+            </Button>
+            {isCounting && (
+              <>
+                <Button
+                  variant="secondary"
+                  type="button"
+                  onClick={handleSave}
+                  isLoading={isSubmitting}
+                  disabled={changedItems.length === 0}
+                >
+                  Save
+                </Button>
+                <Button
+                  variant="primary"
+                  type="button"
+                  onClick={handleSubmit}
+                  isLoading={isSubmitting}
+                  disabled={summary.counted === 0}
+                >
+                  Submit for Approval
+                </Button>
+              </>
+            )}
+            {isApproving && (
+              <>
+                <Button
+                  variant="outline"
+                  type="button"
+                  icon={<Undo2 size={16} />}
+                  onClick={() => runAction(() => reopenStockCount(stockCount.id))}
+                  isLoading={isSubmitting}
+                >
+                  Send Back
+                </Button>
+                <Button
+                  variant="success"
+                  type="button"
+                  icon={<CheckCircle size={16} />}
+                  onClick={handleApprove}
+                  isLoading={isSubmitting}
+                >
+                  Approve &amp; Post
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockCountSheet;
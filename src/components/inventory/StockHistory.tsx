@@ -0,0 +1,350 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { Product, StockMovement } from '../../types';
+import { formatDate, formatDateTime } from '../../utils/formatters';
+import { ADJUSTMENT_REASONS, MOVEMENT_TYPE_LABELS, getAdjustmentReasonLabel, getLedgerQuantity } from '../../utils/stock';
+import { getLocationQuantity, getUserLocation } from '../../utils/locations';
+import { fromDateOnly } from '../../utils/purchases';
+import { getSerialsError, parseSerials } from '../../utils/serials';
+import { X, AlertCircle } from 'lucide-react';
+import Button from '../ui/Button';
+
+interface StockHistoryProps {
+  product: Product;
+  onClose: () => void;
+}
+
+const StockHistory: React.FC<StockHistoryProps> = ({ product, onClose }) => {
+  const { locations, currentUser, fetchStockMovements, adjustStock } = useAppContext();
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Adjustment form state
+  const [locationId, setLocationId] = useState(() => getUserLocation(locations, currentUser)?.id || '');
+  const [direction, setDirection] = useState<'add' | 'remove'>('remove');
+  const [units, setUnits] = useState(0);
+  const [reason, setReason] = useState(ADJUSTMENT_REASONS[0][0]);
+  const [notes, setNotes] = useState('');
+  // A serialized product's units are named one by one, and their count is the number of units
+  const [serialText, setSerialText] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const loadMovements = useCallback(async () => {
+    setMovements(await fetchStockMovements(product.id));
+    setIsLoading(false);
+  }, [fetchStockMovements, product.id]);
+
+  useEffect(() => {
+    loadMovements();
+  }, [loadMovements]);
+
+  const ledgerQuantity = getLedgerQuantity(movements);
+  const serials = parseSerials(serialText);
+
+  const handleSerialsChange = (value: string) => {
+    setSerialText(value);
+    setUnits(parseSerials(value).length);
+  };
+
+  // Form validation
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!Number.isInteger(units) || units < 1) {
+      newErrors.change = 'Enter at least 1 unit';
+    } else if (direction === 'remove' && units > getLocationQuantity(product, locationId || undefined)) {
+      newErrors.change = `Only ${getLocationQuantity(product, locationId || undefined)} in stock at this location to remove`;
+    }
+
+    const serialsError = product.tracksSerials ? getSerialsError(serials, units) : undefined;
+    if (serialsError) {
+      newErrors.serials = serialsError;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Handle adjustment submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const serverErrors = await adjustStock(product.id, {
+        locationId: locationId || undefined,
+        change: direction === 'add' ? units : -units,
+        reason,
+        notes: notes || undefined,
+        serials: product.tracksSerials ? serials : undefined,
+      });
+
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
+      }
+
+      setUnits(0);
+      setNotes('');
+      setSerialText('');
+      await loadMovements();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Stock History</h3>
+            <p className="text-sm text-gray-500">
+              {product.name} · {product.quantity} in stock
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {/* Reconciliation against the ledger */}
+          {!isLoading && ledgerQuantity !== product.quantity && (
+            <div className="mb-4 p-3 rounded-md bg-red-50 text-sm text-red-700 flex items-center">
+              <AlertCircle size={16} className="mr-2 flex-shrink-0" />
+              The ledger adds up to {ledgerQuantity} but the product shows {product.quantity}. Refresh the page,
+              and if it persists, record an adjustment after a physical count.
+            </div>
+          )}
+
+          {/* Lots on hand, in the order they are picked */}
+          {product.tracksBatches && (
+            <div className="mb-6">
+              <h4 className="font-medium text-gray-700 mb-2">Batches</h4>
+              {(product.batches || []).length === 0 ? (
+                <p className="text-sm text-gray-500">No batches in stock.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Lot
+                      </th>
+                      {locations.length > 1 && (
+                        <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Location
+                        </th>
+                      )}
+                      <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Manufactured
+                      </th>
+                      <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Expires
+                      </th>
+                      <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Quantity
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {(product.batches || []).map((batch) => (
+                      <tr key={batch.id}>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{batch.lotNumber || '-'}</td>
+                        {locations.length > 1 && (
+                          <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+                            {locations.find((location) => location.id === batch.locationId)?.name}
+                          </td>
+                        )}
+                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+                          {batch.manufacturedOn ? formatDate(fromDateOnly(batch.manufacturedOn)) : '-'}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+                          {batch.expiresOn ? formatDate(fromDateOnly(batch.expiresOn)) : '-'}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900 text-right">{batch.quantity}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+
+          {/* Manual adjustment */}
+          <div className="mb-6">
+            <h4 className="font-medium text-gray-700 mb-2">Adjust Stock</h4>
+            <form onSubmit={handleSubmit} className="flex flex-wrap items-start gap-2">
+              {locations.length > 1 && (
+                <select
+                  value={locationId}
+                  onChange={(e) => setLocationId(e.target.value)}
+                  className="block w-36 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                >
+                  {locations.map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name} ({getLocationQuantity(product, location.id)})
+                    </option>
+                  ))}
+                </select>
+              )}
+              <select
+                value={direction}
+                onChange={(e) => setDirection(e.target.value as 'add' | 'remove')}
+                className="block w-28 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                <option value="remove">Remove</option>
+                <option value="add">Add</option>
+              </select>
+              <div>
+                <input
+                  type="number"
+                  min="1"
+                  value={units || ''}
+                  onChange={(e) => setUnits(parseInt(e.target.value) || 0)}
+                  placeholder="Units"
+                  disabled={product.tracksSerials}
+                  className={`block w-24 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right ${
+                    errors.change ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                />
+                {errors.change && (
+                  <p className="mt-1 text-sm text-red-600">{errors.change}</p>
+                )}
+              </div>
+              <select
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="block w-44 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                {ADJUSTMENT_REASONS.map(([code, label]) => (
+                  <option key={code} value={code}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Notes (optional)"
+                maxLength={255}
+                className="block flex-1 min-w-0 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+              <Button
+                variant="primary"
+                size="sm"
+                type="submit"
+                isLoading={isSubmitting}
+              >
+                Record
+              </Button>
+              {product.tracksSerials && (
+                <div className="w-full">
+                  <textarea
+                    aria-label="Serial numbers"
+                    rows={2}
+                    value={serialText}
+                    onChange={(e) => handleSerialsChange(e.target.value)}
+                    placeholder={`Scan or type the serial number of each unit to ${direction}, one per line`}
+                    className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                      errors.serials ? 'border-red-300' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.serials ? (
+                    <p className="mt-1 text-sm text-red-600">{errors.serials}</p>
+                  ) : (
+                    <p className="mt-1 text-xs text-gray-500">
+                      {direction === 'remove'
+                        ? 'Removed units are written off and can no longer be sold'
+                        : 'Added units go in stock under these serial numbers'}
+                    </p>
+                  )}
+                </div>
+              )}
+            </form>
+            {(errors.locationId || errors.reason || errors.form) && (
+              <p className="mt-1 text-sm text-red-600">{errors.locationId || errors.reason || errors.form}</p>
+            )}
+          </div>
+
+          {/* Ledger */}
+          <h4 className="font-medium text-gray-700 mb-2">Movements</h4>
+          {isLoading ? (
+            <div className="bg-gray-50 p-4 rounded-md text-center text-gray-500">Loading...</div>
+          ) : movements.length === 0 ? (
+            <div className="bg-gray-50 p-4 rounded-md text-center text-gray-500">
+              No stock movements recorded yet.
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Movement
+                  </th>
+                  <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Change
+                  </th>
+                  <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Balance
+                  </th>
+                  <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    By
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {movements.map((movement) => (
+                  <tr key={movement.id}>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {formatDateTime(movement.date)}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900">
+                      {MOVEMENT_TYPE_LABELS[movement.type]}
+                      {locations.length > 1 && movement.locationId && (
+                        <span className="text-gray-500">
+                          {' '}@ {locations.find((location) => location.id === movement.locationId)?.name || 'Deleted location'}
+                        </span>
+                      )}
+                      {movement.reference && <span className="text-gray-500"> · {movement.reference}</span>}
+                      {movement.reason && (
+                        <span className="text-gray-500"> · {getAdjustmentReasonLabel(movement.reason)}</span>
+                      )}
+                      {movement.notes && <div className="text-xs text-gray-500">{movement.notes}</div>}
+                    </td>
+                    <td className={`px-3 py-2 whitespace-nowrap text-sm text-right font-medium ${
+                      movement.quantityChange < 0 ? 'text-red-600' : 'text-green-700'
+                    }`}>
+                      {movement.quantityChange > 0 ? `+${movement.quantityChange}` : movement.quantityChange}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-right text-gray-900">
+                      {movement.quantityAfter}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {movement.createdBy || '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockHistory;
@@ -0,0 +1,349 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { NewStockTransfer } from '../../types';
+import { getLocationQuantity, getUserLocation } from '../../utils/locations';
+import { getSerialsError, parseSerials } from '../../utils/serials';
+import { X, Plus, Trash2 } from 'lucide-react';
+import Button from '../ui/Button';
+
+interface StockTransferFormProps {
+  onClose: () => void;
+}
+
+type TransferLine = NewStockTransfer['items'][number];
+
+const StockTransferForm: React.FC<StockTransferFormProps> = ({ onClose }) => {
+  const { products, locations, currentUser, createStockTransfer } = useAppContext();
+
+  // Stock leaves the user's own location unless another is picked
+  const [fromLocationId, setFromLocationId] = useState(() => getUserLocation(locations, currentUser)?.id || '');
+  const [toLocationId, setToLocationId] = useState(() =>
+    locations.find((location) => location.id !== fromLocationId)?.id || ''
+  );
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<TransferLine[]>([]);
+  // Serial numbers of the units sent of each serialized product, as typed or scanned
+  const [serialTexts, setSerialTexts] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Only products with stock at the source location can be sent
+  const sourceProducts = products.filter((p) => getLocationQuantity(p, fromLocationId) > 0);
+  const availableProducts = sourceProducts.filter((p) => !lines.some((line) => line.productId === p.id));
+
+  const isSerialized = (productId: string) => !!products.find((p) => p.id === productId)?.tracksSerials;
+  const getSerials = (productId: string) => parseSerials(serialTexts[productId] || '');
+
+  const addLine = () => {
+    const product = availableProducts[0];
+    if (!product) return;
+
+    setLines([...lines, { productId: product.id, quantity: 1 }]);
+  };
+
+  const removeLine = (index: number) => {
+    setLines(lines.filter((_, i) => i !== index));
+  };
+
+  const updateLine = (index: number, changes: Partial<TransferLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // Lines picked for the old source may not have stock at the new one
+  const handleFromLocationChange = (locationId: string) => {
+    setFromLocationId(locationId);
+    setLines([]);
+    if (locationId === toLocationId) {
+      setToLocationId(locations.find((location) => location.id !== locationId)?.id || '');
+    }
+  };
+
+  // Form validation
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!fromLocationId) {
+      newErrors.fromLocationId = 'Choose where the stock is going from';
+    }
+
+    if (!toLocationId) {
+      newErrors.toLocationId = 'Choose where the stock is going to';
+    } else if (toLocationId === fromLocationId) {
+      newErrors.toLocationId = 'Choose a different location to send to';
+    }
+
+    if (lines.length === 0) {
+      newErrors.items = 'Add at least one product';
+    } else if (lines.some((line) => !(line.quantity >= 1))) {
+      newErrors.items = 'Each product needs a quantity of at least 1';
+    } else {
+      const short = lines.find((line) => {
+        const product = products.find((p) => p.id === line.productId);
+        return !product || line.quantity > getLocationQuantity(product, fromLocationId);
+      });
+      if (short) {
+        const product = products.find((p) => p.id === short.productId);
+        newErrors.items = `Only ${product ? getLocationQuantity(product, fromLocationId) : 0} of ${product?.name || 'this product'} in stock to send`;
+      }
+    }
+
+    // Serialized products are sent by the serial number of each unit
+    const serialLine = newErrors.items ? undefined : lines.find((line) =>
+      isSerialized(line.productId) && getSerialsError(getSerials(line.productId), line.quantity)
+    );
+    if (serialLine) {
+      const product = products.find((p) => p.id === serialLine.productId);
+      newErrors.items = `${product?.name}: ${getSerialsError(getSerials(serialLine.productId), serialLine.quantity)}`;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const serverErrors = await createStockTransfer({
+        fromLocationId,
+        toLocationId,
+        items: lines.map((line) => ({
+          ...line,
+          serials: isSerialized(line.productId) ? getSerials(line.productId) : undefined,
+        })),
+        notes: notes || undefined,
+      });
+
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
+      }
+
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">New Stock Transfer</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <div>
+              <label htmlFor="fromLocationId" className="block text-sm font-medium text-gray-700 mb-1">
+                From*
+              </label>
+              <select
+                id="fromLocationId"
+                value={fromLocationId}
+                onChange={(e) => handleFromLocationChange(e.target.value)}
+                className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                  errors.fromLocationId ? 'border-red-300' : 'border-gray-300'
+                }`}
+              >
+                {locations.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+              </select>
+              {errors.fromLocationId && (
+                <p className="mt-1 text-sm text-red-600">{errors.fromLocationId}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="toLocationId" className="block text-sm font-medium text-gray-700 mb-1">
+                To*
+              </label>
+              <select
+                id="toLocationId"
+                value={toLocationId}
+                onChange={(e) => setToLocationId(e.target.value)}
+                className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                  errors.toLocationId ? 'border-red-300' : 'border-gray-300'
+                }`}
+              >
+                {locations
+                  .filter((location) => location.id !== fromLocationId)
+                  .map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name}
+                    </option>
+                  ))}
+              </select>
+              {errors.toLocationId && (
+                <p className="mt-1 text-sm text-red-600">{errors.toLocationId}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Transfer lines */}
+          <div className="mb-6">
+            <h4 className="font-medium text-gray-700 mb-2">Products</h4>
+
+            {lines.length === 0 ? (
+              <div className="bg-gray-50 p-4 rounded-md text-center text-gray-500">
+                {sourceProducts.length === 0
+                  ? 'Nothing in stock at this location to send.'
+                  : 'No products added yet. Click "Add Product" to start.'}
+              </div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Product
+                    </th>
+                    <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Quantity
+                    </th>
+                    <th scope="col" className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Action
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {lines.map((line, index) => {
+                    const product = products.find((p) => p.id === line.productId);
+
+                    return (
+                      <React.Fragment key={index}>
+                        <tr>
+                          <td className="px-3 py-2 whitespace-nowrap">
+                            <select
+                              value={line.productId}
+                              onChange={(e) => updateLine(index, { productId: e.target.value, quantity: 1 })}
+                              className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                            >
+                              {sourceProducts
+                                .filter((p) => p.id === line.productId || !lines.some((l) => l.productId === p.id))
+                                .map((p) => (
+                                  <option key={p.id} value={p.id}>
+                                    {p.name} ({getLocationQuantity(p, fromLocationId)} in stock)
+                                  </option>
+                                ))}
+                            </select>
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap text-right">
+                            <input
+                              type="number"
+                              min="1"
+                              max={product ? getLocationQuantity(product, fromLocationId) : undefined}
+                              value={line.quantity}
+                              onChange={(e) => updateLine(index, { quantity: parseInt(e.target.value) || 1 })}
+                              className="inline-block w-20 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right"
+                            />
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap text-center">
+                            <button
+                              type="button"
+                              onClick={() => removeLine(index)}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </td>
+                        </tr>
+                        {isSerialized(line.productId) && (
+                          <tr className="!border-t-0">
+                            <td colSpan={3} className="px-3 pb-2">
+                              <textarea
+                                aria-label="Serial numbers"
+                                rows={2}
+                                value={serialTexts[line.productId] || ''}
+                                onChange={(e) => setSerialTexts({ ...serialTexts, [line.productId]: e.target.value })}
+                                placeholder="Scan or type the serial number of each unit sent, one per line"
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                              />
+                              <p className="mt-1 text-xs text-gray-500">
+                                {getSerials(line.productId).length} of {line.quantity} serial numbers entered
+                              </p>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+
+            {errors.items && (
+              <p className="mt-1 text-sm text-red-600">{errors.items}</p>
+            )}
+
+            <div className="mt-3">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                icon={<Plus size={16} />}
+                onClick={addLine}
+                disabled={availableProducts.length === 0}
+              >
+                Add Product
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+              Notes
+            </label>
+            <textarea
+              id="notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Vehicle number, who is carrying it"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+
+          {errors.form && (
+            <p className="mt-4 text-sm text-red-600">{errors.form}</p>
+          )}
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              type="button"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              type="submit"
+              isLoading={isSubmitting}
+              disabled={lines.length === 0}
+            >
+              Dispatch
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StockTransferForm;
\ No newline at end of file
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { formatCurrency, formatDate, formatDateTime } from '../../utils/formatters';
+import { STOCK_TRANSFER_STATUS_LABELS, STOCK_TRANSFER_STATUS_STYLES } from '../../utils/locations';
+import { PackageCheck, Plus } from 'lucide-react';
+import Button from '../ui/Button';
+import StockTransferForm from './StockTransferForm';
+
+const StockTransferList: React.FC = () => {
+  const { locations, stockTransfers, receiveStockTransfer } = useAppContext();
+  const [onlyInTransit, setOnlyInTransit] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [receiveConfirmId, setReceiveConfirmId] = useState<string | null>(null);
+
+  const filteredTransfers = onlyInTransit
+    ? stockTransfers.filter((transfer) => transfer.status === 'in_transit')
+    : stockTransfers;
+
+  const getLocationName = (id: string) => locations.find((location) => location.id === id)?.name || 'Deleted location';
+
+  // Book the stock into the destination location
+  const handleReceive = async (id: string) => {
+    const serverErrors = await receiveStockTransfer(id);
+    setReceiveConfirmId(null);
+    if (serverErrors.form) {
+      alert(serverErrors.form);
+    }
+  };
+
+  const receiveTransfer = stockTransfers.find((transfer) => transfer.id === receiveConfirmId);
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      {/* Header section */}
+      <div className="px-4 py-4 sm:px-6 border-b border-gray-200 flex flex-wrap items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">Stock Transfers</h3>
+
+        <div className="mt-2 sm:mt-0 flex flex-wrap items-center gap-2">
+          <label className="flex items-center text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={onlyInTransit}
+              onChange={(e) => setOnlyInTransit(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            In transit only
+          </label>
+
+          <Button
+            variant="primary"
+            size="md"
+            icon={<Plus size={16} />}
+            onClick={() => setShowForm(true)}
+            disabled={locations.length < 2}
+          >
+            New Transfer
+          </Button>
+        </div>
+      </div>
+
+      {/* Stock transfer table */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Transfer
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Route
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Products
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Value
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {filteredTransfers.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                  {locations.length < 2
+                    ? 'Add a second location in Settings to move stock between locations.'
+                    : onlyInTransit ? 'No stock in transit.' : 'No stock transfers yet.'}
+                </td>
+              </tr>
+            ) : (
+              filteredTransfers.map((transfer) => (
+                <tr key={transfer.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{transfer.transferNumber}</div>
+                    <div className="text-sm text-gray-500">
+                      {formatDate(transfer.createdAt)}
+                      {transfer.createdBy && ` · ${transfer.createdBy}`}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {getLocationName(transfer.fromLocationId)} → {getLocationName(transfer.toLocationId)}
+                    {transfer.notes && <div className="text-sm text-gray-500">{transfer.notes}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {transfer.items.map((item) => `${item.productName} × ${item.quantity}`).join(', ')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STOCK_TRANSFER_STATUS_STYLES[transfer.status]}`}>
+                      {STOCK_TRANSFER_STATUS_LABELS[transfer.status]}
+                    </span>
+                    {transfer.receivedAt && (
+                      <div className="text-xs text-gray-500">
+                        {formatDateTime(transfer.receivedAt)}
+                        {transfer.receivedBy && ` · ${transfer.receivedBy}`}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                    {formatCurrency(transfer.items.reduce((sum, item) => sum + item.costAmount, 0))}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    {transfer.status === 'in_transit' && (
+                      <button
+                        onClick={() => setReceiveConfirmId(transfer.id)}
+                        className="text-green-600 hover:text-green-900"
+                        title="Receive transfer"
+                      >
+                        <PackageCheck size={18} />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* New transfer modal */}
+      {showForm && (
+        <StockTransferForm onClose={() => setShowForm(false)} />
+      )}
+
+      {/* Receive confirmation modal */}
+      {receiveTransfer && (
+        <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Receive {receiveTransfer.transferNumber}</h3>
+            <p className="text-gray-500 mb-6">
+              Has everything on this transfer arrived at {getLocationName(receiveTransfer.toLocationId)}? The stock
+              will be added there.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <Button
+                variant="outline"
+                onClick={() => setReceiveConfirmId(null)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="success"
+                onClick={() => handleReceive(receiveTransfer.id)}
+              >
+                Receive
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StockTransferList;
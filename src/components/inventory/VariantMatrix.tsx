@@ -0,0 +1,187 @@
+import React from 'react';
+import { ProductVariantInput, VariantOption } from '../../types';
+import { getCurrencySymbol } from '../../utils/formatters';
+import { roundMoney } from '../../utils/gst';
+import { MAX_VARIANT_OPTIONS, VariantOptionDraft, getVariantLabel } from '../../utils/variants';
+import { Plus, Trash2 } from 'lucide-react';
+import Button from '../ui/Button';
+
+interface VariantMatrixProps {
+  optionDrafts: VariantOptionDraft[];
+  options: VariantOption[]; // the drafts that are complete
+  variants: ProductVariantInput[];
+  errors: Record<string, string>;
+  onOptionDraftsChange: (drafts: VariantOptionDraft[]) => void;
+  onVariantChange: (index: number, changes: Partial<ProductVariantInput>) => void;
+}
+
+// Options a product comes in, and a row for every combination of their values
+const VariantMatrix: React.FC<VariantMatrixProps> = ({
+  optionDrafts,
+  options,
+  variants,
+  errors,
+  onOptionDraftsChange,
+  onVariantChange,
+}) => {
+  const updateDraft = (index: number, changes: Partial<VariantOptionDraft>) => {
+    onOptionDraftsChange(optionDrafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  return (
+    <div>
+      {/* Options */}
+      <div className="space-y-2">
+        {optionDrafts.map((draft, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => updateDraft(index, { name: e.target.value })}
+              placeholder="Option, e.g. Size"
+              className="block w-36 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            <input
+              type="text"
+              value={draft.values}
+              onChange={(e) => updateDraft(index, { values: e.target.value })}
+              placeholder="Values separated by commas, e.g. S, M, L"
+              className="block flex-1 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => onOptionDraftsChange(optionDrafts.filter((_, i) => i !== index))}
+              className="text-red-600 hover:text-red-900"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+      {errors.variantOptions && (
+        <p className="mt-1 text-sm text-red-600">{errors.variantOptions}</p>
+      )}
+      <div className="mt-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          icon={<Plus size={16} />}
+          onClick={() => onOptionDraftsChange([...optionDrafts, { name: '', values: '' }])}
+          disabled={optionDrafts.length >= MAX_VARIANT_OPTIONS}
+        >
+          Add Option
+        </Button>
+      </div>
+
+      {/* Variant matrix */}
+      {variants.length > 0 && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Variant
+                </th>
+                <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  SKU
+                </th>
+                <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Barcode
+                </th>
+                <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Price ({getCurrencySymbol()})
+                </th>
+                <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Cost ({getCurrencySymbol()})
+                </th>
+                <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Stock
+                </th>
+                <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Threshold
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {variants.map((variant, index) => (
+                <tr key={getVariantLabel(options, variant.attributes)}>
+                  <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                    {getVariantLabel(options, variant.attributes)}
+                    {!variant.id && <span className="ml-1 text-xs text-green-700">new</span>}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <input
+                      type="text"
+                      value={variant.sku || ''}
+                      onChange={(e) => onVariantChange(index, { sku: e.target.value })}
+                      className="block w-28 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={variant.barcode || ''}
+                      onChange={(e) => onVariantChange(index, { barcode: e.target.value })}
+                      className="block w-32 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={variant.price}
+                      onChange={(e) => onVariantChange(index, { price: parseFloat(e.target.value) || 0 })}
+                      className="inline-block w-24 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right"
+                    />
+                  </td>
+                  {/* Cost and stock of an existing variant only change through purchases and the ledger */}
+                  <td className="px-3 py-2 whitespace-nowrap text-right">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={variant.id ? roundMoney(variant.costPrice) : variant.costPrice}
+                      onChange={(e) => onVariantChange(index, { costPrice: parseFloat(e.target.value) || 0 })}
+                      disabled={!!variant.id}
+                      className="inline-block w-24 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right disabled:bg-gray-100"
+                    />
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right">
+                    <input
+                      type="number"
+                      min="0"
+                      value={variant.quantity}
+                      onChange={(e) => onVariantChange(index, { quantity: parseInt(e.target.value) || 0 })}
+                      disabled={!!variant.id}
+                      className="inline-block w-20 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right disabled:bg-gray-100"
+                    />
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right">
+                    <input
+                      type="number"
+                      min="0"
+                      value={variant.threshold}
+                      onChange={(e) => onVariantChange(index, { threshold: parseInt(e.target.value) || 0 })}
+                      className="inline-block w-20 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {errors.variants && (
+        <p className="mt-1 text-sm text-red-600">{errors.variants}</p>
+      )}
+      <p className="mt-1 text-xs text-gray-500">
+        New variants start at the default price, cost and threshold; combinations left out of the options are removed
+      </p>
+    </div>
+  );
+};
+
+export default VariantMatrix;
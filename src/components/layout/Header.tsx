@@ -4,7 +4,10 @@ import {
   Bell, 
   X,
   Package,
+  Truck,
+  ClipboardCheck,
   ShoppingCart,
+  Contact,
   BarChart3,
   Settings,
   LogOut,
@@ -42,11 +45,26 @@ const Header: React.FC = () => {
       icon: <Package size={20} />, 
       path: '/inventory' 
     },
+    { 
+      label: 'Purchases', 
+      icon: <Truck size={20} />, 
+      path: '/purchases' 
+    },
+    { 
+      label: 'Stock Take', 
+      icon: <ClipboardCheck size={20} />, 
+      path: '/stock-counts' 
+    },
     { 
       label: 'Sales', 
       icon: <ShoppingCart size={20} />, 
       path: '/sales' 
     },
+    { 
+      label: 'Customers', 
+      icon: <Contact size={20} />, 
+      path: '/customers' 
+    },
     { 
       label: 'Reports', 
       icon: <BarChart3 size={20} />, 
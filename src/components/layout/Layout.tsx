@@ -2,17 +2,8 @@ import React from 'react';
 import { Outlet } from 'react-router-dom';
 import Sidebar from './Sidebar';
 import Header from './Header';
-import { useAppContext } from '../../context/AppContext';
-import LoginPage from '../../pages/Login';
 
 const Layout: React.FC = () => {
-  const { currentUser } = useAppContext();
-
-  // If no user is logged in, show login page
-  if (!currentUser) {
-    return <LoginPage />;
-  }
-
   return (
     <div className="flex h-screen bg-gray-50">
       <Sidebar />
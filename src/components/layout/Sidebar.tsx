@@ -2,7 +2,11 @@ import React from 'react';
 import { 
   LayoutDashboard, 
   Package, 
+  Truck, 
+  ClipboardCheck, 
   ShoppingCart, 
+  Contact, 
+  ShieldCheck, 
   BarChart3, 
   Settings, 
   LogOut,
@@ -29,11 +33,31 @@ const Sidebar: React.FC = () => {
       icon: <Package size={20} />, 
       path: '/inventory' 
     },
+    { 
+      label: 'Purchases', 
+      icon: <Truck size={20} />, 
+      path: '/purchases' 
+    },
+    { 
+      label: 'Stock Take', 
+      icon: <ClipboardCheck size={20} />, 
+      path: '/stock-counts' 
+    },
     { 
       label: 'Sales', 
       icon: <ShoppingCart size={20} />, 
       path: '/sales' 
     },
+    { 
+      label: 'Customers', 
+      icon: <Contact size={20} />, 
+      path: '/customers' 
+    },
+    { 
+      label: 'Warranty', 
+      icon: <ShieldCheck size={20} />, 
+      path: '/warranty' 
+    },
     { 
       label: 'Reports', 
       icon: <BarChart3 size={20} />, 
@@ -0,0 +1,329 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { NewStockBatch, PurchaseOrder } from '../../types';
+import { formatCurrency } from '../../utils/formatters';
+import { roundMoney } from '../../utils/gst';
+import { getOutstandingQuantity } from '../../utils/purchases';
+import { getUserLocation } from '../../utils/locations';
+import { getSerialsError, parseSerials } from '../../utils/serials';
+import { X } from 'lucide-react';
+import Button from '../ui/Button';
+
+interface GoodsReceiptFormProps {
+  purchaseOrder: PurchaseOrder;
+  onClose: () => void;
+}
+
+const GoodsReceiptForm: React.FC<GoodsReceiptFormProps> = ({ purchaseOrder, onClose }) => {
+  const { products, suppliers, locations, currentUser, receivePurchaseOrder } = useAppContext();
+  const supplier = suppliers.find((s) => s.id === purchaseOrder.supplierId);
+  const openItems = purchaseOrder.items.filter((item) => getOutstandingQuantity(item) > 0);
+
+  // Default to receiving everything still due at the ordered cost
+  const [quantities, setQuantities] = useState<Record<number, number>>(() =>
+    Object.fromEntries(openItems.map((item) => [item.id, getOutstandingQuantity(item)]))
+  );
+  const [unitCosts, setUnitCosts] = useState<Record<number, number>>(() =>
+    Object.fromEntries(openItems.map((item) => [item.id, item.unitCost]))
+  );
+  // Lot of each line whose product is batch-tracked
+  const [batches, setBatches] = useState<Record<number, NewStockBatch>>(() =>
+    Object.fromEntries(openItems.map((item) => [item.id, { lotNumber: '', manufacturedOn: '', expiresOn: '' }]))
+  );
+  // Serial numbers of the units on each line whose product is serialized, as typed or scanned
+  const [serialTexts, setSerialTexts] = useState<Record<number, string>>({});
+  const [locationId, setLocationId] = useState(() => getUserLocation(locations, currentUser)?.id || '');
+  const [notes, setNotes] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const receivedLines = openItems.filter((item) => (quantities[item.id] || 0) > 0);
+  const isTracked = (productId: string) => !!products.find((p) => p.id === productId)?.tracksBatches;
+  const isSerialized = (productId: string) => !!products.find((p) => p.id === productId)?.tracksSerials;
+  const getSerials = (itemId: number) => parseSerials(serialTexts[itemId] || '');
+  const updateBatch = (itemId: number, changes: Partial<NewStockBatch>) => {
+    setBatches({ ...batches, [itemId]: { ...batches[itemId], ...changes } });
+  };
+  const receivedValue = roundMoney(receivedLines.reduce(
+    (sum, item) => sum + quantities[item.id] * (unitCosts[item.id] || 0), 0
+  ));
+
+  // Form validation
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (receivedLines.length === 0) {
+      newErrors.items = 'Enter the quantity received for at least one line';
+    } else if (openItems.some((item) => (quantities[item.id] || 0) > getOutstandingQuantity(item))) {
+      newErrors.items = 'Cannot receive more than is still due';
+    } else if (receivedLines.some((item) => !(unitCosts[item.id] >= 0))) {
+      newErrors.items = 'Unit cost cannot be negative';
+    } else if (receivedLines.some((item) => isTracked(item.productId) && !batches[item.id].lotNumber.trim())) {
+      newErrors.items = 'Enter the lot number of each batch-tracked product';
+    } else if (receivedLines.some((item) => {
+      const batch = batches[item.id];
+      return batch.manufacturedOn && batch.expiresOn && batch.manufacturedOn > batch.expiresOn;
+    })) {
+      newErrors.items = 'Expiry date cannot be before the manufacture date';
+    } else {
+      const serialLine = receivedLines.find((item) =>
+        isSerialized(item.productId) && getSerialsError(getSerials(item.id), quantities[item.id])
+      );
+      if (serialLine) {
+        newErrors.items = `${serialLine.productName}: ${getSerialsError(getSerials(serialLine.id), quantities[serialLine.id])}`;
+      }
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const serverErrors = await receivePurchaseOrder(purchaseOrder.id, {
+        locationId: locationId || undefined,
+        items: receivedLines.map((item) => ({
+          purchaseOrderItemId: item.id,
+          quantity: quantities[item.id],
+          unitCost: roundMoney(unitCosts[item.id]),
+          batch: isTracked(item.productId)
+            ? {
+              lotNumber: batches[item.id].lotNumber.trim(),
+              manufacturedOn: batches[item.id].manufacturedOn || undefined,
+              expiresOn: batches[item.id].expiresOn || undefined,
+            }
+            : undefined,
+          serials: isSerialized(item.productId) ? getSerials(item.id) : undefined,
+        })),
+        notes: notes || undefined,
+      });
+
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
+      }
+
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Receive Goods</h3>
+            <p className="text-sm text-gray-500">
+              {purchaseOrder.poNumber} · {supplier?.name}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          <div className="overflow-x-auto mb-6">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Product
+                  </th>
+                  <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Due
+                  </th>
+                  <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Received
+                  </th>
+                  <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Unit Cost
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {openItems.map((item) => (
+                  <React.Fragment key={item.id}>
+                    <tr>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                        {item.productName}
+                        <div className="text-xs text-gray-500">
+                          {item.quantityReceived} of {item.quantityOrdered} received so far
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500 text-right">
+                        {getOutstandingQuantity(item)}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          max={getOutstandingQuantity(item)}
+                          value={quantities[item.id] ?? 0}
+                          onChange={(e) => setQuantities({ ...quantities, [item.id]: parseInt(e.target.value) || 0 })}
+                          className="inline-block w-20 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right"
+                        />
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={unitCosts[item.id] ?? 0}
+                          onChange={(e) => setUnitCosts({ ...unitCosts, [item.id]: parseFloat(e.target.value) || 0 })}
+                          className="inline-block w-28 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right"
+                        />
+                      </td>
+                    </tr>
+                    {isTracked(item.productId) && (
+                      <tr className="!border-t-0">
+                        <td colSpan={4} className="px-3 pb-2">
+                          <div className="grid grid-cols-3 gap-2">
+                            <input
+                              type="text"
+                              aria-label="Lot number"
+                              value={batches[item.id].lotNumber}
+                              onChange={(e) => updateBatch(item.id, { lotNumber: e.target.value })}
+                              placeholder="Lot number"
+                              className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                            />
+                            <input
+                              type="date"
+                              aria-label="Manufactured on"
+                              title="Manufactured on"
+                              value={batches[item.id].manufacturedOn}
+                              onChange={(e) => updateBatch(item.id, { manufacturedOn: e.target.value })}
+                              className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                            />
+                            <input
+                              type="date"
+                              aria-label="Expires on"
+                              title="Expires on"
+                              value={batches[item.id].expiresOn}
+                              onChange={(e) => updateBatch(item.id, { expiresOn: e.target.value })}
+                              className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                            />
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                    {isSerialized(item.productId) && (
+                      <tr className="!border-t-0">
+                        <td colSpan={4} className="px-3 pb-2">
+                          <textarea
+                            aria-label="Serial numbers"
+                            rows={2}
+                            value={serialTexts[item.id] || ''}
+                            onChange={(e) => setSerialTexts({ ...serialTexts, [item.id]: e.target.value })}
+                            placeholder="Scan or type the serial number of each unit, one per line"
+                            className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          />
+                          <p className="mt-1 text-xs text-gray-500">
+                            {getSerials(item.id).length} of {quantities[item.id] || 0} serial numbers entered
+                          </p>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+
+                <tr className="bg-gray-50">
+                  <td colSpan={3} className="px-3 py-2 whitespace-nowrap text-right font-medium">
+                    Value Received
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right font-bold">
+                    {formatCurrency(receivedValue)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500">
+              Received quantities are added to stock and the unit cost becomes the product's cost price.
+              Batch-tracked products are received under the lot number and dates printed on the packs.
+            </p>
+          </div>
+
+          {errors.items && (
+            <p className="mb-4 text-sm text-red-600">{errors.items}</p>
+          )}
+
+          {locations.length > 1 && (
+            <div className="mb-4">
+              <label htmlFor="receiptLocation" className="block text-sm font-medium text-gray-700 mb-1">
+                Receive Into
+              </label>
+              <select
+                id="receiptLocation"
+                value={locationId}
+                onChange={(e) => setLocationId(e.target.value)}
+                className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                  errors.locationId ? 'border-red-300' : 'border-gray-300'
+                }`}
+              >
+                {locations.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+              </select>
+              {errors.locationId && (
+                <p className="mt-1 text-sm text-red-600">{errors.locationId}</p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="receiptNotes" className="block text-sm font-medium text-gray-700 mb-1">
+              Notes
+            </label>
+            <input
+              type="text"
+              id="receiptNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Delivery challan number, damaged items, ..."
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+
+          {errors.form && (
+            <p className="mt-4 text-sm text-red-600">{errors.form}</p>
+          )}
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              type="button"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              type="submit"
+              isLoading={isSubmitting}
+            >
+              Receive into Stock
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default GoodsReceiptForm;
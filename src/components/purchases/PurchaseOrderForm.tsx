@@ -0,0 +1,342 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { NewPurchaseOrder } from '../../types';
+import { formatCurrency } from '../../utils/formatters';
+import { roundMoney } from '../../utils/gst';
+import { getReorderSuggestions } from '../../utils/purchases';
+import { getStockedProducts } from '../../utils/variants';
+import { X, Plus, Trash2, AlertCircle } from 'lucide-react';
+import Button from '../ui/Button';
+
+interface PurchaseOrderFormProps {
+  purchaseOrderId?: string;
+  reorderLowStock?: boolean; // prefill with products at or below their threshold
+  onClose: () => void;
+}
+
+type OrderLine = NewPurchaseOrder['items'][number];
+
+const PurchaseOrderForm: React.FC<PurchaseOrderFormProps> = ({ purchaseOrderId, reorderLowStock, onClose }) => {
+  const { products, suppliers, purchaseOrders, addPurchaseOrder, updatePurchaseOrder } = useAppContext();
+  const existingOrder = purchaseOrders.find((order) => order.id === purchaseOrderId);
+
+  const [supplierId, setSupplierId] = useState(existingOrder?.supplierId || suppliers[0]?.id || '');
+  const [expectedDate, setExpectedDate] = useState(existingOrder?.expectedDate || '');
+  const [notes, setNotes] = useState(existingOrder?.notes || '');
+  const [lines, setLines] = useState<OrderLine[]>(() => {
+    if (existingOrder) {
+      return existingOrder.items.map((item) => ({
+        productId: item.productId,
+        quantity: item.quantityOrdered,
+        unitCost: item.unitCost,
+      }));
+    }
+    return reorderLowStock ? getReorderSuggestions(products, purchaseOrders) : [];
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const totalAmount = roundMoney(lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0));
+  // Variants are ordered rather than their parent
+  const stockedProducts = getStockedProducts(products);
+  const availableProducts = stockedProducts.filter((p) => !lines.some((line) => line.productId === p.id));
+
+  // Add a line for the first product not already on the order, at its current cost price
+  const addLine = () => {
+    const product = availableProducts[0];
+    if (!product) return;
+
+    setLines([...lines, { productId: product.id, quantity: 1, unitCost: product.costPrice }]);
+  };
+
+  const removeLine = (index: number) => {
+    setLines(lines.filter((_, i) => i !== index));
+  };
+
+  const updateLine = (index: number, changes: Partial<OrderLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleProductChange = (index: number, productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    updateLine(index, { productId, unitCost: product ? product.costPrice : 0 });
+  };
+
+  // Form validation
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!supplierId) {
+      newErrors.supplierId = 'Supplier is required';
+    }
+
+    if (lines.length === 0) {
+      newErrors.items = 'At least one product must be ordered';
+    } else if (lines.some((line) => !(line.quantity >= 1))) {
+      newErrors.items = 'Each line needs a quantity of at least 1';
+    } else if (lines.some((line) => !(line.unitCost >= 0))) {
+      newErrors.items = 'Unit cost cannot be negative';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const order: NewPurchaseOrder = {
+        supplierId,
+        expectedDate: expectedDate || undefined,
+        notes: notes || undefined,
+        items: lines.map((line) => ({ ...line, unitCost: roundMoney(line.unitCost) })),
+      };
+      const serverErrors = existingOrder
+        ? await updatePurchaseOrder(existingOrder.id, order)
+        : await addPurchaseOrder(order);
+
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
+      }
+
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">
+            {existingOrder ? `Edit ${existingOrder.poNumber}` : 'New Purchase Order'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <div>
+              <label htmlFor="supplierId" className="block text-sm font-medium text-gray-700 mb-1">
+                Supplier*
+              </label>
+              <select
+                id="supplierId"
+                value={supplierId}
+                onChange={(e) => setSupplierId(e.target.value)}
+                className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                  errors.supplierId ? 'border-red-300' : 'border-gray-300'
+                }`}
+              >
+                {suppliers.length === 0 && <option value="">Add a supplier first</option>}
+                {suppliers.map((supplier) => (
+                  <option key={supplier.id} value={supplier.id}>
+                    {supplier.name}
+                  </option>
+                ))}
+              </select>
+              {errors.supplierId && (
+                <p className="mt-1 text-sm text-red-600">{errors.supplierId}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="expectedDate" className="block text-sm font-medium text-gray-700 mb-1">
+                Expected Delivery
+              </label>
+              <input
+                type="date"
+                id="expectedDate"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+              {errors.expectedDate && (
+                <p className="mt-1 text-sm text-red-600">{errors.expectedDate}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Order lines */}
+          <div className="mb-6">
+            <h4 className="font-medium text-gray-700 mb-2">Products</h4>
+
+            {lines.length === 0 ? (
+              <div className="bg-gray-50 p-4 rounded-md text-center text-gray-500">
+                {reorderLowStock && !existingOrder
+                  ? 'Nothing to reorder, every product is above its threshold or already on order.'
+                  : 'No products added yet. Click "Add Product" to start.'}
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Product
+                      </th>
+                      <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Quantity
+                      </th>
+                      <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Unit Cost
+                      </th>
+                      <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Total
+                      </th>
+                      <th scope="col" className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Action
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {lines.map((line, index) => {
+                      const product = products.find((p) => p.id === line.productId);
+
+                      return (
+                        <tr key={index}>
+                          <td className="px-3 py-2 whitespace-nowrap">
+                            <select
+                              value={line.productId}
+                              onChange={(e) => handleProductChange(index, e.target.value)}
+                              className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                            >
+                              {stockedProducts
+                                .filter((p) => p.id === line.productId || !lines.some((l) => l.productId === p.id))
+                                .map((p) => (
+                                  <option key={p.id} value={p.id}>
+                                    {p.name} ({p.quantity} in stock)
+                                  </option>
+                                ))}
+                            </select>
+                            {product && product.quantity <= product.threshold && (
+                              <p className="mt-1 text-xs text-red-600 flex items-center">
+                                <AlertCircle size={12} className="mr-1" />
+                                Low stock, threshold {product.threshold}
+                              </p>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap text-right">
+                            <input
+                              type="number"
+                              min="1"
+                              value={line.quantity}
+                              onChange={(e) => updateLine(index, { quantity: parseInt(e.target.value) || 1 })}
+                              className="inline-block w-20 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right"
+                            />
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap text-right">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={line.unitCost}
+                              onChange={(e) => updateLine(index, { unitCost: parseFloat(e.target.value) || 0 })}
+                              className="inline-block w-28 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right"
+                            />
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap text-right font-medium">
+                            {formatCurrency(roundMoney(line.quantity * line.unitCost))}
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap text-center">
+                            <button
+                              type="button"
+                              onClick={() => removeLine(index)}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+
+                    {/* Total row */}
+                    <tr className="bg-gray-50">
+                      <td colSpan={3} className="px-3 py-2 whitespace-nowrap text-right font-medium">
+                        Order Total
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-right font-bold">
+                        {formatCurrency(totalAmount)}
+                      </td>
+                      <td></td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {errors.items && (
+              <p className="mt-1 text-sm text-red-600">{errors.items}</p>
+            )}
+
+            <div className="mt-3">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                icon={<Plus size={16} />}
+                onClick={addLine}
+                disabled={availableProducts.length === 0}
+              >
+                Add Product
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+              Notes
+            </label>
+            <textarea
+              id="notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+
+          {errors.form && (
+            <p className="mt-4 text-sm text-red-600">{errors.form}</p>
+          )}
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              type="button"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              type="submit"
+              isLoading={isSubmitting}
+              disabled={lines.length === 0}
+            >
+              {existingOrder ? 'Update Draft' : 'Save Draft'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrderForm;
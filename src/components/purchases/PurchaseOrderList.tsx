@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { PurchaseOrderStatus } from '../../types';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+import {
+  PURCHASE_ORDER_STATUS_LABELS, PURCHASE_ORDER_STATUS_STYLES, fromDateOnly, getReorderSuggestions
+} from '../../utils/purchases';
+import { Edit, Trash2, Plus, Send, PackageCheck, AlertCircle } from 'lucide-react';
+import Button from '../ui/Button';
+import PurchaseOrderForm from './PurchaseOrderForm';
+import GoodsReceiptForm from './GoodsReceiptForm';
+
+const PurchaseOrderList: React.FC = () => {
+  const { products, suppliers, purchaseOrders, sendPurchaseOrder, deletePurchaseOrder } = useAppContext();
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | 'open' | 'all'>('open');
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [showReorderModal, setShowReorderModal] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<string | null>(null);
+  const [receivingOrder, setReceivingOrder] = useState<string | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+  const reorderCount = getReorderSuggestions(products, purchaseOrders).length;
+
+  const filteredOrders = purchaseOrders.filter((order) =>
+    statusFilter === 'all' ||
+    (statusFilter === 'open' ? order.status !== 'received' : order.status === statusFilter)
+  );
+
+  const handleSend = async (id: string) => {
+    const serverErrors = await sendPurchaseOrder(id);
+    if (serverErrors.form) {
+      alert(serverErrors.form);
+    }
+  };
+
+  // Handle actual delete
+  const handleDelete = async (id: string) => {
+    const serverErrors = await deletePurchaseOrder(id);
+    setDeleteConfirmId(null);
+    if (serverErrors.form) {
+      alert(serverErrors.form);
+    }
+  };
+
+  const orderToReceive = purchaseOrders.find((order) => order.id === receivingOrder);
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      {/* Header section */}
+      <div className="px-4 py-4 sm:px-6 border-b border-gray-200 flex flex-wrap items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">Purchase Orders</h3>
+
+        <div className="mt-2 sm:mt-0 flex flex-wrap items-center gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as PurchaseOrderStatus | 'open' | 'all')}
+            className="block rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          >
+            <option value="open">Open</option>
+            <option value="all">All</option>
+            {(Object.keys(PURCHASE_ORDER_STATUS_LABELS) as PurchaseOrderStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {PURCHASE_ORDER_STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+
+          {/* Draft an order for everything at or below its threshold */}
+          <Button
+            variant="outline"
+            size="md"
+            icon={<AlertCircle size={16} />}
+            onClick={() => setShowReorderModal(true)}
+            disabled={reorderCount === 0 || suppliers.length === 0}
+          >
+            Reorder Low Stock ({reorderCount})
+          </Button>
+
+          <Button
+            variant="primary"
+            size="md"
+            icon={<Plus size={16} />}
+            onClick={() => setShowAddModal(true)}
+            disabled={suppliers.length === 0}
+          >
+            New Order
+          </Button>
+        </div>
+      </div>
+
+      {/* Purchase order table */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                PO Number
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Supplier
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Expected
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Received
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Total
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {filteredOrders.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                  {suppliers.length === 0
+                    ? 'Add a supplier below before raising purchase orders.'
+                    : 'No purchase orders found.'}
+                </td>
+              </tr>
+            ) : (
+              filteredOrders.map((order) => {
+                const ordered = order.items.reduce((sum, item) => sum + item.quantityOrdered, 0);
+                const received = order.items.reduce((sum, item) => sum + item.quantityReceived, 0);
+
+                return (
+                  <tr key={order.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{order.poNumber}</div>
+                      <div className="text-sm text-gray-500">{formatDate(order.createdAt)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {suppliers.find((supplier) => supplier.id === order.supplierId)?.name || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${PURCHASE_ORDER_STATUS_STYLES[order.status]}`}>
+                        {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {order.expectedDate ? formatDate(fromDateOnly(order.expectedDate)) : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                      {received} / {ordered}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                      {formatCurrency(order.totalAmount)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex justify-end space-x-2">
+                        {order.status === 'draft' && (
+                          <>
+                            <button
+                              onClick={() => setEditingOrder(order.id)}
+                              className="text-blue-600 hover:text-blue-900"
+                              title="Edit draft"
+                            >
+                              <Edit size={18} />
+                            </button>
+                            <button
+                              onClick={() => handleSend(order.id)}
+                              className="text-indigo-600 hover:text-indigo-900"
+                              title="Mark as sent"
+                            >
+                              <Send size={18} />
+                            </button>
+                            <button
+                              onClick={() => setDeleteConfirmId(order.id)}
+                              className="text-red-600 hover:text-red-900"
+                              title="Delete draft"
+                            >
+                              <Trash2 size={18} />
+                            </button>
+                          </>
+                        )}
+                        {(order.status === 'sent' || order.status === 'partially_received') && (
+                          <button
+                            onClick={() => setReceivingOrder(order.id)}
+                            className="text-green-600 hover:text-green-900"
+                            title="Receive goods"
+                          >
+                            <PackageCheck size={18} />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Add purchase order modal */}
+      {showAddModal && (
+        <PurchaseOrderForm
+          onClose={() => setShowAddModal(false)}
+        />
+      )}
+
+      {/* Reorder low stock modal */}
+      {showReorderModal && (
+        <PurchaseOrderForm
+          reorderLowStock
+          onClose={() => setShowReorderModal(false)}
+        />
+      )}
+
+      {/* Edit purchase order modal */}
+      {editingOrder && (
+        <PurchaseOrderForm
+          purchaseOrderId={editingOrder}
+          onClose={() => setEditingOrder(null)}
+        />
+      )}
+
+      {/* Goods receipt modal */}
+      {orderToReceive && (
+        <GoodsReceiptForm
+          purchaseOrder={orderToReceive}
+          onClose={() => setReceivingOrder(null)}
+        />
+      )}
+
+      {/* Delete confirmation modal */}
+      {deleteConfirmId && (
+        <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Confirm Delete</h3>
+            <p className="text-gray-500 mb-6">
+              Are you sure you want to delete this draft purchase order?
+            </p>
+            <div className="flex justify-end space-x-3">
+              <Button
+                variant="outline"
+                onClick={() => setDeleteConfirmId(null)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="danger"
+                onClick={() => handleDelete(deleteConfirmId)}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PurchaseOrderList;
@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { X } from 'lucide-react';
+import Button from '../ui/Button';
+import { getCurrencySymbol } from '../../utils/formatters';
+
+interface SupplierBillFormProps {
+  onClose: () => void;
+}
+
+const today = () => {
+  const now = new Date();
+  return [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, '0'),
+    String(now.getDate()).padStart(2, '0'),
+  ].join('-');
+};
+
+const SupplierBillForm: React.FC<SupplierBillFormProps> = ({ onClose }) => {
+  const { suppliers, purchaseOrders, addSupplierBill } = useAppContext();
+
+  const [supplierId, setSupplierId] = useState(suppliers[0]?.id || '');
+  const [purchaseOrderId, setPurchaseOrderId] = useState('');
+  const [billNumber, setBillNumber] = useState('');
+  const [billDate, setBillDate] = useState(today);
+  const [dueDate, setDueDate] = useState('');
+  const [amount, setAmount] = useState(0);
+  const [notes, setNotes] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Only orders already sent to this supplier can be billed
+  const supplierOrders = purchaseOrders.filter((order) =>
+    order.supplierId === supplierId && order.status !== 'draft'
+  );
+
+  const handleSupplierChange = (id: string) => {
+    setSupplierId(id);
+    setPurchaseOrderId('');
+  };
+
+  // Default the amount to the order total when a purchase order is picked
+  const handleOrderChange = (id: string) => {
+    setPurchaseOrderId(id);
+    const order = purchaseOrders.find((o) => o.id === id);
+    if (order && !amount) {
+      setAmount(order.totalAmount);
+    }
+  };
+
+  // Form validation
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!supplierId) {
+      newErrors.supplierId = 'Supplier is required';
+    }
+
+    if (!billNumber.trim()) {
+      newErrors.billNumber = 'Bill number is required';
+    }
+
+    if (!billDate) {
+      newErrors.billDate = 'Bill date is required';
+    }
+
+    if (dueDate && dueDate < billDate) {
+      newErrors.dueDate = 'Due date cannot be before the bill date';
+    }
+
+    if (!(amount > 0)) {
+      newErrors.amount = 'Amount must be greater than 0';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const serverErrors = await addSupplierBill(supplierId, {
+        purchaseOrderId: purchaseOrderId || undefined,
+        billNumber: billNumber.trim(),
+        billDate,
+        dueDate: dueDate || undefined,
+        amount,
+        notes: notes || undefined,
+      });
+
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
+      }
+
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const fieldClass = (name: string) =>
+    `block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+      errors[name] ? 'border-red-300' : 'border-gray-300'
+    }`;
+
+  const renderError = (name: string) => errors[name] && (
+    <p className="mt-1 text-sm text-red-600">{errors[name]}</p>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Record Supplier Bill</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="billSupplierId" className="block text-sm font-medium text-gray-700 mb-1">
+                Supplier*
+              </label>
+              <select
+                id="billSupplierId"
+                value={supplierId}
+                onChange={(e) => handleSupplierChange(e.target.value)}
+                className={fieldClass('supplierId')}
+              >
+                {suppliers.map((supplier) => (
+                  <option key={supplier.id} value={supplier.id}>
+                    {supplier.name}
+                  </option>
+                ))}
+              </select>
+              {renderError('supplierId')}
+            </div>
+
+            <div>
+              <label htmlFor="purchaseOrderId" className="block text-sm font-medium text-gray-700 mb-1">
+                Purchase Order
+              </label>
+              <select
+                id="purchaseOrderId"
+                value={purchaseOrderId}
+                onChange={(e) => handleOrderChange(e.target.value)}
+                className={fieldClass('purchaseOrderId')}
+              >
+                <option value="">None</option>
+                {supplierOrders.map((order) => (
+                  <option key={order.id} value={order.id}>
+                    {order.poNumber}
+                  </option>
+                ))}
+              </select>
+              {renderError('purchaseOrderId')}
+            </div>
+
+            <div>
+              <label htmlFor="billNumber" className="block text-sm font-medium text-gray-700 mb-1">
+                Bill Number*
+              </label>
+              <input
+                type="text"
+                id="billNumber"
+                value={billNumber}
+                onChange={(e) => setBillNumber(e.target.value)}
+                placeholder="As printed on the supplier's invoice"
+                className={fieldClass('billNumber')}
+              />
+              {renderError('billNumber')}
+            </div>
+
+            <div>
+              <label htmlFor="amount" className="block text-sm font-medium text-gray-700 mb-1">
+                Amount ({getCurrencySymbol()})*
+              </label>
+              <input
+                type="number"
+                id="amount"
+                min="0"
+                step="0.01"
+                value={amount || ''}
+                onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                className={fieldClass('amount')}
+              />
+              {renderError('amount')}
+            </div>
+
+            <div>
+              <label htmlFor="billDate" className="block text-sm font-medium text-gray-700 mb-1">
+                Bill Date*
+              </label>
+              <input
+                type="date"
+                id="billDate"
+                value={billDate}
+                onChange={(e) => setBillDate(e.target.value)}
+                className={fieldClass('billDate')}
+              />
+              {renderError('billDate')}
+            </div>
+
+            <div>
+              <label htmlFor="dueDate" className="block text-sm font-medium text-gray-700 mb-1">
+                Due Date
+              </label>
+              <input
+                type="date"
+                id="dueDate"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className={fieldClass('dueDate')}
+              />
+              {renderError('dueDate')}
+            </div>
+
+            <div className="col-span-1 md:col-span-2">
+              <label htmlFor="billNotes" className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <input
+                type="text"
+                id="billNotes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className={fieldClass('notes')}
+              />
+            </div>
+          </div>
+
+          {errors.form && (
+            <p className="mt-4 text-sm text-red-600">{errors.form}</p>
+          )}
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              type="button"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              type="submit"
+              isLoading={isSubmitting}
+            >
+              Record Bill
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SupplierBillForm;
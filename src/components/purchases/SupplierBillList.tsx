@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { SupplierBill } from '../../types';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+import { roundMoney } from '../../utils/gst';
+import { fromDateOnly } from '../../utils/purchases';
+import { Plus, CheckCircle } from 'lucide-react';
+import Button from '../ui/Button';
+import SupplierBillForm from './SupplierBillForm';
+
+// Unpaid bills past their due date are overdue
+const isOverdue = (bill: SupplierBill, today: Date) =>
+  !bill.paidAt && !!bill.dueDate && fromDateOnly(bill.dueDate) < today;
+
+const SupplierBillList: React.FC = () => {
+  const { suppliers, purchaseOrders, supplierBills, paySupplierBill } = useAppContext();
+  const [onlyUnpaid, setOnlyUnpaid] = useState(true);
+  const [showAddModal, setShowAddModal] = useState(false);
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const unpaidBills = supplierBills.filter((bill) => !bill.paidAt);
+  const totals: [string, number][] = [
+    ['Unpaid', roundMoney(unpaidBills.reduce((sum, bill) => sum + bill.amount, 0))],
+    ['Overdue', roundMoney(unpaidBills
+      .filter((bill) => isOverdue(bill, today))
+      .reduce((sum, bill) => sum + bill.amount, 0))],
+  ];
+
+  const filteredBills = onlyUnpaid ? unpaidBills : supplierBills;
+
+  const handlePay = async (id: string) => {
+    const serverErrors = await paySupplierBill(id);
+    if (serverErrors.form) {
+      alert(serverErrors.form);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      {/* Header section */}
+      <div className="px-4 py-4 sm:px-6 border-b border-gray-200 flex flex-wrap items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Supplier Bills</h3>
+          <p className="text-sm text-gray-500">
+            {totals.map(([label, value]) => `${label} ${formatCurrency(value)}`).join(' · ')}
+          </p>
+        </div>
+
+        <div className="mt-2 sm:mt-0 flex flex-wrap items-center gap-2">
+          <label className="flex items-center text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={onlyUnpaid}
+              onChange={(e) => setOnlyUnpaid(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Unpaid only
+          </label>
+
+          <Button
+            variant="primary"
+            size="md"
+            icon={<Plus size={16} />}
+            onClick={() => setShowAddModal(true)}
+            disabled={suppliers.length === 0}
+          >
+            Record Bill
+          </Button>
+        </div>
+      </div>
+
+      {/* Bill table */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Bill
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Supplier
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Due
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Amount
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {filteredBills.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                  {onlyUnpaid ? 'No unpaid bills.' : 'No bills recorded yet.'}
+                </td>
+              </tr>
+            ) : (
+              filteredBills.map((bill) => (
+                <tr key={bill.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{bill.billNumber}</div>
+                    <div className="text-sm text-gray-500">
+                      {formatDate(fromDateOnly(bill.billDate))}
+                      {bill.purchaseOrderId &&
+                        ` · ${purchaseOrders.find((order) => order.id === bill.purchaseOrderId)?.poNumber || ''}`}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {suppliers.find((supplier) => supplier.id === bill.supplierId)?.name || '-'}
+                  </td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm ${isOverdue(bill, today) ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                    {bill.dueDate ? formatDate(fromDateOnly(bill.dueDate)) : '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                    {formatCurrency(bill.amount)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    {bill.paidAt ? (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                        Paid {formatDate(bill.paidAt)}
+                      </span>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        icon={<CheckCircle size={14} />}
+                        onClick={() => handlePay(bill.id)}
+                      >
+                        Mark Paid
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Record bill modal */}
+      {showAddModal && (
+        <SupplierBillForm
+          onClose={() => setShowAddModal(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SupplierBillList;
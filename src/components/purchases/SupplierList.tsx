@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { Edit, Trash2, Plus, Search } from 'lucide-react';
+import Button from '../ui/Button';
+import SupplierForm from './SupplierForm';
+
+const SupplierList: React.FC = () => {
+  const { suppliers, purchaseOrders, deleteSupplier, currentUser } = useAppContext();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<string | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+  // Handle search filter
+  const filteredSuppliers = suppliers.filter((supplier) =>
+    supplier.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (supplier.phone || '').includes(searchTerm)
+  );
+
+  // Handle actual delete
+  const handleDelete = async (id: string) => {
+    const serverErrors = await deleteSupplier(id);
+    setDeleteConfirmId(null);
+    if (serverErrors.form) {
+      alert(serverErrors.form);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      {/* Header section */}
+      <div className="px-4 py-4 sm:px-6 border-b border-gray-200 flex flex-wrap items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">Suppliers</h3>
+
+        <div className="mt-2 sm:mt-0 flex flex-wrap items-center gap-2">
+          {/* Search input */}
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search size={16} className="text-gray-400" />
+            </div>
+            <input
+              type="text"
+              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              placeholder="Search suppliers..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+
+          {/* Add supplier button */}
+          <Button
+            variant="primary"
+            size="md"
+            icon={<Plus size={16} />}
+            onClick={() => setShowAddModal(true)}
+          >
+            Add Supplier
+          </Button>
+        </div>
+      </div>
+
+      {/* Supplier table */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Supplier
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                GSTIN
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Open Orders
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {filteredSuppliers.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="px-6 py-8 text-center text-gray-500">
+                  No suppliers found. Try a different search or add a new supplier.
+                </td>
+              </tr>
+            ) : (
+              filteredSuppliers.map((supplier) => (
+                <tr key={supplier.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{supplier.name}</div>
+                    <div className="text-sm text-gray-500">
+                      {[supplier.phone, supplier.email].filter(Boolean).join(' | ') || '-'}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {supplier.gstin || '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {purchaseOrders.filter((order) =>
+                      order.supplierId === supplier.id && order.status !== 'received'
+                    ).length}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        onClick={() => setEditingSupplier(supplier.id)}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        <Edit size={18} />
+                      </button>
+                      {currentUser?.role === 'admin' && (
+                        <button
+                          onClick={() => setDeleteConfirmId(supplier.id)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Add supplier modal */}
+      {showAddModal && (
+        <SupplierForm
+          onClose={() => setShowAddModal(false)}
+        />
+      )}
+
+      {/* Edit supplier modal */}
+      {editingSupplier && (
+        <SupplierForm
+          supplierId={editingSupplier}
+          onClose={() => setEditingSupplier(null)}
+        />
+      )}
+
+      {/* Delete confirmation modal */}
+      {deleteConfirmId && (
+        <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Confirm Delete</h3>
+            <p className="text-gray-500 mb-6">
+              Are you sure you want to delete this supplier? Suppliers with purchase orders or bills cannot be deleted.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <Button
+                variant="outline"
+                onClick={() => setDeleteConfirmId(null)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="danger"
+                onClick={() => handleDelete(deleteConfirmId)}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SupplierList;
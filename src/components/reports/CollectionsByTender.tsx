@@ -0,0 +1,87 @@
+import React from 'react';
+import { formatCurrency } from '../../utils/formatters';
+
+interface CollectionsByTenderProps {
+  collections: {
+    method: string;
+    collected: number;
+    refunded: number;
+  }[];
+}
+
+const CollectionsByTender: React.FC<CollectionsByTenderProps> = ({ collections }) => {
+  const totals = collections.reduce(
+    (sum, tender) => ({
+      collected: sum.collected + tender.collected,
+      refunded: sum.refunded + tender.refunded,
+    }),
+    { collected: 0, refunded: 0 }
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow mb-6">
+      <div className="border-b border-gray-200 px-4 py-3">
+        <h3 className="text-lg font-medium text-gray-900">Collections by Tender</h3>
+      </div>
+      
+      {collections.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">
+          No payments recorded for the selected period.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tender
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Collected
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Refunded
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Net
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {collections.map((tender) => (
+                <tr key={tender.method} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {tender.method}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {formatCurrency(tender.collected)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-red-600 text-right">
+                    {tender.refunded > 0 ? formatCurrency(-tender.refunded) : '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                    {formatCurrency(tender.collected - tender.refunded)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="bg-gray-50 font-medium">
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">Total</td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">
+                  {formatCurrency(totals.collected)}
+                </td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-red-600 text-right">
+                  {totals.refunded > 0 ? formatCurrency(-totals.refunded) : '-'}
+                </td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">
+                  {formatCurrency(totals.collected - totals.refunded)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollectionsByTender;
@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { ExpiryReport } from '../../types';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+import { fromDateOnly } from '../../utils/purchases';
+import { describeExpiry } from '../../utils/batches';
+
+const ExpiringStockReport: React.FC = () => {
+  const { locations, store, fetchExpiryReport } = useAppContext();
+  const [days, setDays] = useState(store.expiryAlertDays);
+  const [report, setReport] = useState<ExpiryReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Follow the store's alert window once the settings have loaded
+  useEffect(() => {
+    setDays(store.expiryAlertDays);
+  }, [store.expiryAlertDays]);
+
+  // Reload whenever a different window is entered
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchExpiryReport(days).then((data) => {
+      if (!cancelled) {
+        setReport(data);
+        setIsLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [days, fetchExpiryReport]);
+
+  return (
+    <div className="bg-white rounded-lg shadow mb-6">
+      <div className="border-b border-gray-200 px-4 py-3 flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Expiring Stock</h3>
+          {report && (
+            <p className="text-sm text-gray-500">
+              {report.totalQuantity} units worth {formatCurrency(report.totalValue)} at cost
+              {report.expiredValue > 0 && <> · {formatCurrency(report.expiredValue)} already expired</>}
+            </p>
+          )}
+        </div>
+        <label className="flex items-center text-sm text-gray-600">
+          Expiring within
+          <input
+            type="number"
+            min="0"
+            max="365"
+            value={days}
+            onChange={(e) => setDays(Math.min(Math.max(parseInt(e.target.value) || 0, 0), 365))}
+            className="mx-2 block w-20 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right"
+          />
+          days
+        </label>
+      </div>
+
+      {isLoading ? (
+        <div className="p-6 text-center text-gray-500">Loading...</div>
+      ) : !report || report.items.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">
+          No batches expire within this window.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Product
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Lot
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Expires On
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Quantity
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Value
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {report.items.map((item) => (
+                <tr key={item.batchId} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{item.productName}</div>
+                    <div className="text-sm text-gray-500">
+                      {[item.category, locations.length > 1 ? item.locationName : ''].filter(Boolean).join(' · ')}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {item.lotNumber || '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900">{formatDate(fromDateOnly(item.expiresOn))}</div>
+                    <div className={`text-xs ${item.daysLeft < 0 ? 'text-red-600' : 'text-yellow-700'}`}>
+                      {describeExpiry(item.daysLeft)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {item.quantity}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                    {formatCurrency(item.value)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="bg-gray-50 font-medium">
+                <td colSpan={3} className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">Total</td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">
+                  {report.totalQuantity}
+                </td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">
+                  {formatCurrency(report.totalValue)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExpiringStockReport;
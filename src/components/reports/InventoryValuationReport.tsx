@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { InventoryValuation } from '../../types';
+import { formatCurrency } from '../../utils/formatters';
+import { COSTING_METHOD_LABELS } from '../../utils/stock';
+
+const InventoryValuationReport: React.FC = () => {
+  const { fetchInventoryValuation } = useAppContext();
+  const [asOf, setAsOf] = useState(() => new Date().toISOString().split('T')[0]);
+  const [valuation, setValuation] = useState<InventoryValuation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Reload whenever a different date is picked
+  useEffect(() => {
+    if (!asOf) return;
+    let cancelled = false;
+    setIsLoading(true);
+    fetchInventoryValuation(asOf).then((data) => {
+      if (!cancelled) {
+        setValuation(data);
+        setIsLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [asOf, fetchInventoryValuation]);
+
+  return (
+    <div className="bg-white rounded-lg shadow mb-6">
+      <div className="border-b border-gray-200 px-4 py-3 flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Inventory Valuation</h3>
+          {valuation && (
+            <p className="text-sm text-gray-500">
+              {valuation.totalQuantity} units worth {formatCurrency(valuation.totalValue)} at cost ·{' '}
+              {COSTING_METHOD_LABELS[valuation.costingMethod]}
+            </p>
+          )}
+        </div>
+        <label className="flex items-center text-sm text-gray-600">
+          As of
+          <input
+            type="date"
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value)}
+            className="ml-2 block rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+        </label>
+      </div>
+
+      {isLoading ? (
+        <div className="p-6 text-center text-gray-500">Loading...</div>
+      ) : !valuation || valuation.items.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">
+          No stock on hand on this date.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Product
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Quantity
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Unit Cost
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Value
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {valuation.items.map((item) => (
+                <tr key={item.productId} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{item.productName}</div>
+                    {item.category && <div className="text-sm text-gray-500">{item.category}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {item.quantity}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {formatCurrency(item.unitCost)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                    {formatCurrency(item.value)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="bg-gray-50 font-medium">
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">Total</td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">
+                  {valuation.totalQuantity}
+                </td>
+                <td />
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">
+                  {formatCurrency(valuation.totalValue)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InventoryValuationReport;
@@ -1,29 +1,37 @@
 import React from 'react';
 import Button from '../ui/Button';
 import { Filter } from 'lucide-react';
+import { Category, Location } from '../../types';
+import { getCategoryOptions } from '../../utils/categories';
 
 interface ReportFiltersProps {
   startDate: string;
   endDate: string;
-  category: string;
+  categoryId: string; // includes its subcategories
+  locationId: string;
   onStartDateChange: (date: string) => void;
   onEndDateChange: (date: string) => void;
-  onCategoryChange: (category: string) => void;
+  onCategoryChange: (categoryId: string) => void;
+  onLocationChange: (locationId: string) => void;
   onApplyFilters: () => void;
   onResetFilters: () => void;
-  categories: string[];
+  categories: Category[];
+  locations: Location[];
 }
 
 const ReportFilters: React.FC<ReportFiltersProps> = ({
   startDate,
   endDate,
-  category,
+  categoryId,
+  locationId,
   onStartDateChange,
   onEndDateChange,
   onCategoryChange,
+  onLocationChange,
   onApplyFilters,
   onResetFilters,
   categories,
+  locations,
 }) => {
   return (
     <div className="bg-white p-4 rounded-lg shadow mb-6">
@@ -32,7 +40,7 @@ const ReportFilters: React.FC<ReportFiltersProps> = ({
         <h3 className="text-lg font-medium text-gray-900">Report Filters</h3>
       </div>
       
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
         <div>
           <label htmlFor="startDate" className="block text-sm font-medium text-gray-700 mb-1">
             Start Date
@@ -65,14 +73,33 @@ const ReportFilters: React.FC<ReportFiltersProps> = ({
           </label>
           <select
             id="category"
-            value={category}
+            value={categoryId}
             onChange={(e) => onCategoryChange(e.target.value)}
             className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
           >
             <option value="">All Categories</option>
-            {categories.map((cat) => (
-              <option key={cat} value={cat}>
-                {cat}
+            {getCategoryOptions(categories).map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        
+        <div>
+          <label htmlFor="locationId" className="block text-sm font-medium text-gray-700 mb-1">
+            Location
+          </label>
+          <select
+            id="locationId"
+            value={locationId}
+            onChange={(e) => onLocationChange(e.target.value)}
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          >
+            <option value="">All Locations</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
               </option>
             ))}
           </select>
@@ -1,4 +1,5 @@
 import React, { useRef, useEffect } from 'react';
+import { formatCompactCurrency, formatShortDate } from '../../utils/formatters';
 
 interface SalesChartProps {
   salesData: {
@@ -44,7 +45,8 @@ const SalesChart: React.FC<SalesChartProps> = ({ salesData }) => {
     
     salesData.forEach((data, i) => {
       const x = padding + i * ((width - 2 * padding) / salesData.length) + 2;
-      const barHeight = ((height - 2 * padding) * data.revenue) / maxRevenue;
+      // Days where refunds outweigh sales have no bar
+      const barHeight = ((height - 2 * padding) * Math.max(0, data.revenue)) / maxRevenue;
       const y = height - padding - barHeight;
       
       // Draw bar
@@ -55,10 +57,7 @@ const SalesChart: React.FC<SalesChartProps> = ({ salesData }) => {
       ctx.fillStyle = '#64748b';
       ctx.font = '10px Arial';
       ctx.textAlign = 'center';
-      const shortDate = new Date(data.date).toLocaleDateString('en-IN', {
-        day: 'numeric',
-        month: 'short',
-      });
+      const shortDate = formatShortDate(data.date);
       ctx.fillText(shortDate, x + barWidth / 2, height - padding + 15);
     });
     
@@ -71,9 +70,7 @@ const SalesChart: React.FC<SalesChartProps> = ({ salesData }) => {
       const y = height - padding - (i * (height - 2 * padding)) / 5;
       const value = (i * maxRevenue) / 5;
       ctx.fillText(
-        value >= 1000
-          ? `₹${(value / 1000).toFixed(0)}K`
-          : `₹${value.toFixed(0)}`,
+        formatCompactCurrency(value),
         padding - 5,
         y + 3
       );
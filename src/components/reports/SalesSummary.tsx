@@ -4,6 +4,7 @@ import { formatCurrency } from '../../utils/formatters';
 interface SalesSummaryProps {
   totalSales: number;
   totalRevenue: number;
+  totalRefunds?: number;
   totalProfit: number;
   profitMargin: number;
   averageOrderValue: number;
@@ -12,6 +13,7 @@ interface SalesSummaryProps {
 const SalesSummary: React.FC<SalesSummaryProps> = ({
   totalSales,
   totalRevenue,
+  totalRefunds = 0,
   totalProfit,
   profitMargin,
   averageOrderValue,
@@ -31,6 +33,9 @@ const SalesSummary: React.FC<SalesSummaryProps> = ({
         <div className="p-4 flex flex-col items-center justify-center">
           <p className="text-sm font-medium text-gray-500">Total Revenue</p>
           <p className="text-2xl font-bold text-blue-900 mt-1">{formatCurrency(totalRevenue)}</p>
+          {totalRefunds > 0 && (
+            <p className="text-xs text-gray-500 mt-1">after {formatCurrency(totalRefunds)} refunds</p>
+          )}
         </div>
         
         <div className="p-4 flex flex-col items-center justify-center">
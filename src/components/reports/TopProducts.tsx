@@ -8,13 +8,26 @@ interface TopProductsProps {
     quantity: number;
     revenue: number;
   }[];
+  groupVariants?: boolean;
+  onGroupVariantsChange?: (groupVariants: boolean) => void; // offered when some products have variants
 }
 
-const TopProducts: React.FC<TopProductsProps> = ({ products }) => {
+const TopProducts: React.FC<TopProductsProps> = ({ products, groupVariants, onGroupVariantsChange }) => {
   return (
     <div className="bg-white rounded-lg shadow mb-6">
-      <div className="border-b border-gray-200 px-4 py-3">
+      <div className="border-b border-gray-200 px-4 py-3 flex flex-wrap items-center justify-between gap-2">
         <h3 className="text-lg font-medium text-gray-900">Top Selling Products</h3>
+        {onGroupVariantsChange && (
+          <label className="flex items-center text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={!!groupVariants}
+              onChange={(e) => onGroupVariantsChange(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Group variants
+          </label>
+        )}
       </div>
       
       {products.length === 0 ? (
@@ -0,0 +1,216 @@
+import React from 'react';
+import { Sale, StoreSettings, InvoiceLayout } from '../../types';
+import { formatCurrency, formatDate, formatDateTime, formatAmountInWords } from '../../utils/formatters';
+import { describePayment } from '../../utils/payments';
+
+interface InvoiceProps {
+  sale: Sale;
+  store: StoreSettings;
+  layout: InvoiceLayout;
+}
+
+const Invoice: React.FC<InvoiceProps> = ({ sale, store, layout }) => {
+  const storeName = store.tradeName || store.legalName;
+  const address = [
+    store.addressLine1,
+    store.addressLine2,
+    [store.city, store.state, store.pincode].filter(Boolean).join(', '),
+  ].filter(Boolean);
+  const interState = sale.igstAmount > 0;
+  const taxRows: [string, number][] = interState
+    ? [['IGST', sale.igstAmount]]
+    : [['CGST', sale.cgstAmount], ['SGST', sale.sgstAmount]];
+
+  if (layout === 'thermal') {
+    return (
+      <div className="w-[80mm] bg-white p-3 font-mono text-xs text-gray-900">
+        {/* Store header */}
+        <div className="text-center">
+          <p className="text-sm font-bold">{storeName}</p>
+          {address.map((line) => (
+            <p key={line}>{line}</p>
+          ))}
+          {store.gstin && <p>GSTIN: {store.gstin}</p>}
+          {store.phone && <p>Ph: {store.phone}</p>}
+        </div>
+
+        <div className="my-2 border-t border-dashed border-gray-400" />
+
+        <p>Invoice: {sale.invoiceNumber}</p>
+        <p>{formatDateTime(sale.date)}</p>
+        <p>{sale.customerName || 'Walk-in Customer'}</p>
+        {sale.customerGstin && <p>GSTIN: {sale.customerGstin}</p>}
+
+        <div className="my-2 border-t border-dashed border-gray-400" />
+
+        {/* Line items */}
+        {sale.products.map((item, index) => (
+          <div key={index} className="mb-1">
+            <p>{item.productName}</p>
+            {item.serials && <p>S/N: {item.serials.join(', ')}</p>}
+            <div className="flex justify-between">
+              <span>
+                {item.quantity} x {formatCurrency(item.unitPrice)} (GST {item.gstRate}%)
+              </span>
+              <span>{formatCurrency(item.totalPrice)}</span>
+            </div>
+          </div>
+        ))}
+
+        <div className="my-2 border-t border-dashed border-gray-400" />
+
+        {/* Totals */}
+        <div className="flex justify-between">
+          <span>Taxable Value</span>
+          <span>{formatCurrency(sale.taxableAmount)}</span>
+        </div>
+        {taxRows.map(([label, amount]) => (
+          <div key={label} className="flex justify-between">
+            <span>{label}</span>
+            <span>{formatCurrency(amount)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between text-sm font-bold">
+          <span>TOTAL</span>
+          <span>{formatCurrency(sale.totalAmount)}</span>
+        </div>
+        <p className="mt-1">{formatAmountInWords(sale.totalAmount)}</p>
+
+        <div className="my-2 border-t border-dashed border-gray-400" />
+
+        {sale.payments.map((payment, index) => (
+          <div key={index} className="flex justify-between">
+            <span>{payment.method}{payment.reference && ` (${payment.reference})`}</span>
+            <span>{formatCurrency(payment.tendered ?? payment.amount)}</span>
+          </div>
+        ))}
+        {sale.changeDue > 0 && (
+          <div className="flex justify-between">
+            <span>Change</span>
+            <span>{formatCurrency(sale.changeDue)}</span>
+          </div>
+        )}
+        <p className="mt-3 text-center">Thank you for shopping with us!</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-[210mm] min-h-[297mm] bg-white p-10 text-sm text-gray-900">
+      {/* Store header */}
+      <div className="flex justify-between items-start">
+        <div className="flex items-start">
+          {store.logoUrl && (
+            <img src={store.logoUrl} alt={storeName} className="h-16 w-16 object-contain mr-4" />
+          )}
+          <div>
+            <p className="text-xl font-bold">{storeName}</p>
+            {store.tradeName && store.tradeName !== store.legalName && (
+              <p className="text-xs">{store.legalName}</p>
+            )}
+            {address.map((line) => (
+              <p key={line} className="text-xs">{line}</p>
+            ))}
+            {store.gstin && <p className="text-xs">GSTIN: {store.gstin}</p>}
+            {(store.phone || store.email) && (
+              <p className="text-xs">{[store.phone, store.email].filter(Boolean).join(' | ')}</p>
+            )}
+          </div>
+        </div>
+        <div className="text-right">
+          <p className="text-lg font-bold">TAX INVOICE</p>
+          <p className="text-xs">Invoice No: {sale.invoiceNumber}</p>
+          <p className="text-xs">Date: {formatDate(sale.date)}</p>
+          <p className="text-xs">Place of Supply: {sale.placeOfSupply || store.stateCode || '-'}</p>
+        </div>
+      </div>
+
+      <div className="my-4 border-t border-gray-300" />
+
+      {/* Customer */}
+      <div className="mb-4 text-xs">
+        <p className="font-bold">Bill To</p>
+        <p>{sale.customerName || 'Walk-in Customer'}</p>
+        {sale.customerPhone && <p>Phone: {sale.customerPhone}</p>}
+        {sale.customerGstin && <p>GSTIN: {sale.customerGstin}</p>}
+      </div>
+
+      {/* Line items */}
+      <table className="min-w-full text-xs">
+        <thead>
+          <tr className="border-b border-gray-300">
+            <th className="py-1 text-left">#</th>
+            <th className="py-1 text-left">Item</th>
+            <th className="py-1 text-left">HSN</th>
+            <th className="py-1 text-right">Qty</th>
+            <th className="py-1 text-right">Rate</th>
+            <th className="py-1 text-right">Taxable</th>
+            <th className="py-1 text-right">GST %</th>
+            {taxRows.map(([label]) => (
+              <th key={label} className="py-1 text-right">{label}</th>
+            ))}
+            <th className="py-1 text-right">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sale.products.map((item, index) => (
+            <tr key={index} className="border-b border-gray-100">
+              <td className="py-1">{index + 1}</td>
+              <td className="py-1">
+                {item.productName}
+                {item.serials && <div className="text-xs text-gray-500">S/N: {item.serials.join(', ')}</div>}
+              </td>
+              <td className="py-1">{item.hsnCode || '-'}</td>
+              <td className="py-1 text-right">{item.quantity}</td>
+              <td className="py-1 text-right">{formatCurrency(item.unitPrice)}</td>
+              <td className="py-1 text-right">{formatCurrency(item.taxableValue)}</td>
+              <td className="py-1 text-right">{item.gstRate}</td>
+              {interState ? (
+                <td className="py-1 text-right">{formatCurrency(item.igstAmount)}</td>
+              ) : (
+                <>
+                  <td className="py-1 text-right">{formatCurrency(item.cgstAmount)}</td>
+                  <td className="py-1 text-right">{formatCurrency(item.sgstAmount)}</td>
+                </>
+              )}
+              <td className="py-1 text-right">{formatCurrency(item.totalPrice)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Totals */}
+      <div className="mt-4 flex justify-end">
+        <div className="w-64 text-xs">
+          <div className="flex justify-between py-0.5">
+            <span>Taxable Value</span>
+            <span>{formatCurrency(sale.taxableAmount)}</span>
+          </div>
+          {taxRows.map(([label, amount]) => (
+            <div key={label} className="flex justify-between py-0.5">
+              <span>{label}</span>
+              <span>{formatCurrency(amount)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between py-1 border-t border-gray-300 text-sm font-bold">
+            <span>Total</span>
+            <span>{formatCurrency(sale.totalAmount)}</span>
+          </div>
+        </div>
+      </div>
+
+      <p className="mt-4 text-xs">
+        <span className="font-bold">Amount in words: </span>
+        {formatAmountInWords(sale.totalAmount)}
+      </p>
+      <p className="mt-2 text-xs">
+        Payment: {sale.payments.map((payment) => describePayment(payment, formatCurrency)).join(', ')}
+      </p>
+      {sale.notes && <p className="text-xs">Notes: {sale.notes}</p>}
+
+      <p className="mt-8 text-center text-xs text-gray-500">This is a computer generated invoice.</p>
+    </div>
+  );
+};
+
+export default Invoice;
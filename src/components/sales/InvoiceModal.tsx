@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { Sale, InvoiceLayout } from '../../types';
+import { X, Printer, Download } from 'lucide-react';
+import Button from '../ui/Button';
+import Invoice from './Invoice';
+
+interface InvoiceModalProps {
+  sale: Sale;
+  onClose: () => void;
+}
+
+const InvoiceModal: React.FC<InvoiceModalProps> = ({ sale, onClose }) => {
+  const { store, fetchInvoicePdf } = useAppContext();
+  const [layout, setLayout] = useState<InvoiceLayout>('thermal');
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const pdf = await fetchInvoicePdf(sale.id, layout);
+      if (!pdf) {
+        alert('Failed to generate the PDF. Please try again.');
+        return;
+      }
+
+      const url = URL.createObjectURL(pdf);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${sale.invoiceNumber.replace(/\//g, '-')}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      {/* Page size for window.print(), follows the selected layout */}
+      <style>
+        {`@media print { @page { size: ${layout === 'thermal' ? '80mm auto' : 'A4'}; margin: 0; } }`}
+      </style>
+
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-lg font-medium text-gray-900">
+            Invoice {sale.invoiceNumber}
+          </h3>
+          <div className="flex items-center space-x-2">
+            <select
+              value={layout}
+              onChange={(e) => setLayout(e.target.value as InvoiceLayout)}
+              className="block rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="thermal">Thermal Receipt (80mm)</option>
+              <option value="a4">GST Invoice (A4)</option>
+            </select>
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<Printer size={16} />}
+              onClick={() => window.print()}
+            >
+              Print
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<Download size={16} />}
+              onClick={handleDownload}
+              isLoading={isDownloading}
+            >
+              PDF
+            </Button>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-auto bg-gray-100 p-6 flex justify-center">
+          <div className="print-area shadow">
+            <Invoice sale={sale} store={store} layout={layout} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceModal;
@@ -1,53 +1,156 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { useAppContext } from '../../context/AppContext';
-import { SaleItem } from '../../types';
+import { Customer, Payment, Product, Sale, SaleItem } from '../../types';
 import { formatCurrency } from '../../utils/formatters';
-import { X, Plus, Trash2 } from 'lucide-react';
+import { calculateLineTax, isInterState, roundMoney, summarizeTax } from '../../utils/gst';
+import { CARD_METHODS, CREDIT_METHOD, PAYMENT_METHODS, calculateChangeDue, sumPayments } from '../../utils/payments';
+import { getCustomerSummary } from '../../utils/customers';
+import { getLocationQuantity, getUserLocation } from '../../utils/locations';
+import { getVariantLabel, getVariants, isVariantParent } from '../../utils/variants';
+import { findProductByCode } from '../../utils/barcodes';
+import { getSerialsError, parseSerials } from '../../utils/serials';
+import { X, Plus, Trash2, ScanBarcode } from 'lucide-react';
 import Button from '../ui/Button';
 
 interface SaleFormProps {
   onClose: () => void;
+  onSaleCreated?: (sale: Sale) => void;
 }
 
-const SaleForm: React.FC<SaleFormProps> = ({ onClose }) => {
-  const { products, addSale } = useAppContext();
+// A sale row before GST is worked out for the place of supply; a serialized product's row keeps
+// its serial numbers as typed or scanned
+type SaleLine = Omit<SaleItem, 'taxableValue' | 'cgstAmount' | 'sgstAmount' | 'igstAmount' | 'serials'> & {
+  serialText?: string;
+};
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// Short low tone for a scan that could not be added; browsers without Web Audio stay silent
+const playErrorBeep = () => {
+  try {
+    const context = new AudioContext();
+    const oscillator = context.createOscillator();
+    oscillator.type = 'square';
+    oscillator.frequency.value = 220;
+    oscillator.connect(context.destination);
+    oscillator.onended = () => context.close();
+    oscillator.start();
+    oscillator.stop(context.currentTime + 0.25);
+  } catch (error) {
+    console.error('Failed to play scan beep:', error);
+  }
+};
+
+const newSaleLine = (product: Product): SaleLine => ({
+  productId: product.id,
+  productName: product.name,
+  hsnCode: product.hsnCode,
+  quantity: 1,
+  unitPrice: product.price,
+  totalPrice: product.price,
+  gstRate: product.gstRate,
+  serialText: product.tracksSerials ? '' : undefined,
+});
+
+const SaleForm: React.FC<SaleFormProps> = ({ onClose, onSaleCreated }) => {
+  const { products, locations, currentUser, customers, customerPayments, sales, addSale, store } = useAppContext();
+  
+  // Stock is sold from the cashier's location
+  const saleLocation = getUserLocation(locations, currentUser);
+  const inStock = (product: Product) => getLocationQuantity(product, saleLocation?.id);
+  
+  // Products that can still go on a line: in stock here and not already on another line
+  const isAvailable = (product: Product, index?: number) =>
+    inStock(product) > 0 &&
+    !selectedProducts.some((item, i) => i !== index && item.productId === product.id);
+  
+  // What the product picker offers; a parent is offered while any of its variants is
+  const getChoices = (index?: number) => products.filter((product) => !product.parentId && (
+    isVariantParent(product)
+      ? getVariants(products, product.id).some((variant) => isAvailable(variant, index))
+      : isAvailable(product, index)
+  ));
+  
+  // Picking a parent sells its first available variant until another one is chosen
+  const resolveChoice = (product: Product, index?: number) =>
+    isVariantParent(product)
+      ? getVariants(products, product.id).find((variant) => isAvailable(variant, index))
+      : product;
   
   // Form state
-  const [selectedProducts, setSelectedProducts] = useState<SaleItem[]>([]);
+  const [selectedProducts, setSelectedProducts] = useState<SaleLine[]>([]);
+  const [customerId, setCustomerId] = useState<string | undefined>();
   const [customerName, setCustomerName] = useState('');
   const [customerPhone, setCustomerPhone] = useState('');
-  const [paymentMethod, setPaymentMethod] = useState('Cash');
+  const [customerGstin, setCustomerGstin] = useState('');
+  const [placeOfSupply, setPlaceOfSupply] = useState('');
+  const [payments, setPayments] = useState<Payment[]>([{ method: 'Cash', amount: 0 }]);
   const [notes, setNotes] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Barcode scanner input; the input flashes red on a code that cannot be added
+  const [scanCode, setScanCode] = useState('');
+  const [scanError, setScanError] = useState('');
+  const [scanFlash, setScanFlash] = useState(false);
   
-  // Calculate total
+  // Calculate total and the GST preview; a customer GSTIN implies their state
+  const effectivePlaceOfSupply = placeOfSupply || customerGstin.slice(0, 2);
+  const interState = isInterState(store.stateCode, effectivePlaceOfSupply);
+  const saleItems: SaleItem[] = selectedProducts.map(({ serialText, ...item }) => ({
+    ...item,
+    ...calculateLineTax(item.totalPrice, item.gstRate, interState),
+    serials: serialText === undefined ? undefined : parseSerials(serialText),
+  }));
+  const tax = summarizeTax(saleItems);
   const totalAmount = selectedProducts.reduce(
     (sum, item) => sum + item.totalPrice,
     0
   );
+
+  // A single tender always covers the whole bill; split tenders are entered by hand
+  const billPayments = payments.length === 1 ? [{ ...payments[0], amount: roundMoney(totalAmount) }] : payments;
+  const balanceDue = roundMoney(totalAmount - sumPayments(billPayments));
+  const changeDue = calculateChangeDue(billPayments);
+  const creditAmount = sumPayments(billPayments.filter((payment) => payment.method === CREDIT_METHOD));
+  
+  // Known customers matching the digits typed so far
+  const linkedCustomer = customers.find((customer) => customer.id === customerId);
+  const customerSuggestions = !customerId && customerPhone.length >= 3
+    ? customers.filter((customer) => customer.phone.includes(customerPhone)).slice(0, 5)
+    : [];
+  const linkedBalance = linkedCustomer
+    ? getCustomerSummary(linkedCustomer.id, sales, customerPayments).balance
+    : 0;
+  
+  const selectCustomer = (customer: Customer) => {
+    setCustomerId(customer.id);
+    setCustomerName(customer.name);
+    setCustomerPhone(customer.phone);
+    if (customer.gstin) {
+      setCustomerGstin(customer.gstin);
+    }
+  };
+  
+  // Typing a different number unlinks the customer; a full match links it straight away
+  const handleCustomerPhoneChange = (phone: string) => {
+    setCustomerPhone(phone);
+    setCustomerId(undefined);
+    const match = customers.find((customer) => customer.phone === phone);
+    if (match) {
+      selectCustomer(match);
+    }
+  };
   
   // Add a product row
   const addProductRow = () => {
     if (products.length === 0) return;
     
-    const availableProducts = products.filter(
-      (product) => product.quantity > 0 && 
-      !selectedProducts.some((item) => item.productId === product.id)
-    );
-    
-    if (availableProducts.length === 0) return;
+    const choice = getChoices()[0];
+    const newProduct = choice && resolveChoice(choice);
     
-    const newProduct = availableProducts[0];
-    const newItem: SaleItem = {
-      productId: newProduct.id,
-      productName: newProduct.name,
-      quantity: 1,
-      unitPrice: newProduct.price,
-      totalPrice: newProduct.price,
-    };
+    if (!newProduct) return;
     
-    setSelectedProducts([...selectedProducts, newItem]);
+    setSelectedProducts([...selectedProducts, newSaleLine(newProduct)]);
   };
   
   // Remove a product row
@@ -57,19 +160,14 @@ const SaleForm: React.FC<SaleFormProps> = ({ onClose }) => {
     setSelectedProducts(updatedProducts);
   };
   
-  // Update product selection
+  // Update product or variant selection
   const handleProductChange = (index: number, productId: string) => {
-    const product = products.find((p) => p.id === productId);
+    const choice = products.find((p) => p.id === productId);
+    const product = choice && resolveChoice(choice, index);
     if (!product) return;
     
     const updatedProducts = [...selectedProducts];
-    updatedProducts[index] = {
-      productId,
-      productName: product.name,
-      quantity: 1,
-      unitPrice: product.price,
-      totalPrice: product.price,
-    };
+    updatedProducts[index] = newSaleLine(product);
     
     setSelectedProducts(updatedProducts);
   };
@@ -83,7 +181,7 @@ const SaleForm: React.FC<SaleFormProps> = ({ onClose }) => {
     if (!product) return;
     
     // Limit quantity to available stock
-    const maxQuantity = product.quantity;
+    const maxQuantity = inStock(product);
     const validQuantity = Math.min(Math.max(1, quantity), maxQuantity);
     
     updatedProducts[index] = {
@@ -95,24 +193,157 @@ const SaleForm: React.FC<SaleFormProps> = ({ onClose }) => {
     setSelectedProducts(updatedProducts);
   };
   
+  // Each serial number is one unit, so the quantity follows the serial numbers entered
+  const handleSerialsChange = (index: number, serialText: string) => {
+    const updatedProducts = [...selectedProducts];
+    const item = updatedProducts[index];
+    const product = products.find((p) => p.id === item.productId);
+    
+    if (!product) return;
+    
+    const quantity = Math.min(Math.max(1, parseSerials(serialText).length), inStock(product));
+    updatedProducts[index] = {
+      ...item,
+      serialText,
+      quantity,
+      totalPrice: quantity * item.unitPrice,
+    };
+    
+    setSelectedProducts(updatedProducts);
+  };
+  
+  // A scanner ends each serial number with Enter, which would otherwise submit the sale
+  const handleSerialKeyDown = (index: number, e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    
+    const serialText = selectedProducts[index].serialText || '';
+    if (serialText.trim() && !/,\s*$/.test(serialText)) {
+      handleSerialsChange(index, `${serialText.trim()}, `);
+    }
+  };
+  
+  const rejectScan = (message: string) => {
+    setScanError(message);
+    setScanFlash(true);
+    setTimeout(() => setScanFlash(false), 600);
+    playErrorBeep();
+  };
+  
+  // Keyboard-wedge scanners type the code and press Enter: a scanned product goes on a new line,
+  // or one more of it when it is already on the bill
+  const handleScan = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    
+    const code = scanCode.trim();
+    setScanCode('');
+    if (!code) return;
+    
+    const product = findProductByCode(products, code);
+    if (!product || isVariantParent(product)) {
+      rejectScan(`No product with code ${code}`);
+      return;
+    }
+    
+    const index = selectedProducts.findIndex((item) => item.productId === product.id);
+    const quantity = index === -1 ? 1 : selectedProducts[index].quantity + 1;
+    if (quantity > inStock(product)) {
+      rejectScan(`Only ${inStock(product)} of ${product.name} in stock`);
+      return;
+    }
+    
+    setScanError('');
+    if (index === -1) {
+      setSelectedProducts([...selectedProducts, newSaleLine(product)]);
+    } else {
+      handleQuantityChange(index, quantity);
+    }
+    if (errors.products) {
+      setErrors({ ...errors, products: '' });
+    }
+  };
+  
+  // Add a tender for whatever is still unpaid
+  const addPaymentRow = () => {
+    setPayments([
+      ...billPayments,
+      { method: billPayments.some((payment) => payment.method === 'Cash') ? 'UPI' : 'Cash', amount: Math.max(0, balanceDue) },
+    ]);
+  };
+
+  const removePaymentRow = (index: number) => {
+    setPayments(billPayments.filter((_, i) => i !== index));
+  };
+
+  const handlePaymentChange = (index: number, changes: Partial<Payment>) => {
+    const updatedPayments = [...billPayments];
+    const payment = { ...updatedPayments[index], ...changes };
+    // Only cash has an amount tendered, and references do not carry over between tenders
+    if (changes.method) {
+      payment.reference = undefined;
+      payment.tendered = undefined;
+    }
+    updatedPayments[index] = payment;
+    setPayments(updatedPayments);
+
+    if (errors.payments) {
+      setErrors({ ...errors, payments: '' });
+    }
+  };
+
   // Form validation
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
     
+    const serialLine = selectedProducts.find((item) =>
+      item.serialText !== undefined && getSerialsError(parseSerials(item.serialText), item.quantity)
+    );
     if (selectedProducts.length === 0) {
       newErrors.products = 'At least one product must be selected';
+    } else if (serialLine) {
+      newErrors.products = `${serialLine.productName}: ${getSerialsError(parseSerials(serialLine.serialText || ''), serialLine.quantity)}`;
     }
     
     if (customerPhone && !/^\d{10}$/.test(customerPhone)) {
       newErrors.customerPhone = 'Phone number must be 10 digits';
     }
     
+    if (customerGstin && !GSTIN_PATTERN.test(customerGstin)) {
+      newErrors.customerGstin = 'Invalid GSTIN format';
+    }
+    
+    if (placeOfSupply && !/^\d{2}$/.test(placeOfSupply)) {
+      newErrors.placeOfSupply = 'Place of supply must be a 2-digit state code';
+    }
+    
+    if (billPayments.some((payment) => !(payment.amount > 0))) {
+      newErrors.payments = 'Each payment needs an amount greater than 0';
+    } else if (balanceDue !== 0) {
+      newErrors.payments = balanceDue > 0
+        ? `${formatCurrency(balanceDue)} is still unpaid`
+        : `Payments exceed the bill by ${formatCurrency(-balanceDue)}`;
+    } else if (billPayments.some((payment) =>
+      CARD_METHODS.includes(payment.method) && payment.reference && !/^\d{4}$/.test(payment.reference)
+    )) {
+      newErrors.payments = 'Card reference must be the last 4 digits';
+    } else if (billPayments.some((payment) => payment.tendered !== undefined && payment.tendered < payment.amount)) {
+      newErrors.payments = 'Cash received cannot be less than the cash amount';
+    } else if (creditAmount > 0 && !customerId && !(customerName && customerPhone)) {
+      newErrors.payments = 'Credit sales need a customer with a name and phone number';
+    } else if (
+      creditAmount > 0 && linkedCustomer && linkedCustomer.creditLimit > 0 &&
+      roundMoney(linkedBalance + creditAmount) > linkedCustomer.creditLimit
+    ) {
+      newErrors.payments = `Credit limit of ${formatCurrency(linkedCustomer.creditLimit)} exceeded, ${formatCurrency(linkedBalance)} is already outstanding`;
+    }
+    
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
   
   // Handle form submission
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!validateForm()) {
@@ -122,14 +353,27 @@ const SaleForm: React.FC<SaleFormProps> = ({ onClose }) => {
     setIsSubmitting(true);
     
     try {
-      addSale({
-        products: selectedProducts,
+      const serverErrors = await addSale({
+        products: saleItems,
         totalAmount,
+        ...tax,
+        customerId,
         customerName: customerName || undefined,
         customerPhone: customerPhone || undefined,
-        paymentMethod,
+        customerGstin: customerGstin || undefined,
+        placeOfSupply: effectivePlaceOfSupply || undefined,
+        payments: billPayments.map((payment) => ({
+          ...payment,
+          reference: payment.reference || undefined,
+        })),
         notes: notes || undefined,
-      });
+      }, onSaleCreated);
+      
+      // Show errors reported by the server, e.g. stock sold by another cashier
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
+      }
       
       onClose();
     } finally {
@@ -137,20 +381,18 @@ const SaleForm: React.FC<SaleFormProps> = ({ onClose }) => {
     }
   };
   
-  // Initialize with one empty product row
-  useEffect(() => {
-    if (selectedProducts.length === 0 && products.length > 0) {
-      addProductRow();
-    }
-  }, [products]);
-  
   return (
     <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
-          <h3 className="text-lg font-medium text-gray-900">
-            Create New Sale
-          </h3>
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">
+              Create New Sale
+            </h3>
+            {locations.length > 1 && saleLocation && (
+              <p className="text-sm text-gray-500">Selling from {saleLocation.name}</p>
+            )}
+          </div>
           <button
             onClick={onClose}
             className="text-gray-400 hover:text-gray-500"
@@ -164,9 +406,32 @@ const SaleForm: React.FC<SaleFormProps> = ({ onClose }) => {
           <div className="mb-6">
             <h4 className="font-medium text-gray-700 mb-2">Products</h4>
             
+            {/* Scanner input, focused so a scan goes straight onto the bill */}
+            <div className="mb-3">
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <ScanBarcode size={16} className="text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  value={scanCode}
+                  onChange={(e) => setScanCode(e.target.value)}
+                  onKeyDown={handleScan}
+                  placeholder="Scan a barcode or type a SKU and press Enter"
+                  autoFocus
+                  className={`block w-full pl-10 pr-3 py-2 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm transition-colors ${
+                    scanFlash ? 'border-red-500 bg-red-50' : 'border-gray-300'
+                  }`}
+                />
+              </div>
+              {scanError && (
+                <p className="mt-1 text-sm text-red-600">{scanError}</p>
+              )}
+            </div>
+            
             {selectedProducts.length === 0 ? (
               <div className="bg-gray-50 p-4 rounded-md text-center text-gray-500">
-                No products added yet. Click "Add Product" to start.
+                No products added yet. Scan a barcode or click "Add Product" to start.
               </div>
             ) : (
               <div className="overflow-x-auto">
@@ -193,24 +458,52 @@ const SaleForm: React.FC<SaleFormProps> = ({ onClose }) => {
                   <tbody className="bg-white divide-y divide-gray-200">
                     {selectedProducts.map((item, index) => {
                       const product = products.find((p) => p.id === item.productId);
-                      const maxQuantity = product ? product.quantity : 0;
+                      const parent = products.find((p) => p.id === product?.parentId);
+                      const maxQuantity = product ? inStock(product) : 0;
                       
                       return (
                         <tr key={index}>
                           <td className="px-3 py-2 whitespace-nowrap">
                             <select
-                              value={item.productId}
+                              value={parent?.id || item.productId}
                               onChange={(e) => handleProductChange(index, e.target.value)}
                               className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                             >
-                              {products
-                                .filter((p) => p.quantity > 0 && (p.id === item.productId || !selectedProducts.some((sp) => sp.productId === p.id)))
-                                .map((p) => (
-                                  <option key={p.id} value={p.id}>
-                                    {p.name} ({p.quantity} in stock)
-                                  </option>
-                                ))}
+                              {getChoices(index).map((p) => (
+                                <option key={p.id} value={p.id}>
+                                  {p.name} ({isVariantParent(p)
+                                    ? getVariants(products, p.id).reduce((sum, variant) => sum + inStock(variant), 0)
+                                    : inStock(p)} in stock)
+                                </option>
+                              ))}
                             </select>
+                            {/* Variant of the chosen product */}
+                            {parent && (
+                              <select
+                                value={item.productId}
+                                onChange={(e) => handleProductChange(index, e.target.value)}
+                                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                              >
+                                {getVariants(products, parent.id)
+                                  .filter((variant) => isAvailable(variant, index))
+                                  .map((variant) => (
+                                    <option key={variant.id} value={variant.id}>
+                                      {getVariantLabel(parent.variantOptions || [], variant.attributes || {})} ({inStock(variant)} in stock)
+                                    </option>
+                                  ))}
+                              </select>
+                            )}
+                            {item.serialText !== undefined && (
+                              <input
+                                type="text"
+                                aria-label="Serial numbers"
+                                value={item.serialText}
+                                onChange={(e) => handleSerialsChange(index, e.target.value)}
+                                onKeyDown={(e) => handleSerialKeyDown(index, e)}
+                                placeholder="Scan serial numbers"
+                                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                              />
+                            )}
                           </td>
                           <td className="px-3 py-2 whitespace-nowrap">
                             <div className="flex items-center justify-end space-x-1">
@@ -236,7 +529,6 @@ const SaleForm: React.FC<SaleFormProps> = ({ onClose }) => {
                               type="button"
                               onClick={() => removeProductRow(index)}
                               className="text-red-600 hover:text-red-900"
-                              disabled={selectedProducts.length === 1}
                             >
                               <Trash2 size={16} />
                             </button>
@@ -245,6 +537,49 @@ const SaleForm: React.FC<SaleFormProps> = ({ onClose }) => {
                       );
                     })}
                     
+                    {/* Tax rows, prices already include GST */}
+                    <tr className="bg-gray-50 text-sm text-gray-500">
+                      <td colSpan={3} className="px-3 py-1 whitespace-nowrap text-right">
+                        Taxable Value
+                      </td>
+                      <td className="px-3 py-1 whitespace-nowrap text-right">
+                        {formatCurrency(tax.taxableAmount)}
+                      </td>
+                      <td></td>
+                    </tr>
+                    {interState ? (
+                      <tr className="bg-gray-50 text-sm text-gray-500">
+                        <td colSpan={3} className="px-3 py-1 whitespace-nowrap text-right">
+                          IGST
+                        </td>
+                        <td className="px-3 py-1 whitespace-nowrap text-right">
+                          {formatCurrency(tax.igstAmount)}
+                        </td>
+                        <td></td>
+                      </tr>
+                    ) : (
+                      <>
+                        <tr className="bg-gray-50 text-sm text-gray-500">
+                          <td colSpan={3} className="px-3 py-1 whitespace-nowrap text-right">
+                            CGST
+                          </td>
+                          <td className="px-3 py-1 whitespace-nowrap text-right">
+                            {formatCurrency(tax.cgstAmount)}
+                          </td>
+                          <td></td>
+                        </tr>
+                        <tr className="bg-gray-50 text-sm text-gray-500">
+                          <td colSpan={3} className="px-3 py-1 whitespace-nowrap text-right">
+                            SGST
+                          </td>
+                          <td className="px-3 py-1 whitespace-nowrap text-right">
+                            {formatCurrency(tax.sgstAmount)}
+                          </td>
+                          <td></td>
+                        </tr>
+                      </>
+                    )}
+                    
                     {/* Total row */}
                     <tr className="bg-gray-50">
                       <td colSpan={3} className="px-3 py-2 whitespace-nowrap text-right font-medium">
@@ -271,9 +606,7 @@ const SaleForm: React.FC<SaleFormProps> = ({ onClose }) => {
                 size="sm" 
                 icon={<Plus size={16} />}
                 onClick={addProductRow}
-                disabled={products.filter(
-                  (p) => p.quantity > 0 && !selectedProducts.some((item) => item.productId === p.id)
-                ).length === 0}
+                disabled={getChoices().length === 0}
               >
                 Add Product
               </Button>
@@ -300,38 +633,82 @@ const SaleForm: React.FC<SaleFormProps> = ({ onClose }) => {
               <label htmlFor="customerPhone" className="block text-sm font-medium text-gray-700 mb-1">
                 Phone Number
               </label>
+              <div className="relative">
+                <input
+                  type="text"
+                  id="customerPhone"
+                  value={customerPhone}
+                  onChange={(e) => handleCustomerPhoneChange(e.target.value.trim())}
+                  autoComplete="off"
+                  className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                    errors.customerPhone ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                  placeholder="10-digit number"
+                />
+                {customerSuggestions.length > 0 && (
+                  <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-48 overflow-y-auto">
+                    {customerSuggestions.map((customer) => (
+                      <li key={customer.id}>
+                        <button
+                          type="button"
+                          onClick={() => selectCustomer(customer)}
+                          className="w-full px-3 py-2 text-left text-sm hover:bg-gray-50"
+                        >
+                          <span className="font-medium text-gray-900">{customer.phone}</span>
+                          <span className="ml-2 text-gray-500">{customer.name}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              {linkedCustomer && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Existing customer
+                  {linkedBalance > 0 && ` · ${formatCurrency(linkedBalance)} on credit`}
+                </p>
+              )}
+              {errors.customerPhone && (
+                <p className="mt-1 text-sm text-red-600">{errors.customerPhone}</p>
+              )}
+            </div>
+            
+            <div>
+              <label htmlFor="customerGstin" className="block text-sm font-medium text-gray-700 mb-1">
+                Customer GSTIN
+              </label>
               <input
                 type="text"
-                id="customerPhone"
-                value={customerPhone}
-                onChange={(e) => setCustomerPhone(e.target.value)}
+                id="customerGstin"
+                value={customerGstin}
+                onChange={(e) => setCustomerGstin(e.target.value.toUpperCase())}
                 className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
-                  errors.customerPhone ? 'border-red-300' : 'border-gray-300'
+                  errors.customerGstin ? 'border-red-300' : 'border-gray-300'
                 }`}
-                placeholder="10-digit number"
+                placeholder="Optional, for B2B invoices"
               />
-              {errors.customerPhone && (
-                <p className="mt-1 text-sm text-red-600">{errors.customerPhone}</p>
+              {errors.customerGstin && (
+                <p className="mt-1 text-sm text-red-600">{errors.customerGstin}</p>
               )}
             </div>
             
             <div>
-              <label htmlFor="paymentMethod" className="block text-sm font-medium text-gray-700 mb-1">
-                Payment Method
+              <label htmlFor="placeOfSupply" className="block text-sm font-medium text-gray-700 mb-1">
+                Place of Supply (State Code)
               </label>
-              <select
-                id="paymentMethod"
-                value={paymentMethod}
-                onChange={(e) => setPaymentMethod(e.target.value)}
-                className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-              >
-                <option value="Cash">Cash</option>
-                <option value="Credit Card">Credit Card</option>
-                <option value="Debit Card">Debit Card</option>
-                <option value="UPI">UPI</option>
-                <option value="Net Banking">Net Banking</option>
-                <option value="Other">Other</option>
-              </select>
+              <input
+                type="text"
+                id="placeOfSupply"
+                value={placeOfSupply}
+                onChange={(e) => setPlaceOfSupply(e.target.value)}
+                className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                  errors.placeOfSupply ? 'border-red-300' : 'border-gray-300'
+                }`}
+                placeholder={customerGstin.slice(0, 2) || store.stateCode || 'e.g. 27'}
+              />
+              {errors.placeOfSupply && (
+                <p className="mt-1 text-sm text-red-600">{errors.placeOfSupply}</p>
+              )}
             </div>
             
             <div>
@@ -349,6 +726,104 @@ const SaleForm: React.FC<SaleFormProps> = ({ onClose }) => {
             </div>
           </div>
           
+          {/* Payments section */}
+          <div className="mb-6">
+            <h4 className="font-medium text-gray-700 mb-2">Payments</h4>
+            
+            <div className="space-y-2">
+              {billPayments.map((payment, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={payment.method}
+                    onChange={(e) => handlePaymentChange(index, { method: e.target.value })}
+                    className="block w-36 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  >
+                    {[...PAYMENT_METHODS, CREDIT_METHOD].map((method) => (
+                      <option key={method} value={method}>
+                        {method === CREDIT_METHOD ? 'Credit (Udhaar)' : method}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={payment.amount}
+                    disabled={billPayments.length === 1}
+                    onChange={(e) => handlePaymentChange(index, { amount: parseFloat(e.target.value) || 0 })}
+                    className="block w-28 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right disabled:bg-gray-100"
+                    aria-label="Amount"
+                  />
+                  {payment.method === 'Cash' ? (
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={payment.tendered ?? ''}
+                      onChange={(e) => handlePaymentChange(index, {
+                        tendered: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0,
+                      })}
+                      className="block flex-1 min-w-0 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      placeholder="Cash received"
+                    />
+                  ) : (
+                    <input
+                      type="text"
+                      value={payment.reference || ''}
+                      onChange={(e) => handlePaymentChange(index, { reference: e.target.value })}
+                      className="block flex-1 min-w-0 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      placeholder={
+                        payment.method === 'UPI' ? 'UPI transaction ID'
+                          : CARD_METHODS.includes(payment.method) ? 'Card last 4 digits'
+                            : 'Reference (optional)'
+                      }
+                    />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => removePaymentRow(index)}
+                    className="text-red-600 hover:text-red-900 disabled:text-gray-300"
+                    disabled={billPayments.length === 1}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            
+            <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                icon={<Plus size={16} />}
+                onClick={addPaymentRow}
+              >
+                Split Payment
+              </Button>
+              <div className="text-sm text-right">
+                {billPayments.length > 1 && (
+                  <p className={balanceDue === 0 ? 'text-gray-500' : 'text-red-600'}>
+                    Balance: {formatCurrency(balanceDue)}
+                  </p>
+                )}
+                {changeDue > 0 && (
+                  <p className="font-medium text-green-700">
+                    Change Due: {formatCurrency(changeDue)}
+                  </p>
+                )}
+              </div>
+            </div>
+            
+            {errors.payments && (
+              <p className="mt-1 text-sm text-red-600">{errors.payments}</p>
+            )}
+          </div>
+          
+          {errors.form && (
+            <p className="mb-4 text-sm text-red-600">{errors.form}</p>
+          )}
+          
           <div className="mt-6 flex justify-end space-x-3">
             <Button
               variant="outline"
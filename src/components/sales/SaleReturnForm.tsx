@@ -0,0 +1,284 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { Sale } from '../../types';
+import { formatCurrency } from '../../utils/formatters';
+import { CREDIT_METHOD, PAYMENT_METHODS } from '../../utils/payments';
+import { X } from 'lucide-react';
+import Button from '../ui/Button';
+
+interface SaleReturnFormProps {
+  sale: Sale;
+  onClose: () => void;
+}
+
+const SaleReturnForm: React.FC<SaleReturnFormProps> = ({ sale, onClose }) => {
+  const { addSaleReturn } = useAppContext();
+
+  // Units of each product already taken back on earlier credit notes
+  const returnedQuantity = (productId: string) => sale.returns.reduce(
+    (sum, saleReturn) => sum + saleReturn.products
+      .filter((item) => item.productId === productId)
+      .reduce((itemSum, item) => itemSum + item.quantity, 0),
+    0
+  );
+
+  // Serial numbers of a product's units that have not come back yet
+  const returnableSerials = (productId: string, serials: string[]) => serials.filter((serial) =>
+    !sale.returns.some((saleReturn) => saleReturn.products.some((item) =>
+      item.productId === productId && item.serials?.includes(serial)
+    ))
+  );
+
+  // Form state
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  // Units sold by serial number are returned by picking their serial numbers
+  const [selectedSerials, setSelectedSerials] = useState<Record<string, string[]>>({});
+  // Split bills default to refunding in cash
+  const [refundMethod, setRefundMethod] = useState(sale.payments.length === 1 ? sale.payments[0].method : 'Cash');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Preview only, the server works out the exact refund and tax reversal
+  const refundAmount = sale.products.reduce(
+    (sum, item) => sum + (quantities[item.productId] || 0) * item.unitPrice,
+    0
+  );
+
+  // Update return quantity, limited to what has not been returned yet
+  const handleQuantityChange = (productId: string, quantity: number, remaining: number) => {
+    setQuantities({
+      ...quantities,
+      [productId]: Math.min(Math.max(0, quantity), remaining),
+    });
+  };
+
+  const toggleSerial = (productId: string, serial: string) => {
+    const current = selectedSerials[productId] || [];
+    const serials = current.includes(serial) ? current.filter((s) => s !== serial) : [...current, serial];
+    setSelectedSerials({ ...selectedSerials, [productId]: serials });
+    setQuantities({ ...quantities, [productId]: serials.length });
+  };
+
+  // Form validation
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!Object.values(quantities).some((quantity) => quantity > 0)) {
+      newErrors.products = 'Select at least one item to return';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const serverErrors = await addSaleReturn(sale.id, {
+        products: Object.entries(quantities)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([productId, quantity]) => ({ productId, quantity, serials: selectedSerials[productId] })),
+        refundMethod,
+        reason: reason || undefined,
+      });
+
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
+      }
+
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">
+            Return Items from {sale.invoiceNumber}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          {/* Items section */}
+          <div className="mb-6 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Product
+                  </th>
+                  <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Sold
+                  </th>
+                  <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Returned
+                  </th>
+                  <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Return Qty
+                  </th>
+                  <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Refund
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sale.products.map((item) => {
+                  const returned = returnedQuantity(item.productId);
+                  const remaining = item.quantity - returned;
+                  const quantity = quantities[item.productId] || 0;
+
+                  return (
+                    <tr key={item.productId}>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                        {item.productName}
+                        {item.serials && (
+                          <div className="mt-1 space-y-1">
+                            {returnableSerials(item.productId, item.serials).map((serial) => (
+                              <label key={serial} className="flex items-center text-xs text-gray-600">
+                                <input
+                                  type="checkbox"
+                                  checked={(selectedSerials[item.productId] || []).includes(serial)}
+                                  onChange={() => toggleSerial(item.productId, serial)}
+                                  className="mr-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                S/N {serial}
+                              </label>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900 text-right">
+                        {item.quantity}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500 text-right">
+                        {returned}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <div className="flex items-center justify-end space-x-1">
+                          <input
+                            type="number"
+                            min="0"
+                            max={remaining}
+                            value={quantity}
+                            disabled={remaining === 0 || !!item.serials}
+                            onChange={(e) => handleQuantityChange(item.productId, parseInt(e.target.value) || 0, remaining)}
+                            className="block w-16 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right disabled:bg-gray-100"
+                          />
+                          <span className="text-xs text-gray-400">/ {remaining}</span>
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-right font-medium">
+                        {formatCurrency(quantity * item.unitPrice)}
+                      </td>
+                    </tr>
+                  );
+                })}
+
+                {/* Total row */}
+                <tr className="bg-gray-50">
+                  <td colSpan={4} className="px-3 py-2 whitespace-nowrap text-right font-medium">
+                    Refund Amount
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right font-bold">
+                    {formatCurrency(refundAmount)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+
+            {errors.products && (
+              <p className="mt-1 text-sm text-red-600">{errors.products}</p>
+            )}
+          </div>
+
+          {/* Refund details */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <div>
+              <label htmlFor="refundMethod" className="block text-sm font-medium text-gray-700 mb-1">
+                Refund Method
+              </label>
+              <select
+                id="refundMethod"
+                value={refundMethod}
+                onChange={(e) => setRefundMethod(e.target.value)}
+                className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                  errors.refundMethod ? 'border-red-300' : 'border-gray-300'
+                }`}
+              >
+                {PAYMENT_METHODS.map((method) => (
+                  <option key={method} value={method}>
+                    {method}
+                  </option>
+                ))}
+                {/* Takes the refund off the customer's udhaar */}
+                {sale.customerId && (
+                  <option value={CREDIT_METHOD}>Credit (Udhaar)</option>
+                )}
+              </select>
+              {errors.refundMethod && (
+                <p className="mt-1 text-sm text-red-600">{errors.refundMethod}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-1">
+                Reason
+              </label>
+              <input
+                type="text"
+                id="reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          {errors.form && (
+            <p className="mb-4 text-sm text-red-600">{errors.form}</p>
+          )}
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              type="button"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              type="submit"
+              isLoading={isSubmitting}
+              disabled={refundAmount === 0}
+            >
+              Issue Credit Note
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SaleReturnForm;
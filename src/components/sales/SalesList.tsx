@@ -1,20 +1,41 @@
 import React, { useState } from 'react';
 import { useAppContext } from '../../context/AppContext';
 import { formatCurrency, formatDate } from '../../utils/formatters';
-import { Search, Plus, ChevronDown, ChevronUp } from 'lucide-react';
+import { describePayment } from '../../utils/payments';
+import { Search, Plus, ChevronDown, ChevronUp, FileText, RotateCcw } from 'lucide-react';
+import { Sale } from '../../types';
 import Button from '../ui/Button';
 import SaleForm from './SaleForm';
+import InvoiceModal from './InvoiceModal';
+import SaleReturnForm from './SaleReturnForm';
 
 const SalesList: React.FC = () => {
   const { sales } = useAppContext();
   const [searchTerm, setSearchTerm] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
   const [expandedSale, setExpandedSale] = useState<string | null>(null);
+  const [invoiceSale, setInvoiceSale] = useState<Sale | null>(null);
+  const [returnSale, setReturnSale] = useState<Sale | null>(null);
+
+  // Refunded total across all credit notes of a sale
+  const refundedAmount = (sale: Sale) =>
+    sale.returns.reduce((sum, saleReturn) => sum + saleReturn.totalAmount, 0);
+
+  // A sale can be returned against until every unit has come back
+  const isFullyReturned = (sale: Sale) => {
+    const soldUnits = sale.products.reduce((sum, item) => sum + item.quantity, 0);
+    const returnedUnits = sale.returns.reduce(
+      (sum, saleReturn) => sum + saleReturn.products.reduce((itemSum, item) => itemSum + item.quantity, 0),
+      0
+    );
+    return returnedUnits >= soldUnits;
+  };
 
   // Filter sales based on search term
   const filteredSales = sales
     .filter(
       (sale) =>
+        sale.invoiceNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
         sale.customerName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         sale.products.some((product) =>
           product.productName.toLowerCase().includes(searchTerm.toLowerCase())
@@ -81,6 +102,9 @@ const SalesList: React.FC = () => {
                   <div className="flex items-center justify-between">
                     <div className="flex flex-col sm:flex-row sm:items-center">
                       <div className="text-sm font-medium text-gray-900">
+                        {sale.invoiceNumber}
+                      </div>
+                      <div className="sm:ml-4 text-sm text-gray-500">
                         {formatDate(sale.date)}
                       </div>
                       <div className="sm:ml-4 text-sm text-gray-500">
@@ -93,8 +117,15 @@ const SalesList: React.FC = () => {
                     </div>
                     
                     <div className="flex items-center space-x-4">
-                      <div className="text-sm font-semibold text-gray-900">
-                        {formatCurrency(sale.totalAmount)}
+                      <div className="text-right">
+                        <div className="text-sm font-semibold text-gray-900">
+                          {formatCurrency(sale.totalAmount)}
+                        </div>
+                        {sale.returns.length > 0 && (
+                          <div className="text-xs text-red-600">
+                            Refunded {formatCurrency(refundedAmount(sale))}
+                          </div>
+                        )}
                       </div>
                       
                       <div>
@@ -122,8 +153,15 @@ const SalesList: React.FC = () => {
                   <div className="px-6 py-3 bg-gray-50 border-t border-gray-100">
                     <div className="mb-3 flex flex-wrap justify-between">
                       <div>
-                        <p className="text-xs text-gray-500">Payment Method</p>
-                        <p className="text-sm font-medium">{sale.paymentMethod}</p>
+                        <p className="text-xs text-gray-500">Payment</p>
+                        {sale.payments.map((payment, index) => (
+                          <p key={index} className="text-sm font-medium">
+                            {describePayment(payment, formatCurrency)}
+                          </p>
+                        ))}
+                        {sale.changeDue > 0 && (
+                          <p className="text-xs text-gray-500">Change given: {formatCurrency(sale.changeDue)}</p>
+                        )}
                       </div>
                       
                       {sale.customerPhone && (
@@ -133,6 +171,13 @@ const SalesList: React.FC = () => {
                         </div>
                       )}
                       
+                      {sale.customerGstin && (
+                        <div className="mt-2 sm:mt-0">
+                          <p className="text-xs text-gray-500">Customer GSTIN</p>
+                          <p className="text-sm font-medium">{sale.customerGstin}</p>
+                        </div>
+                      )}
+                      
                       {sale.notes && (
                         <div className="mt-2 sm:mt-0">
                           <p className="text-xs text-gray-500">Notes</p>
@@ -177,6 +222,43 @@ const SalesList: React.FC = () => {
                               </td>
                             </tr>
                           ))}
+                          <tr className="bg-gray-50 text-sm text-gray-500">
+                            <td colSpan={3} className="px-2 py-1 whitespace-nowrap text-right">
+                              Taxable Value
+                            </td>
+                            <td className="px-2 py-1 whitespace-nowrap text-right">
+                              {formatCurrency(sale.taxableAmount)}
+                            </td>
+                          </tr>
+                          {sale.igstAmount > 0 ? (
+                            <tr className="bg-gray-50 text-sm text-gray-500">
+                              <td colSpan={3} className="px-2 py-1 whitespace-nowrap text-right">
+                                IGST
+                              </td>
+                              <td className="px-2 py-1 whitespace-nowrap text-right">
+                                {formatCurrency(sale.igstAmount)}
+                              </td>
+                            </tr>
+                          ) : (
+                            <>
+                              <tr className="bg-gray-50 text-sm text-gray-500">
+                                <td colSpan={3} className="px-2 py-1 whitespace-nowrap text-right">
+                                  CGST
+                                </td>
+                                <td className="px-2 py-1 whitespace-nowrap text-right">
+                                  {formatCurrency(sale.cgstAmount)}
+                                </td>
+                              </tr>
+                              <tr className="bg-gray-50 text-sm text-gray-500">
+                                <td colSpan={3} className="px-2 py-1 whitespace-nowrap text-right">
+                                  SGST
+                                </td>
+                                <td className="px-2 py-1 whitespace-nowrap text-right">
+                                  {formatCurrency(sale.sgstAmount)}
+                                </td>
+                              </tr>
+                            </>
+                          )}
                           <tr className="bg-gray-50">
                             <td colSpan={3} className="px-2 py-2 whitespace-nowrap text-right text-sm font-medium text-gray-900">
                               Total
@@ -188,6 +270,54 @@ const SalesList: React.FC = () => {
                         </tbody>
                       </table>
                     </div>
+                    
+                    {sale.returns.length > 0 && (
+                      <div className="mt-3">
+                        <p className="text-xs font-medium text-gray-500 mb-2">Returns</p>
+                        <ul className="divide-y divide-gray-200 bg-white rounded-md border border-gray-200">
+                          {sale.returns.map((saleReturn) => (
+                            <li key={saleReturn.id} className="px-3 py-2 text-sm flex flex-wrap justify-between gap-2">
+                              <div>
+                                <span className="font-medium text-gray-900">{saleReturn.creditNoteNumber}</span>
+                                <span className="ml-2 text-gray-500">{formatDate(saleReturn.date)}</span>
+                                <div className="text-xs text-gray-500">
+                                  {saleReturn.products
+                                    .map((item) => `${item.quantity} x ${item.productName}`)
+                                    .join(', ')}
+                                  {saleReturn.reason && ` · ${saleReturn.reason}`}
+                                </div>
+                              </div>
+                              <div className="text-right">
+                                <div className="font-medium text-red-600">
+                                  -{formatCurrency(saleReturn.totalAmount)}
+                                </div>
+                                <div className="text-xs text-gray-500">{saleReturn.refundMethod}</div>
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    
+                    <div className="mt-3 flex justify-end space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        icon={<RotateCcw size={16} />}
+                        onClick={() => setReturnSale(sale)}
+                        disabled={isFullyReturned(sale)}
+                      >
+                        Return
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        icon={<FileText size={16} />}
+                        onClick={() => setInvoiceSale(sale)}
+                      >
+                        Invoice
+                      </Button>
+                    </div>
                   </div>
                 )}
               </li>
@@ -200,6 +330,23 @@ const SalesList: React.FC = () => {
       {showAddModal && (
         <SaleForm 
           onClose={() => setShowAddModal(false)} 
+          onSaleCreated={setInvoiceSale}
+        />
+      )}
+      
+      {/* Return modal */}
+      {returnSale && (
+        <SaleReturnForm
+          sale={returnSale}
+          onClose={() => setReturnSale(null)}
+        />
+      )}
+      
+      {/* Invoice modal, also shown right after a sale is completed */}
+      {invoiceSale && (
+        <InvoiceModal
+          sale={invoiceSale}
+          onClose={() => setInvoiceSale(null)}
         />
       )}
     </div>
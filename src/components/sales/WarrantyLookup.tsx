@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { SerialLookup } from '../../types';
+import { formatDate } from '../../utils/formatters';
+import { fromDateOnly } from '../../utils/purchases';
+import { isUnderWarranty } from '../../utils/serials';
+import { Search } from 'lucide-react';
+import Button from '../ui/Button';
+
+const WarrantyLookup: React.FC = () => {
+  const { lookupSerial } = useAppContext();
+  const [serialNumber, setSerialNumber] = useState('');
+  const [results, setResults] = useState<SerialLookup[] | null>(null);
+  const [searchedFor, setSearchedFor] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const serial = serialNumber.trim().toUpperCase();
+    if (!serial) {
+      setError('Enter a serial number');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+    try {
+      const found = await lookupSerial(serial);
+      if (!found) {
+        setError('Could not look up the serial number, please try again');
+        return;
+      }
+      setResults(found);
+      setSearchedFor(serial);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      {/* Search by serial number; scanners end the code with Enter, which submits */}
+      <form onSubmit={handleSearch} className="bg-white rounded-lg shadow p-4 mb-6">
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search size={16} className="text-gray-400" />
+            </div>
+            <input
+              type="text"
+              value={serialNumber}
+              onChange={(e) => setSerialNumber(e.target.value)}
+              placeholder="Scan or type the serial number on the unit"
+              autoFocus
+              className="block w-full pl-10 pr-3 py-2 rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <Button type="submit" variant="primary" isLoading={isLoading}>
+            Look Up
+          </Button>
+        </div>
+        {error && (
+          <p className="mt-1 text-sm text-red-600">{error}</p>
+        )}
+      </form>
+
+      {results && results.length === 0 && (
+        <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+          No unit with serial number {searchedFor} is on file.
+        </div>
+      )}
+
+      {results?.map((unit) => {
+        const lastSale = unit.sales[0];
+        const covered = unit.status === 'sold' && isUnderWarranty(lastSale?.warrantyEndsOn, today);
+
+        return (
+          <div key={unit.productId} className="bg-white rounded-lg shadow mb-6">
+            <div className="border-b border-gray-200 px-4 py-3 flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">{unit.productName}</h3>
+                <p className="text-sm text-gray-500">
+                  S/N {unit.serialNumber}
+                  {unit.receivedAt && <> · received {formatDate(new Date(unit.receivedAt))}</>}
+                </p>
+              </div>
+              {unit.status === 'in_stock' ? (
+                <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+                  In stock
+                </span>
+              ) : unit.status === 'written_off' ? (
+                <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                  Written off
+                </span>
+              ) : (
+                <span
+                  className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                    covered ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                  }`}
+                >
+                  {covered ? 'Under warranty' : 'Out of warranty'}
+                </span>
+              )}
+            </div>
+
+            {unit.sales.length === 0 ? (
+              <div className="p-6 text-center text-gray-500">Not sold yet.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Invoice
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Customer
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Sold On
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Warranty Ends
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {unit.sales.map((sale) => (
+                      <tr key={sale.saleId} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-gray-900">{sale.invoiceNumber}</div>
+                          {sale.creditNoteNumber && (
+                            <div className="text-xs text-red-600">
+                              Returned on {sale.creditNoteNumber}
+                              {sale.returnedAt && <>, {formatDate(new Date(sale.returnedAt))}</>}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm text-gray-900">{sale.customerName || 'Walk-in Customer'}</div>
+                          {sale.customerPhone && <div className="text-sm text-gray-500">{sale.customerPhone}</div>}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {formatDate(new Date(sale.date))}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {sale.warrantyEndsOn ? formatDate(fromDateOnly(sale.warrantyEndsOn)) : 'No warranty'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default WarrantyLookup;
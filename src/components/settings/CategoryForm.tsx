@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { X } from 'lucide-react';
+import Button from '../ui/Button';
+import { getCategoryIds, getCategoryOptions } from '../../utils/categories';
+
+interface CategoryFormProps {
+  categoryId?: string;
+  parentId?: string; // preselected when adding a subcategory
+  onClose: () => void;
+}
+
+const CategoryForm: React.FC<CategoryFormProps> = ({ categoryId, parentId, onClose }) => {
+  const { categories, store, addCategory, updateCategory } = useAppContext();
+  const existingCategory = categories.find((c) => c.id === categoryId);
+
+  // Initial form state, prefilled when editing; an empty GST rate or threshold means no default
+  const [formData, setFormData] = useState(() => ({
+    name: existingCategory?.name || '',
+    parentId: existingCategory ? existingCategory.parentId || '' : parentId || '',
+    gstRate: existingCategory?.gstRate?.toString() ?? '',
+    threshold: existingCategory?.threshold?.toString() ?? '',
+  }));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // A category cannot be moved inside itself or one of its subcategories
+  const excludedIds = existingCategory ? getCategoryIds(categories, existingCategory.id) : [];
+  const parentOptions = getCategoryOptions(categories).filter((option) => !excludedIds.includes(option.id));
+
+  // Handle form input changes
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+
+    setFormData({
+      ...formData,
+      [name]: value,
+    });
+
+    // Clear error when field is edited
+    if (errors[name]) {
+      setErrors({
+        ...errors,
+        [name]: '',
+      });
+    }
+  };
+
+  // Form validation
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+
+    if (formData.threshold !== '' && !(parseInt(formData.threshold) >= 0)) {
+      newErrors.threshold = 'Threshold cannot be negative';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const categoryData = {
+        name: formData.name,
+        parentId: formData.parentId || undefined,
+        gstRate: formData.gstRate === '' ? undefined : parseFloat(formData.gstRate),
+        threshold: formData.threshold === '' ? undefined : parseInt(formData.threshold),
+      };
+      const serverErrors = existingCategory
+        ? await updateCategory({ ...existingCategory, ...categoryData })
+        : await addCategory(categoryData);
+
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
+      }
+
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-md w-full">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">
+            {existingCategory ? 'Edit Category' : 'Add Category'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+              Name*
+            </label>
+            <input
+              type="text"
+              id="name"
+              name="name"
+              value={formData.name}
+              onChange={handleChange}
+              placeholder="e.g. Electronics, Laptops"
+              className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                errors.name ? 'border-red-300' : 'border-gray-300'
+              }`}
+            />
+            {errors.name && (
+              <p className="mt-1 text-sm text-red-600">{errors.name}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="parentId" className="block text-sm font-medium text-gray-700 mb-1">
+              Parent Category
+            </label>
+            <select
+              id="parentId"
+              name="parentId"
+              value={formData.parentId}
+              onChange={handleChange}
+              className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                errors.parentId ? 'border-red-300' : 'border-gray-300'
+              }`}
+            >
+              <option value="">None (top level)</option>
+              {parentOptions.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {errors.parentId && (
+              <p className="mt-1 text-sm text-red-600">{errors.parentId}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="gstRate" className="block text-sm font-medium text-gray-700 mb-1">
+                Default GST Rate (%)
+              </label>
+              <select
+                id="gstRate"
+                name="gstRate"
+                value={formData.gstRate}
+                onChange={handleChange}
+                className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                  errors.gstRate ? 'border-red-300' : 'border-gray-300'
+                }`}
+              >
+                <option value="">{formData.parentId ? 'From parent' : 'Store default'}</option>
+                {store.taxRates.map((rate) => (
+                  <option key={rate} value={rate}>
+                    {rate}%
+                  </option>
+                ))}
+              </select>
+              {errors.gstRate && (
+                <p className="mt-1 text-sm text-red-600">{errors.gstRate}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="threshold" className="block text-sm font-medium text-gray-700 mb-1">
+                Default Threshold
+              </label>
+              <input
+                type="number"
+                id="threshold"
+                name="threshold"
+                min="0"
+                value={formData.threshold}
+                onChange={handleChange}
+                placeholder={formData.parentId ? 'From parent' : 'None'}
+                className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                  errors.threshold ? 'border-red-300' : 'border-gray-300'
+                }`}
+              />
+              {errors.threshold && (
+                <p className="mt-1 text-sm text-red-600">{errors.threshold}</p>
+              )}
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            New products in this category start with these; products already in it keep their own
+          </p>
+
+          {errors.form && (
+            <p className="text-sm text-red-600">{errors.form}</p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              type="button"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              type="submit"
+              isLoading={isSubmitting}
+            >
+              {existingCategory ? 'Update Category' : 'Add Category'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryForm;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { Edit, Trash2, Plus, FolderTree } from 'lucide-react';
+import Button from '../ui/Button';
+import CategoryForm from './CategoryForm';
+import { getCategoryIds, getCategoryTree } from '../../utils/categories';
+
+const CategoryList: React.FC = () => {
+  const { categories, products, deleteCategory } = useAppContext();
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [addingSubcategoryTo, setAddingSubcategoryTo] = useState<string | null>(null);
+  const [editingCategory, setEditingCategory] = useState<string | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+  // Products in the category or any of its subcategories; variants are counted under their parent
+  const getProductCount = (categoryId: string) => {
+    const categoryIds = getCategoryIds(categories, categoryId);
+    return products.filter((product) => !product.parentId && categoryIds.includes(product.categoryId)).length;
+  };
+
+  // Handle actual delete
+  const handleDelete = async (id: string) => {
+    const serverErrors = await deleteCategory(id);
+    setDeleteConfirmId(null);
+    if (serverErrors.form) {
+      alert(serverErrors.form);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      {/* Header section */}
+      <div className="px-4 py-4 sm:px-6 border-b border-gray-200 flex flex-wrap items-center justify-between">
+        <div className="flex items-center">
+          <FolderTree size={20} className="mr-2 text-gray-500" />
+          <h3 className="text-lg font-medium text-gray-900">Categories</h3>
+        </div>
+
+        <Button
+          variant="primary"
+          size="md"
+          icon={<Plus size={16} />}
+          onClick={() => setShowAddModal(true)}
+        >
+          Add Category
+        </Button>
+      </div>
+
+      {/* Category table, subcategories indented under their parents */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Category
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Default GST
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Default Threshold
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Products
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {categories.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No categories yet. Add one before adding products.
+                </td>
+              </tr>
+            ) : (
+              getCategoryTree(categories).map(({ category, depth }) => (
+                <tr key={category.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                      {category.name}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {category.gstRate !== undefined ? `${category.gstRate}%` : '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {category.threshold ?? '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {getProductCount(category.id)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        onClick={() => setAddingSubcategoryTo(category.id)}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="Add subcategory"
+                      >
+                        <Plus size={18} />
+                      </button>
+                      <button
+                        onClick={() => setEditingCategory(category.id)}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        <Edit size={18} />
+                      </button>
+                      <button
+                        onClick={() => setDeleteConfirmId(category.id)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Add category modal */}
+      {showAddModal && (
+        <CategoryForm
+          onClose={() => setShowAddModal(false)}
+        />
+      )}
+
+      {/* Add subcategory modal */}
+      {addingSubcategoryTo && (
+        <CategoryForm
+          parentId={addingSubcategoryTo}
+          onClose={() => setAddingSubcategoryTo(null)}
+        />
+      )}
+
+      {/* Edit category modal */}
+      {editingCategory && (
+        <CategoryForm
+          categoryId={editingCategory}
+          onClose={() => setEditingCategory(null)}
+        />
+      )}
+
+      {/* Delete confirmation modal */}
+      {deleteConfirmId && (
+        <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Confirm Delete</h3>
+            <p className="text-gray-500 mb-6">
+              Are you sure you want to delete this category? Categories with products or subcategories cannot be deleted.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <Button
+                variant="outline"
+                onClick={() => setDeleteConfirmId(null)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="danger"
+                onClick={() => handleDelete(deleteConfirmId)}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CategoryList;
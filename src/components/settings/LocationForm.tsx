@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { X } from 'lucide-react';
+import Button from '../ui/Button';
+
+interface LocationFormProps {
+  locationId?: string;
+  onClose: () => void;
+}
+
+const LocationForm: React.FC<LocationFormProps> = ({ locationId, onClose }) => {
+  const { locations, addLocation, updateLocation } = useAppContext();
+  const existingLocation = locations.find((l) => l.id === locationId);
+
+  // Initial form state, prefilled when editing
+  const [formData, setFormData] = useState(() => ({
+    name: existingLocation?.name || '',
+    address: existingLocation?.address || '',
+    isDefault: existingLocation?.isDefault || false,
+  }));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Handle form input changes
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+
+    setFormData({
+      ...formData,
+      [name]: value,
+    });
+
+    // Clear error when field is edited
+    if (errors[name]) {
+      setErrors({
+        ...errors,
+        [name]: '',
+      });
+    }
+  };
+
+  // Form validation
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const locationData = {
+        name: formData.name,
+        address: formData.address || undefined,
+        isDefault: formData.isDefault,
+      };
+      const serverErrors = existingLocation
+        ? await updateLocation({ ...existingLocation, ...locationData })
+        : await addLocation(locationData);
+
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
+      }
+
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-md w-full">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">
+            {existingLocation ? 'Edit Location' : 'Add Location'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+              Name*
+            </label>
+            <input
+              type="text"
+              id="name"
+              name="name"
+              value={formData.name}
+              onChange={handleChange}
+              placeholder="e.g. Main Store, Godown"
+              className={`block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                errors.name ? 'border-red-300' : 'border-gray-300'
+              }`}
+            />
+            {errors.name && (
+              <p className="mt-1 text-sm text-red-600">{errors.name}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-1">
+              Address
+            </label>
+            <textarea
+              id="address"
+              name="address"
+              rows={2}
+              value={formData.address}
+              onChange={handleChange}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.isDefault}
+                onChange={(e) => setFormData({ ...formData, isDefault: e.target.checked })}
+                disabled={existingLocation?.isDefault}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Default location for users without one of their own
+            </label>
+            {errors.isDefault && (
+              <p className="mt-1 text-sm text-red-600">{errors.isDefault}</p>
+            )}
+          </div>
+
+          {errors.form && (
+            <p className="text-sm text-red-600">{errors.form}</p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              type="button"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              type="submit"
+              isLoading={isSubmitting}
+            >
+              {existingLocation ? 'Update Location' : 'Add Location'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default LocationForm;
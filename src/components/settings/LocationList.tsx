@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { Edit, Trash2, Plus, MapPin } from 'lucide-react';
+import Button from '../ui/Button';
+import LocationForm from './LocationForm';
+
+const LocationList: React.FC = () => {
+  const { locations, products, users, deleteLocation } = useAppContext();
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<string | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+  const getUnitsOnHand = (locationId: string) => products.reduce(
+    (sum, product) => sum + (product.stock.find((stock) => stock.locationId === locationId)?.quantity ?? 0),
+    0
+  );
+
+  // Handle actual delete
+  const handleDelete = async (id: string) => {
+    const serverErrors = await deleteLocation(id);
+    setDeleteConfirmId(null);
+    if (serverErrors.form) {
+      alert(serverErrors.form);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      {/* Header section */}
+      <div className="px-4 py-4 sm:px-6 border-b border-gray-200 flex flex-wrap items-center justify-between">
+        <div className="flex items-center">
+          <MapPin size={20} className="mr-2 text-gray-500" />
+          <h3 className="text-lg font-medium text-gray-900">Locations</h3>
+        </div>
+
+        <Button
+          variant="primary"
+          size="md"
+          icon={<Plus size={16} />}
+          onClick={() => setShowAddModal(true)}
+        >
+          Add Location
+        </Button>
+      </div>
+
+      {/* Location table */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Location
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Units on Hand
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Users
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {locations.map((location) => (
+              <tr key={location.id} className="hover:bg-gray-50">
+                <td className="px-6 py-4">
+                  <div className="text-sm font-medium text-gray-900 flex items-center">
+                    {location.name}
+                    {location.isDefault && (
+                      <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                        Default
+                      </span>
+                    )}
+                  </div>
+                  {location.address && <div className="text-sm text-gray-500">{location.address}</div>}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                  {getUnitsOnHand(location.id)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                  {users.filter((user) => user.locationId === location.id).length}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      onClick={() => setEditingLocation(location.id)}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      <Edit size={18} />
+                    </button>
+                    {!location.isDefault && (
+                      <button
+                        onClick={() => setDeleteConfirmId(location.id)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Add location modal */}
+      {showAddModal && (
+        <LocationForm
+          onClose={() => setShowAddModal(false)}
+        />
+      )}
+
+      {/* Edit location modal */}
+      {editingLocation && (
+        <LocationForm
+          locationId={editingLocation}
+          onClose={() => setEditingLocation(null)}
+        />
+      )}
+
+      {/* Delete confirmation modal */}
+      {deleteConfirmId && (
+        <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Confirm Delete</h3>
+            <p className="text-gray-500 mb-6">
+              Are you sure you want to delete this location? Locations holding stock or with sales cannot be deleted.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <Button
+                variant="outline"
+                onClick={() => setDeleteConfirmId(null)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="danger"
+                onClick={() => handleDelete(deleteConfirmId)}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationList;
@@ -0,0 +1,297 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { CostingMethod, StoreSettings } from '../../types';
+import { COSTING_METHOD_LABELS } from '../../utils/stock';
+import { Store } from 'lucide-react';
+import Button from '../ui/Button';
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const StoreSettingsForm: React.FC = () => {
+  const { store, updateStore } = useAppContext();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [formData, setFormData] = useState({
+    ...store,
+    taxRates: store.taxRates.join(', '),
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  // The store profile may arrive after the page mounts on a fresh load
+  useEffect(() => {
+    setFormData({ ...store, taxRates: store.taxRates.join(', ') });
+  }, [store]);
+
+  const handleInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: ['fiscalYearStartMonth', 'defaultTaxRate', 'expiryAlertDays'].includes(name)
+        ? Number(value)
+        : ['gstin', 'invoicePrefix', 'creditNotePrefix'].includes(name) ? value.toUpperCase() : value,
+    }));
+    // Clear error when field is edited
+    if (errors[name]) {
+      setErrors(prev => ({
+        ...prev,
+        [name]: '',
+      }));
+    }
+  };
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        setFormData(prev => ({
+          ...prev,
+          logoUrl: reader.result as string,
+        }));
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const handleSave = async () => {
+    const taxRates = formData.taxRates
+      .split(',')
+      .map(rate => rate.trim())
+      .filter(Boolean)
+      .map(Number);
+
+    if (taxRates.some(rate => Number.isNaN(rate))) {
+      setErrors({ taxRates: 'Tax rates must be numbers separated by commas' });
+      return;
+    }
+
+    const settings: StoreSettings = {
+      ...formData,
+      tradeName: formData.tradeName || undefined,
+      addressLine2: formData.addressLine2 || undefined,
+      phone: formData.phone || undefined,
+      email: formData.email || undefined,
+      gstin: formData.gstin || undefined,
+      logoUrl: formData.logoUrl || undefined,
+      taxRates,
+    };
+
+    setIsLoading(true);
+    try {
+      const serverErrors = await updateStore(settings);
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
+      }
+      setErrors({});
+      alert('Store settings saved successfully!');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderInput = (name: keyof typeof formData, label: string, placeholder?: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">{label}</label>
+      <input
+        type="text"
+        name={name}
+        value={(formData[name] as string | undefined) || ''}
+        onChange={handleInputChange}
+        placeholder={placeholder}
+        className={`mt-1 block w-full rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${
+          errors[name] ? 'border-red-300' : 'border-gray-300'
+        }`}
+      />
+      {errors[name] && (
+        <p className="mt-1 text-sm text-red-600">{errors[name]}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center mb-4">
+          <Store size={20} className="text-gray-400" />
+          <h3 className="ml-2 text-lg font-medium text-gray-900">Store Settings</h3>
+        </div>
+
+        <div className="flex items-center mb-6">
+          {formData.logoUrl ? (
+            <div className="relative">
+              <img
+                src={formData.logoUrl}
+                alt={formData.legalName}
+                className="h-20 w-20 rounded-md object-contain border border-gray-200"
+              />
+              <button
+                onClick={() => {
+                  setFormData(prev => ({ ...prev, logoUrl: undefined }));
+                  if (fileInputRef.current) {
+                    fileInputRef.current.value = '';
+                  }
+                }}
+                className="absolute top-0 right-0 bg-red-500 text-white rounded-full p-1"
+              >
+                ×
+              </button>
+            </div>
+          ) : (
+            <div className="h-20 w-20 rounded-md bg-gray-200 flex items-center justify-center">
+              <span className="text-gray-500 text-xs">No logo</span>
+            </div>
+          )}
+          <div className="ml-6">
+            <input
+              type="file"
+              ref={fileInputRef}
+              accept="image/png,image/jpeg,image/webp,image/svg+xml"
+              onChange={handleLogoChange}
+              className="hidden"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Change Logo
+            </Button>
+            {errors.logoUrl && (
+              <p className="mt-1 text-sm text-red-600">{errors.logoUrl}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {renderInput('legalName', 'Legal Name*')}
+          {renderInput('tradeName', 'Trade Name')}
+          {renderInput('addressLine1', 'Address Line 1')}
+          {renderInput('addressLine2', 'Address Line 2')}
+          {renderInput('city', 'City')}
+          {renderInput('state', 'State')}
+          {renderInput('stateCode', 'State Code', 'e.g. 27')}
+          {renderInput('pincode', 'PIN Code')}
+          {renderInput('phone', 'Phone', '10-digit number')}
+          {renderInput('email', 'Email')}
+          {renderInput('gstin', 'GSTIN', '15-character GSTIN')}
+          {renderInput('currency', 'Currency', 'e.g. INR')}
+          {renderInput('locale', 'Locale', 'e.g. en-IN')}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Fiscal Year Starts In</label>
+            <select
+              name="fiscalYearStartMonth"
+              value={formData.fiscalYearStartMonth}
+              onChange={handleInputChange}
+              className={`mt-1 block w-full rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${
+                errors.fiscalYearStartMonth ? 'border-red-300' : 'border-gray-300'
+              }`}
+            >
+              {MONTHS.map((month, index) => (
+                <option key={month} value={index + 1}>
+                  {month}
+                </option>
+              ))}
+            </select>
+            {errors.fiscalYearStartMonth && (
+              <p className="mt-1 text-sm text-red-600">{errors.fiscalYearStartMonth}</p>
+            )}
+          </div>
+
+          {renderInput('invoicePrefix', 'Invoice Prefix', 'e.g. INV')}
+          {renderInput('creditNotePrefix', 'Credit Note Prefix', 'e.g. CN')}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Inventory Costing</label>
+            <select
+              name="costingMethod"
+              value={formData.costingMethod}
+              onChange={handleInputChange}
+              className={`mt-1 block w-full rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${
+                errors.costingMethod ? 'border-red-300' : 'border-gray-300'
+              }`}
+            >
+              {(Object.keys(COSTING_METHOD_LABELS) as CostingMethod[]).map((method) => (
+                <option key={method} value={method}>
+                  {COSTING_METHOD_LABELS[method]}
+                </option>
+              ))}
+            </select>
+            {errors.costingMethod ? (
+              <p className="mt-1 text-sm text-red-600">{errors.costingMethod}</p>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500">
+                Applies to stock going out from now on; past sales keep the cost they were booked at
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Expiry Alert (days)</label>
+            <input
+              type="number"
+              name="expiryAlertDays"
+              min="0"
+              max="365"
+              value={formData.expiryAlertDays}
+              onChange={handleInputChange}
+              className={`mt-1 block w-full rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${
+                errors.expiryAlertDays ? 'border-red-300' : 'border-gray-300'
+              }`}
+            />
+            {errors.expiryAlertDays ? (
+              <p className="mt-1 text-sm text-red-600">{errors.expiryAlertDays}</p>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500">
+                Batches expiring within this many days are flagged in notifications and the expiry report
+              </p>
+            )}
+          </div>
+
+          {renderInput('taxRates', 'Tax Rates (%)', 'e.g. 0, 5, 12, 18, 28')}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Default Tax Rate (%)</label>
+            <input
+              type="number"
+              name="defaultTaxRate"
+              min="0"
+              max="100"
+              step="0.01"
+              value={formData.defaultTaxRate}
+              onChange={handleInputChange}
+              className={`mt-1 block w-full rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${
+                errors.defaultTaxRate ? 'border-red-300' : 'border-gray-300'
+              }`}
+            />
+            {errors.defaultTaxRate && (
+              <p className="mt-1 text-sm text-red-600">{errors.defaultTaxRate}</p>
+            )}
+          </div>
+        </div>
+
+        {errors.form && (
+          <p className="mt-4 text-sm text-red-600">{errors.form}</p>
+        )}
+
+        <div className="mt-6">
+          <Button
+            variant="primary"
+            onClick={handleSave}
+            isLoading={isLoading}
+          >
+            Save Store Settings
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoreSettingsForm;
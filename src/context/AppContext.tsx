@@ -1,220 +1,1335 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { Product, Sale, Notification, User } from '../types';
-import { generateId } from '../utils/formatters';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
+import { Product, ProductVariantInput, StockLevel, Category, Location, StockMovement, NewStockAdjustment, StockCount, StockTransfer, NewStockTransfer, Sale, NewSaleReturn, Customer, CustomerPayment, Supplier, PurchaseOrder, NewPurchaseOrder, NewGoodsReceipt, SupplierBill, Notification, User, NewUser, UserPreferences, StoreSettings, InvoiceLayout, SalesReportFilters, Report, ReceivablesReport, InventoryValuation, ExpiryReport, NewStockBatch, SerialLookup, FieldErrors } from '../types';
+import { generateId, setFormatOptions } from '../utils/formatters';
+import { applyStockLevels, getLocationQuantity, getLocationThreshold } from '../utils/locations';
+import { describeExpiry, getBatchLabel, getExpiringBatches } from '../utils/batches';
 
 interface AppContextType {
   // State
   products: Product[];
+  categories: Category[];
+  locations: Location[];
   sales: Sale[];
+  customers: Customer[];
+  customerPayments: CustomerPayment[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  supplierBills: SupplierBill[];
+  stockCounts: StockCount[];
+  stockTransfers: StockTransfer[];
   notifications: Notification[];
+  users: User[];
   currentUser: User | null;
+  isAuthLoading: boolean;
+  preferences: UserPreferences;
+  store: StoreSettings;
   // Product methods
-  addProduct: (product: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>) => void;
-  updateProduct: (product: Product) => void;
-  deleteProduct: (id: string) => void;
+  addProduct: (
+    product: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>,
+    locationId?: string,
+    variants?: ProductVariantInput[],
+    openingBatch?: NewStockBatch
+  ) => Promise<FieldErrors>;
+  updateProduct: (product: Product, locationId?: string, variants?: ProductVariantInput[]) => Promise<FieldErrors>;
+  deleteProduct: (id: string) => Promise<FieldErrors>;
+  fetchStockMovements: (productId: string) => Promise<StockMovement[]>;
+  adjustStock: (productId: string, adjustment: NewStockAdjustment) => Promise<FieldErrors>;
+  // Category methods (admin only)
+  addCategory: (category: Omit<Category, 'id' | 'createdAt' | 'updatedAt'>) => Promise<FieldErrors>;
+  updateCategory: (category: Category) => Promise<FieldErrors>;
+  deleteCategory: (id: string) => Promise<FieldErrors>;
+  // Location methods (admin only)
+  addLocation: (location: Omit<Location, 'id' | 'createdAt' | 'updatedAt'>) => Promise<FieldErrors>;
+  updateLocation: (location: Location) => Promise<FieldErrors>;
+  deleteLocation: (id: string) => Promise<FieldErrors>;
+  // Stock transfer methods
+  createStockTransfer: (transfer: NewStockTransfer) => Promise<FieldErrors>;
+  receiveStockTransfer: (id: string) => Promise<FieldErrors>;
+  // Stock take methods
+  createStockCount: (locationId: string, categoryId?: string, notes?: string) => Promise<FieldErrors>;
+  saveStockCountItems: (id: string, items: { productId: string; countedQuantity: number | null }[]) => Promise<FieldErrors>;
+  submitStockCount: (id: string) => Promise<FieldErrors>;
+  reopenStockCount: (id: string) => Promise<FieldErrors>;
+  approveStockCount: (id: string, serials?: Record<string, string[]>) => Promise<FieldErrors>;
+  deleteStockCount: (id: string) => Promise<FieldErrors>;
   // Sale methods
-  addSale: (sale: Omit<Sale, 'id' | 'date'>) => void;
+  addSale: (sale: Omit<Sale, 'id' | 'invoiceNumber' | 'date' | 'returns' | 'paymentMethod' | 'changeDue'>, onCreated?: (sale: Sale) => void) => Promise<FieldErrors>;
+  addSaleReturn: (saleId: string, saleReturn: NewSaleReturn) => Promise<FieldErrors>;
+  fetchInvoicePdf: (saleId: string, layout: InvoiceLayout) => Promise<Blob | null>;
+  lookupSerial: (serialNumber: string) => Promise<SerialLookup[] | null>;
+  // Report methods
+  fetchSalesReport: (filters: SalesReportFilters) => Promise<Report | null>;
+  fetchReceivables: () => Promise<ReceivablesReport | null>;
+  fetchInventoryValuation: (asOf: string) => Promise<InventoryValuation | null>;
+  fetchExpiryReport: (days: number) => Promise<ExpiryReport | null>;
+  // Customer methods
+  addCustomer: (customer: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>) => Promise<FieldErrors>;
+  updateCustomer: (customer: Customer) => Promise<FieldErrors>;
+  deleteCustomer: (id: string) => Promise<FieldErrors>;
+  addCustomerPayment: (customerId: string, payment: Omit<CustomerPayment, 'id' | 'customerId' | 'date'>) => Promise<FieldErrors>;
+  // Purchasing methods
+  addSupplier: (supplier: Omit<Supplier, 'id' | 'createdAt' | 'updatedAt'>) => Promise<FieldErrors>;
+  updateSupplier: (supplier: Supplier) => Promise<FieldErrors>;
+  deleteSupplier: (id: string) => Promise<FieldErrors>;
+  addPurchaseOrder: (order: NewPurchaseOrder) => Promise<FieldErrors>;
+  updatePurchaseOrder: (id: string, order: NewPurchaseOrder) => Promise<FieldErrors>;
+  sendPurchaseOrder: (id: string) => Promise<FieldErrors>;
+  deletePurchaseOrder: (id: string) => Promise<FieldErrors>;
+  receivePurchaseOrder: (id: string, receipt: NewGoodsReceipt) => Promise<FieldErrors>;
+  addSupplierBill: (supplierId: string, bill: Omit<SupplierBill, 'id' | 'supplierId' | 'paidAt' | 'createdAt'>) => Promise<FieldErrors>;
+  paySupplierBill: (id: string) => Promise<FieldErrors>;
   // Notification methods
   markNotificationAsRead: (id: string) => void;
   clearNotifications: () => void;
   // User methods
   loginWithGoogle: (token: string) => Promise<boolean>;
+  loginWithPassword: (email: string, password: string) => Promise<boolean>;
   logout: () => void;
+  // Profile methods
+  updateProfile: (profile: Pick<User, 'name' | 'email' | 'phone'>) => Promise<FieldErrors>;
+  uploadAvatar: (avatar: string | null) => Promise<boolean>;
+  updatePreferences: (preferences: UserPreferences) => Promise<boolean>;
+  // Store methods
+  updateStore: (store: StoreSettings) => Promise<FieldErrors>;
+  // User administration methods (admin only)
+  addUser: (user: NewUser) => Promise<FieldErrors>;
+  updateUser: (id: string, changes: Pick<User, 'role' | 'locationId'> & { phone: string }) => Promise<FieldErrors>;
+  setUserActive: (id: string, active: boolean) => Promise<boolean>;
 }
 
 const API_URL = 'http://localhost:5000/api';
 
+// Shown until the store profile has loaded
+const DEFAULT_STORE: StoreSettings = {
+  legalName: 'My Store',
+  addressLine1: '',
+  city: '',
+  state: '',
+  stateCode: '',
+  pincode: '',
+  currency: 'INR',
+  locale: 'en-IN',
+  fiscalYearStartMonth: 4,
+  invoicePrefix: 'INV',
+  creditNotePrefix: 'CN',
+  costingMethod: 'fifo',
+  expiryAlertDays: 30,
+  defaultTaxRate: 18,
+  taxRates: [0, 5, 12, 18, 28],
+};
+
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
-export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [sales, setSales] = useState<Sale[]>([]);
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [customerPayments, setCustomerPayments] = useState<CustomerPayment[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [supplierBills, setSupplierBills] = useState<SupplierBill[]>([]);
+  const [stockCounts, setStockCounts] = useState<StockCount[]>([]);
+  const [stockTransfers, setStockTransfers] = useState<StockTransfer[]>([]);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [preferences, setPreferences] = useState<UserPreferences>({
+    notifications: true,
+    stockAlerts: true,
+  });
+  const [store, setStore] = useState<StoreSettings>(DEFAULT_STORE);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  // True until the session stored from a previous visit has been checked
+  const [isAuthLoading, setIsAuthLoading] = useState(() => !!localStorage.getItem('token'));
+
+  // In-flight refresh, shared so concurrent 401s trigger a single refresh
+  const refreshRequest = useRef<Promise<boolean> | null>(null);
+
+  const startSession = (data: { token: string; refreshToken: string; user: User }) => {
+    localStorage.setItem('token', data.token);
+    localStorage.setItem('refreshToken', data.refreshToken);
+    setCurrentUser(data.user);
+  };
+
+  const clearSession = useCallback(() => {
+    localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+    setCurrentUser(null);
+  }, []);
+
+  // Exchange the stored refresh token for a new access token
+  const refreshSession = useCallback((): Promise<boolean> => {
+    if (!refreshRequest.current) {
+      refreshRequest.current = (async () => {
+        const refreshToken = localStorage.getItem('refreshToken');
+        if (!refreshToken) return false;
+
+        try {
+          const response = await fetch(`${API_URL}/auth/refresh`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ refreshToken })
+          });
+
+          if (!response.ok) return false;
+
+          const data = await response.json();
+          localStorage.setItem('token', data.token);
+          localStorage.setItem('refreshToken', data.refreshToken);
+          return true;
+        } catch (error) {
+          console.error('Failed to refresh session:', error);
+          return false;
+        }
+      })().finally(() => {
+        refreshRequest.current = null;
+      });
+    }
+    return refreshRequest.current;
+  }, []);
+
+  // fetch with the access token attached, retried once after a silent refresh on 401;
+  // a 403 is a permission denial and is returned as is
+  const authFetch = useCallback(async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const send = () => fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        'Authorization': `Bearer ${localStorage.getItem('token')}`
+      }
+    });
+
+    const response = await send();
+    if (response.status !== 401) {
+      return response;
+    }
+
+    if (await refreshSession()) {
+      return send();
+    }
+
+    clearSession();
+    return response;
+  }, [refreshSession, clearSession]);
+
+  const fetchUserProfile = useCallback(async () => {
+    try {
+      const response = await authFetch(`${API_URL}/users/profile`);
+
+      if (response.ok) {
+        const userData = await response.json();
+        setCurrentUser(userData);
+      } else {
+        clearSession();
+      }
+    } catch (error) {
+      console.error('Failed to fetch user profile:', error);
+      clearSession();
+    }
+  }, [authFetch, clearSession]);
+
+  // Check authentication status on mount
+  useEffect(() => {
+    if (localStorage.getItem('token')) {
+      fetchUserProfile().finally(() => setIsAuthLoading(false));
+    }
+  }, [fetchUserProfile]);
+
+  const loginWithGoogle = async (token: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`${API_URL}/auth/google-login`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ token })
+      });
+
+      if (response.ok) {
+        startSession(await response.json());
+        return true;
+      }
+      return false;
+    } catch (error) {
+      console.error('Google login failed:', error);
+      return false;
+    }
+  };
+
+  const loginWithPassword = async (email: string, password: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`${API_URL}/auth/login`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ email, password })
+      });
+
+      if (response.ok) {
+        startSession(await response.json());
+        return true;
+      }
+      return false;
+    } catch (error) {
+      console.error('Password login failed:', error);
+      return false;
+    }
+  };
+
+  const logout = () => {
+    // Revoke the refresh token server-side; the local session ends regardless
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (refreshToken) {
+      fetch(`${API_URL}/auth/logout`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ refreshToken })
+      }).catch((error) => console.error('Failed to revoke session:', error));
+    }
+    clearSession();
+  };
+
+  // Product management methods
+  // The opening stock goes to the given location, or the user's own, in the lot given for a batch-tracked product
+  const addProduct = async (
+    productData: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>,
+    locationId?: string,
+    variants?: ProductVariantInput[],
+    openingBatch?: NewStockBatch
+  ): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/products`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ ...productData, locationId, variants, openingBatch })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setProducts([...products, data.product, ...data.variants]);
+        return {};
+      }
+      return data.errors || { form: data.message || 'Failed to add product' };
+    } catch (error) {
+      console.error('Failed to add product:', error);
+      return { form: 'Failed to add product' };
+    }
+  };
+
+  // New variants get their opening stock at the location given, or the user's own
+  const updateProduct = async (
+    updatedProduct: Product,
+    locationId?: string,
+    variants?: ProductVariantInput[]
+  ): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/products/${updatedProduct.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ ...updatedProduct, locationId, variants })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        // Variants may have been added or removed, so the parent's family is replaced as a whole
+        const others = products.filter((product) =>
+          product.id !== data.product.id && product.parentId !== data.product.id
+        );
+        setProducts([...others, data.product, ...data.variants]);
+        return {};
+      }
+      return data.errors || { form: data.message || 'Failed to update product' };
+    } catch (error) {
+      console.error('Failed to update product:', error);
+      return { form: 'Failed to update product' };
+    }
+  };
+
+  const deleteProduct = async (id: string): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/products/${id}`, {
+        method: 'DELETE'
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setProducts(products.filter((product) => product.id !== id && product.parentId !== id));
+        return {};
+      }
+      return { form: data.message || 'Failed to delete product' };
+    } catch (error) {
+      console.error('Failed to delete product:', error);
+      return { form: 'Failed to delete product' };
+    }
+  };
+
+  // Stock ledger for one product, loaded on demand since it grows with every sale
+  const fetchStockMovements = useCallback(async (productId: string): Promise<StockMovement[]> => {
+    try {
+      const response = await authFetch(`${API_URL}/products/${productId}/movements`);
+      if (response.ok) {
+        return await response.json();
+      }
+      return [];
+    } catch (error) {
+      console.error('Failed to fetch stock movements:', error);
+      return [];
+    }
+  }, [authFetch]);
+
+  const adjustStock = async (productId: string, adjustment: NewStockAdjustment): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/products/${productId}/adjustments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(adjustment)
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        return data.errors || { form: data.message || 'Failed to adjust stock' };
+      }
+
+      setProducts(applyStockLevels(products, [data.product]));
+      return {};
+    } catch (error) {
+      console.error('Failed to adjust stock:', error);
+      return { form: 'Failed to adjust stock' };
+    }
+  };
+
+  // Category methods
+  const addCategory = async (categoryData: Omit<Category, 'id' | 'createdAt' | 'updatedAt'>): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/categories`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(categoryData)
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setCategories([...categories, data]);
+        return {};
+      }
+      return data.errors || { form: data.message || 'Failed to add category' };
+    } catch (error) {
+      console.error('Failed to add category:', error);
+      return { form: 'Failed to add category' };
+    }
+  };
+
+  const updateCategory = async (updatedCategory: Category): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/categories/${updatedCategory.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(updatedCategory)
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setCategories(categories.map((category) => (category.id === data.id ? data : category)));
+        return {};
+      }
+      return data.errors || { form: data.message || 'Failed to update category' };
+    } catch (error) {
+      console.error('Failed to update category:', error);
+      return { form: 'Failed to update category' };
+    }
+  };
+
+  const deleteCategory = async (id: string): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/categories/${id}`, {
+        method: 'DELETE'
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setCategories(categories.filter((category) => category.id !== id));
+        return {};
+      }
+      return { form: data.message || 'Failed to delete category' };
+    } catch (error) {
+      console.error('Failed to delete category:', error);
+      return { form: 'Failed to delete category' };
+    }
+  };
+
+  // Location methods; saving one as the default changes the others, so the server sends them all back
+  const saveLocation = async (
+    location: Omit<Location, 'id' | 'createdAt' | 'updatedAt'>,
+    id?: string
+  ): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(id ? `${API_URL}/locations/${id}` : `${API_URL}/locations`, {
+        method: id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(location)
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setLocations(data.locations);
+        return {};
+      }
+      return data.errors || { form: data.message || 'Failed to save location' };
+    } catch (error) {
+      console.error('Failed to save location:', error);
+      return { form: 'Failed to save location' };
+    }
+  };
+
+  const addLocation = (location: Omit<Location, 'id' | 'createdAt' | 'updatedAt'>) => saveLocation(location);
+
+  const updateLocation = (location: Location) => saveLocation(location, location.id);
+
+  const deleteLocation = async (id: string): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/locations/${id}`, {
+        method: 'DELETE'
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setLocations(locations.filter((location) => location.id !== id));
+        return {};
+      }
+      return { form: data.message || 'Failed to delete location' };
+    } catch (error) {
+      console.error('Failed to delete location:', error);
+      return { form: 'Failed to delete location' };
+    }
+  };
+
+  // Stock transfer methods
+  const createStockTransfer = async (transfer: NewStockTransfer): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/stock-transfers`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(transfer)
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        return data.errors || { form: data.message || 'Failed to dispatch transfer' };
+      }
+
+      setStockTransfers([data.stockTransfer, ...stockTransfers]);
+      setProducts(applyStockLevels(products, data.products));
+      return {};
+    } catch (error) {
+      console.error('Failed to dispatch transfer:', error);
+      return { form: 'Failed to dispatch transfer' };
+    }
+  };
+
+  const receiveStockTransfer = async (id: string): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/stock-transfers/${id}/receive`, {
+        method: 'POST'
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        return { form: data.message || 'Failed to receive transfer' };
+      }
+
+      setStockTransfers(stockTransfers.map((transfer) =>
+        transfer.id === data.stockTransfer.id ? data.stockTransfer : transfer
+      ));
+      setProducts(applyStockLevels(products, data.products));
+      return {};
+    } catch (error) {
+      console.error('Failed to receive transfer:', error);
+      return { form: 'Failed to receive transfer' };
+    }
+  };
+
+  // Stock take methods
+  const createStockCount = async (locationId: string, categoryId?: string, notes?: string): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/stock-counts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ locationId, categoryId, notes })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setStockCounts([data, ...stockCounts]);
+        return {};
+      }
+      return data.errors || { form: data.message || 'Failed to start stock count' };
+    } catch (error) {
+      console.error('Failed to start stock count:', error);
+      return { form: 'Failed to start stock count' };
+    }
+  };
+
+  const saveStockCountItems = async (
+    id: string,
+    items: { productId: string; countedQuantity: number | null }[]
+  ): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/stock-counts/${id}/items`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ items })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setStockCounts(stockCounts.map((count) => (count.id === data.id ? data : count)));
+        return {};
+      }
+      return data.errors || { form: data.message || 'Failed to save counts' };
+    } catch (error) {
+      console.error('Failed to save counts:', error);
+      return { form: 'Failed to save counts' };
+    }
+  };
+
+  // Submit for approval or send back for recounting
+  const changeStockCountStatus = async (id: string, action: 'submit' | 'reopen'): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/stock-counts/${id}/${action}`, {
+        method: 'POST'
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setStockCounts(stockCounts.map((count) => (count.id === data.id ? data : count)));
+        return {};
+      }
+      return data.errors || { form: data.message || `Failed to ${action} stock count` };
+    } catch (error) {
+      console.error(`Failed to ${action} stock count:`, error);
+      return { form: `Failed to ${action} stock count` };
+    }
+  };
+
+  const submitStockCount = (id: string) => changeStockCountStatus(id, 'submit');
+
+  const reopenStockCount = (id: string) => changeStockCountStatus(id, 'reopen');
+
+  // Approve a count and take in the corrected stock levels (admin only)
+  // Serialized products name the units their variance adds or removes, keyed by product
+  const approveStockCount = async (id: string, serials: Record<string, string[]> = {}): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/stock-counts/${id}/approve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ serials })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        return data.errors || { form: data.message || 'Failed to post stock count' };
+      }
+
+      setStockCounts(stockCounts.map((count) => (count.id === data.stockCount.id ? data.stockCount : count)));
+      setProducts(applyStockLevels(products, data.products));
+      return {};
+    } catch (error) {
+      console.error('Failed to post stock count:', error);
+      return { form: 'Failed to post stock count' };
+    }
+  };
+
+  const deleteStockCount = async (id: string): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/stock-counts/${id}`, {
+        method: 'DELETE'
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setStockCounts(stockCounts.filter((count) => count.id !== id));
+        return {};
+      }
+      return { form: data.message || 'Failed to delete stock count' };
+    } catch (error) {
+      console.error('Failed to delete stock count:', error);
+      return { form: 'Failed to delete stock count' };
+    }
+  };
+
+  // Sale management methods
+  const addSale = async (
+    saleData: Omit<Sale, 'id' | 'invoiceNumber' | 'date' | 'returns' | 'paymentMethod' | 'changeDue'>,
+    onCreated?: (sale: Sale) => void
+  ): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/sales`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(saleData)
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        if (data.code === 'INSUFFICIENT_STOCK') {
+          return { products: `Only ${data.available} of ${data.productName} left in stock` };
+        }
+        return data.errors || { form: data.message || 'Failed to create sale' };
+      }
+
+      setSales((prev) => [data.sale, ...prev]);
+
+      // Customers can be created along with the sale
+      const customer: Customer | undefined = data.customer;
+      if (customer && !customers.some((c) => c.id === customer.id)) {
+        setCustomers([...customers, customer]);
+      }
+
+      // Apply the stock levels the server settled on
+      const updatedProducts = applyStockLevels(products, data.products);
+
+      // Alert on what is left at the location the sale was made from
+      const newNotifications: Notification[] = [];
+      (data.products as StockLevel[]).forEach((stock) => {
+        const product = updatedProducts.find((p) => p.id === stock.id);
+        if (!product) return;
+
+        const quantity = getLocationQuantity(product, data.sale.locationId);
+        if (quantity <= getLocationThreshold(product, data.sale.locationId) && quantity > 0) {
+          newNotifications.push({
+            id: generateId(),
+            title: 'Low Stock Alert',
+            message: `${product.name} is running low on stock (${quantity} remaining)`,
+            type: 'warning',
+            read: false,
+            date: new Date(),
+          });
+        } else if (quantity <= 0) {
+          newNotifications.push({
+            id: generateId(),
+            title: 'Out of Stock Alert',
+            message: `${product.name} is now out of stock!`,
+            type: 'error',
+            read: false,
+            date: new Date(),
+          });
+        }
+      });
+
+      setProducts(updatedProducts);
+      if (newNotifications.length > 0 && preferences.notifications && preferences.stockAlerts) {
+        setNotifications([...newNotifications, ...notifications]);
+      }
+      onCreated?.(data.sale);
+      return {};
+    } catch (error) {
+      console.error('Failed to add sale:', error);
+      return { form: 'Failed to create sale' };
+    }
+  };
+
+  const addSaleReturn = async (saleId: string, saleReturn: NewSaleReturn): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/sales/${saleId}/returns`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(saleReturn)
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        return data.errors || { form: data.message || 'Failed to record return' };
+      }
+
+      // The server sends back the sale with its returns and the restocked quantities
+      setSales(sales.map((sale) => (sale.id === saleId ? data.sale : sale)));
+      setProducts(applyStockLevels(products, data.products));
+      return {};
+    } catch (error) {
+      console.error('Failed to record return:', error);
+      return { form: 'Failed to record return' };
+    }
+  };
+
+  // Sales figures are worked out by the server from the sales, returns and collections in range
+  const fetchSalesReport = useCallback(async (filters: SalesReportFilters): Promise<Report | null> => {
+    try {
+      const query = new URLSearchParams({ startDate: filters.startDate, endDate: filters.endDate });
+      if (filters.categoryId) query.set('categoryId', filters.categoryId);
+      if (filters.locationId) query.set('locationId', filters.locationId);
+      if (filters.groupVariants) query.set('groupVariants', 'true');
+      const response = await authFetch(`${API_URL}/reports/summary?${query}`);
+      return response.ok ? await response.json() : null;
+    } catch (error) {
+      console.error('Failed to fetch sales report:', error);
+      return null;
+    }
+  }, [authFetch]);
+
+  // Receivables are aged on the server as of today, from every credit sale, return and collection
+  const fetchReceivables = useCallback(async (): Promise<ReceivablesReport | null> => {
+    try {
+      const response = await authFetch(`${API_URL}/reports/receivables`);
+      return response.ok ? await response.json() : null;
+    } catch (error) {
+      console.error('Failed to fetch receivables:', error);
+      return null;
+    }
+  }, [authFetch]);
+
+  // Valuation is rebuilt from the stock ledger on the server, so it is loaded on demand
+  const fetchInventoryValuation = useCallback(async (asOf: string): Promise<InventoryValuation | null> => {
+    try {
+      const response = await authFetch(`${API_URL}/reports/valuation?asOf=${asOf}`);
+      return response.ok ? await response.json() : null;
+    } catch (error) {
+      console.error('Failed to fetch inventory valuation:', error);
+      return null;
+    }
+  }, [authFetch]);
+
+  const fetchExpiryReport = useCallback(async (days: number): Promise<ExpiryReport | null> => {
+    try {
+      const response = await authFetch(`${API_URL}/reports/expiry?days=${days}`);
+      return response.ok ? await response.json() : null;
+    } catch (error) {
+      console.error('Failed to fetch expiry report:', error);
+      return null;
+    }
+  }, [authFetch]);
 
-  // Check authentication status on mount
-  useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      fetchUserProfile(token);
+  // Invoice PDFs are rendered by the server so they match what gets archived
+  const fetchInvoicePdf = async (saleId: string, layout: InvoiceLayout): Promise<Blob | null> => {
+    try {
+      const response = await authFetch(`${API_URL}/sales/${saleId}/invoice.pdf?layout=${layout}`);
+      return response.ok ? await response.blob() : null;
+    } catch (error) {
+      console.error('Failed to fetch invoice PDF:', error);
+      return null;
     }
-  }, []);
+  };
+
+  // Warranty claims start from the serial number on the unit
+  const lookupSerial = async (serialNumber: string): Promise<SerialLookup[] | null> => {
+    try {
+      const response = await authFetch(`${API_URL}/serials/${encodeURIComponent(serialNumber)}`);
+      return response.ok ? await response.json() : null;
+    } catch (error) {
+      console.error('Failed to look up serial number:', error);
+      return null;
+    }
+  };
 
-  const fetchUserProfile = async (token: string) => {
+  // Customer methods
+  const addCustomer = async (customerData: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>): Promise<FieldErrors> => {
     try {
-      const response = await fetch(`${API_URL}/users/profile`, {
+      const response = await authFetch(`${API_URL}/customers`, {
+        method: 'POST',
         headers: {
-          'Authorization': `Bearer ${token}`
-        }
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(customerData)
       });
 
+      const data = await response.json();
       if (response.ok) {
-        const userData = await response.json();
-        setCurrentUser(userData);
-      } else {
-        localStorage.removeItem('token');
-        setCurrentUser(null);
+        setCustomers([...customers, data]);
+        return {};
       }
+      return data.errors || { form: data.message || 'Failed to add customer' };
     } catch (error) {
-      console.error('Failed to fetch user profile:', error);
-      localStorage.removeItem('token');
-      setCurrentUser(null);
+      console.error('Failed to add customer:', error);
+      return { form: 'Failed to add customer' };
     }
   };
 
-  const loginWithGoogle = async (token: string): Promise<boolean> => {
+  const updateCustomer = async (updatedCustomer: Customer): Promise<FieldErrors> => {
     try {
-      const response = await fetch(`${API_URL}/auth/google-login`, {
+      const response = await authFetch(`${API_URL}/customers/${updatedCustomer.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(updatedCustomer)
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setCustomers(customers.map((customer) => (customer.id === data.id ? data : customer)));
+        return {};
+      }
+      return data.errors || { form: data.message || 'Failed to update customer' };
+    } catch (error) {
+      console.error('Failed to update customer:', error);
+      return { form: 'Failed to update customer' };
+    }
+  };
+
+  const deleteCustomer = async (id: string): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/customers/${id}`, {
+        method: 'DELETE'
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setCustomers(customers.filter((customer) => customer.id !== id));
+        return {};
+      }
+      return { form: data.message || 'Failed to delete customer' };
+    } catch (error) {
+      console.error('Failed to delete customer:', error);
+      return { form: 'Failed to delete customer' };
+    }
+  };
+
+  // Record money collected against a customer's credit balance
+  const addCustomerPayment = async (
+    customerId: string,
+    payment: Omit<CustomerPayment, 'id' | 'customerId' | 'date'>
+  ): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/customers/${customerId}/payments`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ token })
+        body: JSON.stringify(payment)
       });
 
+      const data = await response.json();
       if (response.ok) {
-        const data = await response.json();
-        localStorage.setItem('token', data.token);
-        setCurrentUser(data.user);
-        return true;
+        setCustomerPayments([data, ...customerPayments]);
+        return {};
       }
-      return false;
+      return data.errors || { form: data.message || 'Failed to record payment' };
     } catch (error) {
-      console.error('Google login failed:', error);
-      return false;
+      console.error('Failed to record payment:', error);
+      return { form: 'Failed to record payment' };
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem('token');
-    setCurrentUser(null);
+  // Supplier methods
+  const addSupplier = async (supplierData: Omit<Supplier, 'id' | 'createdAt' | 'updatedAt'>): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/suppliers`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(supplierData)
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSuppliers([...suppliers, data]);
+        return {};
+      }
+      return data.errors || { form: data.message || 'Failed to add supplier' };
+    } catch (error) {
+      console.error('Failed to add supplier:', error);
+      return { form: 'Failed to add supplier' };
+    }
   };
 
-  // Product management methods
-  const addProduct = async (productData: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const updateSupplier = async (updatedSupplier: Supplier): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/suppliers/${updatedSupplier.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(updatedSupplier)
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSuppliers(suppliers.map((supplier) => (supplier.id === data.id ? data : supplier)));
+        return {};
+      }
+      return data.errors || { form: data.message || 'Failed to update supplier' };
+    } catch (error) {
+      console.error('Failed to update supplier:', error);
+      return { form: 'Failed to update supplier' };
+    }
+  };
+
+  const deleteSupplier = async (id: string): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/suppliers/${id}`, {
+        method: 'DELETE'
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSuppliers(suppliers.filter((supplier) => supplier.id !== id));
+        return {};
+      }
+      return { form: data.message || 'Failed to delete supplier' };
+    } catch (error) {
+      console.error('Failed to delete supplier:', error);
+      return { form: 'Failed to delete supplier' };
+    }
+  };
+
+  // Purchase order methods
+  const savePurchaseOrder = async (order: NewPurchaseOrder, id?: string): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(id ? `${API_URL}/purchase-orders/${id}` : `${API_URL}/purchase-orders`, {
+        method: id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(order)
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setPurchaseOrders(id
+          ? purchaseOrders.map((purchaseOrder) => (purchaseOrder.id === data.id ? data : purchaseOrder))
+          : [data, ...purchaseOrders]);
+        return {};
+      }
+      return data.errors || { form: data.message || 'Failed to save purchase order' };
+    } catch (error) {
+      console.error('Failed to save purchase order:', error);
+      return { form: 'Failed to save purchase order' };
+    }
+  };
+
+  const addPurchaseOrder = (order: NewPurchaseOrder) => savePurchaseOrder(order);
+
+  const updatePurchaseOrder = (id: string, order: NewPurchaseOrder) => savePurchaseOrder(order, id);
+
+  const sendPurchaseOrder = async (id: string): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/purchase-orders/${id}/send`, {
+        method: 'POST'
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setPurchaseOrders(purchaseOrders.map((purchaseOrder) => (purchaseOrder.id === data.id ? data : purchaseOrder)));
+        return {};
+      }
+      return { form: data.message || 'Failed to send purchase order' };
+    } catch (error) {
+      console.error('Failed to send purchase order:', error);
+      return { form: 'Failed to send purchase order' };
+    }
+  };
+
+  const deletePurchaseOrder = async (id: string): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/purchase-orders/${id}`, {
+        method: 'DELETE'
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setPurchaseOrders(purchaseOrders.filter((purchaseOrder) => purchaseOrder.id !== id));
+        return {};
+      }
+      return { form: data.message || 'Failed to delete purchase order' };
+    } catch (error) {
+      console.error('Failed to delete purchase order:', error);
+      return { form: 'Failed to delete purchase order' };
+    }
+  };
+
+  // Book a delivery against a purchase order and take in the new stock and cost prices
+  const receivePurchaseOrder = async (id: string, receipt: NewGoodsReceipt): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/purchase-orders/${id}/receipts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(receipt)
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        return data.errors || { form: data.message || 'Failed to receive goods' };
+      }
+
+      setPurchaseOrders(purchaseOrders.map((purchaseOrder) =>
+        purchaseOrder.id === data.purchaseOrder.id ? data.purchaseOrder : purchaseOrder
+      ));
+      setProducts(applyStockLevels(products, data.products));
+      return {};
+    } catch (error) {
+      console.error('Failed to receive goods:', error);
+      return { form: 'Failed to receive goods' };
+    }
+  };
+
+  // Supplier bill methods (admin only)
+  const addSupplierBill = async (
+    supplierId: string,
+    bill: Omit<SupplierBill, 'id' | 'supplierId' | 'paidAt' | 'createdAt'>
+  ): Promise<FieldErrors> => {
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`${API_URL}/products`, {
+      const response = await authFetch(`${API_URL}/suppliers/${supplierId}/bills`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
-        body: JSON.stringify(productData)
+        body: JSON.stringify(bill)
       });
 
+      const data = await response.json();
       if (response.ok) {
-        const newProduct = await response.json();
-        setProducts([...products, newProduct]);
+        setSupplierBills([data, ...supplierBills]);
+        return {};
       }
+      return data.errors || { form: data.message || 'Failed to record bill' };
     } catch (error) {
-      console.error('Failed to add product:', error);
+      console.error('Failed to record bill:', error);
+      return { form: 'Failed to record bill' };
+    }
+  };
+
+  const paySupplierBill = async (id: string): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/suppliers/bills/${id}/pay`, {
+        method: 'POST'
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSupplierBills(supplierBills.map((bill) => (bill.id === data.id ? data : bill)));
+        return {};
+      }
+      return { form: data.message || 'Failed to mark bill as paid' };
+    } catch (error) {
+      console.error('Failed to mark bill as paid:', error);
+      return { form: 'Failed to mark bill as paid' };
     }
   };
 
-  const updateProduct = async (updatedProduct: Product) => {
+  // Profile methods
+  const updateProfile = async (profile: Pick<User, 'name' | 'email' | 'phone'>): Promise<FieldErrors> => {
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`${API_URL}/products/${updatedProduct.id}`, {
+      const response = await authFetch(`${API_URL}/users/profile`, {
         method: 'PUT',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
-        body: JSON.stringify(updatedProduct)
+        body: JSON.stringify(profile)
       });
 
+      const data = await response.json();
       if (response.ok) {
-        const updated = products.map((product) =>
-          product.id === updatedProduct.id ? updatedProduct : product
-        );
-        setProducts(updated);
+        setCurrentUser(data);
+        return {};
       }
+      return data.errors || { form: data.message || 'Failed to update profile' };
     } catch (error) {
-      console.error('Failed to update product:', error);
+      console.error('Failed to update profile:', error);
+      return { form: 'Failed to update profile' };
     }
   };
 
-  const deleteProduct = async (id: string) => {
+  const uploadAvatar = async (avatar: string | null): Promise<boolean> => {
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`${API_URL}/products/${id}`, {
-        method: 'DELETE',
+      const response = await authFetch(`${API_URL}/users/profile/avatar`, {
+        method: 'PUT',
         headers: {
-          'Authorization': `Bearer ${token}`
-        }
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ avatar })
       });
 
       if (response.ok) {
-        setProducts(products.filter((product) => product.id !== id));
+        setCurrentUser(await response.json());
+        return true;
       }
+      return false;
     } catch (error) {
-      console.error('Failed to delete product:', error);
+      console.error('Failed to upload avatar:', error);
+      return false;
     }
   };
 
-  // Sale management methods
-  const addSale = async (saleData: Omit<Sale, 'id' | 'date'>) => {
+  const updatePreferences = async (newPreferences: UserPreferences): Promise<boolean> => {
+    try {
+      const response = await authFetch(`${API_URL}/users/profile/preferences`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(newPreferences)
+      });
+
+      if (response.ok) {
+        setPreferences(await response.json());
+        return true;
+      }
+      return false;
+    } catch (error) {
+      console.error('Failed to update preferences:', error);
+      return false;
+    }
+  };
+
+  // Formatters read the locale and currency outside of React, so sync them before rendering
+  const applyStore = (storeData: StoreSettings) => {
+    setFormatOptions({ locale: storeData.locale, currency: storeData.currency });
+    setStore(storeData);
+  };
+
+  // Store methods
+  const updateStore = async (storeData: StoreSettings): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/store`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(storeData)
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        applyStore(data);
+        return {};
+      }
+      return data.errors || { form: data.message || 'Failed to update store settings' };
+    } catch (error) {
+      console.error('Failed to update store settings:', error);
+      return { form: 'Failed to update store settings' };
+    }
+  };
+
+  // User administration methods
+  const addUser = async (userData: NewUser): Promise<FieldErrors> => {
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`${API_URL}/sales`, {
+      const response = await authFetch(`${API_URL}/users`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
-        body: JSON.stringify(saleData)
+        body: JSON.stringify(userData)
       });
 
+      const data = await response.json();
       if (response.ok) {
-        const newSale = await response.json();
-        setSales([...sales, newSale]);
-
-        // Update product quantities
-        const updatedProducts = [...products];
-        saleData.products.forEach((item) => {
-          const productIndex = updatedProducts.findIndex((p) => p.id === item.productId);
-          if (productIndex !== -1) {
-            const product = updatedProducts[productIndex];
-            const newQuantity = product.quantity - item.quantity;
-            updatedProducts[productIndex] = {
-              ...product,
-              quantity: newQuantity,
-              updatedAt: new Date(),
-            };
-
-            // Create low stock notification if needed
-            if (newQuantity <= product.threshold && newQuantity > 0) {
-              const notification: Notification = {
-                id: generateId(),
-                title: 'Low Stock Alert',
-                message: `${product.name} is running low on stock (${newQuantity} remaining)`,
-                type: 'warning',
-                read: false,
-                date: new Date(),
-              };
-              setNotifications([notification, ...notifications]);
-            } else if (newQuantity <= 0) {
-              const notification: Notification = {
-                id: generateId(),
-                title: 'Out of Stock Alert',
-                message: `${product.name} is now out of stock!`,
-                type: 'error',
-                read: false,
-                date: new Date(),
-              };
-              setNotifications([notification, ...notifications]);
-            }
-          }
-        });
-        
-        setProducts(updatedProducts);
+        setUsers([...users, data]);
+        return {};
       }
+      return data.errors || { form: data.message || 'Failed to add user' };
     } catch (error) {
-      console.error('Failed to add sale:', error);
+      console.error('Failed to add user:', error);
+      return { form: 'Failed to add user' };
+    }
+  };
+
+  const updateUser = async (
+    id: string,
+    changes: Pick<User, 'role' | 'locationId'> & { phone: string }
+  ): Promise<FieldErrors> => {
+    try {
+      const response = await authFetch(`${API_URL}/users/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(changes)
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setUsers(users.map((user) => (user.id === id ? data : user)));
+        return {};
+      }
+      return data.errors || { form: data.message || 'Failed to update user' };
+    } catch (error) {
+      console.error('Failed to update user:', error);
+      return { form: 'Failed to update user' };
+    }
+  };
+
+  const setUserActive = async (id: string, active: boolean): Promise<boolean> => {
+    try {
+      const response = await authFetch(`${API_URL}/users/${id}/${active ? 'reactivate' : 'deactivate'}`, {
+        method: 'POST'
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setUsers(users.map((user) => (user.id === id ? data : user)));
+        return true;
+      }
+      return false;
+    } catch (error) {
+      console.error('Failed to change user status:', error);
+      return false;
     }
   };
 
+  // Batches already warned about this session, so each alert shows once
+  const expiryAlertedIds = useRef(new Set<number>());
+
+  // Warn about batches that have expired or expire within the store's alert window
+  useEffect(() => {
+    if (!preferences.notifications || !preferences.stockAlerts) return;
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const newNotifications: Notification[] = [];
+    getExpiringBatches(products, store.expiryAlertDays, today).forEach(({ product, batch, daysLeft }) => {
+      if (expiryAlertedIds.current.has(batch.id)) return;
+      expiryAlertedIds.current.add(batch.id);
+
+      const location = locations.length > 1 ? locations.find((l) => l.id === batch.locationId) : undefined;
+      newNotifications.push({
+        id: generateId(),
+        title: daysLeft < 0 ? 'Expired Stock Alert' : 'Expiry Alert',
+        message: `${batch.quantity} of ${product.name} (${getBatchLabel(batch)}${
+          location ? ` at ${location.name}` : ''
+        }) ${describeExpiry(daysLeft)}`,
+        type: daysLeft < 0 ? 'error' : 'warning',
+        read: false,
+        date: new Date(),
+      });
+    });
+
+    if (newNotifications.length > 0) {
+      setNotifications((current) => [...newNotifications, ...current]);
+    }
+  }, [products, locations, store.expiryAlertDays, preferences]);
+
   // Notification management methods
   const markNotificationAsRead = (id: string) => {
     setNotifications(
@@ -231,50 +1346,188 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   // Load initial data
   useEffect(() => {
     const fetchData = async () => {
-      const token = localStorage.getItem('token');
-      if (!token) return;
+      if (!localStorage.getItem('token')) return;
 
       try {
+        // Fetch store profile first so amounts render in the right currency
+        const storeResponse = await authFetch(`${API_URL}/store`);
+        if (storeResponse.ok) {
+          const storeData: StoreSettings = await storeResponse.json();
+          setFormatOptions({ locale: storeData.locale, currency: storeData.currency });
+          setStore(storeData);
+        }
+
         // Fetch products
-        const productsResponse = await fetch(`${API_URL}/products`, {
-          headers: { 'Authorization': `Bearer ${token}` }
-        });
+        const productsResponse = await authFetch(`${API_URL}/products`);
         if (productsResponse.ok) {
           const productsData = await productsResponse.json();
           setProducts(productsData);
         }
 
+        // Fetch categories
+        const categoriesResponse = await authFetch(`${API_URL}/categories`);
+        if (categoriesResponse.ok) {
+          const categoriesData = await categoriesResponse.json();
+          setCategories(categoriesData);
+        }
+
+        // Fetch locations
+        const locationsResponse = await authFetch(`${API_URL}/locations`);
+        if (locationsResponse.ok) {
+          const locationsData = await locationsResponse.json();
+          setLocations(locationsData);
+        }
+
         // Fetch sales
-        const salesResponse = await fetch(`${API_URL}/sales`, {
-          headers: { 'Authorization': `Bearer ${token}` }
-        });
+        const salesResponse = await authFetch(`${API_URL}/sales`);
         if (salesResponse.ok) {
           const salesData = await salesResponse.json();
           setSales(salesData);
         }
+
+        // Fetch customers and the collections against their credit
+        const customersResponse = await authFetch(`${API_URL}/customers`);
+        if (customersResponse.ok) {
+          const customersData = await customersResponse.json();
+          setCustomers(customersData);
+        }
+
+        const customerPaymentsResponse = await authFetch(`${API_URL}/customers/payments`);
+        if (customerPaymentsResponse.ok) {
+          const customerPaymentsData = await customerPaymentsResponse.json();
+          setCustomerPayments(customerPaymentsData);
+        }
+
+        // Fetch suppliers and purchase orders
+        const suppliersResponse = await authFetch(`${API_URL}/suppliers`);
+        if (suppliersResponse.ok) {
+          const suppliersData = await suppliersResponse.json();
+          setSuppliers(suppliersData);
+        }
+
+        const purchaseOrdersResponse = await authFetch(`${API_URL}/purchase-orders`);
+        if (purchaseOrdersResponse.ok) {
+          const purchaseOrdersData = await purchaseOrdersResponse.json();
+          setPurchaseOrders(purchaseOrdersData);
+        }
+
+        // Fetch stock counts
+        const stockCountsResponse = await authFetch(`${API_URL}/stock-counts`);
+        if (stockCountsResponse.ok) {
+          const stockCountsData = await stockCountsResponse.json();
+          setStockCounts(stockCountsData);
+        }
+
+        // Fetch stock transfers
+        const stockTransfersResponse = await authFetch(`${API_URL}/stock-transfers`);
+        if (stockTransfersResponse.ok) {
+          const stockTransfersData = await stockTransfersResponse.json();
+          setStockTransfers(stockTransfersData);
+        }
+
+        // Fetch notification preferences
+        const preferencesResponse = await authFetch(`${API_URL}/users/profile/preferences`);
+        if (preferencesResponse.ok) {
+          const preferencesData = await preferencesResponse.json();
+          setPreferences(preferencesData);
+        }
+
+        // Fetch users and supplier bills for admins
+        if (currentUser?.role === 'admin') {
+          const usersResponse = await authFetch(`${API_URL}/users`);
+          if (usersResponse.ok) {
+            const usersData = await usersResponse.json();
+            setUsers(usersData);
+          }
+
+          const supplierBillsResponse = await authFetch(`${API_URL}/suppliers/bills`);
+          if (supplierBillsResponse.ok) {
+            const supplierBillsData = await supplierBillsResponse.json();
+            setSupplierBills(supplierBillsData);
+          }
+        }
       } catch (error) {
         console.error('Failed to fetch initial data:', error);
       }
     };
 
     fetchData();
-  }, [currentUser]);
+    // Reload only when a different user signs in, not on profile edits
+  }, [currentUser?.id, currentUser?.role, authFetch]);
 
   return (
     <AppContext.Provider
       value={{
         products,
+        categories,
+        locations,
         sales,
+        customers,
+        customerPayments,
+        suppliers,
+        purchaseOrders,
+        supplierBills,
+        stockCounts,
+        stockTransfers,
         notifications,
+        users,
         currentUser,
+        isAuthLoading,
+        preferences,
+        store,
         addProduct,
         updateProduct,
         deleteProduct,
+        fetchStockMovements,
+        adjustStock,
+        addCategory,
+        updateCategory,
+        deleteCategory,
+        addLocation,
+        updateLocation,
+        deleteLocation,
+        createStockTransfer,
+        receiveStockTransfer,
+        createStockCount,
+        saveStockCountItems,
+        submitStockCount,
+        reopenStockCount,
+        approveStockCount,
+        deleteStockCount,
         addSale,
+        addSaleReturn,
+        fetchInvoicePdf,
+        lookupSerial,
+        fetchSalesReport,
+        fetchReceivables,
+        fetchInventoryValuation,
+        fetchExpiryReport,
+        addCustomer,
+        updateCustomer,
+        deleteCustomer,
+        addCustomerPayment,
+        addSupplier,
+        updateSupplier,
+        deleteSupplier,
+        addPurchaseOrder,
+        updatePurchaseOrder,
+        sendPurchaseOrder,
+        deletePurchaseOrder,
+        receivePurchaseOrder,
+        addSupplierBill,
+        paySupplierBill,
         markNotificationAsRead,
         clearNotifications,
         loginWithGoogle,
+        loginWithPassword,
         logout,
+        updateProfile,
+        uploadAvatar,
+        updatePreferences,
+        updateStore,
+        addUser,
+        updateUser,
+        setUserActive,
       }}
     >
       {children}
@@ -1,5 +1,6 @@
-import { Product, Sale, Notification, User } from '../types';
+import { Product, Category, Location, Sale, SaleItem, Notification, User } from '../types';
 import { generateId } from '../utils/formatters';
+import { calculateLineTax, summarizeTax } from '../utils/gst';
 
 // Function to generate dates within the past month
 const getRandomDate = (daysAgo = 30) => {
@@ -8,17 +9,80 @@ const getRandomDate = (daysAgo = 30) => {
   return date;
 };
 
-// Mock products data
+// Mock locations data
+const locations: Location[] = [
+  {
+    id: generateId(),
+    name: 'Main Store',
+    isDefault: true,
+    createdAt: getRandomDate(90),
+    updatedAt: getRandomDate(90),
+  },
+];
+
+// Mock categories data; accessories and storage sit under electronics
+const electronicsId = generateId();
+const categories: Category[] = [
+  {
+    id: electronicsId,
+    name: 'Electronics',
+    gstRate: 18,
+    threshold: 5,
+    createdAt: getRandomDate(90),
+    updatedAt: getRandomDate(90),
+  },
+  {
+    id: generateId(),
+    name: 'Accessories',
+    parentId: electronicsId,
+    createdAt: getRandomDate(90),
+    updatedAt: getRandomDate(90),
+  },
+  {
+    id: generateId(),
+    name: 'Storage',
+    parentId: electronicsId,
+    createdAt: getRandomDate(90),
+    updatedAt: getRandomDate(90),
+  },
+  {
+    id: generateId(),
+    name: 'Furniture',
+    createdAt: getRandomDate(90),
+    updatedAt: getRandomDate(90),
+  },
+  {
+    id: generateId(),
+    name: 'Lighting',
+    createdAt: getRandomDate(90),
+    updatedAt: getRandomDate(90),
+  },
+  {
+    id: generateId(),
+    name: 'Stationery',
+    createdAt: getRandomDate(90),
+    updatedAt: getRandomDate(90),
+  },
+];
+
+// Find a mock category by name
+const categoryId = (name: string) => categories.find((category) => category.name === name)?.id || '';
+
+// Mock products data, all stocked at the main store
 const products: Product[] = [
   {
     id: generateId(),
     name: 'Laptop - ProBook 450',
     description: 'High-performance laptop for professionals',
-    category: 'Electronics',
+    categoryId: categoryId('Electronics'),
+    gstRate: 18,
     price: 58999,
     costPrice: 45000,
     quantity: 15,
     threshold: 5,
+    stock: [{ locationId: locations[0].id, quantity: 15 }],
+    tracksSerials: true,
+    warrantyMonths: 12,
     imageUrl: 'https://images.pexels.com/photos/18105/pexels-photo.jpg?auto=compress&cs=tinysrgb&w=800',
     createdAt: getRandomDate(60),
     updatedAt: getRandomDate(30),
@@ -27,11 +91,13 @@ const products: Product[] = [
     id: generateId(),
     name: 'Office Chair - Ergonomic',
     description: 'Comfortable ergonomic chair for office use',
-    category: 'Furniture',
+    categoryId: categoryId('Furniture'),
+    gstRate: 18,
     price: 12999,
     costPrice: 8500,
     quantity: 8,
     threshold: 3,
+    stock: [{ locationId: locations[0].id, quantity: 8 }],
     imageUrl: 'https://images.pexels.com/photos/1957477/pexels-photo-1957477.jpeg?auto=compress&cs=tinysrgb&w=800',
     createdAt: getRandomDate(45),
     updatedAt: getRandomDate(20),
@@ -40,11 +106,13 @@ const products: Product[] = [
     id: generateId(),
     name: 'Wireless Mouse',
     description: 'Bluetooth wireless mouse with long battery life',
-    category: 'Accessories',
+    categoryId: categoryId('Accessories'),
+    gstRate: 18,
     price: 1499,
     costPrice: 800,
     quantity: 25,
     threshold: 10,
+    stock: [{ locationId: locations[0].id, quantity: 25 }],
     imageUrl: 'https://images.pexels.com/photos/5054776/pexels-photo-5054776.jpeg?auto=compress&cs=tinysrgb&w=800',
     createdAt: getRandomDate(90),
     updatedAt: getRandomDate(15),
@@ -53,11 +121,13 @@ const products: Product[] = [
     id: generateId(),
     name: 'Desk Lamp - LED',
     description: 'Adjustable LED desk lamp with multiple brightness levels',
-    category: 'Lighting',
+    categoryId: categoryId('Lighting'),
+    gstRate: 18,
     price: 2499,
     costPrice: 1200,
     quantity: 18,
     threshold: 7,
+    stock: [{ locationId: locations[0].id, quantity: 18 }],
     imageUrl: 'https://images.pexels.com/photos/1112598/pexels-photo-1112598.jpeg?auto=compress&cs=tinysrgb&w=800',
     createdAt: getRandomDate(75),
     updatedAt: getRandomDate(10),
@@ -66,11 +136,13 @@ const products: Product[] = [
     id: generateId(),
     name: 'Notebook Set - Premium',
     description: 'Set of 3 premium hardcover notebooks',
-    category: 'Stationery',
+    categoryId: categoryId('Stationery'),
+    gstRate: 18,
     price: 899,
     costPrice: 450,
     quantity: 30,
     threshold: 15,
+    stock: [{ locationId: locations[0].id, quantity: 30 }],
     imageUrl: 'https://images.pexels.com/photos/733857/pexels-photo-733857.jpeg?auto=compress&cs=tinysrgb&w=800',
     createdAt: getRandomDate(50),
     updatedAt: getRandomDate(5),
@@ -79,11 +151,15 @@ const products: Product[] = [
     id: generateId(),
     name: 'Laser Printer - Monochrome',
     description: 'Fast and reliable monochrome laser printer',
-    category: 'Electronics',
+    categoryId: categoryId('Electronics'),
+    gstRate: 18,
     price: 15999,
     costPrice: 11000,
     quantity: 5,
     threshold: 2,
+    stock: [{ locationId: locations[0].id, quantity: 5 }],
+    tracksSerials: true,
+    warrantyMonths: 12,
     imageUrl: 'https://images.pexels.com/photos/6010432/pexels-photo-6010432.jpeg?auto=compress&cs=tinysrgb&w=800',
     createdAt: getRandomDate(40),
     updatedAt: getRandomDate(3),
@@ -92,129 +168,88 @@ const products: Product[] = [
     id: generateId(),
     name: 'External Hard Drive - 2TB',
     description: 'Portable external hard drive with 2TB storage',
-    category: 'Storage',
+    categoryId: categoryId('Storage'),
+    gstRate: 18,
     price: 6999,
     costPrice: 4500,
     quantity: 12,
     threshold: 4,
+    stock: [{ locationId: locations[0].id, quantity: 12 }],
+    tracksSerials: true,
+    warrantyMonths: 36,
     imageUrl: 'https://images.pexels.com/photos/117729/pexels-photo-117729.jpeg?auto=compress&cs=tinysrgb&w=800',
     createdAt: getRandomDate(35),
     updatedAt: getRandomDate(8),
   },
 ];
 
-// Mock sales data
+// Mock sales data, priced like the server does: GST included, intra-state
+const mockItem = (product: Product, quantity: number): SaleItem => {
+  const totalPrice = product.price * quantity;
+  return {
+    productId: product.id,
+    productName: product.name,
+    quantity,
+    unitPrice: product.price,
+    totalPrice,
+    gstRate: product.gstRate,
+    ...calculateLineTax(totalPrice, product.gstRate, false),
+    costAmount: product.costPrice * quantity,
+  };
+};
+
+let mockInvoiceSeq = 0;
+
+const mockSale = (
+  items: SaleItem[],
+  details: Pick<Sale, 'paymentMethod' | 'customerName' | 'customerPhone' | 'date' | 'notes'>
+): Sale => ({
+  id: generateId(),
+  invoiceNumber: `INV/2025-26/${String(++mockInvoiceSeq).padStart(6, '0')}`,
+  products: items,
+  totalAmount: items.reduce((sum, item) => sum + item.totalPrice, 0),
+  ...summarizeTax(items),
+  ...details,
+  payments: [{ method: details.paymentMethod, amount: items.reduce((sum, item) => sum + item.totalPrice, 0) }],
+  changeDue: 0,
+  returns: [],
+});
+
 const sales: Sale[] = [
-  {
-    id: generateId(),
-    products: [
-      {
-        productId: products[0].id,
-        productName: products[0].name,
-        quantity: 1,
-        unitPrice: products[0].price,
-        totalPrice: products[0].price,
-      },
-      {
-        productId: products[2].id,
-        productName: products[2].name,
-        quantity: 1,
-        unitPrice: products[2].price,
-        totalPrice: products[2].price,
-      },
-    ],
-    totalAmount: products[0].price + products[2].price,
+  mockSale([mockItem(products[0], 1), mockItem(products[2], 1)], {
     paymentMethod: 'Credit Card',
     customerName: 'Rahul Sharma',
     customerPhone: '9876543210',
     date: getRandomDate(25),
     notes: 'Business purchase',
-  },
-  {
-    id: generateId(),
-    products: [
-      {
-        productId: products[1].id,
-        productName: products[1].name,
-        quantity: 2,
-        unitPrice: products[1].price,
-        totalPrice: products[1].price * 2,
-      },
-    ],
-    totalAmount: products[1].price * 2,
+  }),
+  mockSale([mockItem(products[1], 2)], {
     paymentMethod: 'UPI',
     customerName: 'Priya Patel',
     customerPhone: '8765432109',
     date: getRandomDate(18),
     notes: 'Office setup',
-  },
-  {
-    id: generateId(),
-    products: [
-      {
-        productId: products[4].id,
-        productName: products[4].name,
-        quantity: 5,
-        unitPrice: products[4].price,
-        totalPrice: products[4].price * 5,
-      },
-      {
-        productId: products[2].id,
-        productName: products[2].name,
-        quantity: 3,
-        unitPrice: products[2].price,
-        totalPrice: products[2].price * 3,
-      },
-    ],
-    totalAmount: (products[4].price * 5) + (products[2].price * 3),
+  }),
+  mockSale([mockItem(products[4], 5), mockItem(products[2], 3)], {
     paymentMethod: 'Cash',
     customerName: 'Amit Kumar',
     customerPhone: '7654321098',
     date: getRandomDate(15),
     notes: 'Bulk purchase for new staff',
-  },
-  {
-    id: generateId(),
-    products: [
-      {
-        productId: products[3].id,
-        productName: products[3].name,
-        quantity: 2,
-        unitPrice: products[3].price,
-        totalPrice: products[3].price * 2,
-      },
-    ],
-    totalAmount: products[3].price * 2,
+  }),
+  mockSale([mockItem(products[3], 2)], {
     paymentMethod: 'Net Banking',
     customerName: 'Neha Singh',
     customerPhone: '6543210987',
     date: getRandomDate(10),
     notes: '',
-  },
-  {
-    id: generateId(),
-    products: [
-      {
-        productId: products[5].id,
-        productName: products[5].name,
-        quantity: 1,
-        unitPrice: products[5].price,
-        totalPrice: products[5].price,
-      },
-      {
-        productId: products[6].id,
-        productName: products[6].name,
-        quantity: 2,
-        unitPrice: products[6].price,
-        totalPrice: products[6].price * 2,
-      },
-    ],
-    totalAmount: products[5].price + (products[6].price * 2),
+  }),
+  mockSale([mockItem(products[5], 1), mockItem(products[6], 2)], {
     paymentMethod: 'Credit Card',
     customerName: 'Rajesh Gupta',
     date: getRandomDate(5),
     notes: 'Office equipment upgrade',
-  },
+  }),
 ];
 
 // Mock notifications
@@ -273,6 +308,8 @@ const users: User[] = [
 const currentUser = users[0]; // Default to admin user
 
 export default {
+  categories,
+  locations,
   products,
   sales,
   notifications,
@@ -0,0 +1,17 @@
+import React from 'react';
+import CustomerList from '../components/customers/CustomerList';
+
+const Customers: React.FC = () => {
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Customers</h1>
+        <p className="text-gray-600">Manage customers, purchase history and credit accounts</p>
+      </div>
+      
+      <CustomerList />
+    </div>
+  );
+};
+
+export default Customers;
\ No newline at end of file
@@ -1,6 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useAppContext } from '../context/AppContext';
-import { formatCurrency } from '../utils/formatters';
+import { formatCurrency, formatDate } from '../utils/formatters';
+import { getLocationQuantity, getLocationThreshold, isLowStock } from '../utils/locations';
+import { getStockedProducts } from '../utils/variants';
+import { getCategoryPath } from '../utils/categories';
 import { 
   ShoppingBag, 
   TrendingUp, 
@@ -15,17 +18,21 @@ import Button from '../components/ui/Button';
 import { useNavigate } from 'react-router-dom';
 
 const Dashboard: React.FC = () => {
-  const { products, sales, notifications } = useAppContext();
+  const { products, categories, locations, sales, notifications } = useAppContext();
   const navigate = useNavigate();
+  // Location the low stock list is for; empty checks the total across locations
+  const [lowStockLocationId, setLowStockLocationId] = useState('');
   
-  // Calculate dashboard stats
-  const totalProducts = products.length;
-  const lowStockCount = products.filter(p => p.quantity <= p.threshold).length;
+  // Calculate dashboard stats; variants count under their parent, but stock is kept per variant
+  const stockedProducts = getStockedProducts(products);
+  const totalProducts = products.filter(p => !p.parentId).length;
+  const lowStockCount = stockedProducts.filter(p => p.quantity <= p.threshold).length;
   const totalSales = sales.length;
   
-  // Calculate total revenue
+  // Calculate total revenue, net of refunds
   const totalRevenue = sales.reduce(
-    (sum, sale) => sum + sale.totalAmount,
+    (sum, sale) => sum + sale.totalAmount -
+      sale.returns.reduce((refunds, saleReturn) => refunds + saleReturn.totalAmount, 0),
     0
   );
   
@@ -34,10 +41,11 @@ const Dashboard: React.FC = () => {
     .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
     .slice(0, 5);
   
-  // Get low stock products
-  const lowStockProducts = products
-    .filter(p => p.quantity <= p.threshold)
-    .sort((a, b) => a.quantity - b.quantity)
+  // Get low stock products at the chosen location
+  const locationId = lowStockLocationId || undefined;
+  const lowStockProducts = stockedProducts
+    .filter(p => isLowStock(p, locationId))
+    .sort((a, b) => getLocationQuantity(a, locationId) - getLocationQuantity(b, locationId))
     .slice(0, 5);
   
   return (
@@ -110,11 +118,7 @@ const Dashboard: React.FC = () => {
                         {sale.customerName || 'Walk-in Customer'}
                       </p>
                       <p className="text-xs text-gray-500">
-                        {new Date(sale.date).toLocaleDateString('en-IN', {
-                          year: 'numeric',
-                          month: 'short',
-                          day: 'numeric',
-                        })}
+                        {formatDate(sale.date)}
                       </p>
                     </div>
                     <div className="text-right">
@@ -148,12 +152,28 @@ const Dashboard: React.FC = () => {
         <div className="bg-white rounded-lg shadow">
           <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
             <h3 className="text-lg font-medium text-gray-900">Low Stock Products</h3>
-            <button
-              onClick={() => navigate('/inventory')}
-              className="text-sm text-blue-600 hover:text-blue-800"
-            >
-              View All
-            </button>
+            <div className="flex items-center space-x-3">
+              {locations.length > 1 && (
+                <select
+                  value={lowStockLocationId}
+                  onChange={(e) => setLowStockLocationId(e.target.value)}
+                  className="block rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm py-1"
+                >
+                  <option value="">All Locations</option>
+                  {locations.map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={() => navigate('/inventory')}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                View All
+              </button>
+            </div>
           </div>
           
           <div className="divide-y divide-gray-200">
@@ -184,20 +204,20 @@ const Dashboard: React.FC = () => {
                           {product.name}
                         </p>
                         <p className="text-xs text-gray-500">
-                          {product.category}
+                          {getCategoryPath(categories, product.categoryId)}
                         </p>
                       </div>
                     </div>
                     <div className="text-right">
                       <p className={`text-sm font-semibold ${
-                        product.quantity === 0 
+                        getLocationQuantity(product, locationId) === 0 
                           ? 'text-red-600' 
                           : 'text-amber-600'
                       }`}>
-                        {product.quantity} in stock
+                        {getLocationQuantity(product, locationId)} in stock
                       </p>
                       <p className="text-xs text-gray-500">
-                        Threshold: {product.threshold}
+                        Threshold: {getLocationThreshold(product, locationId)}
                       </p>
                     </div>
                   </div>
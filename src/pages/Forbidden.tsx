@@ -0,0 +1,27 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import Button from '../components/ui/Button';
+
+const Forbidden: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="flex flex-col items-center justify-center py-16 text-center">
+      <div className="h-16 w-16 rounded-full bg-red-50 flex items-center justify-center">
+        <ShieldAlert size={32} className="text-red-600" />
+      </div>
+      <h1 className="mt-6 text-2xl font-bold text-gray-900">403 - Access Denied</h1>
+      <p className="mt-2 text-gray-600 max-w-md">
+        You do not have permission to view this page. Contact an administrator if you need access.
+      </p>
+      <div className="mt-6">
+        <Button variant="primary" onClick={() => navigate('/')}>
+          Back to Dashboard
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -1,5 +1,6 @@
 import React from 'react';
 import ProductList from '../components/inventory/ProductList';
+import StockTransferList from '../components/inventory/StockTransferList';
 
 const Inventory: React.FC = () => {
   return (
@@ -10,6 +11,10 @@ const Inventory: React.FC = () => {
       </div>
       
       <ProductList />
+
+      <div className="mt-6">
+        <StockTransferList />
+      </div>
     </div>
   );
 };
@@ -1,7 +1,8 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAppContext } from '../context/AppContext';
-import { useNavigate } from 'react-router-dom';
+import { Navigate, useNavigate, useSearchParams } from 'react-router-dom';
 import { ShoppingBag } from 'lucide-react';
+import Button from '../components/ui/Button';
 
 declare global {
   interface Window {
@@ -18,18 +19,29 @@ declare global {
 }
 
 const LoginPage: React.FC = () => {
-  const { loginWithGoogle } = useAppContext();
+  const { currentUser, loginWithGoogle, loginWithPassword } = useAppContext();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  
+  // Only follow same-origin paths so the parameter can't redirect off-site
+  const returnToParam = searchParams.get('returnTo') || '';
+  const returnTo = returnToParam.startsWith('/') && !returnToParam.startsWith('//') ? returnToParam : '/';
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
-    if (window.google) {
+    // The button container is not rendered while redirecting a signed-in user
+    const googleButton = document.getElementById('googleButton');
+    if (window.google && googleButton) {
       window.google.accounts.id.initialize({
         client_id: import.meta.env.VITE_GOOGLE_CLIENT_ID,
         callback: handleGoogleResponse,
       });
 
       window.google.accounts.id.renderButton(
-        document.getElementById('googleButton')!,
+        googleButton,
         { 
           theme: 'outline',
           size: 'large',
@@ -44,13 +56,40 @@ const LoginPage: React.FC = () => {
     try {
       const success = await loginWithGoogle(response.credential);
       if (success) {
-        navigate('/');
+        navigate(returnTo, { replace: true });
       }
     } catch (error) {
       console.error('Login failed:', error);
     }
   };
 
+  const handlePasswordLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email.trim() || !password) {
+      setError('Email and password are required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const success = await loginWithPassword(email.trim(), password);
+      if (success) {
+        navigate(returnTo, { replace: true });
+      } else {
+        setError('Invalid email or password');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (currentUser) {
+    return <Navigate to={returnTo} replace />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
       <div className="sm:mx-auto sm:w-full sm:max-w-md">
@@ -63,12 +102,61 @@ const LoginPage: React.FC = () => {
           ERP System Login
         </h2>
         <p className="mt-2 text-center text-sm text-gray-600">
-          Sign in with your Google account
+          Sign in with your email or Google account
         </p>
       </div>
 
       <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
         <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          <form onSubmit={handlePasswordLogin} className="space-y-4">
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                Email
+              </label>
+              <input
+                type="email"
+                id="email"
+                autoComplete="username"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+                Password
+              </label>
+              <input
+                type="password"
+                id="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+
+            <Button
+              variant="primary"
+              type="submit"
+              isLoading={isSubmitting}
+              fullWidth
+            >
+              Sign In
+            </Button>
+          </form>
+
+          <div className="my-6 flex items-center">
+            <div className="flex-1 border-t border-gray-200"></div>
+            <span className="px-3 text-sm text-gray-500">or</span>
+            <div className="flex-1 border-t border-gray-200"></div>
+          </div>
+
           <div className="flex justify-center">
             <div id="googleButton"></div>
           </div>
@@ -0,0 +1,26 @@
+import React from 'react';
+import { useAppContext } from '../context/AppContext';
+import PurchaseOrderList from '../components/purchases/PurchaseOrderList';
+import SupplierList from '../components/purchases/SupplierList';
+import SupplierBillList from '../components/purchases/SupplierBillList';
+
+const Purchases: React.FC = () => {
+  const { currentUser } = useAppContext();
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Purchases</h1>
+        <p className="text-gray-600">Order stock from suppliers, receive deliveries and track supplier bills</p>
+      </div>
+      
+      <div className="space-y-6">
+        <PurchaseOrderList />
+        {currentUser?.role === 'admin' && <SupplierBillList />}
+        <SupplierList />
+      </div>
+    </div>
+  );
+};
+
+export default Purchases;
\ No newline at end of file
@@ -1,16 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { useAppContext } from '../context/AppContext';
+import { Report } from '../types';
 import { formatCurrency } from '../utils/formatters';
 import ReportFilters from '../components/reports/ReportFilters';
 import SalesSummary from '../components/reports/SalesSummary';
 import TopProducts from '../components/reports/TopProducts';
 import SalesChart from '../components/reports/SalesChart';
+import CollectionsByTender from '../components/reports/CollectionsByTender';
+import InventoryValuationReport from '../components/reports/InventoryValuationReport';
+import ExpiringStockReport from '../components/reports/ExpiringStockReport';
+import { isVariantParent } from '../utils/variants';
 
 const Reports: React.FC = () => {
-  const { products, sales } = useAppContext();
-  
-  // Get unique product categories
-  const categories = Array.from(new Set(products.map(p => p.category)));
+  const { products, categories, locations, store, fetchSalesReport } = useAppContext();
   
   // Report filters state
   const [startDate, setStartDate] = useState<string>(() => {
@@ -23,151 +25,108 @@ const Reports: React.FC = () => {
     return new Date().toISOString().split('T')[0];
   });
   
-  const [category, setCategory] = useState<string>('');
-  const [filteredSales, setFilteredSales] = useState(sales);
+  const [categoryId, setCategoryId] = useState<string>('');
+  const [locationId, setLocationId] = useState<string>('');
+  const [groupVariants, setGroupVariants] = useState(false);
+  const [appliedFilters, setAppliedFilters] = useState({ startDate, endDate, categoryId, locationId });
+  const [report, setReport] = useState<Report | null>(null);
   
-  // Apply filters to sales data
+  // Apply the filters picked so far
   const applyFilters = () => {
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    end.setHours(23, 59, 59, 999); // End of the day
-    
-    let filtered = sales.filter(sale => {
-      const saleDate = new Date(sale.date);
-      return saleDate >= start && saleDate <= end;
-    });
-    
-    if (category) {
-      filtered = filtered.filter(sale => {
-        return sale.products.some(item => {
-          const product = products.find(p => p.id === item.productId);
-          return product && product.category === category;
-        });
-      });
-    }
-    
-    setFilteredSales(filtered);
+    setAppliedFilters({ startDate, endDate, categoryId, locationId });
   };
   
   // Reset filters
   const resetFilters = () => {
     const date = new Date();
-    setStartDate(new Date(date.setMonth(date.getMonth() - 1)).toISOString().split('T')[0]);
-    setEndDate(new Date().toISOString().split('T')[0]);
-    setCategory('');
-    applyFilters();
+    const defaults = {
+      startDate: new Date(date.setMonth(date.getMonth() - 1)).toISOString().split('T')[0],
+      endDate: new Date().toISOString().split('T')[0],
+      categoryId: '',
+      locationId: '',
+    };
+    setStartDate(defaults.startDate);
+    setEndDate(defaults.endDate);
+    setCategoryId(defaults.categoryId);
+    setLocationId(defaults.locationId);
+    setAppliedFilters(defaults);
   };
   
-  // Apply filters on component mount
+  // The server works out the report; reload it whenever the applied filters or the variant rollup change
   useEffect(() => {
-    applyFilters();
-  }, []);
-  
-  // Calculate report metrics
-  const totalSales = filteredSales.length;
-  const totalRevenue = filteredSales.reduce((sum, sale) => sum + sale.totalAmount, 0);
-  
-  // Calculate total profit (revenue - cost)
-  const totalProfit = filteredSales.reduce((sum, sale) => {
-    const saleProfit = sale.products.reduce((itemSum, item) => {
-      const product = products.find(p => p.id === item.productId);
-      if (product) {
-        const itemProfit = (item.unitPrice - product.costPrice) * item.quantity;
-        return itemSum + itemProfit;
+    let cancelled = false;
+    fetchSalesReport({ ...appliedFilters, groupVariants }).then((data) => {
+      if (!cancelled) {
+        setReport(data);
       }
-      return itemSum;
-    }, 0);
-    
-    return sum + saleProfit;
-  }, 0);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [appliedFilters, groupVariants, fetchSalesReport]);
+  
+  const totalSales = report?.totalSales || 0;
+  const totalRevenue = report?.totalRevenue || 0;
   
   // Calculate profit margin
-  const profitMargin = totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0;
+  const profitMargin = totalRevenue > 0 ? ((report?.totalProfit || 0) / totalRevenue) * 100 : 0;
   
   // Calculate average order value
   const averageOrderValue = totalSales > 0 ? totalRevenue / totalSales : 0;
   
-  // Get top selling products
-  const productSalesMap = new Map();
-  
-  filteredSales.forEach(sale => {
-    sale.products.forEach(item => {
-      const existingProduct = productSalesMap.get(item.productId);
-      
-      if (existingProduct) {
-        existingProduct.quantity += item.quantity;
-        existingProduct.revenue += item.totalPrice;
-      } else {
-        productSalesMap.set(item.productId, {
-          productId: item.productId,
-          productName: item.productName,
-          quantity: item.quantity,
-          revenue: item.totalPrice,
-        });
-      }
-    });
-  });
-  
-  const topProducts = Array.from(productSalesMap.values())
-    .sort((a, b) => b.revenue - a.revenue)
-    .slice(0, 5);
-  
-  // Prepare sales chart data
-  const salesByDay = new Map();
-  
-  filteredSales.forEach(sale => {
-    const dateStr = new Date(sale.date).toISOString().split('T')[0];
-    
-    const existingData = salesByDay.get(dateStr);
-    if (existingData) {
-      existingData.sales += 1;
-      existingData.revenue += sale.totalAmount;
-    } else {
-      salesByDay.set(dateStr, {
-        date: dateStr,
-        sales: 1,
-        revenue: sale.totalAmount,
-      });
-    }
-  });
-  
-  const salesChartData = Array.from(salesByDay.values())
-    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-  
   return (
     <div>
       <div className="mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Reports</h1>
-        <p className="text-gray-600">Analyze sales data and business performance</p>
+        <p className="text-gray-600">
+          Analyze sales data and business performance for {store.tradeName || store.legalName}
+        </p>
       </div>
       
       {/* Report filters */}
       <ReportFilters
         startDate={startDate}
         endDate={endDate}
-        category={category}
+        categoryId={categoryId}
+        locationId={locationId}
         onStartDateChange={setStartDate}
         onEndDateChange={setEndDate}
-        onCategoryChange={setCategory}
+        onCategoryChange={setCategoryId}
+        onLocationChange={setLocationId}
         onApplyFilters={applyFilters}
         onResetFilters={resetFilters}
         categories={categories}
+        locations={locations}
       />
       
       {/* Sales summary */}
       <SalesSummary
         totalSales={totalSales}
         totalRevenue={totalRevenue}
-        totalProfit={totalProfit}
+        totalRefunds={report?.totalRefunds || 0}
+        totalProfit={report?.totalProfit || 0}
         profitMargin={profitMargin}
         averageOrderValue={averageOrderValue}
       />
       
       {/* Sales chart */}
-      <SalesChart salesData={salesChartData} />
+      <SalesChart salesData={report?.salesByDay || []} />
       
       {/* Top products */}
-      <TopProducts products={topProducts} />
+      <TopProducts
+        products={report?.topProducts || []}
+        groupVariants={groupVariants}
+        onGroupVariantsChange={products.some(isVariantParent) ? setGroupVariants : undefined}
+      />
+      
+      {/* Collections by tender */}
+      <CollectionsByTender collections={report?.collectionsByTender || []} />
+      
+      {/* Inventory valuation */}
+      <InventoryValuationReport />
+      
+      {/* Batches close to or past their expiry date */}
+      <ExpiringStockReport />
     </div>
   );
 };
@@ -2,18 +2,21 @@ import React, { useState, useRef } from 'react';
 import { useAppContext } from '../context/AppContext';
 import { Bell, Store } from 'lucide-react';
 import Button from '../components/ui/Button';
+import StoreSettingsForm from '../components/settings/StoreSettingsForm';
+import LocationList from '../components/settings/LocationList';
+import CategoryList from '../components/settings/CategoryList';
 
 const Settings: React.FC = () => {
-  const { currentUser } = useAppContext();
+  const { currentUser, preferences, updateProfile, uploadAvatar, updatePreferences } = useAppContext();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [previewImage, setPreviewImage] = useState<string>(currentUser?.avatar || '');
   const [formData, setFormData] = useState({
     name: currentUser?.name || '',
     email: currentUser?.email || '',
+    phone: currentUser?.phone || '',
   });
+  const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
-  const [notifications, setNotifications] = useState(true);
-  const [stockAlerts, setStockAlerts] = useState(true);
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -33,17 +36,50 @@ const Settings: React.FC = () => {
       ...prev,
       [name]: value,
     }));
+    // Clear error when field is edited
+    if (errors[name]) {
+      setErrors(prev => ({
+        ...prev,
+        [name]: '',
+      }));
+    }
+  };
+
+  // Quick settings are saved as soon as they are toggled
+  const handlePreferenceChange = async (key: 'notifications' | 'stockAlerts', value: boolean) => {
+    const success = await updatePreferences({ ...preferences, [key]: value });
+    if (!success) {
+      alert('Failed to save preference. Please try again.');
+    }
   };
 
   const handleSaveChanges = async () => {
     setIsLoading(true);
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const profileErrors = await updateProfile({
+        name: formData.name,
+        email: formData.email,
+        phone: formData.phone || undefined,
+      });
+      
+      if (Object.keys(profileErrors).length > 0) {
+        setErrors(profileErrors);
+        return;
+      }
+      
+      // Only upload the avatar when it was changed or removed
+      if (previewImage !== (currentUser?.avatar || '')) {
+        const avatarSaved = await uploadAvatar(previewImage || null);
+        if (!avatarSaved) {
+          alert('Profile saved, but the photo could not be uploaded. Please try a smaller image.');
+          return;
+        }
+      }
       
       // Show success message
       alert('Settings saved successfully!');
     } catch (error) {
+      console.error('Failed to save settings:', error);
       alert('Failed to save settings. Please try again.');
     } finally {
       setIsLoading(false);
@@ -117,8 +153,13 @@ const Settings: React.FC = () => {
                     name="name"
                     value={formData.name}
                     onChange={handleInputChange}
-                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    className={`mt-1 block w-full rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${
+                      errors.name ? 'border-red-300' : 'border-gray-300'
+                    }`}
                   />
+                  {errors.name && (
+                    <p className="mt-1 text-sm text-red-600">{errors.name}</p>
+                  )}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Email</label>
@@ -127,11 +168,36 @@ const Settings: React.FC = () => {
                     name="email"
                     value={formData.email}
                     onChange={handleInputChange}
-                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    className={`mt-1 block w-full rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${
+                      errors.email ? 'border-red-300' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.email && (
+                    <p className="mt-1 text-sm text-red-600">{errors.email}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Phone</label>
+                  <input
+                    type="tel"
+                    name="phone"
+                    value={formData.phone}
+                    onChange={handleInputChange}
+                    placeholder="10-digit number"
+                    className={`mt-1 block w-full rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${
+                      errors.phone ? 'border-red-300' : 'border-gray-300'
+                    }`}
                   />
+                  {errors.phone && (
+                    <p className="mt-1 text-sm text-red-600">{errors.phone}</p>
+                  )}
                 </div>
               </div>
 
+              {errors.form && (
+                <p className="mt-4 text-sm text-red-600">{errors.form}</p>
+              )}
+
               <div className="mt-6">
                 <Button 
                   variant="primary"
@@ -161,8 +227,8 @@ const Settings: React.FC = () => {
                     <input 
                       type="checkbox" 
                       className="sr-only peer" 
-                      checked={notifications}
-                      onChange={(e) => setNotifications(e.target.checked)}
+                      checked={preferences.notifications}
+                      onChange={(e) => handlePreferenceChange('notifications', e.target.checked)}
                     />
                     <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
                   </label>
@@ -177,8 +243,8 @@ const Settings: React.FC = () => {
                     <input 
                       type="checkbox" 
                       className="sr-only peer" 
-                      checked={stockAlerts}
-                      onChange={(e) => setStockAlerts(e.target.checked)}
+                      checked={preferences.stockAlerts}
+                      onChange={(e) => handlePreferenceChange('stockAlerts', e.target.checked)}
                     />
                     <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
                   </label>
@@ -187,6 +253,27 @@ const Settings: React.FC = () => {
             </div>
           </div>
         </div>
+
+        {/* Store Settings (admin only) */}
+        {currentUser?.role === 'admin' && (
+          <div className="md:col-span-2">
+            <StoreSettingsForm />
+          </div>
+        )}
+
+        {/* Locations (admin only) */}
+        {currentUser?.role === 'admin' && (
+          <div className="md:col-span-2">
+            <LocationList />
+          </div>
+        )}
+
+        {/* Product categories (admin only) */}
+        {currentUser?.role === 'admin' && (
+          <div className="md:col-span-2">
+            <CategoryList />
+          </div>
+        )}
       </div>
     </div>
   );
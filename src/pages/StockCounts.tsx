@@ -0,0 +1,17 @@
+import React from 'react';
+import StockCountList from '../components/inventory/StockCountList';
+
+const StockCounts: React.FC = () => {
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Stock Take</h1>
+        <p className="text-gray-600">Count shelves against system stock, review variances and post the corrections</p>
+      </div>
+      
+      <StockCountList />
+    </div>
+  );
+};
+
+export default StockCounts;
\ No newline at end of file
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { useAppContext } from '../context/AppContext';
 import { formatDate } from '../utils/formatters';
-import { Users as UsersIcon, UserPlus, Mail, Phone } from 'lucide-react';
+import { Users as UsersIcon, UserPlus, Mail, Phone, Edit, UserX, UserCheck } from 'lucide-react';
 import Button from '../components/ui/Button';
 
 interface NewUserFormData {
@@ -9,18 +9,27 @@ interface NewUserFormData {
   email: string;
   phone: string;
   role: 'admin' | 'employee';
+  locationId: string;
+  password: string;
 }
 
+const emptyForm: NewUserFormData = {
+  name: '',
+  email: '',
+  phone: '',
+  role: 'employee',
+  locationId: '',
+  password: '',
+};
+
 const Users: React.FC = () => {
-  const { users } = useAppContext();
+  const { users, locations, currentUser, addUser, updateUser, setUserActive } = useAppContext();
   const [showAddModal, setShowAddModal] = useState(false);
-  const [formData, setFormData] = useState<NewUserFormData>({
-    name: '',
-    email: '',
-    phone: '',
-    role: 'employee',
-  });
+  const [editingUserId, setEditingUserId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<NewUserFormData>(emptyForm);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [statusError, setStatusError] = useState('');
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -40,14 +49,21 @@ const Users: React.FC = () => {
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
     
-    if (!formData.name.trim()) {
-      newErrors.name = 'Name is required';
-    }
-    
-    if (!formData.email.trim()) {
-      newErrors.email = 'Email is required';
-    } else if (!/\S+@\S+\.\S+/.test(formData.email)) {
-      newErrors.email = 'Invalid email format';
+    // Name and email are fixed once a user exists
+    if (!editingUserId) {
+      if (!formData.name.trim()) {
+        newErrors.name = 'Name is required';
+      }
+      
+      if (!formData.email.trim()) {
+        newErrors.email = 'Email is required';
+      } else if (!/\S+@\S+\.\S+/.test(formData.email)) {
+        newErrors.email = 'Invalid email format';
+      }
+      
+      if (formData.password && formData.password.length < 8) {
+        newErrors.password = 'Password must be at least 8 characters';
+      }
     }
     
     if (!formData.phone.trim()) {
@@ -60,17 +76,72 @@ const Users: React.FC = () => {
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const openAddModal = () => {
+    setFormData(emptyForm);
+    setErrors({});
+    setEditingUserId(null);
+    setShowAddModal(true);
+  };
+
+  const openEditModal = (id: string) => {
+    const user = users.find((u) => u.id === id);
+    if (!user) return;
+    
+    setFormData({
+      name: user.name,
+      email: user.email,
+      phone: user.phone || '',
+      role: user.role,
+      locationId: user.locationId || '',
+      password: '',
+    });
+    setErrors({});
+    setEditingUserId(id);
+    setShowAddModal(true);
+  };
+
+  const closeModal = () => {
+    setShowAddModal(false);
+    setEditingUserId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (validateForm()) {
-      // Add user logic here
-      setShowAddModal(false);
-      setFormData({
-        name: '',
-        email: '',
-        phone: '',
-        role: 'employee',
-      });
+    if (!validateForm()) {
+      return;
+    }
+    
+    setIsSubmitting(true);
+    try {
+      const serverErrors = editingUserId
+        ? await updateUser(editingUserId, {
+          role: formData.role,
+          phone: formData.phone,
+          locationId: formData.locationId || undefined,
+        })
+        : await addUser({
+          ...formData,
+          locationId: formData.locationId || undefined,
+          password: formData.password || undefined,
+        });
+      
+      if (Object.keys(serverErrors).length > 0) {
+        setErrors(serverErrors);
+        return;
+      }
+      
+      closeModal();
+      setFormData(emptyForm);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleActive = async (id: string, active: boolean) => {
+    setStatusError('');
+    const success = await setUserActive(id, active);
+    if (!success) {
+      setStatusError(`Failed to ${active ? 'reactivate' : 'deactivate'} user. Please try again.`);
     }
   };
 
@@ -88,12 +159,16 @@ const Users: React.FC = () => {
             variant="primary"
             size="md"
             icon={<UserPlus size={16} />}
-            onClick={() => setShowAddModal(true)}
+            onClick={openAddModal}
           >
             Add User
           </Button>
         </div>
 
+        {statusError && (
+          <div className="px-6 py-3 bg-red-50 text-sm text-red-700">{statusError}</div>
+        )}
+
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
@@ -110,11 +185,28 @@ const Users: React.FC = () => {
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Role
                 </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Added
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {users?.filter(user => user.role === 'admin' || user.role === 'employee').map((user) => (
-                <tr key={user.id} className="hover:bg-gray-50">
+              {users.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                    <UsersIcon size={24} className="mx-auto mb-2 text-gray-400" />
+                    No users found. Add a user to get started.
+                  </td>
+                </tr>
+              )}
+              {users.map((user) => (
+                <tr key={user.id} className={`hover:bg-gray-50 ${user.active === false ? 'opacity-60' : ''}`}>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm font-medium text-gray-900">
                       {user.name}
@@ -141,6 +233,48 @@ const Users: React.FC = () => {
                       {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
                     </span>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                      user.active === false
+                        ? 'bg-gray-100 text-gray-600'
+                        : 'bg-blue-100 text-blue-800'
+                    }`}>
+                      {user.active === false ? 'Deactivated' : 'Active'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {user.createdAt ? formatDate(user.createdAt) : 'N/A'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        onClick={() => openEditModal(user.id)}
+                        className="text-blue-600 hover:text-blue-900"
+                        title="Edit role and phone"
+                      >
+                        <Edit size={18} />
+                      </button>
+                      {user.id !== currentUser?.id && (
+                        user.active === false ? (
+                          <button
+                            onClick={() => handleToggleActive(user.id, true)}
+                            className="text-emerald-600 hover:text-emerald-900"
+                            title="Reactivate user"
+                          >
+                            <UserCheck size={18} />
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handleToggleActive(user.id, false)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Deactivate user"
+                          >
+                            <UserX size={18} />
+                          </button>
+                        )
+                      )}
+                    </div>
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -152,7 +286,9 @@ const Users: React.FC = () => {
       {showAddModal && (
         <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg max-w-md w-full p-6">
-            <h3 className="text-lg font-medium text-gray-900 mb-4">Add New User</h3>
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {editingUserId ? 'Edit User' : 'Add New User'}
+            </h3>
             <form onSubmit={handleSubmit}>
               <div className="space-y-4">
                 <div>
@@ -165,7 +301,8 @@ const Users: React.FC = () => {
                     name="name"
                     value={formData.name}
                     onChange={handleInputChange}
-                    className={`mt-1 block w-full rounded-md shadow-sm sm:text-sm ${
+                    disabled={!!editingUserId}
+                    className={`mt-1 block w-full rounded-md shadow-sm sm:text-sm disabled:bg-gray-100 ${
                       errors.name ? 'border-red-300' : 'border-gray-300'
                     }`}
                   />
@@ -184,7 +321,8 @@ const Users: React.FC = () => {
                     name="email"
                     value={formData.email}
                     onChange={handleInputChange}
-                    className={`mt-1 block w-full rounded-md shadow-sm sm:text-sm ${
+                    disabled={!!editingUserId}
+                    className={`mt-1 block w-full rounded-md shadow-sm sm:text-sm disabled:bg-gray-100 ${
                       errors.email ? 'border-red-300' : 'border-gray-300'
                     }`}
                   />
@@ -226,13 +364,72 @@ const Users: React.FC = () => {
                     <option value="employee">Employee</option>
                     <option value="admin">Admin</option>
                   </select>
+                  {errors.role && (
+                    <p className="mt-1 text-sm text-red-600">{errors.role}</p>
+                  )}
                 </div>
+
+                {locations.length > 1 && (
+                  <div>
+                    <label htmlFor="locationId" className="block text-sm font-medium text-gray-700">
+                      Location
+                    </label>
+                    <select
+                      id="locationId"
+                      name="locationId"
+                      value={formData.locationId}
+                      onChange={handleInputChange}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+                    >
+                      <option value="">Default ({locations.find((l) => l.isDefault)?.name})</option>
+                      {locations.map((location) => (
+                        <option key={location.id} value={location.id}>
+                          {location.name}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500">Sales by this user take stock from here</p>
+                    {errors.locationId && (
+                      <p className="mt-1 text-sm text-red-600">{errors.locationId}</p>
+                    )}
+                  </div>
+                )}
+
+                {!editingUserId && (
+                  <div>
+                    <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                      Temporary Password
+                    </label>
+                    <input
+                      type="password"
+                      id="password"
+                      name="password"
+                      autoComplete="new-password"
+                      value={formData.password}
+                      onChange={handleInputChange}
+                      className={`mt-1 block w-full rounded-md shadow-sm sm:text-sm ${
+                        errors.password ? 'border-red-300' : 'border-gray-300'
+                      }`}
+                    />
+                    {errors.password ? (
+                      <p className="mt-1 text-sm text-red-600">{errors.password}</p>
+                    ) : (
+                      <p className="mt-1 text-xs text-gray-500">
+                        Leave empty to invite the user to sign in with Google
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
 
+              {errors.form && (
+                <p className="mt-4 text-sm text-red-600">{errors.form}</p>
+              )}
+
               <div className="mt-6 flex justify-end space-x-3">
                 <Button
                   variant="outline"
-                  onClick={() => setShowAddModal(false)}
+                  onClick={closeModal}
                   type="button"
                 >
                   Cancel
@@ -240,8 +437,9 @@ const Users: React.FC = () => {
                 <Button
                   variant="primary"
                   type="submit"
+                  isLoading={isSubmitting}
                 >
-                  Add User
+                  {editingUserId ? 'Save Changes' : 'Add User'}
                 </Button>
               </div>
             </form>
@@ -0,0 +1,17 @@
+import React from 'react';
+import WarrantyLookup from '../components/sales/WarrantyLookup';
+
+const Warranty: React.FC = () => {
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Warranty</h1>
+        <p className="text-gray-600">Look up a serial number to find its sale, customer and warranty cover</p>
+      </div>
+      
+      <WarrantyLookup />
+    </div>
+  );
+};
+
+export default Warranty;
@@ -1,44 +1,448 @@
 // Common types used throughout the application
 
+// Field-level validation errors keyed by form field name
+export type FieldErrors = Record<string, string>;
+
 export interface Product {
   id: string;
   name: string;
+  sku?: string;
+  barcode?: string; // EAN-8, UPC-A, EAN-13 or GTIN-14
+  parentId?: string; // set on a variant; variants are stocked and sold like any other product
   description: string;
-  category: string;
+  categoryId: string;
+  hsnCode?: string;
+  gstRate: number; // percent, included in price
   price: number;
-  costPrice: number;
-  quantity: number;
-  threshold: number; // Low stock threshold
+  costPrice: number; // unit cost of the stock on hand, worked out by the store's costing method
+  quantity: number; // total on hand across locations
+  threshold: number; // Low stock threshold, at each location that does not set its own
+  stock: ProductStock[]; // per location
+  tracksBatches?: boolean; // stock is kept in lots with an expiry date
+  batches?: StockBatch[]; // lots with stock, earliest expiry first
+  tracksSerials?: boolean; // each unit is received and sold by its serial number
+  warrantyMonths?: number; // from the day of sale, 0 for none
   imageUrl?: string;
+  variantOptions?: VariantOption[]; // on a parent, which holds no stock of its own
+  attributes?: Record<string, string>; // a variant's option values, e.g. { Size: 'M', Colour: 'Red' }
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One way a parent product varies, e.g. Size: S, M, L
+export interface VariantOption {
+  name: string;
+  values: string[];
+}
+
+// A variant as edited with its parent; new variants have no id yet
+export interface ProductVariantInput {
+  id?: string;
+  attributes: Record<string, string>;
+  sku?: string;
+  barcode?: string;
+  price: number;
+  costPrice: number; // opening cost, only used for new variants
+  quantity: number; // opening stock, only used for new variants
+  threshold: number;
+}
+
+// A product's stock at one location
+export interface ProductStock {
+  locationId: string;
+  quantity: number;
+  threshold?: number; // overrides the product threshold at this location
+}
+
+// A lot of a batch-tracked product at one location
+export interface StockBatch {
+  id: number;
+  locationId: string;
+  lotNumber?: string; // missing for units received without one
+  manufacturedOn?: string; // YYYY-MM-DD
+  expiresOn?: string; // YYYY-MM-DD
+  quantity: number;
+}
+
+// Lot details entered when batch-tracked stock comes in
+export interface NewStockBatch {
+  lotNumber: string;
+  manufacturedOn?: string;
+  expiresOn?: string;
+}
+
+// Stock levels the server sends back after stock moves, to update the matching product
+export interface StockLevel {
+  id: string;
+  quantity: number;
+  costPrice: number;
+  stock: ProductStock[];
+  batches: StockBatch[];
+  updatedAt: Date;
+}
+
+// A shop, godown or other place stock is kept
+export interface Location {
+  id: string;
+  name: string;
+  address?: string;
+  isDefault: boolean; // used for users without a location of their own
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A product category; subcategories sit under a parent and can nest to any depth
+export interface Category {
+  id: string;
+  name: string;
+  parentId?: string;
+  gstRate?: number; // percent, suggested for new products in the category
+  threshold?: number; // low stock threshold suggested for new products in the category
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type StockMovementType = 'opening' | 'sale' | 'return' | 'purchase' | 'adjustment' | 'transfer';
+
+// One entry in the append-only stock ledger; the entries for a product add up to its quantity
+export interface StockMovement {
+  id: number;
+  productId: string;
+  locationId?: string;
+  type: StockMovementType;
+  quantityChange: number; // negative when stock goes out
+  quantityAfter: number;
+  costChange: number; // value of the movement at cost, negative when stock goes out
+  reason?: string; // adjustment reason code
+  referenceId?: string; // sale, return or goods receipt id
+  reference?: string; // invoice, credit note or PO number
+  notes?: string;
+  createdBy?: string; // user name
+  date: Date;
+}
+
+export interface NewStockAdjustment {
+  locationId?: string; // defaults to the user's location
+  change: number;
+  reason: string;
+  notes?: string;
+  serials?: string[]; // of each unit added or removed, for a serialized product
+}
+
+// Counts are entered while counting, then wait for an admin to approve and post the variances
+export type StockCountStatus = 'counting' | 'submitted' | 'posted';
+
+export interface StockCountItem {
+  productId: string;
+  productName: string;
+  systemQuantity: number; // stock on hand when the line was counted
+  countedQuantity?: number; // not counted yet when empty
+  unitCost: number;
+}
+
+// A stock take at one location, of one category or every product
+export interface StockCount {
+  id: string;
+  countNumber: string; // e.g. SC/2026-27/000004
+  locationId?: string;
+  category?: string; // name of the category counted, with its subcategories
+  status: StockCountStatus;
+  notes?: string;
+  items: StockCountItem[];
+  createdBy?: string; // user name
+  submittedAt?: Date;
+  approvedBy?: string; // user name
+  postedAt?: Date;
+  createdAt: Date;
+}
+
+// Stock in transit stays in neither location until it is received
+export type StockTransferStatus = 'in_transit' | 'received';
+
+export interface StockTransferItem {
+  productId: string;
+  productName: string;
+  quantity: number;
+  costAmount: number; // value at cost when dispatched
+}
+
+// Stock moved between two locations
+export interface StockTransfer {
+  id: string;
+  transferNumber: string; // e.g. ST/2026-27/000003
+  fromLocationId: string;
+  toLocationId: string;
+  status: StockTransferStatus;
+  notes?: string;
+  items: StockTransferItem[];
+  createdBy?: string; // user name
+  receivedBy?: string; // user name
+  receivedAt?: Date;
+  createdAt: Date;
+}
+
+export interface NewStockTransfer {
+  fromLocationId: string;
+  toLocationId: string;
+  items: { productId: string; quantity: number; serials?: string[] }[]; // serials of serialized products
+  notes?: string;
+}
+
 export interface Sale {
   id: string;
+  invoiceNumber: string;
+  locationId?: string; // where the stock was sold from
   products: SaleItem[];
-  totalAmount: number;
-  paymentMethod: string;
+  totalAmount: number; // including GST
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  paymentMethod: string; // the single tender used, or 'Split'
+  payments: Payment[];
+  changeDue: number; // cash handed back to the customer
+  customerId?: string;
   customerName?: string;
   customerPhone?: string;
+  customerGstin?: string;
+  placeOfSupply?: string; // 2-digit GST state code, defaults to the store's state
   date: Date;
   notes?: string;
+  returns: SaleReturn[];
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string; // 10 digits, unique
+  email?: string;
+  gstin?: string;
+  address?: string;
+  creditLimit: number; // 0 means no limit
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Money collected against a customer's credit (udhaar) balance
+export interface CustomerPayment {
+  id: string;
+  customerId: string;
+  amount: number;
+  method: string;
+  reference?: string;
+  notes?: string;
+  date: Date;
+}
+
+// Outstanding credit split by the age of the sales it came from
+export interface ReceivablesAging {
+  current: number; // 0-30 days
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  total: number;
+}
+
+// Outstanding credit per customer as of the end of a day, oldest sales settled first
+export interface ReceivablesReport {
+  asOf: string; // YYYY-MM-DD
+  customers: (ReceivablesAging & { customer: Customer })[]; // only customers who owe, largest first
+  totals: ReceivablesAging;
+}
+
+// One tender towards a sale; a bill can be paid partly by UPI and partly in cash
+export interface Payment {
+  method: string;
+  amount: number; // applied to the bill
+  reference?: string; // UPI transaction ID, card last 4 digits, ...
+  tendered?: number; // cash handed over, only for cash payments
+}
+
+// A unit found by its serial number, with every sale of it, latest first
+export interface SerialLookup {
+  productId: string;
+  productName: string;
+  serialNumber: string;
+  status: 'in_stock' | 'sold' | 'written_off';
+  receivedAt?: Date; // missing for units stocked before the product was serialized
+  sales: {
+    saleId: string;
+    invoiceNumber: string;
+    customerId?: string;
+    customerName?: string;
+    customerPhone?: string;
+    date: Date;
+    warrantyEndsOn?: string; // YYYY-MM-DD, missing when sold without a warranty
+    creditNoteNumber?: string; // set once the unit was returned
+    returnedAt?: Date;
+  }[];
+}
+
+// A return against a sale, documented by a credit note
+export interface SaleReturn {
+  id: string;
+  saleId: string;
+  creditNoteNumber: string;
+  products: SaleItem[]; // returned quantities and refunded amounts
+  totalAmount: number; // refunded, including GST
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  refundMethod: string;
+  reason?: string;
+  date: Date;
+}
+
+export interface NewSaleReturn {
+  products: { productId: string; quantity: number; serials?: string[] }[];
+  refundMethod: string;
+  reason?: string;
 }
 
 export interface SaleItem {
   productId: string;
   productName: string;
+  hsnCode?: string;
   quantity: number;
   unitPrice: number;
-  totalPrice: number;
+  totalPrice: number; // including GST
+  gstRate: number;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  costAmount?: number; // cost of goods sold, fixed by the server when the sale or return is recorded
+  serials?: string[]; // serial numbers of the units sold or returned, for serialized products
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  gstin?: string;
+  address?: string;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Drafts can be edited; once sent, deliveries move the order to partially received and then received
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received';
+
+export interface PurchaseOrderItem {
+  id: number;
+  productId: string;
+  productName: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number;
+}
+
+// One delivery booked against a purchase order
+export interface GoodsReceipt {
+  id: string;
+  locationId?: string;
+  items: { purchaseOrderItemId: number; productId: string; quantity: number; unitCost: number }[];
+  notes?: string;
+  date: Date;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber: string; // e.g. PO/2026-27/000012
+  supplierId: string;
+  status: PurchaseOrderStatus;
+  expectedDate?: string; // YYYY-MM-DD
+  notes?: string;
+  totalAmount: number; // ordered quantity x unit cost
+  items: PurchaseOrderItem[];
+  receipts: GoodsReceipt[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NewPurchaseOrder {
+  supplierId: string;
+  expectedDate?: string;
+  notes?: string;
+  items: { productId: string; quantity: number; unitCost: number }[];
+}
+
+export interface NewGoodsReceipt {
+  locationId?: string; // defaults to the user's location
+  items: {
+    purchaseOrderItemId: number;
+    quantity: number;
+    unitCost?: number;
+    batch?: NewStockBatch;
+    serials?: string[];
+  }[];
+  notes?: string;
+}
+
+// The supplier's own invoice for goods bought, tracked until it is paid
+export interface SupplierBill {
+  id: string;
+  supplierId: string;
+  purchaseOrderId?: string;
+  billNumber: string;
+  billDate: string; // YYYY-MM-DD
+  dueDate?: string;
+  amount: number;
+  notes?: string;
+  paidAt?: Date;
+  createdAt: Date;
+}
+
+// How outgoing stock is costed: oldest purchases first, or the running average cost
+export type CostingMethod = 'fifo' | 'average';
+
+// Thermal is an 80mm receipt roll, A4 is the full GST invoice
+export type InvoiceLayout = 'thermal' | 'a4';
+
+export interface StoreSettings {
+  legalName: string;
+  tradeName?: string;
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  state: string;
+  stateCode: string; // 2-digit GST state code
+  pincode: string;
+  phone?: string;
+  email?: string;
+  gstin?: string;
+  logoUrl?: string;
+  currency: string; // ISO 4217 code, e.g. INR
+  locale: string; // BCP 47 tag, e.g. en-IN
+  fiscalYearStartMonth: number; // 1 = January, 4 = April
+  invoicePrefix: string; // e.g. INV -> INV/2026-27/000123
+  creditNotePrefix: string; // e.g. CN -> CN/2026-27/000007
+  costingMethod: CostingMethod;
+  expiryAlertDays: number; // how far ahead batch expiry is warned about
+  defaultTaxRate: number; // percent
+  taxRates: number[]; // percent
+}
+
+// What the sales report covers; a sale matches a category if any of its items is in it or a subcategory
+export interface SalesReportFilters {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  categoryId?: string;
+  locationId?: string;
+  groupVariants?: boolean; // count variants under their parent product
 }
 
 export interface Report {
   startDate: Date;
   endDate: Date;
   totalSales: number;
-  totalRevenue: number;
-  totalProfit: number;
+  totalRevenue: number; // net of returns
+  totalRefunds: number;
+  totalProfit: number; // net of returns
   topProducts: {
     productId: string;
     productName: string;
@@ -50,6 +454,49 @@ export interface Report {
     sales: number;
     revenue: number;
   }[];
+  collectionsByTender: {
+    method: string;
+    collected: number;
+    refunded: number;
+  }[];
+}
+
+// Batches expired or expiring within `days` days and their stock at cost, the value at risk
+export interface ExpiryReport {
+  days: number;
+  items: {
+    batchId: number;
+    productId: string;
+    productName: string;
+    category: string;
+    locationId: string;
+    locationName: string;
+    lotNumber?: string;
+    expiresOn: string; // YYYY-MM-DD
+    daysLeft: number; // negative once expired
+    quantity: number;
+    unitCost: number;
+    value: number;
+  }[];
+  totalQuantity: number;
+  totalValue: number;
+  expiredValue: number;
+}
+
+// Stock on hand and its value at cost at the end of a day, rebuilt from the stock ledger
+export interface InventoryValuation {
+  asOf: string; // YYYY-MM-DD
+  costingMethod: CostingMethod; // the store's method today
+  items: {
+    productId: string;
+    productName: string;
+    category?: string;
+    quantity: number;
+    value: number;
+    unitCost: number;
+  }[];
+  totalQuantity: number;
+  totalValue: number;
 }
 
 export interface User {
@@ -58,7 +505,24 @@ export interface User {
   email: string;
   phone?: string;
   role: 'admin' | 'employee';
+  locationId?: string; // where the user works; sales take stock from here
   avatar?: string;
+  active?: boolean; // false once deactivated by an admin
+  createdAt?: Date;
+}
+
+export interface UserPreferences {
+  notifications: boolean;
+  stockAlerts: boolean; // low and out of stock alerts
+}
+
+export interface NewUser {
+  name: string;
+  email: string;
+  phone: string;
+  role: User['role'];
+  locationId?: string;
+  password?: string; // leave empty to invite a Google sign-in
 }
 
 export interface Notification {
@@ -0,0 +1,55 @@
+import { Product } from '../types';
+
+// Barcode check digits, as the server validates them
+
+// EAN-8, UPC-A, EAN-13 and GTIN-14 codes end in a check digit: the other digits are weighted
+// 3 and 1 alternately from the right, and the check digit brings the sum to a multiple of 10
+export const isValidBarcode = (code: string): boolean => {
+  if (!/^(\d{8}|\d{12,14})$/.test(code)) {
+    return false;
+  }
+
+  const digits = code.split('').map(Number);
+  const checkDigit = digits.pop();
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === checkDigit;
+};
+
+// Code 128 bar and space widths of each symbol value, in modules; the last one is the stop symbol
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = 106;
+
+// Labels carry the barcode, or the SKU for products without one; Code 128 reads back as the
+// same text on any scanner
+export const canEncodeCode128 = (text: string) => /^[\x20-\x7e]+$/.test(text);
+
+// Bar and space widths for the text, starting with a bar. Even-length digit strings such as
+// EAN codes use code set C, two digits per symbol; anything else uses code set B.
+export const encodeCode128 = (text: string): number[] => {
+  const values = /^(\d\d)+$/.test(text)
+    ? [CODE128_START_C, ...(text.match(/\d\d/g) || []).map(Number)]
+    : [CODE128_START_B, ...text.split('').map((char) => char.charCodeAt(0) - 32)];
+  const checksum = values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) % 103;
+
+  return [...values, checksum, CODE128_STOP]
+    .flatMap((value) => CODE128_PATTERNS[value].split('').map(Number));
+};
+
+// The product a scanned code belongs to: an exact barcode match, or a SKU in any case
+export const findProductByCode = (products: Product[], code: string) =>
+  products.find((product) => product.barcode === code) ||
+  products.find((product) => product.sku?.toLowerCase() === code.toLowerCase());
@@ -0,0 +1,36 @@
+import { Product, StockBatch } from '../types';
+import { fromDateOnly } from './purchases';
+
+// Whole days from today to the expiry date, negative once expired
+export const getDaysToExpiry = (expiresOn: string, today: Date) =>
+  Math.round((fromDateOnly(expiresOn).getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+
+export const getBatchLabel = (batch: StockBatch) => (batch.lotNumber ? `Lot ${batch.lotNumber}` : 'No lot');
+
+export const describeExpiry = (daysLeft: number) => {
+  if (daysLeft < 0) {
+    return `expired ${-daysLeft} ${-daysLeft === 1 ? 'day' : 'days'} ago`;
+  }
+  if (daysLeft === 0) {
+    return 'expires today';
+  }
+  return `expires in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`;
+};
+
+// Batches with stock that have expired or expire within `days` days, soonest first
+export const getExpiringBatches = (products: Product[], days: number, today: Date) =>
+  products
+    .flatMap((product) => (product.batches || []).flatMap((batch) => {
+      const daysLeft = batch.expiresOn ? getDaysToExpiry(batch.expiresOn, today) : undefined;
+      return daysLeft !== undefined && daysLeft <= days ? [{ product, batch, daysLeft }] : [];
+    }))
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+
+// The batch with stock that expires first, at one location or across all of them
+export const getNextExpiringBatch = (product: Product, locationId?: string) =>
+  (product.batches || [])
+    .filter((batch) => batch.expiresOn && (!locationId || batch.locationId === locationId))
+    .reduce<StockBatch | undefined>(
+      (next, batch) => (!next || (batch.expiresOn as string) < (next.expiresOn as string) ? batch : next),
+      undefined
+    );
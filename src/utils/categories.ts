@@ -0,0 +1,50 @@
+import { Category } from '../types';
+
+// A category and its parents, the top-level category first
+const getAncestry = (categories: Category[], categoryId?: string) => {
+  const ancestry: Category[] = [];
+  let category = categories.find((c) => c.id === categoryId);
+  while (category && !ancestry.includes(category)) {
+    ancestry.unshift(category);
+    category = categories.find((c) => c.id === category?.parentId);
+  }
+  return ancestry;
+};
+
+// A category's name under its parents', e.g. "Electronics / Storage"
+export const getCategoryPath = (categories: Category[], categoryId?: string) =>
+  getAncestry(categories, categoryId).map((category) => category.name).join(' / ');
+
+// A category and every subcategory under it, at any depth
+export const getCategoryIds = (categories: Category[], categoryId: string) => {
+  const ids = [categoryId];
+  for (let i = 0; i < ids.length; i++) {
+    ids.push(...categories.filter((category) => category.parentId === ids[i]).map((category) => category.id));
+  }
+  return ids;
+};
+
+// Every category with how deep it sits, each followed by its subcategories, for nested lists and selects
+export const getCategoryTree = (categories: Category[], parentId?: string, depth = 0): { category: Category; depth: number }[] =>
+  categories
+    .filter((category) => category.parentId === parentId)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((category) => [{ category, depth }, ...getCategoryTree(categories, category.id, depth + 1)]);
+
+// Options for a category select, subcategories indented under their parents
+export const getCategoryOptions = (categories: Category[]) =>
+  getCategoryTree(categories).map(({ category, depth }) => ({
+    id: category.id,
+    label: `${'\u00A0\u00A0\u00A0'.repeat(depth)}${category.name}`,
+  }));
+
+// The GST rate and threshold a new product in the category starts with; a subcategory without
+// its own takes the nearest parent's
+export const getCategoryDefaults = (categories: Category[], categoryId?: string) =>
+  getAncestry(categories, categoryId).reduce<{ gstRate?: number; threshold?: number }>(
+    (defaults, category) => ({
+      gstRate: category.gstRate ?? defaults.gstRate,
+      threshold: category.threshold ?? defaults.threshold,
+    }),
+    {}
+  );
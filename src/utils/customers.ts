@@ -0,0 +1,48 @@
+import { CustomerPayment, Sale } from '../types';
+import { roundMoney } from './gst';
+import { CREDIT_METHOD } from './payments';
+
+interface LedgerEntry {
+  date: Date;
+  amount: number;
+}
+
+// Credit sales raise the balance; collections and returns refunded to credit bring it down
+const getCustomerLedger = (customerId: string, sales: Sale[], payments: CustomerPayment[]) => {
+  const customerSales = sales.filter((sale) => sale.customerId === customerId);
+
+  const charges: LedgerEntry[] = customerSales.flatMap((sale) => sale.payments
+    .filter((payment) => payment.method === CREDIT_METHOD)
+    .map((payment) => ({ date: sale.date, amount: payment.amount })));
+
+  const credits: LedgerEntry[] = [
+    ...customerSales.flatMap((sale) => sale.returns
+      .filter((saleReturn) => saleReturn.refundMethod === CREDIT_METHOD)
+      .map((saleReturn) => ({ date: saleReturn.date, amount: saleReturn.totalAmount }))),
+    ...payments
+      .filter((payment) => payment.customerId === customerId)
+      .map((payment) => ({ date: payment.date, amount: payment.amount })),
+  ];
+
+  return { charges, credits };
+};
+
+// Lifetime value is what the customer kept, so returns are netted out
+export const getCustomerSummary = (customerId: string, sales: Sale[], payments: CustomerPayment[]) => {
+  const customerSales = sales.filter((sale) => sale.customerId === customerId);
+  const { charges, credits } = getCustomerLedger(customerId, sales, payments);
+  const sum = (entries: LedgerEntry[]) => entries.reduce((total, entry) => total + entry.amount, 0);
+
+  return {
+    visits: customerSales.length,
+    lifetimeValue: roundMoney(customerSales.reduce(
+      (total, sale) => total + sale.totalAmount - sale.returns.reduce((sum, saleReturn) => sum + saleReturn.totalAmount, 0),
+      0
+    )),
+    lastVisit: customerSales.reduce<Date | undefined>(
+      (latest, sale) => (!latest || new Date(sale.date) > new Date(latest) ? sale.date : latest),
+      undefined
+    ),
+    balance: roundMoney(sum(charges) - sum(credits)),
+  };
+};
@@ -1,26 +1,112 @@
 // Utility functions for formatting data
 
-// Format number as Indian Rupees
+// Locale and currency from the store profile; AppContext updates them once it loads
+let formatOptions = {
+  locale: 'en-IN',
+  currency: 'INR',
+};
+
+export const setFormatOptions = (options: { locale: string; currency: string }) => {
+  formatOptions = { ...options };
+};
+
+// Format number in the store currency
 export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-IN', {
+  return new Intl.NumberFormat(formatOptions.locale, {
     style: 'currency',
-    currency: 'INR',
+    currency: formatOptions.currency,
     maximumFractionDigits: 2,
   }).format(amount);
 };
 
+// Format number in the store currency as a short label, e.g. for chart axes
+export const formatCompactCurrency = (amount: number): string => {
+  return new Intl.NumberFormat(formatOptions.locale, {
+    style: 'currency',
+    currency: formatOptions.currency,
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(amount);
+};
+
+// Symbol of the store currency, e.g. for form labels
+export const getCurrencySymbol = (): string => {
+  const parts = new Intl.NumberFormat(formatOptions.locale, {
+    style: 'currency',
+    currency: formatOptions.currency,
+  }).formatToParts(0);
+  return parts.find((part) => part.type === 'currency')?.value || formatOptions.currency;
+};
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+// Indian numbering groups by lakh and crore, everything else by thousand
+const INDIAN_SCALES: [number, string][] = [[10000000, 'Crore'], [100000, 'Lakh'], [1000, 'Thousand'], [100, 'Hundred']];
+const INTERNATIONAL_SCALES: [number, string][] = [[1000000000, 'Billion'], [1000000, 'Million'], [1000, 'Thousand'], [100, 'Hundred']];
+
+const CURRENCY_UNITS: Record<string, [string, string]> = {
+  INR: ['Rupees', 'Paise'],
+  USD: ['Dollars', 'Cents'],
+  EUR: ['Euros', 'Cents'],
+  GBP: ['Pounds', 'Pence'],
+};
+
+const integerToWords = (value: number, scales: [number, string][]): string => {
+  if (value < 20) {
+    return ONES[value];
+  }
+  if (value < 100) {
+    return [TENS[Math.floor(value / 10)], ONES[value % 10]].filter(Boolean).join(' ');
+  }
+
+  const [size, name] = scales.find(([scaleSize]) => value >= scaleSize)!;
+  return [
+    integerToWords(Math.floor(value / size), scales),
+    name,
+    integerToWords(value % size, scales),
+  ].filter(Boolean).join(' ');
+};
+
+// Amount in words for invoices, same wording as the server-generated PDF
+export const formatAmountInWords = (amount: number): string => {
+  const { currency } = formatOptions;
+  const scales = currency === 'INR' ? INDIAN_SCALES : INTERNATIONAL_SCALES;
+  const [major, minor] = CURRENCY_UNITS[currency] || [currency, 'Cents'];
+  const cents = Math.round(Math.abs(amount) * 100);
+  const whole = Math.floor(cents / 100);
+  const fraction = cents % 100;
+
+  let words = `${major} ${whole ? integerToWords(whole, scales) : 'Zero'}`;
+  if (fraction) {
+    words += ` and ${integerToWords(fraction, scales)} ${minor}`;
+  }
+  return `${words} Only`;
+};
+
 // Format date in a readable format
 export const formatDate = (date: Date): string => {
-  return new Intl.DateTimeFormat('en-IN', {
+  return new Intl.DateTimeFormat(formatOptions.locale, {
     year: 'numeric',
     month: 'short',
     day: 'numeric',
   }).format(new Date(date));
 };
 
+// Format date as day and month only
+export const formatShortDate = (date: Date | string): string => {
+  return new Intl.DateTimeFormat(formatOptions.locale, {
+    day: 'numeric',
+    month: 'short',
+  }).format(new Date(date));
+};
+
 // Format date with time
 export const formatDateTime = (date: Date): string => {
-  return new Intl.DateTimeFormat('en-IN', {
+  return new Intl.DateTimeFormat(formatOptions.locale, {
     year: 'numeric',
     month: 'short',
     day: 'numeric',
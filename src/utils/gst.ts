@@ -0,0 +1,33 @@
+// GST calculations for previews; the server recomputes every amount when a sale is saved
+
+export const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// A sale is inter-state when the place of supply is a different state from the store
+export const isInterState = (storeStateCode: string, placeOfSupply?: string): boolean =>
+  Boolean(storeStateCode && placeOfSupply && storeStateCode !== placeOfSupply);
+
+// Selling prices include GST, so the tax is carved out of the line total
+export const calculateLineTax = (totalPrice: number, gstRate: number, interState: boolean) => {
+  const taxableValue = roundMoney(totalPrice / (1 + gstRate / 100));
+  const tax = roundMoney(totalPrice - taxableValue);
+
+  if (interState) {
+    return { taxableValue, cgstAmount: 0, sgstAmount: 0, igstAmount: tax };
+  }
+
+  const cgstAmount = roundMoney(tax / 2);
+  return { taxableValue, cgstAmount, sgstAmount: roundMoney(tax - cgstAmount), igstAmount: 0 };
+};
+
+// Sale-level totals are the sum of the already-rounded line amounts
+export const summarizeTax = (
+  items: { taxableValue: number; cgstAmount: number; sgstAmount: number; igstAmount: number }[]
+) => items.reduce(
+  (totals, item) => ({
+    taxableAmount: roundMoney(totals.taxableAmount + item.taxableValue),
+    cgstAmount: roundMoney(totals.cgstAmount + item.cgstAmount),
+    sgstAmount: roundMoney(totals.sgstAmount + item.sgstAmount),
+    igstAmount: roundMoney(totals.igstAmount + item.igstAmount),
+  }),
+  { taxableAmount: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0 }
+);
@@ -0,0 +1,47 @@
+import { Location, Product, StockLevel, StockTransferStatus, User } from '../types';
+
+// Where a user's stock comes from: their own location, or the store's default when they have none
+export const getUserLocation = (locations: Location[], user: User | null) =>
+  locations.find((location) => location.id === user?.locationId) ||
+  locations.find((location) => location.isDefault);
+
+// Stock on hand at one location, or across every location when none is given
+export const getLocationQuantity = (product: Product, locationId?: string) =>
+  locationId
+    ? product.stock.find((stock) => stock.locationId === locationId)?.quantity ?? 0
+    : product.quantity;
+
+// A location's own threshold, falling back to the product threshold
+export const getLocationThreshold = (product: Product, locationId?: string) =>
+  locationId
+    ? product.stock.find((stock) => stock.locationId === locationId)?.threshold ?? product.threshold
+    : product.threshold;
+
+export const isLowStock = (product: Product, locationId?: string) =>
+  getLocationQuantity(product, locationId) <= getLocationThreshold(product, locationId);
+
+// Take in the stock levels the server settled on after stock moved
+export const applyStockLevels = (products: Product[], levels: StockLevel[]) =>
+  products.map((product) => {
+    const level = levels.find((p) => p.id === product.id);
+    return level
+      ? {
+        ...product,
+        quantity: level.quantity,
+        costPrice: level.costPrice,
+        stock: level.stock,
+        batches: level.batches,
+        updatedAt: level.updatedAt,
+      }
+      : product;
+  });
+
+export const STOCK_TRANSFER_STATUS_LABELS: Record<StockTransferStatus, string> = {
+  in_transit: 'In Transit',
+  received: 'Received',
+};
+
+export const STOCK_TRANSFER_STATUS_STYLES: Record<StockTransferStatus, string> = {
+  in_transit: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+};
@@ -0,0 +1,22 @@
+import { Payment } from '../types';
+import { roundMoney } from './gst';
+
+// Tenders accepted at the counter; the server checks against the same list
+export const PAYMENT_METHODS = ['Cash', 'UPI', 'Credit Card', 'Debit Card', 'Net Banking', 'Other'];
+
+// Udhaar: the amount goes on the customer's account instead of being collected now
+export const CREDIT_METHOD = 'Credit';
+
+export const CARD_METHODS = ['Credit Card', 'Debit Card'];
+
+export const sumPayments = (payments: Payment[]): number =>
+  roundMoney(payments.reduce((sum, payment) => sum + payment.amount, 0));
+
+// Cash handed over beyond what was applied to the bill
+export const calculateChangeDue = (payments: Payment[]): number => roundMoney(
+  payments.reduce((sum, payment) => sum + (payment.tendered !== undefined ? payment.tendered - payment.amount : 0), 0)
+);
+
+// "UPI 300.00 (ref), Cash 130.00" style summary for lists and receipts
+export const describePayment = (payment: Payment, formatAmount: (amount: number) => string): string =>
+  `${payment.method} ${formatAmount(payment.amount)}${payment.reference ? ` (${payment.reference})` : ''}`;
@@ -0,0 +1,49 @@
+import { Product, PurchaseOrder, PurchaseOrderItem, PurchaseOrderStatus } from '../types';
+import { isVariantParent } from './variants';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+};
+
+export const PURCHASE_ORDER_STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+};
+
+export const getOutstandingQuantity = (item: PurchaseOrderItem) =>
+  item.quantityOrdered - item.quantityReceived;
+
+// Units already ordered but not yet delivered, per product, across open purchase orders
+export const getQuantityOnOrder = (purchaseOrders: PurchaseOrder[]) => {
+  const onOrder = new Map<string, number>();
+  purchaseOrders
+    .filter((order) => order.status !== 'received')
+    .forEach((order) => {
+      order.items.forEach((item) => {
+        onOrder.set(item.productId, (onOrder.get(item.productId) || 0) + getOutstandingQuantity(item));
+      });
+    });
+  return onOrder;
+};
+
+// Products at or below their threshold, topped up to twice the threshold after what is already on order
+export const getReorderSuggestions = (products: Product[], purchaseOrders: PurchaseOrder[]) => {
+  const onOrder = getQuantityOnOrder(purchaseOrders);
+
+  return products
+    .filter((product) => !isVariantParent(product) && product.quantity <= product.threshold)
+    .map((product) => ({
+      productId: product.id,
+      quantity: Math.max(product.threshold * 2, 1) - product.quantity - (onOrder.get(product.id) || 0),
+      unitCost: product.costPrice,
+    }))
+    .filter((line) => line.quantity > 0);
+};
+
+// Expected and bill dates are calendar days (YYYY-MM-DD); read them as local midnight
+export const fromDateOnly = (value: string) => new Date(`${value}T00:00:00`);
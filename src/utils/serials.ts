@@ -0,0 +1,24 @@
+import { fromDateOnly } from './purchases';
+
+// Serial numbers typed or scanned into one box, separated by commas or new lines.
+// Stored in capitals, as the server compares them without regard to case.
+export const parseSerials = (text: string) =>
+  text.split(/[,\n]/).map((serial) => serial.trim().toUpperCase()).filter(Boolean);
+
+// Same rules as the server: one serial number for each unit, each given once
+export const getSerialsError = (serials: string[], quantity: number) => {
+  if (serials.some((serial) => serial.length > 64)) {
+    return 'Serial numbers must be at most 64 characters';
+  }
+  if (new Set(serials).size !== serials.length) {
+    return 'Each serial number can only be entered once';
+  }
+  if (serials.length !== quantity) {
+    return `Enter ${quantity} serial ${quantity === 1 ? 'number' : 'numbers'}, one for each unit`;
+  }
+  return undefined;
+};
+
+// Whether a warranty ending on the given day still covers today
+export const isUnderWarranty = (warrantyEndsOn: string | undefined, today: Date) =>
+  !!warrantyEndsOn && fromDateOnly(warrantyEndsOn) >= today;
@@ -0,0 +1,62 @@
+import { CostingMethod, StockCountItem, StockCountStatus, StockMovement, StockMovementType } from '../types';
+import { roundMoney } from './gst';
+
+export const MOVEMENT_TYPE_LABELS: Record<StockMovementType, string> = {
+  opening: 'Opening Stock',
+  sale: 'Sale',
+  return: 'Sales Return',
+  purchase: 'Purchase Receipt',
+  adjustment: 'Adjustment',
+  transfer: 'Transfer',
+};
+
+// Reason codes for manual adjustments, mirrored in server/utils/stock.js
+export const ADJUSTMENT_REASONS: [string, string][] = [
+  ['damaged', 'Damaged'],
+  ['expired', 'Expired'],
+  ['lost', 'Lost / Theft'],
+  ['found', 'Found'],
+  ['count_correction', 'Count Correction'],
+  ['other', 'Other'],
+];
+
+export const getAdjustmentReasonLabel = (reason: string) =>
+  ADJUSTMENT_REASONS.find(([code]) => code === reason)?.[1] || reason;
+
+// What the ledger says the product should hold
+export const getLedgerQuantity = (movements: StockMovement[]) =>
+  movements.reduce((sum, movement) => sum + movement.quantityChange, 0);
+
+export const STOCK_COUNT_STATUS_LABELS: Record<StockCountStatus, string> = {
+  counting: 'Counting',
+  submitted: 'Awaiting Approval',
+  posted: 'Posted',
+};
+
+export const STOCK_COUNT_STATUS_STYLES: Record<StockCountStatus, string> = {
+  counting: 'bg-yellow-100 text-yellow-800',
+  submitted: 'bg-blue-100 text-blue-800',
+  posted: 'bg-green-100 text-green-800',
+};
+
+// Counted minus system quantity; zero for lines not counted yet
+export const getCountVariance = (item: StockCountItem) =>
+  item.countedQuantity === undefined ? 0 : item.countedQuantity - item.systemQuantity;
+
+// Variance units and their value at cost across the counted lines
+export const summarizeStockCount = (items: StockCountItem[]) => items.reduce(
+  (summary, item) => {
+    const variance = getCountVariance(item);
+    return {
+      counted: summary.counted + (item.countedQuantity === undefined ? 0 : 1),
+      varianceUnits: summary.varianceUnits + variance,
+      varianceValue: roundMoney(summary.varianceValue + variance * item.unitCost),
+    };
+  },
+  { counted: 0, varianceUnits: 0, varianceValue: 0 }
+);
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  fifo: 'FIFO (first in, first out)',
+  average: 'Weighted average',
+};
@@ -0,0 +1,53 @@
+import { Product, ProductVariantInput, VariantOption } from '../types';
+
+// Same limit as the server
+export const MAX_VARIANT_OPTIONS = 3;
+
+// A parent only groups its variants; it has no stock and is never sold or ordered itself
+export const isVariantParent = (product: Product) => !!product.variantOptions?.length;
+
+// Products that hold stock: simple products and variants
+export const getStockedProducts = (products: Product[]) => products.filter((product) => !isVariantParent(product));
+
+export const getVariants = (products: Product[], parentId: string) =>
+  products.filter((product) => product.parentId === parentId);
+
+// A variant's option values in the order of the parent's options, e.g. "Red / L"
+export const getVariantLabel = (options: VariantOption[], attributes: Record<string, string>) =>
+  options.map((option) => attributes[option.name]).join(' / ');
+
+// Every combination of option values, keeping the variants already set up and adding new ones
+// with the parent's price, cost and threshold
+export const buildVariantMatrix = (
+  options: VariantOption[],
+  current: ProductVariantInput[],
+  defaults: Pick<ProductVariantInput, 'price' | 'costPrice' | 'threshold'>
+): ProductVariantInput[] => {
+  const combinations = options.reduce<Record<string, string>[]>(
+    (acc, option) => acc.flatMap((attributes) =>
+      option.values.map((value) => ({ ...attributes, [option.name]: value }))
+    ),
+    [{}]
+  );
+
+  return options.length === 0 ? [] : combinations.map((attributes) => {
+    const label = getVariantLabel(options, attributes);
+    const existing = current.find((variant) => getVariantLabel(options, variant.attributes) === label);
+    return existing ? { ...existing, attributes } : { attributes, sku: '', barcode: '', quantity: 0, ...defaults };
+  });
+};
+
+// Options as typed in the product form, values separated by commas
+export interface VariantOptionDraft {
+  name: string;
+  values: string;
+}
+
+// Options with a name and at least one value, each value listed once
+export const parseVariantOptions = (drafts: VariantOptionDraft[]): VariantOption[] =>
+  drafts
+    .map((draft) => ({
+      name: draft.name.trim(),
+      values: Array.from(new Set(draft.values.split(',').map((value) => value.trim()).filter(Boolean))),
+    }))
+    .filter((option) => option.name && option.values.length > 0);
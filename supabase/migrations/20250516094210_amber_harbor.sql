@@ -0,0 +1,34 @@
+/*
+  # Products Table
+
+  1. New Tables
+    - `products`
+      - `id` (uuid, primary key)
+      - `name`, `description`, `category`
+      - `price`, `cost_price` (decimal)
+      - `quantity`, `threshold` (int, low stock threshold)
+      - `image_url` (base64 data URL or remote URL)
+      - `created_at`, `updated_at` (timestamp)
+*/
+
+USE erp_system;
+
+CREATE TABLE IF NOT EXISTS products (
+  id VARCHAR(36) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  category VARCHAR(100) NOT NULL,
+  price DECIMAL(12, 2) NOT NULL,
+  cost_price DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  quantity INT NOT NULL DEFAULT 0,
+  threshold INT NOT NULL DEFAULT 0,
+  image_url MEDIUMTEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  CONSTRAINT chk_products_price CHECK (price > 0),
+  CONSTRAINT chk_products_cost_price CHECK (cost_price >= 0),
+  CONSTRAINT chk_products_quantity CHECK (quantity >= 0),
+  CONSTRAINT chk_products_threshold CHECK (threshold >= 0)
+);
+
+CREATE INDEX idx_products_category ON products (category);
@@ -0,0 +1,45 @@
+/*
+  # Sales and Sale Items Tables
+
+  1. New Tables
+    - `sales`
+      - `id` (uuid, primary key)
+      - `total_amount` (decimal)
+      - `payment_method`, `customer_name`, `customer_phone`, `notes`
+      - `created_by` (references users)
+      - `created_at` (timestamp, the sale date)
+    - `sale_items`
+      - `sale_id` (references sales)
+      - `product_id` (references products)
+      - `product_name` (name at the time of sale)
+      - `quantity`, `unit_price`, `total_price`
+*/
+
+USE erp_system;
+
+CREATE TABLE IF NOT EXISTS sales (
+  id VARCHAR(36) PRIMARY KEY,
+  total_amount DECIMAL(12, 2) NOT NULL,
+  payment_method VARCHAR(50) NOT NULL,
+  customer_name VARCHAR(255),
+  customer_phone VARCHAR(20),
+  notes TEXT,
+  created_by VARCHAR(36),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS sale_items (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  sale_id VARCHAR(36) NOT NULL,
+  product_id VARCHAR(36) NOT NULL,
+  product_name VARCHAR(255) NOT NULL,
+  quantity INT NOT NULL,
+  unit_price DECIMAL(12, 2) NOT NULL,
+  total_price DECIMAL(12, 2) NOT NULL,
+  FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE CASCADE,
+  FOREIGN KEY (product_id) REFERENCES products(id),
+  CONSTRAINT chk_sale_items_quantity CHECK (quantity > 0)
+);
+
+CREATE INDEX idx_sales_created_at ON sales (created_at);
@@ -0,0 +1,17 @@
+/*
+  # Password Login Support
+
+  1. Changes
+    - `users.password` is nullable: accounts created through Google sign-in have no password
+    - Reset the seeded admin password hash, which did not match `admin123`
+*/
+
+USE erp_system;
+
+ALTER TABLE users MODIFY password VARCHAR(255) NULL;
+
+-- Default admin user (password: admin123)
+UPDATE users
+SET password = '$2a$10$pBqUqCy2tQ1WrhEpXQs/3OGAaf2M0E9URX02633QY8J//F5cnE3K.'
+WHERE email = 'admin@example.com'
+  AND password = '$2a$10$XgXB8p6O1m7XpXf6nUFJx.1xz3GYzR3s.1xIB7hl7vI1K4vQ5XK6.';
@@ -0,0 +1,23 @@
+/*
+  # Refresh Tokens Table
+
+  1. New Tables
+    - `refresh_tokens`
+      - `token_hash` (sha256 of the token handed to the client)
+      - `user_id` (references users)
+      - `expires_at` (timestamp)
+      - `revoked_at` (timestamp, set on rotation or logout)
+      - `created_at` (timestamp)
+*/
+
+USE erp_system;
+
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  user_id VARCHAR(36) NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
@@ -0,0 +1,13 @@
+/*
+  # User Administration Columns
+
+  1. Changes
+    - `users.phone` (10-digit phone number)
+    - `users.is_active` (deactivated users cannot sign in)
+*/
+
+USE erp_system;
+
+ALTER TABLE users
+  ADD COLUMN phone VARCHAR(20) NULL AFTER email,
+  ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT TRUE AFTER role;
@@ -0,0 +1,24 @@
+/*
+  # Profile Avatars and User Preferences
+
+  1. Changes
+    - `users.avatar_url` (base64 data URL uploaded from Settings)
+
+  2. New Tables
+    - `user_preferences`
+      - `user_id` (primary key, references users)
+      - `notifications` (show in-app notifications)
+      - `stock_alerts` (show low and out of stock alerts)
+*/
+
+USE erp_system;
+
+ALTER TABLE users ADD COLUMN avatar_url MEDIUMTEXT NULL AFTER phone;
+
+CREATE TABLE IF NOT EXISTS user_preferences (
+  user_id VARCHAR(36) PRIMARY KEY,
+  notifications BOOLEAN NOT NULL DEFAULT TRUE,
+  stock_alerts BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
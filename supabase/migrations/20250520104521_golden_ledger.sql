@@ -0,0 +1,42 @@
+/*
+  # Store Settings Table
+
+  1. New Tables
+    - `store_settings` (single row, id = 1)
+      - `legal_name`, `trade_name`
+      - `address_line1`, `address_line2`, `city`, `state`, `pincode`
+      - `state_code` (2-digit GST state code)
+      - `phone`, `email`, `gstin`
+      - `logo_url` (base64 data URL)
+      - `currency` (ISO 4217 code), `locale` (BCP 47 tag)
+      - `fiscal_year_start_month` (1 = January, 4 = April)
+      - `default_tax_rate`, `tax_rates` (JSON array of GST rates in percent)
+*/
+
+USE erp_system;
+
+CREATE TABLE IF NOT EXISTS store_settings (
+  id TINYINT PRIMARY KEY DEFAULT 1,
+  legal_name VARCHAR(255) NOT NULL,
+  trade_name VARCHAR(255),
+  address_line1 VARCHAR(255) NOT NULL DEFAULT '',
+  address_line2 VARCHAR(255),
+  city VARCHAR(100) NOT NULL DEFAULT '',
+  state VARCHAR(100) NOT NULL DEFAULT '',
+  state_code CHAR(2) NOT NULL DEFAULT '',
+  pincode VARCHAR(6) NOT NULL DEFAULT '',
+  phone VARCHAR(20),
+  email VARCHAR(255),
+  gstin VARCHAR(15),
+  logo_url MEDIUMTEXT,
+  currency CHAR(3) NOT NULL DEFAULT 'INR',
+  locale VARCHAR(20) NOT NULL DEFAULT 'en-IN',
+  fiscal_year_start_month TINYINT NOT NULL DEFAULT 4,
+  default_tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 18,
+  tax_rates JSON NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  CONSTRAINT chk_store_settings_single_row CHECK (id = 1),
+  CONSTRAINT chk_store_settings_fiscal_month CHECK (fiscal_year_start_month BETWEEN 1 AND 12)
+);
+
+INSERT IGNORE INTO store_settings (id, legal_name, tax_rates) VALUES (1, 'My Store', '[0, 5, 12, 18, 28]');
@@ -0,0 +1,38 @@
+/*
+  # GST on Products and Sales
+
+  1. Changes
+    - `products.hsn_code` (HSN/SAC code printed on invoices)
+    - `products.gst_rate` (percent, selling price is inclusive of GST)
+    - `sales.customer_gstin`, `sales.place_of_supply` (2-digit GST state code)
+    - `sales.taxable_amount`, `cgst_amount`, `sgst_amount`, `igst_amount`
+    - `sale_items.hsn_code`, `gst_rate`, `taxable_value`, `cgst_amount`, `sgst_amount`, `igst_amount`
+
+  2. Notes
+    - Existing sales carry no tax breakdown, so their taxable amount is the full total
+*/
+
+USE erp_system;
+
+ALTER TABLE products
+  ADD COLUMN hsn_code VARCHAR(8) NULL AFTER category,
+  ADD COLUMN gst_rate DECIMAL(5, 2) NOT NULL DEFAULT 18 AFTER hsn_code;
+
+ALTER TABLE sales
+  ADD COLUMN customer_gstin VARCHAR(15) NULL AFTER customer_phone,
+  ADD COLUMN place_of_supply CHAR(2) NULL AFTER customer_gstin,
+  ADD COLUMN taxable_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 AFTER total_amount,
+  ADD COLUMN cgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 AFTER taxable_amount,
+  ADD COLUMN sgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 AFTER cgst_amount,
+  ADD COLUMN igst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 AFTER sgst_amount;
+
+ALTER TABLE sale_items
+  ADD COLUMN hsn_code VARCHAR(8) NULL AFTER product_name,
+  ADD COLUMN gst_rate DECIMAL(5, 2) NOT NULL DEFAULT 0 AFTER total_price,
+  ADD COLUMN taxable_value DECIMAL(12, 2) NOT NULL DEFAULT 0 AFTER gst_rate,
+  ADD COLUMN cgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 AFTER taxable_value,
+  ADD COLUMN sgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 AFTER cgst_amount,
+  ADD COLUMN igst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 AFTER sgst_amount;
+
+UPDATE sales SET taxable_amount = total_amount;
+UPDATE sale_items SET taxable_value = total_price;
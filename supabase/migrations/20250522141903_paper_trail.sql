@@ -0,0 +1,13 @@
+/*
+  # Invoice Numbers
+
+  1. Changes
+    - `sales.invoice_seq` (sequential number printed on invoices and receipts)
+
+  2. Notes
+    - Existing sales are numbered in the order they were created
+*/
+
+USE erp_system;
+
+ALTER TABLE sales ADD COLUMN invoice_seq INT NOT NULL AUTO_INCREMENT UNIQUE AFTER id;
@@ -0,0 +1,58 @@
+/*
+  # Gapless Invoice Numbering
+
+  1. New Tables
+    - `invoice_sequences`
+      - `fiscal_year` (primary key, e.g. 2026-27, or 2026 when the year starts in January)
+      - `last_number` (last invoice number handed out in that year)
+
+  2. Changes
+    - `store_settings.invoice_prefix` (e.g. INV)
+    - `sales.invoice_number` (e.g. INV/2026-27/000123, unique)
+    - `sales.invoice_seq` is dropped; auto-increment values skip numbers on rollback
+
+  3. Notes
+    - Existing sales are renumbered per fiscal year in the order they were created
+    - The sequence row is updated inside the sale transaction, so a failed sale
+      rolls its number back and concurrent sales wait for each other
+*/
+
+USE erp_system;
+
+ALTER TABLE store_settings ADD COLUMN invoice_prefix VARCHAR(10) NOT NULL DEFAULT 'INV' AFTER fiscal_year_start_month;
+
+CREATE TABLE IF NOT EXISTS invoice_sequences (
+  fiscal_year VARCHAR(7) PRIMARY KEY,
+  last_number INT NOT NULL DEFAULT 0
+);
+
+ALTER TABLE sales ADD COLUMN invoice_number VARCHAR(30) NULL AFTER id;
+
+SET @start_month = (SELECT fiscal_year_start_month FROM store_settings WHERE id = 1);
+
+UPDATE sales s
+JOIN (
+  SELECT id, fiscal_year, ROW_NUMBER() OVER (PARTITION BY fiscal_year ORDER BY created_at, invoice_seq) AS number
+  FROM (
+    SELECT id, created_at, invoice_seq,
+      IF(@start_month = 1,
+        CAST(YEAR(created_at) AS CHAR),
+        CONCAT(
+          YEAR(created_at) - (MONTH(created_at) < @start_month), '-',
+          LPAD(MOD(YEAR(created_at) - (MONTH(created_at) < @start_month) + 1, 100), 2, '0')
+        )
+      ) AS fiscal_year
+    FROM sales
+  ) years
+) numbered ON numbered.id = s.id
+SET s.invoice_number = CONCAT('INV/', numbered.fiscal_year, '/', LPAD(numbered.number, 6, '0'));
+
+INSERT INTO invoice_sequences (fiscal_year, last_number)
+SELECT SUBSTRING_INDEX(SUBSTRING_INDEX(invoice_number, '/', 2), '/', -1) AS fiscal_year, COUNT(*)
+FROM sales
+GROUP BY fiscal_year;
+
+ALTER TABLE sales
+  MODIFY invoice_number VARCHAR(30) NOT NULL,
+  ADD UNIQUE KEY uq_sales_invoice_number (invoice_number),
+  DROP COLUMN invoice_seq;
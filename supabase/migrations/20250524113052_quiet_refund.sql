@@ -0,0 +1,73 @@
+/*
+  # Sales Returns and Credit Notes
+
+  1. New Tables
+    - `sale_returns`
+      - `id` (uuid, primary key)
+      - `sale_id` (references sales)
+      - `credit_note_number` (e.g. CN/2026-27/000007, unique)
+      - `total_amount`, `taxable_amount`, `cgst_amount`, `sgst_amount`, `igst_amount` (refunded amounts)
+      - `refund_method`, `reason`
+      - `created_by` (references users)
+      - `created_at` (timestamp, the return date)
+    - `sale_return_items`
+      - `return_id` (references sale_returns)
+      - `sale_item_id` (references sale_items, the line being returned)
+      - `product_id`, `product_name`, `hsn_code`, `quantity`, `unit_price`, `total_price`
+      - `gst_rate`, `taxable_value`, `cgst_amount`, `sgst_amount`, `igst_amount`
+
+  2. Changes
+    - `store_settings.credit_note_prefix` (e.g. CN)
+    - `invoice_sequences.series` ('invoice' or 'credit_note'), part of the primary key,
+      so credit notes are numbered separately from invoices
+*/
+
+USE erp_system;
+
+ALTER TABLE store_settings ADD COLUMN credit_note_prefix VARCHAR(10) NOT NULL DEFAULT 'CN' AFTER invoice_prefix;
+
+ALTER TABLE invoice_sequences
+  ADD COLUMN series VARCHAR(20) NOT NULL DEFAULT 'invoice' FIRST,
+  DROP PRIMARY KEY,
+  ADD PRIMARY KEY (series, fiscal_year);
+
+CREATE TABLE IF NOT EXISTS sale_returns (
+  id VARCHAR(36) PRIMARY KEY,
+  sale_id VARCHAR(36) NOT NULL,
+  credit_note_number VARCHAR(30) NOT NULL,
+  total_amount DECIMAL(12, 2) NOT NULL,
+  taxable_amount DECIMAL(12, 2) NOT NULL,
+  cgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  sgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  igst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  refund_method VARCHAR(50) NOT NULL,
+  reason TEXT,
+  created_by VARCHAR(36),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_sale_returns_credit_note_number (credit_note_number),
+  FOREIGN KEY (sale_id) REFERENCES sales(id),
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS sale_return_items (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  return_id VARCHAR(36) NOT NULL,
+  sale_item_id INT NOT NULL,
+  product_id VARCHAR(36) NOT NULL,
+  product_name VARCHAR(255) NOT NULL,
+  hsn_code VARCHAR(8) NULL,
+  quantity INT NOT NULL,
+  unit_price DECIMAL(12, 2) NOT NULL,
+  total_price DECIMAL(12, 2) NOT NULL,
+  gst_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  taxable_value DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  cgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  sgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  igst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  FOREIGN KEY (return_id) REFERENCES sale_returns(id) ON DELETE CASCADE,
+  FOREIGN KEY (sale_item_id) REFERENCES sale_items(id),
+  FOREIGN KEY (product_id) REFERENCES products(id),
+  CONSTRAINT chk_sale_return_items_quantity CHECK (quantity > 0)
+);
+
+CREATE INDEX idx_sale_returns_created_at ON sale_returns (created_at);
@@ -0,0 +1,36 @@
+/*
+  # Split Payments
+
+  1. New Tables
+    - `sale_payments`
+      - `sale_id` (references sales)
+      - `method` (Cash, UPI, Credit Card, ...)
+      - `amount` (applied to the bill)
+      - `reference` (UPI transaction ID, card last 4 digits, ...)
+      - `tendered_amount` (cash handed over, null for other tenders)
+
+  2. Changes
+    - `sales.change_due` (cash returned to the customer)
+    - `sales.payment_method` now holds the single tender used, or 'Split'
+
+  3. Notes
+    - Existing sales get one payment for their full amount
+*/
+
+USE erp_system;
+
+ALTER TABLE sales ADD COLUMN change_due DECIMAL(12, 2) NOT NULL DEFAULT 0 AFTER payment_method;
+
+CREATE TABLE IF NOT EXISTS sale_payments (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  sale_id VARCHAR(36) NOT NULL,
+  method VARCHAR(50) NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL,
+  reference VARCHAR(100),
+  tendered_amount DECIMAL(12, 2),
+  FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE CASCADE,
+  CONSTRAINT chk_sale_payments_amount CHECK (amount > 0)
+);
+
+INSERT INTO sale_payments (sale_id, method, amount)
+SELECT id, payment_method, total_amount FROM sales;
@@ -0,0 +1,72 @@
+/*
+  # Customers and Credit (Udhaar) Accounts
+
+  1. New Tables
+    - `customers`
+      - `id` (uuid, primary key)
+      - `name`, `phone` (10 digits, unique), `email`, `gstin`, `address`, `notes`
+      - `credit_limit` (0 means no limit)
+      - `created_at`, `updated_at` (timestamps)
+    - `customer_payments` (money collected against a credit balance)
+      - `id` (uuid, primary key)
+      - `customer_id` (references customers)
+      - `amount`, `method`, `reference`, `notes`
+      - `created_by` (references users)
+      - `created_at` (timestamp, the collection date)
+
+  2. Changes
+    - `sales.customer_id` (references customers)
+
+  3. Notes
+    - A sale paid with the 'Credit' tender adds to the customer's balance; collections and
+      returns refunded to 'Credit' reduce it
+    - Existing sales with a phone number are grouped into one customer per phone
+*/
+
+USE erp_system;
+
+CREATE TABLE IF NOT EXISTS customers (
+  id VARCHAR(36) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  phone VARCHAR(10) NOT NULL,
+  email VARCHAR(255),
+  gstin VARCHAR(15),
+  address TEXT,
+  credit_limit DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_customers_phone (phone),
+  CONSTRAINT chk_customers_credit_limit CHECK (credit_limit >= 0)
+);
+
+CREATE INDEX idx_customers_name ON customers (name);
+
+CREATE TABLE IF NOT EXISTS customer_payments (
+  id VARCHAR(36) PRIMARY KEY,
+  customer_id VARCHAR(36) NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL,
+  method VARCHAR(50) NOT NULL,
+  reference VARCHAR(100),
+  notes TEXT,
+  created_by VARCHAR(36),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (customer_id) REFERENCES customers(id),
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+  CONSTRAINT chk_customer_payments_amount CHECK (amount > 0)
+);
+
+CREATE INDEX idx_customer_payments_customer ON customer_payments (customer_id, created_at);
+
+ALTER TABLE sales ADD COLUMN customer_id VARCHAR(36) NULL AFTER change_due;
+ALTER TABLE sales ADD CONSTRAINT fk_sales_customer FOREIGN KEY (customer_id) REFERENCES customers(id);
+
+INSERT INTO customers (id, name, phone, gstin)
+SELECT UUID(), COALESCE(MAX(customer_name), customer_phone), customer_phone, MAX(customer_gstin)
+FROM sales
+WHERE customer_phone IS NOT NULL
+GROUP BY customer_phone;
+
+UPDATE sales s
+JOIN customers c ON c.phone = s.customer_phone
+SET s.customer_id = c.id;
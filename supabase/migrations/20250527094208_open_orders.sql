@@ -0,0 +1,123 @@
+/*
+  # Suppliers, Purchase Orders and Supplier Bills
+
+  1. New Tables
+    - `suppliers`
+      - `id` (uuid, primary key)
+      - `name`, `phone`, `email`, `gstin`, `address`, `notes`
+      - `created_at`, `updated_at` (timestamps)
+    - `purchase_orders`
+      - `id` (uuid, primary key)
+      - `po_number` (e.g. PO/2026-27/000012, unique)
+      - `supplier_id` (references suppliers)
+      - `status` (draft, sent, partially_received, received)
+      - `expected_date`, `notes`
+      - `total_amount` (ordered quantity x unit cost)
+      - `created_by` (references users)
+      - `created_at`, `updated_at` (timestamps)
+    - `purchase_order_items`
+      - `purchase_order_id` (references purchase_orders)
+      - `product_id` (references products), `product_name`
+      - `quantity_ordered`, `quantity_received`, `unit_cost`
+    - `goods_receipts` and `goods_receipt_items` (each delivery against a purchase order)
+    - `supplier_bills`
+      - `id` (uuid, primary key)
+      - `supplier_id` (references suppliers)
+      - `purchase_order_id` (references purchase_orders, optional)
+      - `bill_number` (the supplier's invoice number, unique per supplier)
+      - `bill_date`, `due_date`, `amount`, `notes`
+      - `paid_at` (null while unpaid)
+
+  2. Notes
+    - Purchase orders are numbered from `invoice_sequences` under the 'purchase_order' series
+    - Receiving goods adds to `products.quantity` and sets `products.cost_price` to the received cost
+*/
+
+USE erp_system;
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id VARCHAR(36) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  phone VARCHAR(10),
+  email VARCHAR(255),
+  gstin VARCHAR(15),
+  address TEXT,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id VARCHAR(36) PRIMARY KEY,
+  po_number VARCHAR(30) NOT NULL,
+  supplier_id VARCHAR(36) NOT NULL,
+  status ENUM('draft', 'sent', 'partially_received', 'received') NOT NULL DEFAULT 'draft',
+  expected_date DATE,
+  notes TEXT,
+  total_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  created_by VARCHAR(36),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_purchase_orders_po_number (po_number),
+  FOREIGN KEY (supplier_id) REFERENCES suppliers(id),
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_purchase_orders_status ON purchase_orders (status);
+
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  purchase_order_id VARCHAR(36) NOT NULL,
+  product_id VARCHAR(36) NOT NULL,
+  product_name VARCHAR(255) NOT NULL,
+  quantity_ordered INT NOT NULL,
+  quantity_received INT NOT NULL DEFAULT 0,
+  unit_cost DECIMAL(12, 2) NOT NULL,
+  FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  FOREIGN KEY (product_id) REFERENCES products(id),
+  CONSTRAINT chk_purchase_order_items_quantity CHECK (quantity_ordered > 0),
+  CONSTRAINT chk_purchase_order_items_received CHECK (quantity_received BETWEEN 0 AND quantity_ordered),
+  CONSTRAINT chk_purchase_order_items_cost CHECK (unit_cost >= 0)
+);
+
+CREATE TABLE IF NOT EXISTS goods_receipts (
+  id VARCHAR(36) PRIMARY KEY,
+  purchase_order_id VARCHAR(36) NOT NULL,
+  notes TEXT,
+  created_by VARCHAR(36),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders(id),
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS goods_receipt_items (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  receipt_id VARCHAR(36) NOT NULL,
+  purchase_order_item_id INT NOT NULL,
+  product_id VARCHAR(36) NOT NULL,
+  quantity INT NOT NULL,
+  unit_cost DECIMAL(12, 2) NOT NULL,
+  FOREIGN KEY (receipt_id) REFERENCES goods_receipts(id) ON DELETE CASCADE,
+  FOREIGN KEY (purchase_order_item_id) REFERENCES purchase_order_items(id),
+  FOREIGN KEY (product_id) REFERENCES products(id),
+  CONSTRAINT chk_goods_receipt_items_quantity CHECK (quantity > 0)
+);
+
+CREATE TABLE IF NOT EXISTS supplier_bills (
+  id VARCHAR(36) PRIMARY KEY,
+  supplier_id VARCHAR(36) NOT NULL,
+  purchase_order_id VARCHAR(36),
+  bill_number VARCHAR(50) NOT NULL,
+  bill_date DATE NOT NULL,
+  due_date DATE,
+  amount DECIMAL(12, 2) NOT NULL,
+  notes TEXT,
+  paid_at TIMESTAMP NULL,
+  created_by VARCHAR(36),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_supplier_bills_number (supplier_id, bill_number),
+  FOREIGN KEY (supplier_id) REFERENCES suppliers(id),
+  FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders(id),
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+  CONSTRAINT chk_supplier_bills_amount CHECK (amount > 0)
+);
@@ -0,0 +1,53 @@
+/*
+  # Stock Movement Ledger
+
+  1. New Tables
+    - `stock_movements`
+      - `product_id` (the product whose stock changed)
+      - `type` (opening, sale, return, purchase, adjustment, transfer)
+      - `quantity_change` (signed, negative when stock goes out)
+      - `quantity_after` (products.quantity once the change was applied)
+      - `reason` (reason code, required for manual adjustments)
+      - `reference_id`, `reference` (the sale, return or goods receipt and its document number)
+      - `notes`
+      - `created_by` (references users), `created_at`
+
+  2. Changes
+    - Every product gets an opening entry for the stock it holds today, so the ledger
+      adds up to `products.quantity` from the start
+
+  3. Notes
+    - The table is append-only: triggers reject updates and deletes
+    - `product_id` has no foreign key so the history outlives a deleted product
+*/
+
+USE erp_system;
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  product_id VARCHAR(36) NOT NULL,
+  type ENUM('opening', 'sale', 'return', 'purchase', 'adjustment', 'transfer') NOT NULL,
+  quantity_change INT NOT NULL,
+  quantity_after INT NOT NULL,
+  reason VARCHAR(30),
+  reference_id VARCHAR(36),
+  reference VARCHAR(50),
+  notes VARCHAR(255),
+  created_by VARCHAR(36),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+  CONSTRAINT chk_stock_movements_change CHECK (quantity_change <> 0)
+);
+
+CREATE INDEX idx_stock_movements_product ON stock_movements (product_id, created_at);
+
+CREATE TRIGGER stock_movements_no_update BEFORE UPDATE ON stock_movements
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'stock_movements is append-only';
+
+CREATE TRIGGER stock_movements_no_delete BEFORE DELETE ON stock_movements
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'stock_movements is append-only';
+
+INSERT INTO stock_movements (product_id, type, quantity_change, quantity_after, notes)
+SELECT id, 'opening', quantity, quantity, 'Stock on hand when the ledger was introduced'
+FROM products
+WHERE quantity <> 0;
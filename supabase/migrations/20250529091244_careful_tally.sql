@@ -0,0 +1,59 @@
+/*
+  # Stock Counts (stock-take)
+
+  1. New Tables
+    - `stock_counts`
+      - `id` (uuid, primary key)
+      - `count_number` (e.g. SC/2026-27/000004, unique)
+      - `category` (products counted, null for the whole store)
+      - `status` (counting, submitted, posted)
+      - `notes`
+      - `created_by`, `submitted_by`, `approved_by` (references users)
+      - `submitted_at`, `posted_at`, `created_at`, `updated_at` (timestamps)
+    - `stock_count_items`
+      - `count_id` (references stock_counts)
+      - `product_id` (references products), `product_name`
+      - `system_quantity` (products.quantity when the count was entered)
+      - `counted_quantity` (null until counted)
+      - `unit_cost` (cost price when the count was entered, for the cost impact)
+
+  2. Notes
+    - Counts are numbered from `invoice_sequences` under the 'stock_count' series
+    - Posting applies counted - system as a 'count_correction' adjustment in `stock_movements`,
+      so sales made between counting and approval are kept
+*/
+
+USE erp_system;
+
+CREATE TABLE IF NOT EXISTS stock_counts (
+  id VARCHAR(36) PRIMARY KEY,
+  count_number VARCHAR(30) NOT NULL,
+  category VARCHAR(100),
+  status ENUM('counting', 'submitted', 'posted') NOT NULL DEFAULT 'counting',
+  notes TEXT,
+  created_by VARCHAR(36),
+  submitted_by VARCHAR(36),
+  submitted_at TIMESTAMP NULL,
+  approved_by VARCHAR(36),
+  posted_at TIMESTAMP NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_stock_counts_number (count_number),
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+  FOREIGN KEY (submitted_by) REFERENCES users(id) ON DELETE SET NULL,
+  FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS stock_count_items (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  count_id VARCHAR(36) NOT NULL,
+  product_id VARCHAR(36) NOT NULL,
+  product_name VARCHAR(255) NOT NULL,
+  system_quantity INT NOT NULL,
+  counted_quantity INT,
+  unit_cost DECIMAL(12, 2) NOT NULL,
+  UNIQUE KEY uq_stock_count_items_product (count_id, product_id),
+  FOREIGN KEY (count_id) REFERENCES stock_counts(id) ON DELETE CASCADE,
+  FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+  CONSTRAINT chk_stock_count_items_counted CHECK (counted_quantity IS NULL OR counted_quantity >= 0)
+);
@@ -0,0 +1,77 @@
+/*
+  # Inventory Costing
+
+  1. New Tables
+    - `cost_layers`
+      - `product_id` (references products)
+      - `movement_id` (the stock_movements entry that brought the units in)
+      - `quantity_received`, `quantity_remaining`
+      - `unit_cost` (purchase cost, or the cost the units were sold at for returns)
+      - `created_at`
+
+  2. Changes
+    - `store_settings.costing_method` ('fifo' or 'average')
+    - `products.cost_price` now holds the unit cost of the stock on hand and is kept to 4 decimals
+    - `stock_movements.cost_change` (signed value of the movement at cost)
+    - `sale_items.cost_amount`, `sale_return_items.cost_amount` (cost of goods sold, fixed when recorded)
+
+  3. Notes
+    - Outgoing stock always draws layers oldest first so the layers add up to `products.quantity`;
+      FIFO prices it at those layers, weighted average at `products.cost_price`
+    - Stock on hand gets one layer at today's cost price, and existing ledger entries, sale items and
+      return items are valued at today's cost price since their real cost was never recorded
+    - The append-only triggers on `stock_movements` are dropped for the backfill and recreated
+*/
+
+USE erp_system;
+
+ALTER TABLE store_settings ADD COLUMN costing_method ENUM('fifo', 'average') NOT NULL DEFAULT 'fifo' AFTER credit_note_prefix;
+
+ALTER TABLE products MODIFY cost_price DECIMAL(12, 4) NOT NULL DEFAULT 0;
+
+ALTER TABLE stock_movements ADD COLUMN cost_change DECIMAL(12, 2) NOT NULL DEFAULT 0 AFTER quantity_after;
+
+ALTER TABLE sale_items ADD COLUMN cost_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 AFTER igst_amount;
+
+ALTER TABLE sale_return_items ADD COLUMN cost_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 AFTER igst_amount;
+
+CREATE TABLE IF NOT EXISTS cost_layers (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  product_id VARCHAR(36) NOT NULL,
+  movement_id INT,
+  quantity_received INT NOT NULL,
+  quantity_remaining INT NOT NULL,
+  unit_cost DECIMAL(12, 4) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+  CONSTRAINT chk_cost_layers_quantity CHECK (quantity_remaining >= 0 AND quantity_remaining <= quantity_received),
+  CONSTRAINT chk_cost_layers_cost CHECK (unit_cost >= 0)
+);
+
+CREATE INDEX idx_cost_layers_open ON cost_layers (product_id, quantity_remaining);
+
+INSERT INTO cost_layers (product_id, quantity_received, quantity_remaining, unit_cost)
+SELECT id, quantity, quantity, cost_price
+FROM products
+WHERE quantity > 0;
+
+DROP TRIGGER IF EXISTS stock_movements_no_update;
+DROP TRIGGER IF EXISTS stock_movements_no_delete;
+
+UPDATE stock_movements m
+JOIN products p ON p.id = m.product_id
+SET m.cost_change = ROUND(m.quantity_change * p.cost_price, 2);
+
+CREATE TRIGGER stock_movements_no_update BEFORE UPDATE ON stock_movements
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'stock_movements is append-only';
+
+CREATE TRIGGER stock_movements_no_delete BEFORE DELETE ON stock_movements
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'stock_movements is append-only';
+
+UPDATE sale_items si
+JOIN products p ON p.id = si.product_id
+SET si.cost_amount = ROUND(si.quantity * p.cost_price, 2);
+
+UPDATE sale_return_items ri
+JOIN products p ON p.id = ri.product_id
+SET ri.cost_amount = ROUND(ri.quantity * p.cost_price, 2);
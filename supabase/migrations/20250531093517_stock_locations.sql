@@ -0,0 +1,138 @@
+/*
+  # Stock Locations and Transfers
+
+  1. New Tables
+    - `locations`
+      - `id` (uuid, primary key)
+      - `name` (unique, e.g. Shop, Godown)
+      - `address`
+      - `is_default` (where stock goes when no location is given; exactly one location)
+      - `created_at`, `updated_at` (timestamps)
+    - `product_stock`
+      - `product_id` (references products), `location_id` (references locations)
+      - `quantity` (stock on hand at the location)
+      - `threshold` (low stock threshold at the location, null to use `products.threshold`)
+    - `stock_transfers`
+      - `id` (uuid, primary key)
+      - `transfer_number` (e.g. ST/2026-27/000003, unique)
+      - `from_location_id`, `to_location_id` (references locations)
+      - `status` (in_transit, received)
+      - `notes`
+      - `created_by`, `received_by` (references users)
+      - `received_at`, `created_at`, `updated_at` (timestamps)
+    - `stock_transfer_items`
+      - `transfer_id` (references stock_transfers)
+      - `product_id` (references products), `product_name`
+      - `quantity`
+      - `cost_amount` (value of the units at cost when they left, carried to the destination)
+
+  2. Changes
+    - `users.location_id` (where the user works; sales deduct stock there)
+    - `stock_movements.location_id`, `sales.location_id`, `goods_receipts.location_id`,
+      `stock_counts.location_id`
+
+  3. Notes
+    - `products.quantity` stays the total across locations, so the ledger still adds up to it;
+      the ledger entries for one location add up to its `product_stock.quantity`
+    - Transfers are numbered from `invoice_sequences` under the 'stock_transfer' series. Dispatch books
+      the units out of the source location and receipt books them into the destination, so stock in
+      transit is in neither
+    - Existing stock, users and documents are moved to a default 'Main Store' location
+    - The append-only triggers on `stock_movements` are dropped for the backfill and recreated
+*/
+
+USE erp_system;
+
+CREATE TABLE IF NOT EXISTS locations (
+  id VARCHAR(36) PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  address TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_locations_name (name)
+);
+
+CREATE TABLE IF NOT EXISTS product_stock (
+  product_id VARCHAR(36) NOT NULL,
+  location_id VARCHAR(36) NOT NULL,
+  quantity INT NOT NULL DEFAULT 0,
+  threshold INT,
+  PRIMARY KEY (product_id, location_id),
+  FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+  FOREIGN KEY (location_id) REFERENCES locations(id),
+  CONSTRAINT chk_product_stock_quantity CHECK (quantity >= 0),
+  CONSTRAINT chk_product_stock_threshold CHECK (threshold IS NULL OR threshold >= 0)
+);
+
+CREATE TABLE IF NOT EXISTS stock_transfers (
+  id VARCHAR(36) PRIMARY KEY,
+  transfer_number VARCHAR(30) NOT NULL,
+  from_location_id VARCHAR(36) NOT NULL,
+  to_location_id VARCHAR(36) NOT NULL,
+  status ENUM('in_transit', 'received') NOT NULL DEFAULT 'in_transit',
+  notes TEXT,
+  created_by VARCHAR(36),
+  received_by VARCHAR(36),
+  received_at TIMESTAMP NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_stock_transfers_number (transfer_number),
+  FOREIGN KEY (from_location_id) REFERENCES locations(id),
+  FOREIGN KEY (to_location_id) REFERENCES locations(id),
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+  FOREIGN KEY (received_by) REFERENCES users(id) ON DELETE SET NULL,
+  CONSTRAINT chk_stock_transfers_locations CHECK (from_location_id <> to_location_id)
+);
+
+CREATE TABLE IF NOT EXISTS stock_transfer_items (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  transfer_id VARCHAR(36) NOT NULL,
+  product_id VARCHAR(36) NOT NULL,
+  product_name VARCHAR(255) NOT NULL,
+  quantity INT NOT NULL,
+  cost_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  FOREIGN KEY (transfer_id) REFERENCES stock_transfers(id) ON DELETE CASCADE,
+  FOREIGN KEY (product_id) REFERENCES products(id),
+  CONSTRAINT chk_stock_transfer_items_quantity CHECK (quantity > 0)
+);
+
+ALTER TABLE users ADD COLUMN location_id VARCHAR(36) AFTER role,
+  ADD CONSTRAINT fk_users_location FOREIGN KEY (location_id) REFERENCES locations(id) ON DELETE SET NULL;
+
+ALTER TABLE stock_movements ADD COLUMN location_id VARCHAR(36) AFTER product_id;
+
+ALTER TABLE sales ADD COLUMN location_id VARCHAR(36) AFTER invoice_number,
+  ADD CONSTRAINT fk_sales_location FOREIGN KEY (location_id) REFERENCES locations(id);
+
+ALTER TABLE goods_receipts ADD COLUMN location_id VARCHAR(36) AFTER purchase_order_id,
+  ADD CONSTRAINT fk_goods_receipts_location FOREIGN KEY (location_id) REFERENCES locations(id);
+
+ALTER TABLE stock_counts ADD COLUMN location_id VARCHAR(36) AFTER count_number,
+  ADD CONSTRAINT fk_stock_counts_location FOREIGN KEY (location_id) REFERENCES locations(id);
+
+CREATE INDEX idx_stock_movements_location ON stock_movements (location_id, product_id);
+
+INSERT INTO locations (id, name, is_default) VALUES (UUID(), 'Main Store', TRUE);
+
+SET @default_location = (SELECT id FROM locations WHERE is_default LIMIT 1);
+
+INSERT INTO product_stock (product_id, location_id, quantity)
+SELECT id, @default_location, quantity
+FROM products;
+
+UPDATE users SET location_id = @default_location;
+UPDATE sales SET location_id = @default_location;
+UPDATE goods_receipts SET location_id = @default_location;
+UPDATE stock_counts SET location_id = @default_location;
+
+DROP TRIGGER IF EXISTS stock_movements_no_update;
+DROP TRIGGER IF EXISTS stock_movements_no_delete;
+
+UPDATE stock_movements SET location_id = @default_location;
+
+CREATE TRIGGER stock_movements_no_update BEFORE UPDATE ON stock_movements
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'stock_movements is append-only';
+
+CREATE TRIGGER stock_movements_no_delete BEFORE DELETE ON stock_movements
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'stock_movements is append-only';
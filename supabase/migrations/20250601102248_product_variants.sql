@@ -0,0 +1,25 @@
+/*
+  # Product Variants
+
+  1. Changes
+    - `products.parent_id` (references products; set on a variant of a parent product)
+    - `products.sku` (stock keeping unit code, optional)
+    - `products.variant_options` (JSON list of options on a parent, e.g. [{"name": "Size", "values": ["S", "M"]}])
+    - `products.attributes` (JSON object of a variant's option values, e.g. {"Size": "M"})
+
+  2. Notes
+    - A variant is a product of its own with its own price, cost layers, stock, threshold and ledger,
+      so sales, purchases, counts and transfers work on variants unchanged
+    - A parent holds no stock of its own and cannot be sold or ordered; its name, description,
+      category, HSN code, GST rate and image are copied to its variants
+    - Deleting a parent deletes its variants, unless one of them has sales or purchase history
+*/
+
+USE erp_system;
+
+ALTER TABLE products
+  ADD COLUMN parent_id VARCHAR(36) NULL AFTER id,
+  ADD COLUMN sku VARCHAR(64) NULL AFTER name,
+  ADD COLUMN variant_options JSON NULL AFTER image_url,
+  ADD COLUMN attributes JSON NULL AFTER variant_options,
+  ADD CONSTRAINT fk_products_parent FOREIGN KEY (parent_id) REFERENCES products(id) ON DELETE CASCADE;
@@ -0,0 +1,32 @@
+/*
+  # Product Barcodes
+
+  1. Changes
+    - `products.barcode` (EAN-8, UPC-A, EAN-13 or GTIN-14 printed on the packaging, optional)
+    - Unique keys on `products.sku` and `products.barcode`, so a scanned code finds one product
+
+  2. Notes
+    - SKUs entered twice before this migration are kept on one of the products and cleared on the others
+    - Products without a barcode of their own can be labelled with their SKU, see BarcodeLabels
+    - Parent products are never scanned; their variants carry the codes
+*/
+
+USE erp_system;
+
+ALTER TABLE products
+  ADD COLUMN barcode VARCHAR(14) NULL AFTER sku;
+
+UPDATE products p
+JOIN (
+  SELECT sku, MIN(id) AS kept_id
+  FROM products
+  WHERE sku IS NOT NULL
+  GROUP BY sku
+  HAVING COUNT(*) > 1
+) duplicates ON duplicates.sku = p.sku
+SET p.sku = NULL
+WHERE p.id <> duplicates.kept_id;
+
+ALTER TABLE products
+  ADD UNIQUE KEY uq_products_sku (sku),
+  ADD UNIQUE KEY uq_products_barcode (barcode);
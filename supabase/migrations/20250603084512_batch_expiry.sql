@@ -0,0 +1,60 @@
+/*
+  # Batches and Expiry
+
+  1. New Tables
+    - `stock_batches`
+      - `id` (auto increment, primary key)
+      - `product_id` (references products), `location_id` (references locations)
+      - `lot_number` (the supplier's lot or batch number; empty for units received without one)
+      - `manufactured_on`, `expires_on` (dates, optional)
+      - `quantity` (units of the lot on hand at the location)
+      - `created_at` (timestamp)
+    - `batch_movements`
+      - `movement_id` (references stock_movements), `batch_id` (references stock_batches)
+      - `quantity` (signed share of the ledger entry taken from or put into the batch)
+
+  2. Changes
+    - `products.tracks_batches` (stock is kept in lots with an expiry date)
+    - `store_settings.expiry_alert_days` (how many days ahead of expiry to warn, default 30)
+
+  3. Notes
+    - A tracked product's batches at a location add up to its `product_stock.quantity`
+    - Stock going out of a tracked product is taken from the batch that expires first; batches
+      without an expiry date go last
+    - Transfers and sales returns put units back into the lots they were taken from
+    - Stock a product already holds when tracking is turned on goes into a batch without a lot number
+*/
+
+USE erp_system;
+
+ALTER TABLE products ADD COLUMN tracks_batches BOOLEAN NOT NULL DEFAULT FALSE AFTER threshold;
+
+ALTER TABLE store_settings ADD COLUMN expiry_alert_days INT NOT NULL DEFAULT 30 AFTER costing_method;
+
+CREATE TABLE IF NOT EXISTS stock_batches (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  product_id VARCHAR(36) NOT NULL,
+  location_id VARCHAR(36) NOT NULL,
+  lot_number VARCHAR(64) NOT NULL DEFAULT '',
+  manufactured_on DATE,
+  expires_on DATE,
+  quantity INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_stock_batches_lot (product_id, location_id, lot_number),
+  FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+  FOREIGN KEY (location_id) REFERENCES locations(id),
+  CONSTRAINT chk_stock_batches_quantity CHECK (quantity >= 0),
+  CONSTRAINT chk_stock_batches_dates CHECK (manufactured_on IS NULL OR expires_on IS NULL OR manufactured_on <= expires_on)
+);
+
+CREATE INDEX idx_stock_batches_expiry ON stock_batches (expires_on);
+
+CREATE TABLE IF NOT EXISTS batch_movements (
+  movement_id INT NOT NULL,
+  batch_id INT NOT NULL,
+  quantity INT NOT NULL,
+  PRIMARY KEY (movement_id, batch_id),
+  FOREIGN KEY (movement_id) REFERENCES stock_movements(id),
+  FOREIGN KEY (batch_id) REFERENCES stock_batches(id) ON DELETE CASCADE,
+  CONSTRAINT chk_batch_movements_quantity CHECK (quantity <> 0)
+);
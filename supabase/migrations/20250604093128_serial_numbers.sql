@@ -0,0 +1,70 @@
+/*
+  # Serial Numbers and Warranty
+
+  1. New Tables
+    - `product_serials`
+      - `id` (auto increment, primary key)
+      - `product_id` (references products)
+      - `serial_number` (as printed on the unit)
+      - `status` (in_stock, sold or written_off)
+      - `receipt_id` (references goods_receipts; empty for units stocked before the product was serialized
+        or added by an adjustment)
+      - `location_id` (references locations; where the unit is, or was when it was sold or written off;
+        empty while it is in transit)
+      - `transfer_id` (references stock_transfers while the unit is on its way to another location)
+      - `created_at` (timestamp)
+    - `sale_item_serials`
+      - `sale_item_id` (references sale_items), `serial_id` (references product_serials)
+      - `warranty_ends_on` (date, empty for products sold without a warranty)
+      - `return_id` (references sale_returns once the unit comes back)
+
+  2. Changes
+    - `products.tracks_serials` (each unit is received and sold by its serial number)
+    - `products.warranty_months` (manufacturer's warranty from the day of sale, 0 for none)
+
+  3. Notes
+    - A serial number is on file once per product, so it can only be sold while it is in stock
+    - Units are sold, written off and sent on transfers only from the location that holds them
+    - Units already in stock when a product is serialized get their serial number recorded when they are sold
+    - Stock adjustments and count corrections of a serialized product name the units they add or remove;
+      removed units are written off and can only come back through another adjustment
+    - The warranty end is fixed at the time of sale; changing the product's warranty later does not move it
+    - Returned units go back in stock and can be sold again; every sale of the serial stays on file
+*/
+
+USE erp_system;
+
+ALTER TABLE products
+  ADD COLUMN tracks_serials BOOLEAN NOT NULL DEFAULT FALSE AFTER tracks_batches,
+  ADD COLUMN warranty_months INT NOT NULL DEFAULT 0 AFTER tracks_serials,
+  ADD CONSTRAINT chk_products_warranty CHECK (warranty_months >= 0);
+
+CREATE TABLE IF NOT EXISTS product_serials (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  product_id VARCHAR(36) NOT NULL,
+  serial_number VARCHAR(64) NOT NULL,
+  status ENUM('in_stock', 'sold', 'written_off') NOT NULL DEFAULT 'in_stock',
+  receipt_id VARCHAR(36),
+  location_id VARCHAR(36),
+  transfer_id VARCHAR(36),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_product_serials (product_id, serial_number),
+  FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+  FOREIGN KEY (receipt_id) REFERENCES goods_receipts(id),
+  FOREIGN KEY (location_id) REFERENCES locations(id) ON DELETE SET NULL,
+  FOREIGN KEY (transfer_id) REFERENCES stock_transfers(id)
+);
+
+-- Warranty lookups search by the serial number alone
+CREATE INDEX idx_product_serials_number ON product_serials (serial_number);
+
+CREATE TABLE IF NOT EXISTS sale_item_serials (
+  sale_item_id INT NOT NULL,
+  serial_id INT NOT NULL,
+  warranty_ends_on DATE,
+  return_id VARCHAR(36),
+  PRIMARY KEY (sale_item_id, serial_id),
+  FOREIGN KEY (sale_item_id) REFERENCES sale_items(id) ON DELETE CASCADE,
+  FOREIGN KEY (serial_id) REFERENCES product_serials(id),
+  FOREIGN KEY (return_id) REFERENCES sale_returns(id)
+);
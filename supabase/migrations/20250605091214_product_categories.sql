@@ -0,0 +1,55 @@
+/*
+  # Product Categories
+
+  1. New Tables
+    - `categories`
+      - `id` (uuid, primary key)
+      - `name` (unique among the categories under the same parent)
+      - `parent_id` (references categories; empty for a top-level category)
+      - `gst_rate` (GST rate suggested for new products in the category, percent; optional)
+      - `threshold` (low stock threshold suggested for new products in the category; optional)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Changes
+    - `products.category_id` (references categories) replaces the free-text `products.category`
+
+  3. Notes
+    - Every category name products were saved under becomes a top-level category; names that only
+      differ in case or surrounding spaces become one category
+    - A subcategory without a GST rate or threshold of its own takes the nearest parent's
+    - A category with products or subcategories cannot be deleted
+    - `stock_counts.category` keeps the name of the category counted, as it was when the count started
+*/
+
+USE erp_system;
+
+CREATE TABLE IF NOT EXISTS categories (
+  id VARCHAR(36) PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  parent_id VARCHAR(36),
+  gst_rate DECIMAL(5, 2),
+  threshold INT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_categories_name (parent_id, name),
+  FOREIGN KEY (parent_id) REFERENCES categories(id),
+  CONSTRAINT chk_categories_threshold CHECK (threshold IS NULL OR threshold >= 0)
+);
+
+INSERT INTO categories (id, name)
+SELECT UUID(), MIN(TRIM(category))
+FROM products
+GROUP BY TRIM(category);
+
+ALTER TABLE products ADD COLUMN category_id VARCHAR(36) AFTER description;
+
+UPDATE products p
+JOIN categories c ON c.parent_id IS NULL AND c.name = TRIM(p.category)
+SET p.category_id = c.id;
+
+DROP INDEX idx_products_category ON products;
+
+ALTER TABLE products
+  DROP COLUMN category,
+  MODIFY category_id VARCHAR(36) NOT NULL,
+  ADD CONSTRAINT fk_products_category FOREIGN KEY (category_id) REFERENCES categories(id);